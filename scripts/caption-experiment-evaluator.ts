@@ -0,0 +1,26 @@
+#!/usr/bin/env tsx
+// Caption Experiment Evaluator
+// Promotes the winners of running caption experiments into the template library
+
+// Imported through the '@/' alias so tsconfig.server.json can swap in the service-role client
+import { supabase } from '@/integrations/supabase/client'
+import { assertServiceClient } from '@/integrations/supabase/service-client'
+import { CaptionExperimentEvaluator } from '../src/services/caption-experiment-evaluator'
+
+assertServiceClient(supabase, 'Caption experiment evaluator')
+
+const evaluator = new CaptionExperimentEvaluator({
+  intervalMs: process.env.CAPTION_EXPERIMENT_INTERVAL_MS ? parseInt(process.env.CAPTION_EXPERIMENT_INTERVAL_MS, 10) : undefined
+})
+
+async function shutdown(signal: string) {
+  console.log(`\n🛑 Received ${signal}, finishing current evaluation...`)
+  await evaluator.stop()
+  process.exit(0)
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'))
+process.on('SIGTERM', () => shutdown('SIGTERM'))
+
+console.log('🧪 Starting caption experiment evaluator...')
+evaluator.start()
@@ -13,36 +13,7 @@ async function generateMCPWorkflowJSON() {
     const workflowConfig = await mcpWorkflowService.createContentProcessingWorkflow()
     
     // Create N8N importable format
-    const n8nWorkflow = {
-      name: workflowConfig.name,
-      nodes: workflowConfig.nodes.map(node => ({
-        id: node.id,
-        name: node.name,
-        type: node.type,
-        typeVersion: 1,
-        position: node.position,
-        parameters: node.parameters,
-        ...(node.notes && { notes: node.notes })
-      })),
-      connections: workflowConfig.connections.reduce((acc, conn) => {
-        if (!acc[conn.source]) {
-          acc[conn.source] = {}
-        }
-        if (!acc[conn.source][conn.sourceOutput]) {
-          acc[conn.source][conn.sourceOutput] = []
-        }
-        acc[conn.source][conn.sourceOutput].push({
-          node: conn.destination,
-          type: 'main',
-          index: 0
-        })
-        return acc
-      }, {} as any),
-      settings: {},
-      staticData: null,
-      tags: ['mcp-enhanced', 'content-pipeline'],
-      meta: {}
-    }
+    const n8nWorkflow = mcpWorkflowService.exportWorkflow(workflowConfig)
     
     // Save to file
     const filename = 'mcp-enhanced-workflow.json'
@@ -62,7 +33,7 @@ async function generateMCPWorkflowJSON() {
     console.log('   • Advanced notification system')
     
     console.log('\n📋 Import Instructions:')
-    console.log('1. Open https://lifemastery.app.n8n.cloud')
+    console.log(`1. Open ${mcpWorkflowService.getInstanceUrl()}`)
     console.log('2. Click "+" to create new workflow')
     console.log('3. Click the "..." menu → "Import from file"')
     console.log(`4. Select the file: ${filename}`)
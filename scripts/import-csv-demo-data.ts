@@ -214,6 +214,9 @@ async function insertAssets(assets: AssetData[]): Promise<void> {
           if (asset.engagement_metrics && data[index]) {
             await insertEngagementMetrics(data[index].id, asset.engagement_metrics)
           }
+          if (data[index]) {
+            await insertAssetHashtags(data[index].id, asset.metadata.captions)
+          }
         }
       }
     } catch (error) {
@@ -252,6 +255,30 @@ async function insertEngagementMetrics(assetId: string, metrics: Record<string,
   }
 }
 
+/**
+ * Record the hashtags of the imported IG/TT captions so the hashtag library can join them to metrics
+ */
+async function insertAssetHashtags(assetId: string, captions: Record<string, string | undefined>): Promise<void> {
+  const rows = (['instagram', 'tiktok'] as const).flatMap(platform => {
+    const tags = (captions[platform] || '').match(/#[\p{L}\p{N}_]+/gu) || []
+    return [...new Set(tags.map(tag => tag.substring(1).toLowerCase()))]
+      .map(tag => ({ asset_id: assetId, tag, platform, source: 'import' }))
+  })
+  if (rows.length === 0) return
+
+  try {
+    const { error } = await supabase
+      .from('asset_hashtags')
+      .upsert(rows, { onConflict: 'asset_id,tag,platform', ignoreDuplicates: true })
+
+    if (error) {
+      console.warn(`⚠️ Failed to record hashtags for asset ${assetId}:`, error)
+    }
+  } catch (error) {
+    console.warn(`⚠️ Error recording hashtags for asset ${assetId}:`, error)
+  }
+}
+
 /**
  * Clear existing demo data
  */
@@ -22,32 +22,8 @@ async function deployViaMCP() {
     
     // Create the workflow JSON for MCP deployment
     const mcpWorkflow = {
-      name: workflowConfig.name,
-      description: workflowConfig.description,
-      nodes: workflowConfig.nodes.map(node => ({
-        id: node.id,
-        name: node.name,
-        type: node.type,
-        typeVersion: 1,
-        position: node.position,
-        parameters: node.parameters
-      })),
-      connections: workflowConfig.connections.reduce((acc, conn) => {
-        if (!acc[conn.source]) {
-          acc[conn.source] = {}
-        }
-        if (!acc[conn.source][conn.sourceOutput]) {
-          acc[conn.source][conn.sourceOutput] = []
-        }
-        acc[conn.source][conn.sourceOutput].push({
-          node: conn.destination,
-          type: 'main',
-          index: 0
-        })
-        return acc
-      }, {} as any),
-      settings: {},
-      tags: ['mcp-enhanced', 'content-pipeline']
+      ...mcpWorkflowService.exportWorkflow(workflowConfig),
+      description: workflowConfig.description
     }
     
     // Step 3: Execute MCP deployment command in Docker
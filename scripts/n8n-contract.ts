@@ -0,0 +1,66 @@
+#!/usr/bin/env tsx
+// N8N Payload Contract Check
+// Validates the example payloads against the contract and writes them out for building the n8n workflows
+
+import * as fs from 'fs'
+import * as path from 'path'
+import {
+  formatContractIssues,
+  parseWebhookResponse,
+  parseWorkflowCallback,
+  validateWorkflowTrigger,
+  type ContractResult
+} from '../src/integrations/n8n/contract'
+import {
+  CONTRACT_COUNTEREXAMPLES,
+  CONTRACT_EXAMPLES,
+  type ContractExample
+} from '../src/integrations/n8n/contract-examples'
+
+const OUTPUT_DIR = path.join('docs', 'n8n-contract')
+
+const PARSERS: Record<ContractExample['message'], (payload: unknown) => ContractResult<unknown>> = {
+  workflow_trigger: validateWorkflowTrigger,
+  webhook_response: parseWebhookResponse,
+  workflow_callback: parseWorkflowCallback
+}
+
+let failures = 0
+
+for (const example of CONTRACT_EXAMPLES) {
+  const result = PARSERS[example.message](example.payload)
+  if (!result.success) {
+    failures++
+    console.error(`❌ ${example.name} was rejected: ${formatContractIssues(result.issues)}`)
+  } else if (result.schemaVersion !== example.schemaVersion) {
+    failures++
+    console.error(`❌ ${example.name} parsed as version ${result.schemaVersion}, expected ${example.schemaVersion}`)
+  } else {
+    console.log(`✅ ${example.name}`)
+  }
+}
+
+for (const counterexample of CONTRACT_COUNTEREXAMPLES) {
+  const result = PARSERS[counterexample.message](counterexample.payload)
+  if (result.success) {
+    failures++
+    console.error(`❌ ${counterexample.name} was accepted`)
+  } else if (!result.issues.some(issue => issue.path === counterexample.issuePath)) {
+    failures++
+    console.error(`❌ ${counterexample.name} was rejected for the wrong reason: ${formatContractIssues(result.issues)}`)
+  } else {
+    console.log(`✅ ${counterexample.name} rejected at ${counterexample.issuePath}`)
+  }
+}
+
+if (failures > 0) {
+  console.error(`\n${failures} contract check(s) failed`)
+  process.exit(1)
+}
+
+fs.mkdirSync(OUTPUT_DIR, { recursive: true })
+for (const example of CONTRACT_EXAMPLES) {
+  fs.writeFileSync(path.join(OUTPUT_DIR, `${example.name}.json`), JSON.stringify(example.payload, null, 2) + '\n')
+}
+
+console.log(`\n📁 Wrote ${CONTRACT_EXAMPLES.length} example payloads to ${OUTPUT_DIR}`)
@@ -0,0 +1,28 @@
+#!/usr/bin/env tsx
+// Publish Queue Worker
+// Runs the headless publish_queue drainer until interrupted
+
+// Imported through the '@/' alias so tsconfig.server.json can swap in the service-role client
+import { supabase } from '@/integrations/supabase/client'
+import { assertServiceClient } from '@/integrations/supabase/service-client'
+import { PublishQueueWorker } from '../src/services/publish-queue-worker'
+
+assertServiceClient(supabase, 'Publish queue worker')
+
+const worker = new PublishQueueWorker({
+  workerId: process.env.PUBLISH_WORKER_ID,
+  batchSize: process.env.PUBLISH_WORKER_BATCH_SIZE ? parseInt(process.env.PUBLISH_WORKER_BATCH_SIZE, 10) : undefined,
+  pollIntervalMs: process.env.PUBLISH_WORKER_POLL_MS ? parseInt(process.env.PUBLISH_WORKER_POLL_MS, 10) : undefined
+})
+
+async function shutdown(signal: string) {
+  console.log(`\n🛑 Received ${signal}, finishing in-flight jobs...`)
+  await worker.stop()
+  process.exit(0)
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'))
+process.on('SIGTERM', () => shutdown('SIGTERM'))
+
+console.log('🚀 Starting publish queue worker...')
+worker.start()
@@ -0,0 +1,27 @@
+#!/usr/bin/env tsx
+// Account Token Refresher
+// Refreshes platform tokens before they expire and flags accounts that need reconnecting
+
+// Imported through the '@/' alias so tsconfig.server.json can swap in the service-role client
+import { supabase } from '@/integrations/supabase/client'
+import { assertServiceClient } from '@/integrations/supabase/service-client'
+import { TokenRefresher } from '../src/services/token-refresher'
+
+assertServiceClient(supabase, 'Token refresher')
+
+const refresher = new TokenRefresher({
+  intervalMs: process.env.TOKEN_REFRESH_INTERVAL_MS ? parseInt(process.env.TOKEN_REFRESH_INTERVAL_MS, 10) : undefined,
+  expiryWarningHours: process.env.TOKEN_EXPIRY_WARNING_HOURS ? parseInt(process.env.TOKEN_EXPIRY_WARNING_HOURS, 10) : undefined
+})
+
+async function shutdown(signal: string) {
+  console.log(`\n🛑 Received ${signal}, finishing current sweep...`)
+  await refresher.stop()
+  process.exit(0)
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'))
+process.on('SIGTERM', () => shutdown('SIGTERM'))
+
+console.log('🔑 Starting account token refresher...')
+refresher.start()
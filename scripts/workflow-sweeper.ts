@@ -0,0 +1,27 @@
+#!/usr/bin/env tsx
+// Workflow Sweeper
+// Times out workflow executions n8n never called back about and releases their assets
+
+// Imported through the '@/' alias so tsconfig.server.json can swap in the service-role client
+import { supabase } from '@/integrations/supabase/client'
+import { assertServiceClient } from '@/integrations/supabase/service-client'
+import { WorkflowSweeper } from '../src/services/workflow-sweeper'
+
+assertServiceClient(supabase, 'Workflow sweeper')
+
+const sweeper = new WorkflowSweeper({
+  intervalMs: process.env.WORKFLOW_SWEEP_INTERVAL_MS ? parseInt(process.env.WORKFLOW_SWEEP_INTERVAL_MS, 10) : undefined,
+  batchSize: process.env.WORKFLOW_SWEEP_BATCH_SIZE ? parseInt(process.env.WORKFLOW_SWEEP_BATCH_SIZE, 10) : undefined
+})
+
+async function shutdown(signal: string) {
+  console.log(`\n🛑 Received ${signal}, finishing current sweep...`)
+  await sweeper.stop()
+  process.exit(0)
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'))
+process.on('SIGTERM', () => shutdown('SIGTERM'))
+
+console.log('⏱️ Starting workflow sweeper...')
+sweeper.start()
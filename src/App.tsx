@@ -14,6 +14,7 @@ import ContentDashboard from "./pages/content-engine/ContentDashboard";
 import AssetsPage from "./pages/content-engine/AssetsPage";
 import ContentManagementPage from "./pages/content-engine/ContentManagementPage";
 import MCPWorkflowPage from "./pages/content-engine/MCPWorkflowPage";
+import AccountsPage from "./pages/content-engine/AccountsPage";
 import UploadPage from "./pages/Upload";
 import Console from "./pages/Console";
 
@@ -45,7 +46,7 @@ const App = () => {
               <Route path="/content/manage" element={<ContentManagementPage />} />
               <Route path="/content/mcp-workflow" element={<MCPWorkflowPage />} />
               <Route path="/content/queue" element={<ContentDashboard />} />
-              <Route path="/content/accounts" element={<ContentDashboard />} />
+              <Route path="/content/accounts" element={<AccountsPage />} />
               <Route path="/content/analytics" element={<ContentDashboard />} />
               <Route path="/content/workflows" element={<ContentDashboard />} />
               <Route path="/content/scheduling" element={<ContentDashboard />} />
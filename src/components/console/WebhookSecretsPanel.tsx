@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { KeyRound, RefreshCw, Copy, Clock, History } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type {
+  WebhookLogEventType,
+  WebhookSecretAuditDetails,
+  WebhookSecretRotation
+} from "@/integrations/supabase/types-enhanced";
+
+interface WebhookSecretSummary {
+  id: string;
+  workflow_type: string | null;
+  name: string | null;
+  secret_version: number;
+  secret_rotated_at: string | null;
+  previous_secret_expires_at: string | null;
+}
+
+interface SecretAuditEntry {
+  id: string;
+  webhook_config_id: string | null;
+  event_type: Exclude<WebhookLogEventType, 'request'>;
+  performed_by: string | null;
+  details: WebhookSecretAuditDetails;
+  created_at: string;
+}
+
+const DEFAULT_GRACE_MINUTES = 60;
+
+const AUDIT_LABELS: Record<SecretAuditEntry['event_type'], string> = {
+  secret_issued: "Issued",
+  secret_rotated: "Rotated",
+  secret_retired: "Retired"
+};
+
+export default function WebhookSecretsPanel() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [graceMinutes, setGraceMinutes] = useState(DEFAULT_GRACE_MINUTES);
+  const [issued, setIssued] = useState<{ configId: string; rotation: WebhookSecretRotation } | null>(null);
+
+  const { data: configs, isLoading } = useQuery({
+    queryKey: ['webhook-secrets'],
+    queryFn: async (): Promise<WebhookSecretSummary[]> => {
+      const { data, error } = await supabase
+        .from('webhook_configs')
+        .select('id, workflow_type, name, secret_version, secret_rotated_at, previous_secret_expires_at')
+        .eq('active', true)
+        .order('workflow_type');
+
+      if (error) throw error;
+      return (data || []) as unknown as WebhookSecretSummary[];
+    }
+  });
+
+  const { data: audit } = useQuery({
+    queryKey: ['webhook-secret-audit'],
+    queryFn: async (): Promise<SecretAuditEntry[]> => {
+      const { data, error } = await supabase
+        .from('webhook_request_logs')
+        .select('id, webhook_config_id, event_type, performed_by, details, created_at')
+        .neq('event_type', 'request')
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+      return (data || []) as unknown as SecretAuditEntry[];
+    }
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (configId: string) => {
+      const { data, error } = await supabase.rpc('rotate_webhook_secret', {
+        config_uuid: configId,
+        grace_minutes: graceMinutes
+      });
+
+      if (error) throw error;
+      const rotation = (data as unknown as WebhookSecretRotation[] | null)?.[0];
+      if (!rotation) throw new Error("No secret was returned");
+      return { configId, rotation };
+    },
+    onSuccess: (result) => {
+      setIssued(result);
+      queryClient.invalidateQueries({ queryKey: ['webhook-secrets'] });
+      queryClient.invalidateQueries({ queryKey: ['webhook-secret-audit'] });
+      toast({
+        title: `Secret rotated to version ${result.rotation.version}`,
+        description: result.rotation.grace_ends_at
+          ? `The previous secret is accepted until ${new Date(result.rotation.grace_ends_at).toLocaleString()}`
+          : "The previous secret was retired immediately"
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Rotation failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const copySecret = async (secret: string) => {
+    await navigator.clipboard.writeText(secret);
+    toast({ title: "Secret copied", description: "Update the n8n credential before the grace period ends." });
+  };
+
+  const configLabel = (configId: string | null) => {
+    const config = configs?.find(c => c.id === configId);
+    return config?.workflow_type || config?.name || configId?.slice(0, 8) || "unknown";
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Webhook Secrets
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {issued && (
+          <Alert>
+            <KeyRound className="h-4 w-4" />
+            <AlertTitle>New secret for {configLabel(issued.configId)}</AlertTitle>
+            <AlertDescription className="space-y-2">
+              <p>This secret is shown once. Copy it into the n8n workflow credential now.</p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 break-all rounded bg-muted px-2 py-1 text-xs">{issued.rotation.secret}</code>
+                <Button size="sm" variant="outline" onClick={() => copySecret(issued.rotation.secret)}>
+                  <Copy className="mr-1 h-3 w-3" />
+                  Copy
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setIssued(null)}>
+                  Done
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="grace-minutes">Grace period (minutes)</Label>
+            <Input
+              id="grace-minutes"
+              type="number"
+              min={0}
+              className="w-40"
+              value={graceMinutes}
+              onChange={(e) => setGraceMinutes(Math.max(0, parseInt(e.target.value, 10) || 0))}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground pb-2">
+            The old secret keeps validating for this long. Use 0 to retire it immediately after a leak.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading webhook configurations...</p>
+        ) : !configs?.length ? (
+          <p className="text-sm text-muted-foreground">No active webhook configurations.</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {configs.map(config => {
+              const inGrace = config.previous_secret_expires_at && new Date(config.previous_secret_expires_at) > new Date();
+              return (
+                <div key={config.id} className="flex items-center justify-between p-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{config.workflow_type || config.name}</span>
+                      <Badge variant="outline">v{config.secret_version}</Badge>
+                      {inGrace && (
+                        <Badge className="bg-yellow-100 text-yellow-800">
+                          <Clock className="mr-1 h-3 w-3" />
+                          Previous secret until {new Date(config.previous_secret_expires_at!).toLocaleString()}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {config.secret_rotated_at
+                        ? `Last rotated ${new Date(config.secret_rotated_at).toLocaleString()}`
+                        : "Never rotated"}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={rotateMutation.isPending}
+                    onClick={() => rotateMutation.mutate(config.id)}
+                  >
+                    <RefreshCw className="mr-1 h-3 w-3" />
+                    Rotate
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h3 className="flex items-center gap-2 text-sm font-medium">
+            <History className="h-4 w-4" />
+            Rotation History
+          </h3>
+          {!audit?.length ? (
+            <p className="text-sm text-muted-foreground">No secret changes recorded yet.</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {audit.map(entry => (
+                <li key={entry.id} className="flex items-center gap-2">
+                  <Badge variant="secondary">{AUDIT_LABELS[entry.event_type]}</Badge>
+                  <span>{configLabel(entry.webhook_config_id)}</span>
+                  <span className="text-muted-foreground">v{entry.details.secret_version}</span>
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {new Date(entry.created_at).toLocaleString()}
+                    {entry.performed_by ? "" : " (automatic)"}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -24,13 +24,22 @@ import {
   Linkedin,
   MessageCircle,
   Copy,
-  RefreshCw
+  RefreshCw,
+  ShieldCheck,
+  CheckCircle2,
+  XCircle,
+  AlertTriangle,
+  MinusCircle,
+  Lock,
+  Unlock
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { captionRenderer } from "@/services/caption-renderer";
-import type { Tables, Platform } from "@/integrations/supabase/types-enhanced";
+import { assetManagementService } from "@/services/asset-management";
+import { CaptionExperiments } from "./CaptionExperiments";
+import type { Tables, Platform, PreflightReport, PreflightCheckStatus } from "@/integrations/supabase/types-enhanced";
 
 interface AssetPreviewProps {
   assetId: string | null;
@@ -119,8 +128,13 @@ export default function AssetPreview({ assetId, isOpen, onClose, onPublish }: As
     mutationFn: async (platform: Platform) => {
       if (!asset) throw new Error('No asset data');
 
-      const suggestions = await captionRenderer.generateSuggestions(asset, platform, 1);
-      return suggestions[0]?.text || '';
+      // Render in the language of the account this asset posts to on the platform
+      const destination = asset.asset_destinations.find(dest => dest.accounts?.platform === platform);
+      const suggestions = await captionRenderer.generateSuggestions(asset, platform, 1, {
+        destinationId: destination?.id
+      });
+      // The platform-fitted text is what would be published
+      return suggestions[0]?.platformSpecific[platform]?.text || suggestions[0]?.text || '';
     },
     onSuccess: (caption) => {
       setGeneratedCaption(caption);
@@ -141,6 +155,40 @@ export default function AssetPreview({ assetId, isOpen, onClose, onPublish }: As
     });
   };
 
+  // Locked captions are published verbatim; regeneration never replaces them
+  const destinationIds = asset?.asset_destinations.map(dest => dest.id) || [];
+  const { data: lockedCaptions = {} } = useQuery({
+    queryKey: ['locked-captions', assetId, destinationIds],
+    queryFn: () => captionRenderer.getLockedCaptions(destinationIds),
+    enabled: destinationIds.length > 0 && isOpen
+  });
+
+  const lockCaptionMutation = useMutation({
+    mutationFn: async ({ destinationId, text }: { destinationId: string; text: string }) =>
+      captionRenderer.lockCaption(destinationId, text),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['locked-captions', assetId] });
+    }
+  });
+
+  const unlockCaptionMutation = useMutation({
+    mutationFn: async (destinationId: string) => captionRenderer.unlockCaption(destinationId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['locked-captions', assetId] });
+    }
+  });
+
+  // Run preflight checks mutation
+  const preflightMutation = useMutation({
+    mutationFn: async () => {
+      if (!assetId) throw new Error('No asset ID');
+      return assetManagementService.validateAssetForPublishing(assetId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['asset', assetId] });
+    }
+  });
+
   const handleGenerateCaption = () => {
     generateCaptionMutation.mutate(selectedPlatform);
   };
@@ -174,12 +222,40 @@ export default function AssetPreview({ assetId, isOpen, onClose, onPublish }: As
     }
   };
 
+  const getCheckIcon = (status: PreflightCheckStatus) => {
+    switch (status) {
+      case 'passed':
+        return <CheckCircle2 className="h-4 w-4 text-green-600" />;
+      case 'failed':
+        return <XCircle className="h-4 w-4 text-red-600" />;
+      case 'warning':
+        return <AlertTriangle className="h-4 w-4 text-yellow-600" />;
+      default:
+        return <MinusCircle className="h-4 w-4 text-muted-foreground" />;
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString();
   };
 
   const mediaUrls = asset?.metadata?.files as string[] || [];
 
+  // Older assets stored a flat map of booleans; only show full reports
+  const preflightReport = Array.isArray((asset?.preflight_checks as unknown as PreflightReport)?.checks)
+    ? asset!.preflight_checks as unknown as PreflightReport
+    : null;
+
+  const preflightGroups = (preflightReport?.checks || []).reduce((groups, check) => {
+    const destination = asset?.asset_destinations.find(dest => dest.id === check.destination_id);
+    const key = destination
+      ? `${destination.accounts.platform} · @${destination.accounts.account_handle}`
+      : 'Asset';
+    groups[key] = groups[key] || [];
+    groups[key].push(check);
+    return groups;
+  }, {} as Record<string, PreflightReport['checks']>);
+
   if (!isOpen || !assetId) return null;
 
   return (
@@ -361,6 +437,7 @@ export default function AssetPreview({ assetId, isOpen, onClose, onPublish }: As
             <Tabs defaultValue="destinations" className="w-full">
               <TabsList>
                 <TabsTrigger value="destinations">Destinations</TabsTrigger>
+                <TabsTrigger value="preflight">Preflight</TabsTrigger>
                 <TabsTrigger value="captions">Captions</TabsTrigger>
                 <TabsTrigger value="schedule">Schedule</TabsTrigger>
               </TabsList>
@@ -397,6 +474,65 @@ export default function AssetPreview({ assetId, isOpen, onClose, onPublish }: As
                 </Card>
               </TabsContent>
 
+              <TabsContent value="preflight" className="space-y-4">
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="text-sm flex items-center space-x-2">
+                        <ShieldCheck className="h-4 w-4" />
+                        <span>Preflight Checks</span>
+                        {preflightReport && (
+                          <Badge className={cn("text-xs font-medium", preflightReport.passed ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800")}>
+                            {preflightReport.passed ? "Passed" : "Failed"}
+                          </Badge>
+                        )}
+                      </CardTitle>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => preflightMutation.mutate()}
+                        disabled={preflightMutation.isPending}
+                      >
+                        <RefreshCw className={cn("mr-2 h-3 w-3", preflightMutation.isPending && "animate-spin")} />
+                        Run Checks
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {preflightMutation.error && (
+                      <p className="text-xs text-red-500">
+                        {preflightMutation.error instanceof Error ? preflightMutation.error.message : 'Preflight failed to run'}
+                      </p>
+                    )}
+                    {preflightReport ? (
+                      <>
+                        <p className="text-xs text-muted-foreground">
+                          Last run: {formatDate(preflightReport.checked_at)}
+                        </p>
+                        {Object.entries(preflightGroups).map(([group, checks]) => (
+                          <div key={group} className="space-y-2">
+                            <Label className="text-xs capitalize">{group}</Label>
+                            {checks.map((check, index) => (
+                              <div key={`${check.check}-${index}`} className="flex items-start space-x-2 text-sm">
+                                {getCheckIcon(check.status)}
+                                <div>
+                                  <p className="font-medium">{check.check.replace(/_/g, ' ')}</p>
+                                  <p className="text-xs text-muted-foreground">{check.message}</p>
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        ))}
+                      </>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        Preflight has not run yet. Checks run automatically when the asset is marked ready.
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
               <TabsContent value="captions" className="space-y-4">
                 <Card>
                   <CardHeader>
@@ -432,22 +568,104 @@ export default function AssetPreview({ assetId, isOpen, onClose, onPublish }: As
                     
                     {generatedCaption && (
                       <div className="space-y-2">
-                        <Label className="text-xs">Generated Caption:</Label>
-                        <div className="p-3 bg-muted rounded-lg">
-                          <p className="text-sm whitespace-pre-wrap">{generatedCaption}</p>
+                        <Label className="text-xs">Generated Caption (edit before locking):</Label>
+                        <Textarea
+                          value={generatedCaption}
+                          onChange={(e) => setGeneratedCaption(e.target.value)}
+                          rows={6}
+                          className="text-sm"
+                        />
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => navigator.clipboard.writeText(generatedCaption)}
+                          >
+                            <Copy className="mr-2 h-3 w-3" />
+                            Copy
+                          </Button>
+                          {asset.asset_destinations
+                            .filter(dest => dest.accounts?.platform === selectedPlatform)
+                            .map(dest => (
+                              <Button
+                                key={dest.id}
+                                variant="outline"
+                                size="sm"
+                                onClick={() => lockCaptionMutation.mutate({ destinationId: dest.id, text: generatedCaption })}
+                                disabled={lockCaptionMutation.isPending || dest.status === 'published'}
+                              >
+                                <Lock className="mr-2 h-3 w-3" />
+                                Lock for @{dest.accounts.account_handle}
+                              </Button>
+                            ))}
                         </div>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => navigator.clipboard.writeText(generatedCaption)}
-                        >
-                          <Copy className="mr-2 h-3 w-3" />
-                          Copy
-                        </Button>
                       </div>
                     )}
+                    {(lockCaptionMutation.error || unlockCaptionMutation.error) && (
+                      <p className="text-xs text-red-500">
+                        {((lockCaptionMutation.error || unlockCaptionMutation.error) as Error).message}
+                      </p>
+                    )}
                   </CardContent>
                 </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-sm">Destination Captions</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {asset.asset_destinations && asset.asset_destinations.length > 0 ? (
+                      <div className="space-y-3">
+                        {asset.asset_destinations.map((destination) => {
+                          const locked = lockedCaptions[destination.id];
+                          return (
+                            <div key={destination.id} className="p-3 rounded-lg border space-y-2">
+                              <div className="flex items-center justify-between">
+                                <div className="flex items-center space-x-2">
+                                  {getPlatformIcon(destination.accounts.platform)}
+                                  <span className="text-sm font-medium">@{destination.accounts.account_handle}</span>
+                                  {locked && (
+                                    <Badge className="text-xs font-medium bg-blue-100 text-blue-800">
+                                      <Lock className="mr-1 h-3 w-3" />
+                                      Locked
+                                    </Badge>
+                                  )}
+                                </div>
+                                {locked && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => unlockCaptionMutation.mutate(destination.id)}
+                                    disabled={unlockCaptionMutation.isPending}
+                                  >
+                                    <Unlock className="mr-2 h-3 w-3" />
+                                    Unlock
+                                  </Button>
+                                )}
+                              </div>
+                              {locked ? (
+                                <>
+                                  <p className="text-sm whitespace-pre-wrap">{locked.rendered_text}</p>
+                                  {locked.locked_at && (
+                                    <p className="text-xs text-muted-foreground">Locked {formatDate(locked.locked_at)}</p>
+                                  )}
+                                </>
+                              ) : (
+                                <p className="text-xs text-muted-foreground">
+                                  Rendered from templates when published
+                                </p>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">No publishing destinations configured</p>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <CaptionExperiments assetId={asset.id} />
               </TabsContent>
 
               <TabsContent value="schedule" className="space-y-4">
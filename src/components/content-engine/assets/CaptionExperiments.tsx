@@ -0,0 +1,258 @@
+// Caption Experiments Component
+// Start A/B caption experiments for an asset and follow them until a winner is promoted
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { FlaskConical, RefreshCw, Trophy, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { captionExperiments, type CaptionExperimentResults } from "@/services/caption-experiments";
+import type {
+  Tables,
+  CaptionExperiment,
+  CaptionExperimentMetric,
+  CaptionExperimentStatus
+} from "@/integrations/supabase/types-enhanced";
+
+interface CaptionExperimentsProps {
+  assetId: string;
+  className?: string;
+}
+
+const METRIC_LABELS: Record<CaptionExperimentMetric, string> = {
+  engagement_rate: 'Engagement rate',
+  like_rate: 'Like rate',
+  comment_rate: 'Comment rate',
+  share_rate: 'Share rate'
+};
+
+const STATUS_STYLES: Record<CaptionExperimentStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  running: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800'
+};
+
+export function CaptionExperiments({ assetId, className }: CaptionExperimentsProps) {
+  const [name, setName] = useState('');
+  const [metric, setMetric] = useState<CaptionExperimentMetric>('engagement_rate');
+  const [templateIds, setTemplateIds] = useState<string[]>([]);
+  const [results, setResults] = useState<Record<string, CaptionExperimentResults>>({});
+
+  const queryClient = useQueryClient();
+
+  const { data: experiments = [] } = useQuery({
+    queryKey: ['caption-experiments', assetId],
+    queryFn: () => captionExperiments.listExperiments(assetId)
+  });
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ['caption-templates', 'active'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('caption_templates')
+        .select('*')
+        .eq('is_active', true)
+        .order('name');
+
+      if (error) throw error;
+      return (data || []) as unknown as Tables<'caption_templates'>[];
+    }
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['caption-experiments', assetId] });
+    // Assigned variants replace the destinations' captions
+    queryClient.invalidateQueries({ queryKey: ['locked-captions', assetId] });
+  };
+
+  // Create the experiment and deal its variants out over the asset's destinations
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const experiment = await captionExperiments.createExperiment({
+        assetId,
+        name: name.trim(),
+        metric,
+        variants: templateIds.map(templateId => ({ templateId }))
+      });
+      await captionExperiments.assignVariants(experiment.id);
+      return experiment;
+    },
+    onSuccess: () => {
+      setName('');
+      setTemplateIds([]);
+    },
+    // A draft is left behind when assignment fails, so refresh either way
+    onSettled: invalidate
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: (experimentId: string) => captionExperiments.assignVariants(experimentId),
+    onSuccess: invalidate
+  });
+
+  // Promotes the winner into the template library when the difference is significant
+  const evaluateMutation = useMutation({
+    mutationFn: (experimentId: string) => captionExperiments.pickWinner(experimentId),
+    onSuccess: (result) => {
+      setResults(current => ({ ...current, [result.experiment.id]: result }));
+      invalidate();
+    }
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (experimentId: string) => captionExperiments.cancel(experimentId),
+    onSuccess: invalidate
+  });
+
+  const toggleTemplate = (templateId: string) => {
+    setTemplateIds(current => current.includes(templateId)
+      ? current.filter(id => id !== templateId)
+      : [...current, templateId]);
+  };
+
+  const canStart = name.trim().length > 0 && templateIds.length >= 2 && !startMutation.isPending;
+  const error = startMutation.error || assignMutation.error || evaluateMutation.error || cancelMutation.error;
+
+  const renderExperiment = (experiment: CaptionExperiment) => {
+    const result = results[experiment.id];
+    const isActive = experiment.status === 'draft' || experiment.status === 'running';
+
+    return (
+      <div key={experiment.id} className="p-3 rounded-lg border space-y-2">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <span className="text-sm font-medium">{experiment.name}</span>
+            <Badge className={cn("text-xs font-medium", STATUS_STYLES[experiment.status])}>
+              {experiment.status}
+            </Badge>
+            <span className="text-xs text-muted-foreground">{METRIC_LABELS[experiment.metric]}</span>
+          </div>
+          <div className="flex items-center space-x-1">
+            {experiment.status === 'draft' && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => assignMutation.mutate(experiment.id)}
+                disabled={assignMutation.isPending}
+              >
+                <FlaskConical className="mr-2 h-3 w-3" />
+                Assign Variants
+              </Button>
+            )}
+            {experiment.status === 'running' && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => evaluateMutation.mutate(experiment.id)}
+                disabled={evaluateMutation.isPending}
+              >
+                <RefreshCw className="mr-2 h-3 w-3" />
+                Check Results
+              </Button>
+            )}
+            {isActive && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => cancelMutation.mutate(experiment.id)}
+                disabled={cancelMutation.isPending}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {experiment.status === 'completed' && experiment.winner_variant_id && (
+          <p className="text-xs text-green-700 flex items-center">
+            <Trophy className="mr-1 h-3 w-3" />
+            Winner promoted to the template library
+            {experiment.winner_p_value !== null && ` (p = ${Number(experiment.winner_p_value).toFixed(4)})`}
+          </p>
+        )}
+
+        {result && (
+          <div className="space-y-1">
+            {result.variants.map(variant => (
+              <div key={variant.variant_id} className="flex items-center justify-between text-xs">
+                <span className="font-medium">Variant {variant.label}</span>
+                <span className="text-muted-foreground">
+                  {variant.views} views · {variant.rate === null ? '—' : `${(variant.rate * 100).toFixed(2)}%`}
+                </span>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">{result.evaluation.reason}</p>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-sm">Caption Experiments</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex items-center space-x-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Experiment name, e.g. Question hook vs statement"
+              className="h-8 text-xs"
+            />
+            <select
+              value={metric}
+              onChange={(e) => setMetric(e.target.value as CaptionExperimentMetric)}
+              className="text-xs border rounded px-2 py-1"
+            >
+              {Object.entries(METRIC_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <Label className="text-xs">Variants (pick at least two templates):</Label>
+          <div className="flex flex-wrap gap-2">
+            {templates.map(template => (
+              <Button
+                key={template.id}
+                variant={templateIds.includes(template.id) ? "default" : "outline"}
+                size="sm"
+                onClick={() => toggleTemplate(template.id)}
+              >
+                {template.name}
+              </Button>
+            ))}
+          </div>
+
+          <Button size="sm" onClick={() => startMutation.mutate()} disabled={!canStart}>
+            {startMutation.isPending ? (
+              <RefreshCw className="mr-2 h-3 w-3 animate-spin" />
+            ) : (
+              <FlaskConical className="mr-2 h-3 w-3" />
+            )}
+            Start Experiment
+          </Button>
+        </div>
+
+        {error && (
+          <p className="text-xs text-red-500">{(error as Error).message}</p>
+        )}
+
+        {experiments.length > 0 ? (
+          <div className="space-y-3">{experiments.map(renderExperiment)}</div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No caption experiments for this asset yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
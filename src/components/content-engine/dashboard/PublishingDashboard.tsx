@@ -2,7 +2,7 @@
 // Real-time workflow status tracking and publishing management
 
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -19,10 +19,14 @@ import {
   BarChart3,
   Calendar,
   Zap,
-  Activity
+  Activity,
+  ChevronDown,
+  ChevronRight
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
+import { quotaGovernor } from "@/services/quota-governor";
+import type { N8NNodeRun } from "@/integrations/supabase/types-enhanced";
 
 interface WorkflowExecution {
   id: string;
@@ -33,6 +37,10 @@ interface WorkflowExecution {
   completed_at?: string;
   duration_ms?: number;
   error_details?: string;
+  n8n_execution_id?: string | null;
+  n8n_status?: string | null;
+  n8n_node_runs?: N8NNodeRun[];
+  n8n_synced_at?: string | null;
   assets?: {
     id: string;
     title: string;
@@ -52,6 +60,23 @@ interface DashboardStats {
 export default function PublishingDashboard() {
   const [selectedPeriod, setSelectedPeriod] = useState("today");
   const [autoRefresh, setAutoRefresh] = useState(true);
+  const [expandedWorkflowId, setExpandedWorkflowId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  // Pull the run's status and node timeline from the n8n API; the server holds the API key
+  const syncMutation = useMutation({
+    mutationFn: async (n8nExecutionId: string) => {
+      const response = await fetch(`/api/workflows/${encodeURIComponent(n8nExecutionId)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'sync' }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message || result.error || 'Sync failed');
+      return result;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['recent-workflows'] }),
+  });
 
   // Fetch dashboard stats
   const { data: stats, isLoading: statsLoading } = useQuery({
@@ -82,7 +107,7 @@ export default function PublishingDashboard() {
       const totalWorkflows = workflows.length;
       const runningWorkflows = workflows.filter(w => w.status === 'running' || w.status === 'started').length;
       const completedToday = workflows.filter(w => w.status === 'completed').length;
-      const failedToday = workflows.filter(w => w.status === 'failed').length;
+      const failedToday = workflows.filter(w => w.status === 'failed' || w.status === 'timed_out').length;
       
       const completedWithDuration = workflows.filter(w => w.status === 'completed' && w.duration_ms);
       const avgDurationMs = completedWithDuration.length > 0 
@@ -117,7 +142,7 @@ export default function PublishingDashboard() {
         .limit(20);
 
       if (error) throw error;
-      return data || [];
+      return (data || []) as unknown as WorkflowExecution[];
     },
     refetchInterval: autoRefresh ? 3000 : false,
   });
@@ -141,13 +166,21 @@ export default function PublishingDashboard() {
     refetchInterval: autoRefresh ? 2000 : false,
   });
 
+  // Fetch remaining quota per account
+  const { data: accountQuotas, isLoading: quotasLoading } = useQuery({
+    queryKey: ['account-quotas'],
+    queryFn: () => quotaGovernor.getAccountQuotas(),
+    refetchInterval: autoRefresh ? 30000 : false,
+  });
+
   const getStatusBadge = (status: string) => {
     const statusConfig = {
       started: { color: "bg-blue-100 text-blue-800", label: "Started", icon: Play },
       running: { color: "bg-yellow-100 text-yellow-800", label: "Running", icon: Activity },
       completed: { color: "bg-green-100 text-green-800", label: "Completed", icon: CheckCircle },
       failed: { color: "bg-red-100 text-red-800", label: "Failed", icon: AlertTriangle },
-      cancelled: { color: "bg-gray-100 text-gray-800", label: "Cancelled", icon: Pause }
+      cancelled: { color: "bg-gray-100 text-gray-800", label: "Cancelled", icon: Pause },
+      timed_out: { color: "bg-orange-100 text-orange-800", label: "Timed Out", icon: Clock }
     };
 
     const config = statusConfig[status as keyof typeof statusConfig] || statusConfig.started;
@@ -176,6 +209,71 @@ export default function PublishingDashboard() {
     }
   };
 
+  const NodeTimeline = ({ workflow }: { workflow: WorkflowExecution }) => {
+    const runs = workflow.n8n_node_runs || [];
+    const start = runs.length > 0 ? new Date(runs[0].startedAt).getTime() : 0;
+    const span = Math.max(1, ...runs.map(run => new Date(run.startedAt).getTime() + run.durationMs - start));
+
+    return (
+      <div className="ml-14 mt-2 space-y-2 rounded-lg border p-3">
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-muted-foreground">
+            {workflow.n8n_synced_at
+              ? `n8n status: ${workflow.n8n_status} • synced ${new Date(workflow.n8n_synced_at).toLocaleTimeString()}`
+              : 'Not synced from n8n yet'}
+          </p>
+          {workflow.n8n_execution_id && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={syncMutation.isPending}
+              onClick={() => syncMutation.mutate(workflow.n8n_execution_id!)}
+            >
+              <RefreshCw className={cn("mr-2 h-3 w-3", syncMutation.isPending && "animate-spin")} />
+              Sync from n8n
+            </Button>
+          )}
+        </div>
+        {syncMutation.isError && syncMutation.variables === workflow.n8n_execution_id && (
+          <p className="text-xs text-red-600">{(syncMutation.error as Error).message}</p>
+        )}
+        {runs.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No node runs recorded</p>
+        ) : (
+          runs.map(run => {
+            const offset = new Date(run.startedAt).getTime() - start;
+            return (
+              <div key={`${run.node}-${run.run}`} className="space-y-1">
+                <div className="flex items-center justify-between text-xs">
+                  <span className="flex items-center font-medium">
+                    {run.status === 'error' ? (
+                      <AlertTriangle className="mr-1 h-3 w-3 text-red-600" />
+                    ) : run.status === 'success' ? (
+                      <CheckCircle className="mr-1 h-3 w-3 text-green-600" />
+                    ) : (
+                      <Activity className="mr-1 h-3 w-3 text-yellow-600" />
+                    )}
+                    {run.node}{run.run > 0 && ` (run ${run.run + 1})`}
+                  </span>
+                  <span className="text-muted-foreground">
+                    +{(offset / 1000).toFixed(1)}s • {run.durationMs}ms • {run.itemCount} items
+                  </span>
+                </div>
+                <div className="h-1.5 rounded bg-muted relative">
+                  <div
+                    className={cn("absolute h-1.5 rounded", run.status === 'error' ? "bg-red-500" : "bg-primary")}
+                    style={{ left: `${(offset / span) * 100}%`, width: `${Math.max(1, (run.durationMs / span) * 100)}%` }}
+                  />
+                </div>
+                {run.error && <p className="text-xs text-red-600">{run.error}</p>}
+              </div>
+            );
+          })
+        )}
+      </div>
+    );
+  };
+
   const StatCard = ({ 
     title, 
     value, 
@@ -362,6 +460,7 @@ export default function PublishingDashboard() {
           <TabsTrigger value="recent">Recent Workflows</TabsTrigger>
           <TabsTrigger value="failed">Failed Workflows</TabsTrigger>
           <TabsTrigger value="running">Running Workflows</TabsTrigger>
+          <TabsTrigger value="quotas">Account Quotas</TabsTrigger>
         </TabsList>
         
         <TabsContent value="recent" className="space-y-4">
@@ -378,36 +477,47 @@ export default function PublishingDashboard() {
                   </div>
                 ) : recentWorkflows && recentWorkflows.length > 0 ? (
                   recentWorkflows.map((workflow) => (
-                    <div key={workflow.id} className="flex items-center space-x-4 p-3 rounded-lg hover:bg-muted/50 transition-colors">
-                      <div className="w-10 h-10 bg-muted rounded-lg flex items-center justify-center">
-                        {workflow.workflow_type === 'publish_reel' ? (
-                          <Play className="h-4 w-4 text-muted-foreground" />
+                    <div key={workflow.id}>
+                      <div
+                        className="flex items-center space-x-4 p-3 rounded-lg hover:bg-muted/50 transition-colors cursor-pointer"
+                        onClick={() => setExpandedWorkflowId(expandedWorkflowId === workflow.id ? null : workflow.id)}
+                      >
+                        {expandedWorkflowId === workflow.id ? (
+                          <ChevronDown className="h-4 w-4 text-muted-foreground" />
                         ) : (
-                          <BarChart3 className="h-4 w-4 text-muted-foreground" />
+                          <ChevronRight className="h-4 w-4 text-muted-foreground" />
                         )}
-                      </div>
-                      <div className="flex-1 min-w-0">
-                        <p className="text-sm font-medium text-foreground truncate">
-                          {workflow.assets?.title || `Workflow ${workflow.id.slice(0, 8)}`}
-                        </p>
-                        <p className="text-xs text-muted-foreground">
-                          {workflow.workflow_type} • Started {new Date(workflow.started_at).toLocaleTimeString()}
-                        </p>
-                        {workflow.error_details && (
-                          <p className="text-xs text-red-600 truncate mt-1">
-                            {workflow.error_details}
+                        <div className="w-10 h-10 bg-muted rounded-lg flex items-center justify-center">
+                          {workflow.workflow_type === 'publish_reel' ? (
+                            <Play className="h-4 w-4 text-muted-foreground" />
+                          ) : (
+                            <BarChart3 className="h-4 w-4 text-muted-foreground" />
+                          )}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium text-foreground truncate">
+                            {workflow.assets?.title || `Workflow ${workflow.id.slice(0, 8)}`}
                           </p>
-                        )}
-                      </div>
-                      <div className="flex items-center space-x-3">
-                        <div className="text-right">
-                          <p className="text-xs text-muted-foreground">Duration</p>
-                          <p className="text-sm font-medium">
-                            {formatDuration(workflow.duration_ms)}
+                          <p className="text-xs text-muted-foreground">
+                            {workflow.workflow_type} • Started {new Date(workflow.started_at).toLocaleTimeString()}
                           </p>
+                          {workflow.error_details && (
+                            <p className="text-xs text-red-600 truncate mt-1">
+                              {workflow.error_details}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-3">
+                          <div className="text-right">
+                            <p className="text-xs text-muted-foreground">Duration</p>
+                            <p className="text-sm font-medium">
+                              {formatDuration(workflow.duration_ms)}
+                            </p>
+                          </div>
+                          {getStatusBadge(workflow.status)}
                         </div>
-                        {getStatusBadge(workflow.status)}
                       </div>
+                      {expandedWorkflowId === workflow.id && <NodeTimeline workflow={workflow} />}
                     </div>
                   ))
                 ) : (
@@ -428,7 +538,7 @@ export default function PublishingDashboard() {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {recentWorkflows?.filter(w => w.status === 'failed').map((workflow) => (
+                {recentWorkflows?.filter(w => w.status === 'failed' || w.status === 'timed_out').map((workflow) => (
                   <div key={workflow.id} className="p-3 rounded-lg border-red-200 bg-red-50">
                     <div className="flex items-center justify-between">
                       <div>
@@ -437,7 +547,9 @@ export default function PublishingDashboard() {
                         </p>
                         <p className="text-sm text-red-600">{workflow.workflow_type}</p>
                       </div>
-                      <Badge className="bg-red-100 text-red-800">Failed</Badge>
+                      <Badge className="bg-red-100 text-red-800">
+                        {workflow.status === 'timed_out' ? 'Timed Out' : 'Failed'}
+                      </Badge>
                     </div>
                     {workflow.error_details && (
                       <p className="text-sm text-red-700 mt-2">{workflow.error_details}</p>
@@ -476,6 +588,69 @@ export default function PublishingDashboard() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="quotas">
+          <Card>
+            <CardHeader>
+              <CardTitle>Account Quotas</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {quotasLoading ? (
+                  <div className="text-center py-8">
+                    <RefreshCw className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+                    <p className="text-muted-foreground mt-2">Loading quotas...</p>
+                  </div>
+                ) : accountQuotas && accountQuotas.length > 0 ? (
+                  accountQuotas.map((quota) => (
+                    <div key={quota.accountId} className="p-3 rounded-lg border space-y-2">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="text-sm font-medium text-foreground">@{quota.accountHandle}</p>
+                          <p className="text-xs text-muted-foreground capitalize">{quota.platform}</p>
+                        </div>
+                        {quota.allowed ? (
+                          <Badge className="bg-green-100 text-green-800">
+                            <CheckCircle className="mr-1 h-3 w-3" />
+                            Available
+                          </Badge>
+                        ) : (
+                          <Badge className="bg-yellow-100 text-yellow-800">
+                            <Clock className="mr-1 h-3 w-3" />
+                            Deferred
+                          </Badge>
+                        )}
+                      </div>
+                      {quota.postLimit !== null ? (
+                        <div className="space-y-1">
+                          <div className="flex justify-between text-xs text-muted-foreground">
+                            <span>{quota.remaining} of {quota.postLimit} posts left</span>
+                            <span>per {quota.windowHours}h</span>
+                          </div>
+                          <Progress value={(quota.postsUsed / quota.postLimit) * 100} className="h-2" />
+                        </div>
+                      ) : (
+                        <p className="text-xs text-muted-foreground">No post limit</p>
+                      )}
+                      <p className="text-xs text-muted-foreground">API usage {quota.usagePercent}%</p>
+                      {quota.reason && (
+                        <p className="text-xs text-yellow-700">
+                          {quota.reason}
+                          {quota.deferUntil && ` • retrying after ${new Date(quota.deferUntil).toLocaleString()}`}
+                        </p>
+                      )}
+                    </div>
+                  ))
+                ) : (
+                  <div className="text-center py-8">
+                    <Users className="h-8 w-8 mx-auto text-muted-foreground" />
+                    <p className="text-muted-foreground mt-2">No active accounts</p>
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
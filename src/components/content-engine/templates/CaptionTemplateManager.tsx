@@ -1,7 +1,7 @@
 // Caption Template Manager Component
 // Create, edit, and manage caption templates
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -36,13 +36,20 @@ import {
   Linkedin,
   MessageCircle,
   Share2,
-  RefreshCw
+  RefreshCw,
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle,
+  History,
+  Sparkles
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { captionRenderer } from "@/services/caption-renderer";
-import type { Tables, Platform, ContentType } from "@/integrations/supabase/types-enhanced";
+import { TEMPLATE_FILTERS } from "@/utils/template-engine";
+import TemplateVersionHistory from "./TemplateVersionHistory";
+import type { Tables, Platform, CaptionVariable, HashtagPlacement, CaptionLintIssue, RenderedCaption } from "@/integrations/supabase/types-enhanced";
 
 interface CaptionTemplateManagerProps {
   className?: string;
@@ -54,6 +61,7 @@ export default function CaptionTemplateManager({ className }: CaptionTemplateMan
   const [selectedTemplate, setSelectedTemplate] = useState<Tables<'caption_templates'> | null>(null);
   const [isPreviewMode, setIsPreviewMode] = useState(false);
   const [previewTemplate, setPreviewTemplate] = useState<Tables<'caption_templates'> | null>(null);
+  const [historyTemplate, setHistoryTemplate] = useState<Tables<'caption_templates'> | null>(null);
 
   const queryClient = useQueryClient();
 
@@ -150,6 +158,7 @@ export default function CaptionTemplateManager({ className }: CaptionTemplateMan
           </DialogTrigger>
           <TemplateFormModal
             isOpen={isCreateModalOpen}
+            templates={templates || []}
             onClose={() => setIsCreateModalOpen(false)}
             onSave={() => {
               setIsCreateModalOpen(false);
@@ -189,6 +198,10 @@ export default function CaptionTemplateManager({ className }: CaptionTemplateMan
                         <Edit className="mr-2 h-4 w-4" />
                         Edit
                       </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setHistoryTemplate(template)}>
+                        <History className="mr-2 h-4 w-4" />
+                        History
+                      </DropdownMenuItem>
                       <DropdownMenuItem onClick={() => handleDuplicateTemplate(template)}>
                         <Copy className="mr-2 h-4 w-4" />
                         Duplicate
@@ -229,6 +242,7 @@ export default function CaptionTemplateManager({ className }: CaptionTemplateMan
                 <div className="flex items-center justify-between text-xs text-muted-foreground">
                   <span>
                     {Array.isArray(template.variables) ? template.variables.length : 0} variables
+                    {template.current_version_number && ` • v${template.current_version_number}`}
                   </span>
                   <span>
                     {new Date(template.created_at).toLocaleDateString()}
@@ -259,6 +273,7 @@ export default function CaptionTemplateManager({ className }: CaptionTemplateMan
         <TemplateFormModal
           isOpen={isEditModalOpen}
           template={selectedTemplate}
+          templates={templates || []}
           onClose={() => {
             setIsEditModalOpen(false);
             setSelectedTemplate(null);
@@ -285,6 +300,21 @@ export default function CaptionTemplateManager({ className }: CaptionTemplateMan
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Version History Modal */}
+      <Dialog open={!!historyTemplate} onOpenChange={(open) => !open && setHistoryTemplate(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Version History</DialogTitle>
+          </DialogHeader>
+          {historyTemplate && (
+            <TemplateVersionHistory
+              template={historyTemplate}
+              onClose={() => setHistoryTemplate(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -293,11 +323,13 @@ export default function CaptionTemplateManager({ className }: CaptionTemplateMan
 interface TemplateFormModalProps {
   isOpen: boolean;
   template?: Tables<'caption_templates'> | null;
+  // Other templates, available as {{> name}} partials
+  templates: Tables<'caption_templates'>[];
   onClose: () => void;
   onSave: () => void;
 }
 
-function TemplateFormModal({ isOpen, template, onClose, onSave }: TemplateFormModalProps) {
+function TemplateFormModal({ isOpen, template, templates, onClose, onSave }: TemplateFormModalProps) {
   const [formData, setFormData] = useState({
     name: template?.name || '',
     template: template?.template || '',
@@ -306,8 +338,25 @@ function TemplateFormModal({ isOpen, template, onClose, onSave }: TemplateFormMo
     is_active: template?.is_active ?? true
   });
 
+  const partials = useMemo(() => Object.fromEntries(
+    templates
+      .filter(t => t.is_active && t.id !== template?.id)
+      .map(t => [t.name, t.template])
+  ), [templates, template?.id]);
+
+  // Re-checked on every keystroke so problems show up while typing
+  const diagnostics = useMemo(
+    () => captionRenderer.analyzeTemplate(formData.template, partials),
+    [formData.template, partials]
+  );
+  const hasErrors = diagnostics.some(d => d.severity === 'error');
+  const preview = useMemo(
+    () => hasErrors ? '' : captionRenderer.previewTemplate(formData.template, partials),
+    [formData.template, partials, hasErrors]
+  );
+
   const saveMutation = useMutation({
-    mutationFn: async (data: typeof formData) => {
+    mutationFn: async (data: typeof formData & { variables: CaptionVariable[] }) => {
       if (template) {
         // Update existing template
         const { error } = await supabase
@@ -331,12 +380,13 @@ function TemplateFormModal({ isOpen, template, onClose, onSave }: TemplateFormMo
   });
 
   const handleSave = () => {
-    if (!formData.name.trim() || !formData.template.trim()) {
+    if (!formData.name.trim() || !formData.template.trim() || hasErrors) {
       return;
     }
 
     saveMutation.mutate({
       ...formData,
+      variables: captionRenderer.describeVariables(formData.template),
       platform: formData.platform || null,
       content_type: formData.content_type || null
     });
@@ -415,11 +465,61 @@ function TemplateFormModal({ isOpen, template, onClose, onSave }: TemplateFormMo
             rows={8}
             className="mt-1 font-mono text-sm"
           />
-          <div className="text-xs text-muted-foreground mt-1">
-            Use variables like: {{asset.title}}, {{asset.description}}, {{creator.name}}, {{business.name}}
+          <div className="text-xs text-muted-foreground mt-1 space-y-1">
+            <div>
+              Variables: {"{{asset.title}}"}, {"{{asset.description}}"}, {"{{creator.name}}"}, {"{{business.name}}"}, {"{{date.month}}"}, {"{{locale.code}}"}, {"{{hashtags}}"}
+            </div>
+            <div>
+              Blocks: {"{{#if asset.description}}...{{else}}...{{/if}}"}, {"{{#each hashtags}}#{{this}} {{/each}}"}, {"{{> Template Name}}"}
+            </div>
+            <div>
+              Filters: {TEMPLATE_FILTERS.join(", ")} (e.g. {"{{asset.title | truncate:80}}"}, {"{{date.now | date:\"long\"}}"}, {"{{price | currency}}"})
+            </div>
           </div>
         </div>
 
+        {formData.template.trim() && (
+          <div className="space-y-2">
+            {diagnostics.length === 0 ? (
+              <div className="flex items-center text-xs text-green-700">
+                <CheckCircle className="mr-1 h-3 w-3" />
+                No problems found
+              </div>
+            ) : (
+              <ul className="space-y-1">
+                {diagnostics.map((diagnostic, index) => (
+                  <li
+                    key={index}
+                    className={cn(
+                      "flex items-start text-xs",
+                      diagnostic.severity === 'error' ? "text-red-600" : "text-yellow-700"
+                    )}
+                  >
+                    {diagnostic.severity === 'error' ? (
+                      <AlertCircle className="mr-1 mt-0.5 h-3 w-3 flex-shrink-0" />
+                    ) : (
+                      <AlertTriangle className="mr-1 mt-0.5 h-3 w-3 flex-shrink-0" />
+                    )}
+                    <span>
+                      <span className="font-mono">Line {diagnostic.line}, col {diagnostic.column}:</span>{" "}
+                      {diagnostic.message}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {preview && (
+              <div>
+                <Label className="text-xs text-muted-foreground">Live preview with sample data</Label>
+                <div className="mt-1 p-3 border rounded-lg text-sm whitespace-pre-wrap">
+                  {preview}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="flex items-center space-x-2">
           <input
             type="checkbox"
@@ -436,7 +536,7 @@ function TemplateFormModal({ isOpen, template, onClose, onSave }: TemplateFormMo
         <div className="flex items-center space-x-3 pt-4 border-t">
           <Button
             onClick={handleSave}
-            disabled={saveMutation.isPending || !formData.name.trim() || !formData.template.trim()}
+            disabled={saveMutation.isPending || !formData.name.trim() || !formData.template.trim() || hasErrors}
           >
             {saveMutation.isPending ? (
               <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
@@ -461,22 +561,31 @@ interface TemplatePreviewProps {
   onClose: () => void;
 }
 
+// Sample asset for previews and suggested variants
+const SAMPLE_ASSET = {
+  id: 'sample-asset',
+  title: 'Sample Real Estate Deal',
+  description: 'Found an amazing wholesale opportunity in downtown. Here\'s how I did it...',
+  content_type: 'reel',
+  metadata: { hashtags: ['realestate', 'wholesale'] }
+} as unknown as Tables<'assets'>;
+
 function TemplatePreview({ template, onClose }: TemplatePreviewProps) {
   const [renderedCaption, setRenderedCaption] = useState('');
+  const [firstComment, setFirstComment] = useState<string | null>(null);
+  const [lintIssues, setLintIssues] = useState<CaptionLintIssue[]>([]);
+  const [hashtagPlacement, setHashtagPlacement] = useState<HashtagPlacement>('caption');
   const [isRendering, setIsRendering] = useState(false);
+  const [suggestions, setSuggestions] = useState<RenderedCaption[]>([]);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+
+  const platform = template.platform as Platform || 'instagram';
 
   const renderPreview = async () => {
     setIsRendering(true);
     try {
-      // Create mock data for preview
-      const mockAsset = {
-        title: 'Sample Real Estate Deal',
-        description: 'Found an amazing wholesale opportunity in downtown. Here\'s how I did it...',
-        content_type: 'reel' as ContentType
-      };
-
       const mockContext = {
-        asset: mockAsset as any,
+        asset: SAMPLE_ASSET,
         creator: { name: 'John Doe', handle: 'johndoe' },
         business: { name: 'Wholesale Mastery', website: 'wholesalemastery.com' }
       };
@@ -484,18 +593,38 @@ function TemplatePreview({ template, onClose }: TemplatePreviewProps) {
       const rendered = await captionRenderer.renderCaption(
         template.id, 
         mockContext, 
-        template.platform as Platform || 'instagram'
+        platform,
+        { hashtagPlacement }
       );
 
-      setRenderedCaption(rendered.text);
+      // Show what would actually be posted on the platform
+      const platformVersion = rendered.platformSpecific[platform];
+      setRenderedCaption(platformVersion?.text ?? rendered.text);
+      setFirstComment(platformVersion?.firstComment ?? null);
+      setLintIssues(platformVersion?.lint ?? []);
     } catch (error) {
       console.error('Preview render failed:', error);
       setRenderedCaption('Preview failed to render');
+      setFirstComment(null);
+      setLintIssues([]);
     } finally {
       setIsRendering(false);
     }
   };
 
+  // Provider-written captions for the same sample, to compare against the template
+  const suggestVariants = async () => {
+    setIsSuggesting(true);
+    try {
+      setSuggestions(await captionRenderer.generateSuggestions(SAMPLE_ASSET, platform, 3, {
+        hashtagPlacement,
+        generatedCount: 3
+      }));
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
   return (
     <div className="space-y-4">
       <div>
@@ -524,26 +653,110 @@ function TemplatePreview({ template, onClose }: TemplatePreviewProps) {
       <div>
         <div className="flex items-center justify-between mb-2">
           <Label className="text-sm font-medium">Preview with Sample Data:</Label>
+          <div className="flex items-center space-x-2">
+            <Select
+              value={hashtagPlacement}
+              onValueChange={(value) => setHashtagPlacement(value as HashtagPlacement)}
+            >
+              <SelectTrigger className="h-8 w-44 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="caption">Hashtags in caption</SelectItem>
+                <SelectItem value="first_comment">Hashtags in first comment</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={renderPreview}
+              disabled={isRendering}
+            >
+              {isRendering ? (
+                <RefreshCw className="mr-2 h-3 w-3 animate-spin" />
+              ) : (
+                <Eye className="mr-2 h-3 w-3" />
+              )}
+              Render Preview
+            </Button>
+          </div>
+        </div>
+        
+        {renderedCaption && (
+          <div className="p-3 border rounded-lg text-sm whitespace-pre-wrap">
+            {renderedCaption}
+          </div>
+        )}
+
+        {firstComment && (
+          <div className="mt-2">
+            <Label className="text-xs text-muted-foreground">First comment</Label>
+            <div className="mt-1 p-3 border rounded-lg text-sm whitespace-pre-wrap">
+              {firstComment}
+            </div>
+          </div>
+        )}
+
+        {lintIssues.length > 0 && (
+          <ul className="mt-2 space-y-1">
+            {lintIssues.map((issue, index) => (
+              <li
+                key={index}
+                className={cn(
+                  "flex items-start text-xs",
+                  issue.severity === 'error' ? "text-red-600" : "text-yellow-700"
+                )}
+              >
+                {issue.severity === 'error' ? (
+                  <AlertCircle className="mr-1 mt-0.5 h-3 w-3 flex-shrink-0" />
+                ) : (
+                  <AlertTriangle className="mr-1 mt-0.5 h-3 w-3 flex-shrink-0" />
+                )}
+                <span>
+                  {issue.message}
+                  {issue.match && <span className="font-mono"> "{issue.match}"</span>}
+                  {issue.suggestions.length > 0 && (
+                    <span className="text-muted-foreground"> — {issue.suggestions.join('; ')}</span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <Label className="text-sm font-medium">Suggested Variants:</Label>
           <Button
             variant="outline"
             size="sm"
-            onClick={renderPreview}
-            disabled={isRendering}
+            onClick={suggestVariants}
+            disabled={isSuggesting}
           >
-            {isRendering ? (
+            {isSuggesting ? (
               <RefreshCw className="mr-2 h-3 w-3 animate-spin" />
             ) : (
-              <Eye className="mr-2 h-3 w-3" />
+              <Sparkles className="mr-2 h-3 w-3" />
             )}
-            Render Preview
+            Suggest Variants
           </Button>
         </div>
-        
-        {renderedCaption && (
-          <div className="p-3 border rounded-lg text-sm whitespace-pre-wrap">
-            {renderedCaption}
-          </div>
-        )}
+
+        <div className="space-y-2">
+          {suggestions.map((suggestion, index) => (
+            <div key={index} className="p-3 border rounded-lg text-sm">
+              {suggestion.provider && (
+                <Badge variant="secondary" className="text-xs mb-2">
+                  {suggestion.provider}
+                </Badge>
+              )}
+              <div className="whitespace-pre-wrap">
+                {suggestion.platformSpecific[platform]?.text ?? suggestion.text}
+              </div>
+            </div>
+          ))}
+        </div>
       </div>
 
       <div className="flex items-center space-x-2 pt-4 border-t">
@@ -0,0 +1,211 @@
+// Template Version History Component
+// Lists caption template versions with usage, compares any two side by side and rolls back
+
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { History, RotateCcw, RefreshCw, CheckCircle, XCircle, Clock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { captionTemplateVersions } from "@/services/caption-template-versions";
+import type { Tables } from "@/integrations/supabase/types-enhanced";
+import type { DiffRow } from "@/utils/text-diff";
+
+interface TemplateVersionHistoryProps {
+  template: Tables<'caption_templates'>;
+  onClose: () => void;
+}
+
+export default function TemplateVersionHistory({ template, onClose }: TemplateVersionHistoryProps) {
+  const [fromVersionId, setFromVersionId] = useState<string>('');
+  const [toVersionId, setToVersionId] = useState<string>('');
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: versions, isLoading } = useQuery({
+    queryKey: ['caption-template-versions', template.id],
+    queryFn: () => captionTemplateVersions.getVersions(template.id)
+  });
+
+  // Default to comparing the previous version with the current one
+  useEffect(() => {
+    if (!versions || versions.length === 0) return;
+    setToVersionId(current => current || versions[0].id);
+    setFromVersionId(current => current || (versions[1] || versions[0]).id);
+  }, [versions]);
+
+  const diff = useMemo(() => {
+    const from = versions?.find(v => v.id === fromVersionId);
+    const to = versions?.find(v => v.id === toVersionId);
+    return from && to ? captionTemplateVersions.diffVersions(from, to) : null;
+  }, [versions, fromVersionId, toVersionId]);
+
+  const rollbackMutation = useMutation({
+    mutationFn: (versionId: string) => captionTemplateVersions.rollback(template.id, versionId),
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ['caption-templates'] });
+      queryClient.invalidateQueries({ queryKey: ['caption-template-versions', template.id] });
+      setFromVersionId('');
+      setToVersionId('');
+      toast({ title: "Template rolled back", description: `Saved as version ${updated.current_version_number}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Rollback failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const currentVersionId = versions?.[0]?.id;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-foreground flex items-center">
+          <History className="mr-2 h-4 w-4" />
+          {template.name}
+        </h3>
+        {template.current_version_number && (
+          <Badge variant="secondary" className="text-xs">v{template.current_version_number} live</Badge>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+          <span className="ml-2 text-muted-foreground">Loading versions...</span>
+        </div>
+      ) : versions && versions.length > 0 ? (
+        <>
+          {/* Versions */}
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {versions.map(version => {
+              const { usage } = version;
+              const finished = usage.published_count + usage.failed_count;
+              const successRate = finished > 0 ? Math.round((usage.published_count / finished) * 100) : null;
+
+              return (
+                <div key={version.id} className="flex items-center space-x-3 p-2 rounded-lg border text-sm">
+                  <Badge variant={version.id === currentVersionId ? "default" : "outline"} className="text-xs">
+                    v{version.version_number}
+                  </Badge>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(version.created_at).toLocaleString()}
+                      {version.change_note && ` • ${version.change_note}`}
+                    </p>
+                    <p className="text-xs text-muted-foreground flex items-center space-x-3 mt-1">
+                      <span>{usage.rendered_count} captions</span>
+                      <span className="flex items-center text-green-700">
+                        <CheckCircle className="mr-1 h-3 w-3" />
+                        {usage.published_count}
+                      </span>
+                      <span className="flex items-center text-red-600">
+                        <XCircle className="mr-1 h-3 w-3" />
+                        {usage.failed_count}
+                      </span>
+                      <span className="flex items-center">
+                        <Clock className="mr-1 h-3 w-3" />
+                        {usage.pending_count}
+                      </span>
+                      {successRate !== null && <span>{successRate}% published</span>}
+                    </p>
+                  </div>
+                  {version.id !== currentVersionId && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => rollbackMutation.mutate(version.id)}
+                      disabled={rollbackMutation.isPending}
+                    >
+                      <RotateCcw className="mr-1 h-3 w-3" />
+                      Roll back
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Compare */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="text-xs">Compare</Label>
+              <Select value={fromVersionId} onValueChange={setFromVersionId}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue placeholder="Select version" />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map(version => (
+                    <SelectItem key={version.id} value={version.id}>Version {version.version_number}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-xs">With</Label>
+              <Select value={toVersionId} onValueChange={setToVersionId}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue placeholder="Select version" />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map(version => (
+                    <SelectItem key={version.id} value={version.id}>Version {version.version_number}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {diff && (
+            <div className="space-y-2">
+              {diff.changedFields.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Also changed: {diff.changedFields.map(field => field.replace('_', ' ')).join(', ')}
+                </p>
+              )}
+              <div className="border rounded-lg overflow-hidden text-xs font-mono">
+                {diff.rows.map((row, index) => (
+                  <DiffLine key={index} row={row} />
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground py-4">No versions recorded yet</p>
+      )}
+
+      <div className="flex items-center space-x-2 pt-4 border-t">
+        <Button variant="outline" onClick={onClose}>
+          Close
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function DiffLine({ row }: { row: DiffRow }) {
+  const leftClass = row.type === 'removed' || row.type === 'changed' ? "bg-red-50 text-red-800" : "";
+  const rightClass = row.type === 'added' || row.type === 'changed' ? "bg-green-50 text-green-800" : "";
+
+  return (
+    <div className="grid grid-cols-2 divide-x">
+      <div className={cn("flex whitespace-pre-wrap", leftClass)}>
+        <span className="w-8 shrink-0 text-right pr-2 text-muted-foreground select-none">{row.left?.lineNumber}</span>
+        <span className="flex-1">{row.left?.text}</span>
+      </div>
+      <div className={cn("flex whitespace-pre-wrap", rightClass)}>
+        <span className="w-8 shrink-0 text-right pr-2 text-muted-foreground select-none">{row.right?.lineNumber}</span>
+        <span className="flex-1">{row.right?.text}</span>
+      </div>
+    </div>
+  );
+}
@@ -25,12 +25,13 @@ export default function MCPWorkflowDeployment() {
   const [workflowConfig, setWorkflowConfig] = useState<string>('');
   const [webhookUrl, setWebhookUrl] = useState<string>('');
   const [isGeneratingConfig, setIsGeneratingConfig] = useState(false);
+  const n8nUrl = mcpWorkflowService.getInstanceUrl();
 
   const handleGenerateConfig = async () => {
     setIsGeneratingConfig(true);
     try {
       const workflow = await mcpWorkflowService.createContentProcessingWorkflow();
-      setWorkflowConfig(JSON.stringify(workflow, null, 2));
+      setWorkflowConfig(JSON.stringify(mcpWorkflowService.exportWorkflow(workflow), null, 2));
       setDeploymentStep('configure');
     } catch (error) {
       console.error('Failed to generate workflow config:', error);
@@ -101,7 +102,7 @@ export default function MCPWorkflowDeployment() {
               <Alert>
                 <Users className="h-4 w-4" />
                 <AlertDescription>
-                  We'll be working collaboratively in your N8N account: <strong>https://lifemastery.app.n8n.cloud</strong>
+                  We'll be working collaboratively in your N8N account: <strong>{n8nUrl}</strong>
                 </AlertDescription>
               </Alert>
 
@@ -214,7 +215,7 @@ export default function MCPWorkflowDeployment() {
 
               <div className="flex space-x-3 pt-4">
                 <Button asChild variant="outline">
-                  <a href="https://lifemastery.app.n8n.cloud" target="_blank">
+                  <a href={n8nUrl} target="_blank">
                     <ExternalLink className="h-4 w-4 mr-2" />
                     Open N8N Account
                   </a>
@@ -350,7 +351,7 @@ export default function MCPWorkflowDeployment() {
                   New Webhook: {webhookUrl || 'Not set'}
                 </div>
                 <div className="p-3 bg-muted rounded font-mono text-sm">
-                  Old Webhook: https://lifemastery.app.n8n.cloud/webhook/a40af2fb-6d85-4db3-9791-e7cab329bcfa
+                  Old Webhook: {n8nUrl}/webhook/a40af2fb-6d85-4db3-9791-e7cab329bcfa
                 </div>
               </div>
 
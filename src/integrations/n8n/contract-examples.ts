@@ -0,0 +1,223 @@
+// N8N payload contract examples
+// One example per message and schema version, checked against the schemas and exported for the n8n side
+
+import type { N8NSchemaVersion } from './contract'
+
+export interface ContractExample {
+  // File name stem, e.g. "workflow-callback.v2.failed"
+  name: string
+  message: 'workflow_trigger' | 'webhook_response' | 'workflow_callback'
+  direction: 'outbound' | 'inbound'
+  schemaVersion: N8NSchemaVersion
+  payload: unknown
+}
+
+const EXECUTION_ID = '5f1d2c3b-7a8e-4f90-9b1c-2d3e4f5a6b7c'
+const ASSET_ID = '0b9c8d7e-6f5a-4b3c-8d2e-1f0a9b8c7d6e'
+const INSTAGRAM_DESTINATION_ID = '3c4d5e6f-7a8b-4c9d-8e0f-1a2b3c4d5e6f'
+const FACEBOOK_DESTINATION_ID = '9a8b7c6d-5e4f-4a3b-9c2d-1e0f9a8b7c6d'
+const MEDIA_URL = 'https://example.supabase.co/storage/v1/object/public/assets/listing-tour.mp4'
+
+export const CONTRACT_EXAMPLES: ContractExample[] = [
+  {
+    name: 'workflow-trigger.v1',
+    message: 'workflow_trigger',
+    direction: 'outbound',
+    schemaVersion: 1,
+    payload: {
+      workflowType: 'publish_reel',
+      assetId: ASSET_ID,
+      destinations: [INSTAGRAM_DESTINATION_ID],
+      idempotencyKeys: { [INSTAGRAM_DESTINATION_ID]: 'ik_2b7f0e4c9a' },
+      scheduledTime: '2025-08-20T15:00:00.000Z',
+      metadata: {
+        executionId: EXECUTION_ID,
+        asset: { id: ASSET_ID, title: 'Listing tour', content_type: 'reel', metadata: { files: [MEDIA_URL] } },
+        destinations: [{ id: INSTAGRAM_DESTINATION_ID, status: 'ready' }]
+      }
+    }
+  },
+  {
+    name: 'workflow-trigger.v2',
+    message: 'workflow_trigger',
+    direction: 'outbound',
+    schemaVersion: 2,
+    payload: {
+      schemaVersion: 2,
+      executionId: EXECUTION_ID,
+      workflowType: 'publish_reel',
+      assetId: ASSET_ID,
+      destinations: [
+        {
+          id: INSTAGRAM_DESTINATION_ID,
+          accountId: '6e5d4c3b-2a1f-4e0d-9c8b-7a6f5e4d3c2b',
+          platform: 'instagram',
+          accountHandle: 'zavala.homes',
+          idempotencyKey: 'ik_2b7f0e4c9a'
+        },
+        {
+          id: FACEBOOK_DESTINATION_ID,
+          accountId: '1f2e3d4c-5b6a-4798-8a9b-0c1d2e3f4a5b',
+          platform: 'facebook',
+          accountHandle: null,
+          idempotencyKey: 'ik_8c1d5f3a7e'
+        }
+      ],
+      scheduledTime: null,
+      priority: 5,
+      asset: {
+        id: ASSET_ID,
+        title: 'Listing tour',
+        description: 'Three bedroom home with a pool',
+        contentType: 'reel',
+        mediaUrls: [MEDIA_URL]
+      }
+    }
+  },
+  {
+    name: 'webhook-response',
+    message: 'webhook_response',
+    direction: 'inbound',
+    schemaVersion: 2,
+    payload: { schemaVersion: 2, executionId: '18342', status: 'started' }
+  },
+  {
+    name: 'workflow-callback.v1',
+    message: 'workflow_callback',
+    direction: 'inbound',
+    schemaVersion: 1,
+    payload: {
+      executionId: '18342',
+      status: 'completed',
+      assetId: ASSET_ID,
+      workflowType: 'publish_reel',
+      destinations: [
+        { id: INSTAGRAM_DESTINATION_ID, platform: 'instagram', status: 'published', platformPostId: '17895695668004550', idempotencyKey: 'ik_2b7f0e4c9a' }
+      ]
+    }
+  },
+  {
+    name: 'workflow-callback.v2.completed',
+    message: 'workflow_callback',
+    direction: 'inbound',
+    schemaVersion: 2,
+    payload: {
+      schemaVersion: 2,
+      executionId: '18342',
+      workflowExecutionId: EXECUTION_ID,
+      status: 'completed',
+      assetId: ASSET_ID,
+      workflowType: 'publish_reel',
+      destinations: [
+        {
+          id: INSTAGRAM_DESTINATION_ID,
+          platform: 'instagram',
+          status: 'published',
+          platformPostId: '17895695668004550',
+          idempotencyKey: 'ik_2b7f0e4c9a',
+          publishedAt: '2025-08-20T15:00:42.000Z'
+        },
+        {
+          id: FACEBOOK_DESTINATION_ID,
+          platform: 'facebook',
+          status: 'skipped',
+          idempotencyKey: 'ik_8c1d5f3a7e'
+        }
+      ]
+    }
+  },
+  {
+    name: 'workflow-callback.v2.failed',
+    message: 'workflow_callback',
+    direction: 'inbound',
+    schemaVersion: 2,
+    payload: {
+      schemaVersion: 2,
+      executionId: 18343,
+      workflowExecutionId: EXECUTION_ID,
+      status: 'failed',
+      assetId: ASSET_ID,
+      workflowType: 'publish_reel',
+      destinations: [
+        {
+          id: INSTAGRAM_DESTINATION_ID,
+          platform: 'instagram',
+          status: 'failed',
+          idempotencyKey: 'ik_2b7f0e4c9a',
+          error: { message: 'Media container did not finish processing', code: 'container_timeout' }
+        }
+      ],
+      error: { message: 'Media container did not finish processing', node: 'Publish to Instagram' }
+    }
+  }
+]
+
+// Payloads the contract must reject, with the path the rejection has to point at
+export const CONTRACT_COUNTEREXAMPLES: Array<Omit<ContractExample, 'direction' | 'schemaVersion'> & { issuePath: string }> = [
+  {
+    name: 'unsupported-version',
+    message: 'workflow_callback',
+    issuePath: 'schemaVersion',
+    payload: { schemaVersion: 3, executionId: '18342', status: 'completed', assetId: ASSET_ID }
+  },
+  {
+    name: 'failed-without-error',
+    message: 'workflow_callback',
+    issuePath: 'error',
+    payload: {
+      schemaVersion: 2,
+      executionId: '18342',
+      workflowExecutionId: EXECUTION_ID,
+      status: 'failed',
+      assetId: ASSET_ID,
+      workflowType: 'publish_reel'
+    }
+  },
+  {
+    name: 'published-without-post-id',
+    message: 'workflow_callback',
+    issuePath: 'destinations.0.platformPostId',
+    payload: {
+      schemaVersion: 2,
+      executionId: '18342',
+      workflowExecutionId: EXECUTION_ID,
+      status: 'completed',
+      assetId: ASSET_ID,
+      workflowType: 'publish_reel',
+      destinations: [{ id: INSTAGRAM_DESTINATION_ID, platform: 'instagram', status: 'published', idempotencyKey: 'ik_2b7f0e4c9a' }]
+    }
+  },
+  {
+    name: 'v1-unknown-destination-status',
+    message: 'workflow_callback',
+    issuePath: 'destinations.0.status',
+    payload: {
+      executionId: '18342',
+      status: 'completed',
+      assetId: ASSET_ID,
+      destinations: [{ id: INSTAGRAM_DESTINATION_ID, status: 'done' }]
+    }
+  },
+  {
+    name: 'v2-trigger-with-asset-row',
+    message: 'workflow_trigger',
+    issuePath: 'metadata',
+    payload: {
+      schemaVersion: 2,
+      executionId: EXECUTION_ID,
+      workflowType: 'publish_reel',
+      assetId: ASSET_ID,
+      destinations: [{
+        id: INSTAGRAM_DESTINATION_ID,
+        accountId: '6e5d4c3b-2a1f-4e0d-9c8b-7a6f5e4d3c2b',
+        platform: 'instagram',
+        accountHandle: 'zavala.homes',
+        idempotencyKey: 'ik_2b7f0e4c9a'
+      }],
+      scheduledTime: null,
+      priority: null,
+      asset: { id: ASSET_ID, title: 'Listing tour', description: null, contentType: 'reel', mediaUrls: [MEDIA_URL] },
+      metadata: { asset: { id: ASSET_ID } }
+    }
+  }
+]
@@ -0,0 +1,273 @@
+// N8N payload contract
+// Versioned zod schemas for every message exchanged with n8n workflows. Version 1 is the original
+// untagged shape; both versions are accepted until every deployed workflow sends version 2.
+
+import { z } from 'zod'
+
+export const CURRENT_SCHEMA_VERSION = 2
+export const SUPPORTED_SCHEMA_VERSIONS = [1, 2] as const
+export type N8NSchemaVersion = typeof SUPPORTED_SCHEMA_VERSIONS[number]
+
+export interface ContractIssue {
+  // Dotted path into the payload, e.g. "destinations.0.status"
+  path: string
+  message: string
+  code: string
+}
+
+// The never-typed fields let `!result.success` narrow without strictNullChecks
+type ContractFailure = { success: false; schemaVersion: number | null; issues: ContractIssue[]; data?: never }
+
+export type ContractResult<T> =
+  | { success: true; schemaVersion: N8NSchemaVersion; data: T; issues?: never }
+  | ContractFailure
+
+const workflowType = z.enum(['publish_reel', 'publish_carousel', 'schedule_post', 'batch_publish'])
+const platform = z.enum(['instagram', 'tiktok', 'linkedin', 'facebook', 'youtube'])
+const workflowStatus = z.enum(['running', 'completed', 'failed', 'cancelled'])
+const destinationStatus = z.enum(['draft', 'ready', 'queued', 'publishing', 'published', 'failed', 'cancelled'])
+const timestamp = z.string().datetime({ offset: true })
+// n8n execution ids are numeric and arrive as numbers from some nodes
+const n8nExecutionId = z.union([z.string().min(1), z.number().int().nonnegative()]).transform(String)
+
+// ============================================================================
+// OUTBOUND: WORKFLOW TRIGGER (us -> n8n webhook)
+// ============================================================================
+
+export const workflowTriggerV1Schema = z.object({
+  schemaVersion: z.literal(1).optional(),
+  workflowType,
+  assetId: z.string().min(1),
+  destinations: z.array(z.string().min(1)),
+  idempotencyKeys: z.record(z.string()).optional(),
+  scheduledTime: timestamp.optional(),
+  metadata: z.object({
+    executionId: z.string().uuid(),
+    // The full asset row and its destinations, as version 1 always sent them
+    asset: z.record(z.unknown()),
+    destinations: z.array(z.unknown()).optional()
+  }).optional()
+})
+
+export const workflowTriggerV2Schema = z.object({
+  schemaVersion: z.literal(2),
+  // Our workflow_executions.id, echoed back as workflowExecutionId in callbacks
+  executionId: z.string().uuid(),
+  workflowType,
+  assetId: z.string().uuid(),
+  destinations: z.array(z.object({
+    id: z.string().uuid(),
+    accountId: z.string().uuid(),
+    platform,
+    accountHandle: z.string().nullable(),
+    idempotencyKey: z.string().min(1)
+  }).strict()).min(1),
+  scheduledTime: timestamp.nullable(),
+  priority: z.number().int().nullable(),
+  // Only what the workflow needs to publish, instead of the whole asset row
+  asset: z.object({
+    id: z.string().uuid(),
+    title: z.string(),
+    description: z.string().nullable(),
+    contentType: z.enum(['reel', 'carousel', 'single_image', 'story']),
+    mediaUrls: z.array(z.string().url())
+  }).strict()
+}).strict()
+
+export type N8NWorkflowTriggerV1 = z.infer<typeof workflowTriggerV1Schema>
+export type N8NWorkflowTriggerV2 = z.infer<typeof workflowTriggerV2Schema>
+export type N8NWorkflowPayload = N8NWorkflowTriggerV1 | N8NWorkflowTriggerV2
+
+// ============================================================================
+// INBOUND: WEBHOOK RESPONSE (n8n's synchronous reply to a trigger)
+// ============================================================================
+
+export const webhookResponseSchema = z.object({
+  schemaVersion: z.union([z.literal(1), z.literal(2)]).optional(),
+  executionId: n8nExecutionId.optional(),
+  status: z.enum(['started', 'completed', 'failed']).optional(),
+  data: z.unknown().optional(),
+  error: z.string().optional()
+})
+
+export type N8NWebhookResponse = z.infer<typeof webhookResponseSchema>
+
+// ============================================================================
+// INBOUND: WORKFLOW CALLBACK (n8n -> our callback endpoints)
+// ============================================================================
+
+export const workflowCallbackV1Schema = z.object({
+  schemaVersion: z.literal(1).optional(),
+  executionId: n8nExecutionId,
+  status: workflowStatus,
+  assetId: z.string().min(1),
+  workflowType: z.string().optional(),
+  destinations: z.array(z.object({
+    id: z.string().min(1),
+    platform: z.string().optional(),
+    status: destinationStatus,
+    platformPostId: z.string().optional(),
+    idempotencyKey: z.string().optional(),
+    error: z.string().optional(),
+    publishedAt: timestamp.optional()
+  })).optional(),
+  error: z.string().optional(),
+  metadata: z.record(z.unknown()).optional()
+})
+
+const callbackDestinationV2Schema = z.object({
+  id: z.string().uuid(),
+  platform,
+  // skipped: the workflow decided not to post, e.g. because the idempotency key was already used
+  status: z.enum(['published', 'failed', 'skipped']),
+  platformPostId: z.string().min(1).optional(),
+  idempotencyKey: z.string().min(1),
+  error: z.object({ message: z.string().min(1), code: z.string().optional() }).strict().optional(),
+  publishedAt: timestamp.optional()
+}).strict().superRefine((destination, ctx) => {
+  if (destination.status === 'published' && !destination.platformPostId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['platformPostId'], message: 'Required when status is published' })
+  }
+  if (destination.status === 'failed' && !destination.error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['error'], message: 'Required when status is failed' })
+  }
+})
+
+export const workflowCallbackV2Schema = z.object({
+  schemaVersion: z.literal(2),
+  executionId: n8nExecutionId,
+  workflowExecutionId: z.string().uuid(),
+  status: workflowStatus,
+  assetId: z.string().uuid(),
+  workflowType,
+  destinations: z.array(callbackDestinationV2Schema).default([]),
+  error: z.object({ message: z.string().min(1), node: z.string().optional() }).strict().optional()
+}).strict().superRefine((callback, ctx) => {
+  if (callback.status === 'failed' && !callback.error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['error'], message: 'Required when status is failed' })
+  }
+})
+
+// Every callback version is upgraded to this shape before it is handled
+export interface N8NCallback {
+  schemaVersion: N8NSchemaVersion
+  // n8n's execution id
+  executionId: string
+  // Our workflow_executions.id; version 1 callbacks do not carry it
+  workflowExecutionId?: string
+  status: z.infer<typeof workflowStatus>
+  assetId: string
+  workflowType?: string
+  destinations: Array<{
+    id: string
+    platform?: string
+    status: z.infer<typeof destinationStatus> | 'skipped'
+    platformPostId?: string
+    idempotencyKey?: string
+    error?: string
+    publishedAt?: string
+  }>
+  error?: string
+  metadata?: Record<string, unknown>
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse a callback of any supported version into the current shape
+ */
+export function parseWorkflowCallback(input: unknown): ContractResult<N8NCallback> {
+  const version = detectVersion(input)
+  if (typeof version !== 'number') return version
+
+  if (version === 1) {
+    const result = workflowCallbackV1Schema.safeParse(input)
+    if (!result.success) return failure(1, result.error)
+    return {
+      success: true,
+      schemaVersion: 1,
+      data: { ...result.data, schemaVersion: 1, destinations: result.data.destinations || [] } as N8NCallback
+    }
+  }
+
+  const result = workflowCallbackV2Schema.safeParse(input)
+  if (!result.success) return failure(2, result.error)
+  const { destinations, error, ...callback } = result.data
+  return {
+    success: true,
+    schemaVersion: 2,
+    data: {
+      ...callback,
+      destinations: destinations.map(destination => ({
+        ...destination,
+        error: destination.error && (destination.error.code ? `${destination.error.code}: ${destination.error.message}` : destination.error.message)
+      })),
+      error: error && (error.node ? `${error.node}: ${error.message}` : error.message)
+    } as N8NCallback
+  }
+}
+
+/**
+ * Parse n8n's reply to a trigger
+ */
+export function parseWebhookResponse(input: unknown): ContractResult<N8NWebhookResponse> {
+  const result = webhookResponseSchema.safeParse(input)
+  if (!result.success) return failure(null, result.error)
+  return { success: true, schemaVersion: result.data.schemaVersion ?? 1, data: result.data }
+}
+
+/**
+ * Check an outgoing trigger against the schema of the version it claims
+ */
+export function validateWorkflowTrigger(payload: unknown): ContractResult<N8NWorkflowPayload> {
+  const version = detectVersion(payload)
+  if (typeof version !== 'number') return version
+
+  const result = version === 1
+    ? workflowTriggerV1Schema.safeParse(payload)
+    : workflowTriggerV2Schema.safeParse(payload)
+  if (!result.success) return failure(version, result.error)
+  return { success: true, schemaVersion: version, data: result.data as N8NWorkflowPayload }
+}
+
+/**
+ * One line per issue, for logs and thrown errors
+ */
+export function formatContractIssues(issues: ContractIssue[]): string {
+  return issues.map(issue => `${issue.path || '(root)'}: ${issue.message}`).join('; ')
+}
+
+function detectVersion(input: unknown): N8NSchemaVersion | ContractFailure {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { success: false, schemaVersion: null, issues: [{ path: '', message: 'Expected a JSON object', code: 'invalid_type' }] }
+  }
+
+  // Untagged payloads predate versioning
+  const declared = (input as { schemaVersion?: unknown }).schemaVersion ?? 1
+  if (!SUPPORTED_SCHEMA_VERSIONS.includes(declared as N8NSchemaVersion)) {
+    return {
+      success: false,
+      schemaVersion: typeof declared === 'number' ? declared : null,
+      issues: [{
+        path: 'schemaVersion',
+        message: `Unsupported schema version ${JSON.stringify(declared)}; supported versions are ${SUPPORTED_SCHEMA_VERSIONS.join(', ')}`,
+        code: 'unsupported_version'
+      }]
+    }
+  }
+
+  return declared as N8NSchemaVersion
+}
+
+function failure(schemaVersion: number | null, error: z.ZodError): ContractFailure {
+  return {
+    success: false,
+    schemaVersion,
+    // An unexpected key is reported at the key itself rather than at its parent object
+    issues: error.issues.flatMap<ContractIssue>(issue => issue.code === z.ZodIssueCode.unrecognized_keys
+      ? issue.keys.map(key => ({ path: [...issue.path, key].join('.'), message: 'Unexpected field', code: issue.code }))
+      : [{ path: issue.path.join('.'), message: issue.message, code: issue.code }])
+  }
+}
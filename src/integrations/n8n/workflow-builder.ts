@@ -0,0 +1,424 @@
+// N8N Workflow Builder
+// Workflows as code: nodes, connections and credential references are declared with a typed builder,
+// validated, laid out automatically, exported in n8n's import format and diffed against deployed copies
+
+export interface N8NCredentialRef {
+  // Credential ids differ between n8n instances, so references resolve by name when the id is left out
+  id?: string
+  name: string
+}
+
+export type N8NNodeErrorMode = 'stopWorkflow' | 'continueRegularOutput' | 'continueErrorOutput'
+
+export interface WorkflowNodeSpec {
+  type: string
+  name: string
+  typeVersion?: number
+  parameters?: Record<string, unknown>
+  // Credential type -> reference, e.g. { supabaseApi: { name: 'Supabase account' } }
+  credentials?: Record<string, N8NCredentialRef>
+  // Switch and if nodes route items to more than one output
+  outputs?: number
+  // Entry points; every other node must be reachable from one
+  trigger?: boolean
+  disabled?: boolean
+  notes?: string
+  onError?: N8NNodeErrorMode
+  retryOnFail?: boolean
+  maxTries?: number
+}
+
+export type WorkflowNode<TExtra extends object = object> = WorkflowNodeSpec & TExtra & {
+  id: string
+  position: [number, number]
+}
+
+export interface WorkflowConnection {
+  source: string
+  destination: string
+  output: number
+  input: number
+}
+
+// The workflow-level settings n8n accepts
+export interface N8NWorkflowSettings {
+  executionOrder?: 'v0' | 'v1'
+  // Seconds
+  executionTimeout?: number
+  saveManualExecutions?: boolean
+  saveExecutionProgress?: boolean
+  errorWorkflow?: string
+  timezone?: string
+}
+
+export interface WorkflowDefinition<TExtra extends object = object> {
+  name: string
+  description: string
+  nodes: Array<WorkflowNode<TExtra>>
+  connections: WorkflowConnection[]
+  settings: N8NWorkflowSettings
+  tags: string[]
+}
+
+export interface WorkflowValidationIssue {
+  code:
+    | 'duplicate_node'
+    | 'duplicate_name'
+    | 'unknown_node'
+    | 'invalid_output'
+    | 'self_connection'
+    | 'duplicate_connection'
+    | 'no_trigger'
+    | 'dangling_node'
+  message: string
+  nodeId?: string
+}
+
+export class WorkflowValidationError extends Error {
+  constructor(
+    public readonly workflowName: string,
+    public readonly issues: WorkflowValidationIssue[]
+  ) {
+    super(`Workflow "${workflowName}" is invalid: ${issues.map(issue => issue.message).join('; ')}`)
+    this.name = 'WorkflowValidationError'
+  }
+}
+
+// n8n's import/export format
+export interface N8NWorkflowJson {
+  name: string
+  nodes: Array<{
+    id: string
+    name: string
+    type: string
+    typeVersion: number
+    position: [number, number]
+    parameters: Record<string, unknown>
+    credentials?: Record<string, N8NCredentialRef>
+    disabled?: boolean
+    notes?: string
+    onError?: N8NNodeErrorMode
+    retryOnFail?: boolean
+    maxTries?: number
+  }>
+  // Keyed by source node name; one array of targets per output
+  connections: Record<string, { main: Array<Array<{ node: string; type: 'main'; index: number }>> }>
+  settings: N8NWorkflowSettings
+  staticData: null
+  tags: string[]
+  meta: Record<string, unknown>
+}
+
+export interface WorkflowDiff {
+  hasChanges: boolean
+  addedNodes: string[]
+  removedNodes: string[]
+  // Node name -> fields that differ; positions are ignored since people move nodes around in the editor
+  changedNodes: Array<{ name: string; fields: string[] }>
+  // "Source[output] -> Destination[input]"
+  addedConnections: string[]
+  removedConnections: string[]
+  settingsChanged: boolean
+}
+
+const LAYOUT_ORIGIN: [number, number] = [100, 200]
+const LAYOUT_COLUMN_WIDTH = 200
+const LAYOUT_ROW_HEIGHT = 100
+
+const COMPARED_NODE_FIELDS = ['type', 'typeVersion', 'parameters', 'credentials', 'disabled', 'notes', 'onError', 'retryOnFail', 'maxTries'] as const
+
+export class WorkflowBuilder<TExtra extends object = object> {
+  private readonly nodes: Array<WorkflowNodeSpec & TExtra & { id: string }> = []
+  private readonly connections: WorkflowConnection[] = []
+
+  constructor(
+    private readonly name: string,
+    private readonly options: { description?: string; settings?: N8NWorkflowSettings; tags?: string[] } = {}
+  ) {}
+
+  /**
+   * Add a node; ids are local to the definition and become the exported node ids
+   */
+  node(id: string, spec: WorkflowNodeSpec & TExtra): this {
+    this.nodes.push({ ...spec, id })
+    return this
+  }
+
+  /**
+   * Connect an output of one node to an input of another
+   */
+  connect(source: string, destination: string, options: { output?: number; input?: number } = {}): this {
+    this.connections.push({ source, destination, output: options.output ?? 0, input: options.input ?? 0 })
+    return this
+  }
+
+  /**
+   * Connect each node to the next through their first output
+   */
+  chain(...ids: string[]): this {
+    for (let i = 1; i < ids.length; i++) {
+      this.connect(ids[i - 1], ids[i])
+    }
+    return this
+  }
+
+  /**
+   * Everything that would make the workflow fail to import or leave parts of it unreachable
+   */
+  validate(): WorkflowValidationIssue[] {
+    const issues: WorkflowValidationIssue[] = []
+    const byId = new Map<string, WorkflowNodeSpec>()
+    const names = new Set<string>()
+
+    for (const node of this.nodes) {
+      if (byId.has(node.id)) {
+        issues.push({ code: 'duplicate_node', nodeId: node.id, message: `Node id ${node.id} is used more than once` })
+      }
+      // n8n keys connections by name, so names must be unique too
+      if (names.has(node.name)) {
+        issues.push({ code: 'duplicate_name', nodeId: node.id, message: `Node name "${node.name}" is used more than once` })
+      }
+      byId.set(node.id, node)
+      names.add(node.name)
+    }
+
+    const seen = new Set<string>()
+    for (const connection of this.connections) {
+      const label = describeConnection(connection.source, connection.output, connection.destination, connection.input)
+      const source = byId.get(connection.source)
+
+      for (const id of [connection.source, connection.destination]) {
+        if (!byId.has(id)) {
+          issues.push({ code: 'unknown_node', nodeId: id, message: `Connection ${label} references unknown node ${id}` })
+        }
+      }
+      if (source && (connection.output < 0 || connection.output >= (source.outputs ?? 1))) {
+        issues.push({
+          code: 'invalid_output',
+          nodeId: connection.source,
+          message: `Connection ${label} uses output ${connection.output}, but ${connection.source} has ${source.outputs ?? 1}`
+        })
+      }
+      if (connection.source === connection.destination) {
+        issues.push({ code: 'self_connection', nodeId: connection.source, message: `Node ${connection.source} is connected to itself` })
+      }
+      if (seen.has(label)) {
+        issues.push({ code: 'duplicate_connection', nodeId: connection.source, message: `Connection ${label} is declared more than once` })
+      }
+      seen.add(label)
+    }
+
+    const triggers = this.nodes.filter(node => node.trigger).map(node => node.id)
+    if (triggers.length === 0) {
+      issues.push({ code: 'no_trigger', message: 'Workflow has no trigger node' })
+      return issues
+    }
+
+    const reachable = this.reachableFrom(triggers)
+    for (const node of this.nodes) {
+      if (!reachable.has(node.id)) {
+        issues.push({ code: 'dangling_node', nodeId: node.id, message: `Node ${node.id} is not reachable from a trigger` })
+      }
+    }
+
+    return issues
+  }
+
+  /**
+   * Validate and lay out the workflow
+   */
+  build(): WorkflowDefinition<TExtra> {
+    const issues = this.validate()
+    if (issues.length > 0) {
+      throw new WorkflowValidationError(this.name, issues)
+    }
+
+    const positions = this.layout()
+    return {
+      name: this.name,
+      description: this.options.description || '',
+      nodes: this.nodes.map(node => ({ ...node, position: positions.get(node.id)! })),
+      connections: [...this.connections],
+      settings: { ...this.options.settings },
+      tags: [...(this.options.tags || [])]
+    }
+  }
+
+  /**
+   * Place each node in the column of its longest path from a trigger, centring each column
+   * vertically. Connections that loop back are ignored.
+   */
+  private layout(): Map<string, [number, number]> {
+    const depth = new Map<string, number>()
+    const visiting = new Set<string>()
+
+    const visit = (id: string, level: number) => {
+      if (visiting.has(id) || (depth.get(id) ?? -1) >= level) return
+      depth.set(id, level)
+      visiting.add(id)
+      for (const connection of this.connections.filter(c => c.source === id)) {
+        visit(connection.destination, level + 1)
+      }
+      visiting.delete(id)
+    }
+    this.nodes.filter(node => node.trigger).forEach(node => visit(node.id, 0))
+
+    const columns = new Map<number, string[]>()
+    for (const node of this.nodes) {
+      const column = depth.get(node.id) ?? 0
+      columns.set(column, [...(columns.get(column) || []), node.id])
+    }
+
+    const positions = new Map<string, [number, number]>()
+    for (const [column, ids] of columns) {
+      ids.forEach((id, row) => {
+        positions.set(id, [
+          LAYOUT_ORIGIN[0] + column * LAYOUT_COLUMN_WIDTH,
+          LAYOUT_ORIGIN[1] + (row - (ids.length - 1) / 2) * LAYOUT_ROW_HEIGHT
+        ])
+      })
+    }
+
+    return positions
+  }
+
+  private reachableFrom(ids: string[]): Set<string> {
+    const reachable = new Set<string>()
+    const queue = [...ids]
+    while (queue.length > 0) {
+      const id = queue.shift()!
+      if (reachable.has(id)) continue
+      reachable.add(id)
+      queue.push(...this.connections.filter(c => c.source === id).map(c => c.destination))
+    }
+    return reachable
+  }
+}
+
+/**
+ * Convert a built definition into the JSON n8n imports
+ */
+export function toN8NJson(definition: WorkflowDefinition): N8NWorkflowJson {
+  const names = new Map(definition.nodes.map(node => [node.id, node.name]))
+  const connections: N8NWorkflowJson['connections'] = {}
+
+  for (const connection of definition.connections) {
+    const source = names.get(connection.source)!
+    const outputs = connections[source]?.main || []
+    while (outputs.length <= connection.output) outputs.push([])
+    outputs[connection.output].push({ node: names.get(connection.destination)!, type: 'main', index: connection.input })
+    connections[source] = { main: outputs }
+  }
+
+  return {
+    name: definition.name,
+    nodes: definition.nodes.map(node => ({
+      id: node.id,
+      name: node.name,
+      type: node.type,
+      typeVersion: node.typeVersion ?? 1,
+      position: node.position,
+      parameters: node.parameters || {},
+      ...(node.credentials && { credentials: node.credentials }),
+      ...(node.disabled && { disabled: true }),
+      ...(node.notes && { notes: node.notes }),
+      ...(node.onError && { onError: node.onError }),
+      ...(node.retryOnFail && { retryOnFail: true, maxTries: node.maxTries ?? 3 })
+    })),
+    connections,
+    settings: definition.settings,
+    staticData: null,
+    tags: definition.tags,
+    meta: {}
+  }
+}
+
+/**
+ * What deploying the local workflow would change in the deployed one
+ */
+export function diffWorkflows(
+  local: Pick<N8NWorkflowJson, 'nodes' | 'connections' | 'settings'>,
+  deployed: Pick<N8NWorkflowJson, 'nodes' | 'connections' | 'settings'>
+): WorkflowDiff {
+  const deployedNodes = new Map(deployed.nodes.map(node => [node.name, node]))
+  const localNames = new Set(local.nodes.map(node => node.name))
+
+  const changedNodes: WorkflowDiff['changedNodes'] = []
+  for (const node of local.nodes) {
+    const current = deployedNodes.get(node.name)
+    if (!current) continue
+    const fields = COMPARED_NODE_FIELDS.filter(field => {
+      // Credentials are matched by name; ids are assigned per instance
+      if (field === 'credentials') return !sameValue(credentialNames(node.credentials), credentialNames(current.credentials))
+      return !sameValue(node[field], current[field])
+    })
+    if (fields.length > 0) changedNodes.push({ name: node.name, fields })
+  }
+
+  const localConnections = connectionLabels(local.connections)
+  const deployedConnections = connectionLabels(deployed.connections)
+
+  const diff = {
+    addedNodes: local.nodes.filter(node => !deployedNodes.has(node.name)).map(node => node.name),
+    removedNodes: deployed.nodes.filter(node => !localNames.has(node.name)).map(node => node.name),
+    changedNodes,
+    addedConnections: localConnections.filter(label => !deployedConnections.includes(label)),
+    removedConnections: deployedConnections.filter(label => !localConnections.includes(label)),
+    settingsChanged: !sameValue(local.settings || {}, deployed.settings || {})
+  }
+
+  return {
+    ...diff,
+    hasChanges: diff.addedNodes.length > 0 || diff.removedNodes.length > 0 || diff.changedNodes.length > 0 ||
+      diff.addedConnections.length > 0 || diff.removedConnections.length > 0 || diff.settingsChanged
+  }
+}
+
+/**
+ * One line per change, for logs and deployment previews
+ */
+export function formatWorkflowDiff(diff: WorkflowDiff): string {
+  if (!diff.hasChanges) return 'No changes'
+  return [
+    ...diff.addedNodes.map(name => `+ node ${name}`),
+    ...diff.removedNodes.map(name => `- node ${name}`),
+    ...diff.changedNodes.map(node => `~ node ${node.name} (${node.fields.join(', ')})`),
+    ...diff.addedConnections.map(label => `+ ${label}`),
+    ...diff.removedConnections.map(label => `- ${label}`),
+    ...(diff.settingsChanged ? ['~ settings'] : [])
+  ].join('\n')
+}
+
+function describeConnection(source: string, output: number, destination: string, input: number): string {
+  return `${source}[${output}] -> ${destination}[${input}]`
+}
+
+function connectionLabels(connections: N8NWorkflowJson['connections']): string[] {
+  return Object.entries(connections || {}).flatMap(([source, { main }]) =>
+    (main || []).flatMap((targets, output) =>
+      (targets || []).map(target => describeConnection(source, output, target.node, target.index))
+    )
+  )
+}
+
+function credentialNames(credentials: Record<string, N8NCredentialRef> | undefined): Record<string, string> {
+  return Object.fromEntries(Object.entries(credentials || {}).map(([type, ref]) => [type, ref.name]))
+}
+
+// Structural equality that ignores key order and treats missing and undefined alike
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b))
+}
+
+function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(normalize)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .filter(([, entry]) => entry !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, entry]) => [key, normalize(entry)])
+    )
+  }
+  return value
+}
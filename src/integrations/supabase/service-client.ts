@@ -0,0 +1,41 @@
+// Service-Role Supabase Client
+// Server-only replacement for ./client in headless workers. tsconfig.server.json maps
+// '@/integrations/supabase/client' onto this module, so every service the worker loads runs as
+// service_role instead of an anonymous session that row-level security hides everything from.
+// It bypasses RLS: never import it from browser code.
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './types'
+
+const serviceClients = new WeakSet<SupabaseClient<Database>>()
+
+/**
+ * Create a client authenticated with SUPABASE_SERVICE_ROLE_KEY; throws when it is not configured
+ */
+export function createServiceClient(): SupabaseClient<Database> {
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!url || !serviceRoleKey) {
+    throw new Error('SUPABASE_URL (or VITE_SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY must be set for headless workers')
+  }
+
+  const client = createClient<Database>(url, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  })
+  serviceClients.add(client)
+  return client
+}
+
+/**
+ * Throw unless the shared client is the service-role one, i.e. the process was started with
+ * tsconfig.server.json; otherwise every query would silently match no rows
+ */
+export function assertServiceClient(client: SupabaseClient<Database>, processName: string): void {
+  if (!serviceClients.has(client)) {
+    throw new Error(`${processName} must run with tsconfig.server.json (npm run worker:*) so it uses the service-role client`)
+  }
+}
+
+// Same export name as ./client so the path mapping is transparent to the services
+export const supabase = createServiceClient()
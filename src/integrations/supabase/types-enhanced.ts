@@ -18,9 +18,15 @@ export type AssetStatus = 'draft' | 'reviewing' | 'ready' | 'queued' | 'publishi
 // Destination status states
 export type DestinationStatus = 'draft' | 'ready' | 'queued' | 'publishing' | 'published' | 'failed' | 'cancelled'
 
+// Publish queue job states
+export type PublishQueueStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'dead_letter'
+
 // Social media platforms
 export type Platform = 'instagram' | 'tiktok' | 'linkedin' | 'facebook' | 'youtube'
 
+// Origin of a stored caption
+export type RenderedCaptionSource = 'template' | 'experiment' | 'manual' | 'request' | 'fallback'
+
 // Event types for event sourcing
 export type EventType = 
   | 'asset_created'
@@ -36,6 +42,9 @@ export type EventType =
 // Workflow types
 export type WorkflowType = 'publish_reel' | 'publish_carousel' | 'schedule_post' | 'batch_publish'
 
+// Workflow execution states; see WORKFLOW_TRANSITIONS for the legal moves
+export type WorkflowExecutionStatus = 'started' | 'running' | 'completed' | 'failed' | 'cancelled' | 'timed_out'
+
 // Beat marker types for video processing
 export type BeatMarkerType = 'beat' | 'cut' | 'highlight' | 'text_overlay'
 
@@ -137,33 +146,49 @@ export interface EnhancedDatabase {
           asset_id: string | null
           workflow_type: WorkflowType
           n8n_execution_id: string | null
-          status: 'started' | 'running' | 'completed' | 'failed' | 'cancelled'
+          status: WorkflowExecutionStatus
           input_data: Json
           output_data: Json
           error_details: string | null
           started_at: string
           completed_at: string | null
           duration_ms: number | null
+          timeout_at: string | null
+          status_changed_at: string
+          n8n_status: N8NExecutionStatus | null
+          n8n_node_runs: Json
+          n8n_synced_at: string | null
         }
         Insert: {
           id?: string
           asset_id?: string | null
           workflow_type: WorkflowType
           n8n_execution_id?: string | null
-          status?: 'started' | 'running' | 'completed' | 'failed' | 'cancelled'
+          status?: WorkflowExecutionStatus
           input_data?: Json
           output_data?: Json
           error_details?: string | null
           started_at?: string
           completed_at?: string | null
           duration_ms?: number | null
+          timeout_at?: string | null
+          status_changed_at?: string
+          n8n_status?: N8NExecutionStatus | null
+          n8n_node_runs?: Json
+          n8n_synced_at?: string | null
         }
         Update: {
-          status?: 'started' | 'running' | 'completed' | 'failed' | 'cancelled'
+          n8n_execution_id?: string | null
+          status?: WorkflowExecutionStatus
           output_data?: Json
           error_details?: string | null
           completed_at?: string | null
           duration_ms?: number | null
+          timeout_at?: string | null
+          status_changed_at?: string
+          n8n_status?: N8NExecutionStatus | null
+          n8n_node_runs?: Json
+          n8n_synced_at?: string | null
         }
       }
 
@@ -202,6 +227,10 @@ export interface EnhancedDatabase {
           platform: Platform | null
           content_type: ContentType | null
           is_active: boolean
+          // Language the template source is written in
+          locale: string
+          current_version_id: string | null
+          current_version_number: number | null
           created_at: string
           updated_at: string
         }
@@ -213,6 +242,7 @@ export interface EnhancedDatabase {
           platform?: Platform | null
           content_type?: ContentType | null
           is_active?: boolean
+          locale?: string
           created_at?: string
           updated_at?: string
         }
@@ -223,29 +253,107 @@ export interface EnhancedDatabase {
           platform?: Platform | null
           content_type?: ContentType | null
           is_active?: boolean
+          locale?: string
           updated_at?: string
         }
       }
 
+      // Translated template source, one per template and locale
+      caption_template_translations: {
+        Row: {
+          id: string
+          template_id: string
+          locale: string
+          template: string
+          variables: Json
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          template_id: string
+          locale: string
+          template: string
+          variables?: Json
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          locale?: string
+          template?: string
+          variables?: Json
+          updated_at?: string
+        }
+      }
+
+      // Immutable snapshots of caption templates, one per edit
+      caption_template_versions: {
+        Row: {
+          id: string
+          template_id: string
+          version_number: number
+          name: string
+          template: string
+          variables: Json
+          platform: Platform | null
+          content_type: ContentType | null
+          change_note: string | null
+          restored_from_version_id: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          template_id: string
+          version_number: number
+          name: string
+          template: string
+          variables?: Json
+          platform?: Platform | null
+          content_type?: ContentType | null
+          change_note?: string | null
+          restored_from_version_id?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: Record<string, never>
+      }
+
       rendered_captions: {
         Row: {
           id: string
           destination_id: string
           template_id: string | null
+          template_version_id: string | null
+          variant_id: string | null
           rendered_text: string
           hashtags: string[]
           mentions: string[]
           character_count: number | null
+          locale: string | null
+          source: RenderedCaptionSource
+          is_locked: boolean
+          locked_by: string | null
+          locked_at: string | null
           created_at: string
         }
         Insert: {
           id?: string
           destination_id: string
           template_id?: string | null
+          template_version_id?: string | null
+          variant_id?: string | null
           rendered_text: string
           hashtags?: string[]
           mentions?: string[]
           character_count?: number | null
+          locale?: string | null
+          source?: RenderedCaptionSource
+          is_locked?: boolean
+          locked_by?: string | null
+          locked_at?: string | null
           created_at?: string
         }
         Update: {
@@ -253,9 +361,188 @@ export interface EnhancedDatabase {
           hashtags?: string[]
           mentions?: string[]
           character_count?: number | null
+          is_locked?: boolean
+          locked_by?: string | null
+          locked_at?: string | null
+        }
+      }
+
+      // A/B tests of caption variants for one asset
+      caption_experiments: {
+        Row: {
+          id: string
+          asset_id: string
+          name: string
+          hypothesis: string | null
+          status: CaptionExperimentStatus
+          metric: CaptionExperimentMetric
+          min_views_per_variant: number
+          confidence: number
+          winner_variant_id: string | null
+          winner_p_value: number | null
+          promoted_template_id: string | null
+          created_by: string | null
+          started_at: string | null
+          completed_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          asset_id: string
+          name: string
+          hypothesis?: string | null
+          status?: CaptionExperimentStatus
+          metric?: CaptionExperimentMetric
+          min_views_per_variant?: number
+          confidence?: number
+          created_by?: string | null
+        }
+        Update: {
+          name?: string
+          hypothesis?: string | null
+          status?: CaptionExperimentStatus
+          metric?: CaptionExperimentMetric
+          min_views_per_variant?: number
+          confidence?: number
+          started_at?: string | null
+          completed_at?: string | null
+        }
+      }
+
+      caption_variants: {
+        Row: {
+          id: string
+          experiment_id: string
+          label: string
+          // Template source, rendered per destination
+          template: string
+          source_template_id: string | null
+          source_template_version_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          experiment_id: string
+          label: string
+          template: string
+          source_template_id?: string | null
+          source_template_version_id?: string | null
+        }
+        Update: Record<string, never>
+      }
+
+      // Engagement snapshots per asset, optionally per destination or platform
+      asset_analytics: {
+        Row: {
+          id: string
+          asset_id: string
+          destination_id: string | null
+          platform: Platform | null
+          views: number
+          likes: number
+          comments: number
+          shares: number
+          recorded_at: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          asset_id: string
+          destination_id?: string | null
+          platform?: Platform | null
+          views?: number
+          likes?: number
+          comments?: number
+          shares?: number
+          recorded_at?: string
+        }
+        Update: {
+          views?: number
+          likes?: number
+          comments?: number
+          shares?: number
+          recorded_at?: string
         }
       }
 
+      // Hashtag library: tags are lowercase without "#"
+      hashtag_sets: {
+        Row: {
+          id: string
+          name: string
+          niche: string
+          platform: Platform | null
+          tags: string[]
+          description: string | null
+          is_active: boolean
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          niche: string
+          platform?: Platform | null
+          tags?: string[]
+          description?: string | null
+          is_active?: boolean
+          created_by?: string | null
+        }
+        Update: {
+          name?: string
+          niche?: string
+          platform?: Platform | null
+          tags?: string[]
+          description?: string | null
+          is_active?: boolean
+        }
+      }
+
+      banned_hashtags: {
+        Row: {
+          id: string
+          tag: string
+          platform: Platform | null
+          status: BannedHashtagStatus
+          reason: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          tag: string
+          platform?: Platform | null
+          status?: BannedHashtagStatus
+          reason?: string | null
+          created_by?: string | null
+        }
+        Update: {
+          status?: BannedHashtagStatus
+          reason?: string | null
+        }
+      }
+
+      asset_hashtags: {
+        Row: {
+          id: string
+          asset_id: string
+          tag: string
+          platform: Platform | null
+          source: 'rendered_caption' | 'import' | 'metadata'
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          asset_id: string
+          tag: string
+          platform?: Platform | null
+          source?: 'rendered_caption' | 'import' | 'metadata'
+        }
+        Update: Record<string, never>
+      }
+
       // Scheduling system
       publishing_schedule: {
         Row: {
@@ -298,6 +585,19 @@ export interface EnhancedDatabase {
           headers: Json
           created_at: string
           last_used_at: string | null
+          // Read by the webhook security service
+          workflow_type: string | null
+          active: boolean | null
+          allowed_origins: string[] | null
+          rate_limit_requests: number | null
+          rate_limit_window_minutes: number | null
+          expires_at: string | null
+          // Ciphertext only; decrypted secrets come from get_webhook_secrets
+          secret_encrypted: string | null
+          previous_secret_encrypted: string | null
+          previous_secret_expires_at: string | null
+          secret_version: number
+          secret_rotated_at: string | null
         }
         Insert: {
           id?: string
@@ -309,6 +609,12 @@ export interface EnhancedDatabase {
           headers?: Json
           created_at?: string
           last_used_at?: string | null
+          workflow_type?: string | null
+          active?: boolean | null
+          allowed_origins?: string[] | null
+          rate_limit_requests?: number | null
+          rate_limit_window_minutes?: number | null
+          expires_at?: string | null
         }
         Update: {
           name?: string
@@ -318,7 +624,50 @@ export interface EnhancedDatabase {
           is_active?: boolean
           headers?: Json
           last_used_at?: string | null
+          active?: boolean | null
+          expires_at?: string | null
+        }
+      }
+
+      webhook_request_logs: {
+        Row: {
+          id: string
+          webhook_config_id: string | null
+          event_type: WebhookLogEventType
+          request_ip: string | null
+          user_agent: string | null
+          request_method: string | null
+          request_path: string | null
+          request_headers: Json | null
+          payload_size: number | null
+          response_status: number | null
+          response_time_ms: number | null
+          validation_result: string | null
+          error_message: string | null
+          performed_by: string | null
+          // WebhookSecretAuditDetails for secret_* events
+          details: Json
+          created_at: string
         }
+        Insert: {
+          id?: string
+          webhook_config_id?: string | null
+          event_type?: WebhookLogEventType
+          request_ip?: string | null
+          user_agent?: string | null
+          request_method?: string | null
+          request_path?: string | null
+          request_headers?: Json | null
+          payload_size?: number | null
+          response_status?: number | null
+          response_time_ms?: number | null
+          validation_result?: string | null
+          error_message?: string | null
+          performed_by?: string | null
+          details?: Json
+          created_at?: string
+        }
+        Update: Record<string, never>
       }
 
       webhook_deliveries: {
@@ -377,6 +726,11 @@ export interface EnhancedDatabase {
           platform_response: Json
           publishing_attempts: number
           next_retry_at: string | null
+          idempotency_key: string | null
+          publish_claimed_at: string | null
+          needs_reconcile: boolean
+          // DestinationPublishOptions
+          publish_options: Json
         }
         Insert: {
           id?: string
@@ -395,6 +749,10 @@ export interface EnhancedDatabase {
           platform_response?: Json
           publishing_attempts?: number
           next_retry_at?: string | null
+          idempotency_key?: string | null
+          publish_claimed_at?: string | null
+          needs_reconcile?: boolean
+          publish_options?: Json
         }
         Update: {
           status?: DestinationStatus
@@ -409,6 +767,140 @@ export interface EnhancedDatabase {
           platform_response?: Json
           publishing_attempts?: number
           next_retry_at?: string | null
+          idempotency_key?: string | null
+          publish_claimed_at?: string | null
+          needs_reconcile?: boolean
+          publish_options?: Json
+        }
+      }
+
+      // Durable publish queue drained by the headless worker
+      publish_queue: {
+        Row: {
+          id: string
+          asset_destination_id: string
+          priority: number
+          scheduled_at: string
+          status: PublishQueueStatus
+          attempts: number
+          max_attempts: number
+          error_details: {
+            last_error: string
+            history: Array<{
+              attempt: number
+              error: string
+              worker_id: string
+              failed_at: string
+            }>
+          } | null
+          locked_by: string | null
+          locked_at: string | null
+          last_attempt_at: string | null
+          completed_at: string | null
+          dead_lettered_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          asset_destination_id: string
+          priority?: number
+          scheduled_at: string
+          status?: PublishQueueStatus
+          attempts?: number
+          max_attempts?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          priority?: number
+          scheduled_at?: string
+          status?: PublishQueueStatus
+          attempts?: number
+          max_attempts?: number
+          error_details?: EnhancedDatabase['public']['Tables']['publish_queue']['Row']['error_details']
+          locked_by?: string | null
+          locked_at?: string | null
+          last_attempt_at?: string | null
+          completed_at?: string | null
+          dead_lettered_at?: string | null
+          updated_at?: string
+        }
+      }
+
+      // One row per publish try for a destination
+      publish_attempts: {
+        Row: {
+          id: string
+          destination_id: string
+          attempt_number: number
+          adapter: string
+          status: 'in_progress' | 'succeeded' | 'failed'
+          started_at: string
+          finished_at: string | null
+          duration_ms: number | null
+          http_status: number | null
+          error_class: string | null
+          error_message: string | null
+          platform_post_id: string | null
+          raw_response: Json | null
+          idempotency_key: string | null
+          rendered_caption_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          destination_id: string
+          adapter: string
+          status?: 'in_progress' | 'succeeded' | 'failed'
+          started_at?: string
+          idempotency_key?: string | null
+          rendered_caption_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          status?: 'in_progress' | 'succeeded' | 'failed'
+          finished_at?: string | null
+          duration_ms?: number | null
+          http_status?: number | null
+          error_class?: string | null
+          error_message?: string | null
+          platform_post_id?: string | null
+          raw_response?: Json | null
+        }
+      }
+
+      // Latest platform usage headers and throttle windows per account
+      account_rate_limits: {
+        Row: {
+          account_id: string
+          platform: Platform
+          app_usage: Json | null
+          business_usage: Json | null
+          usage_percent: number
+          throttled_until: string | null
+          throttle_reason: string | null
+          observed_at: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          account_id: string
+          platform: Platform
+          app_usage?: Json | null
+          business_usage?: Json | null
+          usage_percent?: number
+          throttled_until?: string | null
+          throttle_reason?: string | null
+          observed_at?: string
+        }
+        Update: {
+          app_usage?: Json | null
+          business_usage?: Json | null
+          usage_percent?: number
+          throttled_until?: string | null
+          throttle_reason?: string | null
+          observed_at?: string
         }
       }
 
@@ -419,10 +911,23 @@ export interface EnhancedDatabase {
           platform: Platform
           account_name: string
           account_handle: string
-          access_token: string | null
-          refresh_token: string | null
+          // Ciphertext only; decrypted tokens come from get_account_tokens
+          access_token_encrypted: string | null
+          refresh_token_encrypted: string | null
           token_expires_at: string | null
+          token_scopes: string[] | null
+          token_refreshed_at: string | null
+          token_status: AccountTokenStatus
+          token_error: string | null
+          platform_account_id: string | null
           account_metadata: Json
+          // BrandVoice
+          brand_voice: Json
+          // CaptionPolicy
+          caption_policy: Json
+          locale: string
+          // BusinessProfile
+          business_profile: Json
           is_active: boolean
           created_by: string | null
           created_at: string
@@ -433,10 +938,14 @@ export interface EnhancedDatabase {
           platform: Platform
           account_name: string
           account_handle: string
-          access_token?: string | null
-          refresh_token?: string | null
           token_expires_at?: string | null
+          token_status?: AccountTokenStatus
+          platform_account_id?: string | null
           account_metadata?: Json
+          brand_voice?: Json
+          caption_policy?: Json
+          locale?: string
+          business_profile?: Json
           is_active?: boolean
           created_by?: string | null
           created_at?: string
@@ -446,10 +955,17 @@ export interface EnhancedDatabase {
           platform?: Platform
           account_name?: string
           account_handle?: string
-          access_token?: string | null
-          refresh_token?: string | null
+          access_token_encrypted?: string | null
+          refresh_token_encrypted?: string | null
           token_expires_at?: string | null
+          token_status?: AccountTokenStatus
+          token_error?: string | null
+          platform_account_id?: string | null
           account_metadata?: Json
+          brand_voice?: Json
+          caption_policy?: Json
+          locale?: string
+          business_profile?: Json
           is_active?: boolean
           updated_at?: string
         }
@@ -486,6 +1002,100 @@ export interface EnhancedDatabase {
         Args: { asset_uuid: string }
         Returns: Json
       }
+      claim_publish_jobs: {
+        Args: {
+          worker_id: string
+          batch_size?: number
+          lock_timeout_seconds?: number
+        }
+        Returns: EnhancedDatabase['public']['Tables']['publish_queue']['Row'][]
+      }
+      store_account_tokens: {
+        Args: {
+          account_uuid: string
+          new_access_token: string
+          new_refresh_token?: string | null
+          expires_at?: string | null
+          scopes?: string[] | null
+        }
+        Returns: undefined
+      }
+      rotate_webhook_secret: {
+        Args: {
+          config_uuid: string
+          grace_minutes?: number
+          new_secret?: string
+        }
+        Returns: WebhookSecretRotation[]
+      }
+      get_webhook_secrets: {
+        Args: { config_uuid?: string }
+        Returns: WebhookSecrets[]
+      }
+      retire_expired_webhook_secrets: {
+        Args: Record<string, never>
+        Returns: number
+      }
+      get_account_tokens: {
+        Args: { account_uuid: string }
+        Returns: AccountTokens[]
+      }
+      account_token_health: {
+        Args: Record<string, never>
+        Returns: AccountTokenHealth[]
+      }
+      account_publish_window: {
+        Args: {
+          account_uuid: string
+          window_seconds?: number
+        }
+        Returns: {
+          post_count: number
+          oldest_post_at: string | null
+        }[]
+      }
+      claim_destination_for_publish: {
+        Args: {
+          destination_id: string
+          idempotency_key: string
+          force?: boolean
+          lease_seconds?: number
+        }
+        Returns: {
+          claimed: boolean
+          reason: 'claimed' | 'not_found' | 'already_published' | 'in_progress'
+          previous_idempotency_key: string | null
+          needs_reconcile: boolean
+          platform_post_id: string | null
+        }[]
+      }
+      rollback_caption_template: {
+        Args: {
+          template_uuid: string
+          version_uuid: string
+        }
+        Returns: EnhancedDatabase['public']['Tables']['caption_templates']['Row']
+      }
+      caption_template_version_usage: {
+        Args: { template_uuid: string }
+        Returns: CaptionTemplateVersionUsage[]
+      }
+      caption_experiment_results: {
+        Args: { experiment_uuid: string }
+        Returns: CaptionVariantTotals[]
+      }
+      promote_caption_variant: {
+        Args: {
+          experiment_uuid: string
+          variant_uuid: string
+          p_value?: number | null
+        }
+        Returns: EnhancedDatabase['public']['Tables']['caption_experiments']['Row']
+      }
+      hashtag_performance: {
+        Args: { platform_filter?: Platform | null }
+        Returns: HashtagPerformance[]
+      }
       check_scheduling_conflict: {
         Args: { 
           account_uuid: string
@@ -521,6 +1131,24 @@ export type AssetWithMetadata = Tables<'assets'> & {
   beat_markers?: Tables<'beat_markers'>[]
 }
 
+export type PublishQueueJob = Tables<'publish_queue'>
+
+export type PublishAttempt = Tables<'publish_attempts'>
+
+export type CaptionTemplateVersion = Tables<'caption_template_versions'>
+
+export type CaptionTemplateTranslation = Tables<'caption_template_translations'>
+
+export type DestinationCaption = Tables<'rendered_captions'>
+
+export type HashtagSet = Tables<'hashtag_sets'>
+
+export type CaptionExperiment = Tables<'caption_experiments'>
+
+export type CaptionExperimentVariant = Tables<'caption_variants'>
+
+export type BannedHashtag = Tables<'banned_hashtags'>
+
 export type WorkflowExecution = Tables<'workflow_executions'> & {
   assets?: Tables<'assets'>
 }
@@ -531,21 +1159,36 @@ export type EventWithEntity = Tables<'events'> & {
 }
 
 // N8N Workflow Integration Types
-export interface N8NWorkflowPayload {
-  assetId: string
-  workflowType: WorkflowType
-  destinations: string[]
-  scheduledTime?: string
-  metadata?: Json
-}
-
-export interface N8NWebhookResponse {
-  executionId: string
-  status: 'started' | 'completed' | 'failed'
-  data?: Json
+// Webhook payloads are defined by the versioned contract
+export type { N8NCallback, N8NWebhookResponse, N8NWorkflowPayload } from '@/integrations/n8n/contract'
+
+// Execution status as reported by the n8n REST API
+export type N8NExecutionStatus = 'new' | 'running' | 'waiting' | 'success' | 'error' | 'canceled' | 'crashed' | 'unknown'
+
+// One run of one node, flattened from an execution's runData
+export interface N8NNodeRun {
+  node: string
+  // Run index, for nodes that ran more than once (loops, retries)
+  run: number
+  status: 'success' | 'error' | 'running' | 'waiting'
+  startedAt: string
+  durationMs: number
+  itemCount: number
   error?: string
 }
 
+export interface N8NExecutionSnapshot {
+  id: string
+  workflowId: string | null
+  status: N8NExecutionStatus
+  finished: boolean
+  startedAt: string | null
+  stoppedAt: string | null
+  lastNodeExecuted: string | null
+  error: string | null
+  nodes: N8NNodeRun[]
+}
+
 // Instagram Graph API Types
 export interface InstagramMediaResponse {
   id: string
@@ -567,7 +1210,380 @@ export interface InstagramPublishResponse {
   }
 }
 
+// Publish Option Types
+// Account tagged in an image; x and y are fractions of the width and height from the top left
+export interface PublishUserTag {
+  username: string
+  x: number
+  y: number
+  // Carousel item the tag belongs to, 0-based; the first item when omitted
+  mediaIndex?: number
+}
+
+// Per-destination extras, stored in asset_destinations.publish_options
+export interface DestinationPublishOptions {
+  // Posted as a comment right after the post goes live
+  firstComment?: string
+  // Instagram usernames invited as collaborators, at most 3
+  collaborators?: string[]
+  userTags?: PublishUserTag[]
+  // Facebook Page ID of the place, used by Instagram and Facebook
+  locationId?: string
+  // One text for a single image, or one per carousel item
+  altText?: string | string[]
+}
+
+export type PublishOption = keyof DestinationPublishOptions
+
+export interface PostPublishActionResult {
+  action: 'first_comment'
+  status: 'succeeded' | 'failed'
+  id?: string
+  error?: string
+}
+
+// TikTok Content Posting API Types
+export type TikTokPrivacyLevel =
+  | 'PUBLIC_TO_EVERYONE'
+  | 'MUTUAL_FOLLOW_FRIENDS'
+  | 'FOLLOWER_OF_CREATOR'
+  | 'SELF_ONLY'
+
+export interface TikTokCreatorInfo {
+  creator_username?: string
+  creator_nickname?: string
+  privacy_level_options: TikTokPrivacyLevel[]
+  comment_disabled: boolean
+  duet_disabled: boolean
+  stitch_disabled: boolean
+  max_video_post_duration_sec: number
+}
+
+export interface TikTokPublishResponse {
+  publish_id: string
+  post_id?: string
+  status: string
+  privacy_level: TikTokPrivacyLevel
+}
+
+// YouTube Data API Types
+export type YouTubePrivacyStatus = 'public' | 'unlisted' | 'private'
+
+export interface YouTubeUploadResponse {
+  id: string
+  snippet?: {
+    title: string
+    description: string
+    tags?: string[]
+    categoryId: string
+  }
+  status?: {
+    uploadStatus: string
+    privacyStatus: YouTubePrivacyStatus
+  }
+}
+
+// LinkedIn API Types
+export interface LinkedInPublishResponse {
+  id: string
+  author: string
+  media: string[]
+}
+
+// Facebook Graph API Types
+export interface FacebookPublishPhase {
+  phase: string
+  status: 'succeeded' | 'failed'
+  id?: string
+  error?: {
+    message: string
+    type?: string
+    code?: number
+    fbtrace_id?: string
+    http_status?: number
+  }
+  completed_at: string
+}
+
+export interface FacebookPublishResponse {
+  id: string
+  video_id?: string
+  phases: FacebookPublishPhase[]
+  error?: FacebookPublishPhase['error']
+}
+
+// Account Token Types
+export type AccountTokenStatus = 'valid' | 'expiring' | 'expired' | 'refresh_failed' | 'disconnected'
+
+export interface AccountTokens {
+  access_token: string | null
+  refresh_token: string | null
+  token_expires_at: string | null
+}
+
+export type WebhookLogEventType = 'request' | 'secret_issued' | 'secret_rotated' | 'secret_retired'
+
+// Returned once by rotate_webhook_secret; the plaintext secret is not readable afterwards
+export interface WebhookSecretRotation {
+  secret: string
+  version: number
+  // Until when the replaced secret is still accepted; null when it was retired immediately
+  grace_ends_at: string | null
+}
+
+export interface WebhookSecrets {
+  config_id: string
+  current_secret: string
+  previous_secret: string | null
+  previous_expires_at: string | null
+  version: number
+}
+
+export interface WebhookSecretAuditDetails {
+  secret_version: number
+  grace_minutes?: number
+  previous_secret_expires_at?: string | null
+  grace_ended_at?: string
+  reason?: 'rotated_again' | 'grace_period_ended'
+}
+
+export interface AccountTokenHealth {
+  account_id: string
+  platform: Platform
+  account_handle: string
+  token_expires_at: string
+  token_refreshed_at: string | null
+  token_status: AccountTokenStatus
+  has_refresh_token: boolean
+  next_scheduled_at: string | null
+}
+
+// Account row with its decrypted tokens, as the platform services use it
+export type ConnectedAccount = EnhancedDatabase['public']['Tables']['accounts']['Row'] &
+  Pick<AccountTokens, 'access_token' | 'refresh_token'>
+
+// Publishing Quota Types
+export interface AccountQuota {
+  accountId: string
+  platform: Platform
+  postsUsed: number
+  postLimit: number | null
+  remaining: number | null
+  windowHours: number | null
+  usagePercent: number
+  throttledUntil: string | null
+  allowed: boolean
+  deferUntil?: string
+  reason?: string
+}
+
+// Preflight Validation Types
+export type PreflightCheckStatus = 'passed' | 'failed' | 'warning' | 'skipped'
+
+export interface PreflightCheck {
+  check: string
+  status: PreflightCheckStatus
+  message: string
+  destination_id?: string
+  platform?: Platform
+  actual?: number | string
+  limit?: number | string
+}
+
+export interface PreflightReport {
+  passed: boolean
+  checked_at: string
+  checks: PreflightCheck[]
+}
+
 // Caption Rendering Types
+export type HashtagPlacement = 'caption' | 'first_comment'
+
+export type TemplateDiagnosticSeverity = 'error' | 'warning'
+
+export interface TemplateDiagnostic {
+  severity: TemplateDiagnosticSeverity
+  message: string
+  // 1-based position of the offending tag
+  line: number
+  column: number
+  length: number
+}
+
+// Caption Generation Types
+export type EmojiStyle = 'none' | 'light' | 'heavy'
+
+export interface BrandVoice {
+  tone?: string
+  audience?: string
+  keywords?: string[]
+  avoidWords?: string[]
+  emojiStyle?: EmojiStyle
+  // Past captions that sound right, used as examples
+  sampleCaptions?: string[]
+}
+
+// Business details an account's captions read as {{business.*}}, stored in accounts.business_profile
+export interface BusinessProfile {
+  name?: string
+  website?: string
+  phone?: string
+  // ISO 4217 code for {{value | currency}}; defaults from the account locale
+  currency?: string
+}
+
+// Caption Lint Types
+export type CaptionLintSeverity = 'error' | 'warning'
+
+export type CaptionLintRule =
+  | 'banned_phrase'
+  | 'required_disclosure'
+  | 'emoji_density'
+  | 'link_shortener'
+  | 'unclickable_link'
+  | 'platform_mention'
+  | 'tone'
+  | 'avoid_word'
+
+export type LinkShortenerPolicy = 'allow' | 'warn' | 'block'
+
+// Per-account compliance settings, stored in accounts.caption_policy
+export interface CaptionPolicy {
+  // Line every caption must contain, e.g. "Licensed real estate broker in TX #123456"
+  disclosure?: string
+  // Account-specific phrases, on top of the built-in fair housing and earnings claim rules
+  bannedPhrases?: string[]
+  // Emoji per 100 characters, overriding the platform default
+  maxEmojiDensity?: Partial<Record<Platform, number>>
+  linkShorteners?: LinkShortenerPolicy
+  disabledRules?: CaptionLintRule[]
+}
+
+// Replace text[start, end) with replacement; start === end inserts
+export interface CaptionLintEdit {
+  start: number
+  end: number
+  replacement: string
+}
+
+export interface CaptionLintIssue {
+  rule: CaptionLintRule
+  severity: CaptionLintSeverity
+  message: string
+  suggestions: string[]
+  // Offending text and its UTF-16 offsets, when the issue points at a span
+  match?: string
+  start?: number
+  end?: number
+  // Edits that resolve the issue automatically, when there is a safe one
+  fix?: CaptionLintEdit[]
+}
+
+export interface CaptionGenerationRequest {
+  asset: {
+    id: string
+    title: string
+    description: string | null
+    contentType: ContentType
+    hashtags: string[]
+  }
+  platform: Platform
+  hook?: string
+  cta?: string
+  brandVoice: BrandVoice
+  variants: number
+  // Characters and hashtags the provider should aim for
+  limits: { characters: number; hashtags: number }
+}
+
+export interface CaptionVariantScore {
+  total: number
+  // Reason -> contribution, e.g. { within_limit: 0.3, keywords: 0.1 }
+  breakdown: Record<string, number>
+}
+
+export interface CaptionVariant {
+  platform: Platform
+  provider: string
+  text: string
+  hashtags: string[]
+  score: CaptionVariantScore
+  valid: boolean
+  issues: string[]
+  truncated: boolean
+}
+
+// Caption Experiment Types
+export type CaptionExperimentStatus = 'draft' | 'running' | 'completed' | 'cancelled'
+
+export type CaptionExperimentMetric = 'engagement_rate' | 'like_rate' | 'comment_rate' | 'share_rate'
+
+export interface CaptionVariantTotals {
+  variant_id: string
+  label: string
+  destination_count: number
+  published_count: number
+  // Destinations with an engagement snapshot
+  measured_count: number
+  views: number
+  likes: number
+  comments: number
+  shares: number
+}
+
+export interface CaptionVariantResult extends CaptionVariantTotals {
+  // Experiment metric per view, null without views
+  rate: number | null
+}
+
+export interface CaptionExperimentEvaluation {
+  winnerVariantId: string | null
+  // Bonferroni-adjusted p-value of the leader against the runner-up variants
+  pValue: number | null
+  // Relative improvement of the leader over the runner-up
+  lift: number | null
+  reason: string
+}
+
+// Hashtag Library Types
+export type BannedHashtagStatus = 'banned' | 'shadowbanned'
+
+export interface HashtagPerformance {
+  tag: string
+  // Assets posted with the tag, and how many of them have engagement metrics
+  usage_count: number
+  measured_count: number
+  total_views: number
+  total_likes: number
+  total_comments: number
+  total_shares: number
+  // (likes + comments + shares) / views; null until a measured asset has views
+  engagement_rate: number | null
+  last_used_at: string | null
+}
+
+export interface HashtagRecommendation {
+  setId: string
+  name: string
+  niche: string
+  // Best-performing first, banned tags removed, trimmed to the platform limit
+  tags: string[]
+  // Mean smoothed engagement rate of the tags
+  score: number
+  tagScores: Record<string, number>
+  removedBanned: string[]
+}
+
+export interface CaptionTemplateVersionUsage {
+  version_id: string
+  version_number: number
+  rendered_count: number
+  published_count: number
+  failed_count: number
+  pending_count: number
+  last_used_at: string | null
+}
+
 export interface CaptionVariable {
   name: string
   type: 'text' | 'number' | 'date' | 'array'
@@ -580,10 +1596,28 @@ export interface RenderedCaption {
   hashtags: string[]
   mentions: string[]
   characterCount: number
+  // Template and version the text was rendered from, recorded with the saved caption
+  templateId?: string | null
+  templateVersionId?: string | null
+  // Caption provider that wrote the text when no template did
+  provider?: string
+  // Locale the text was rendered in, after falling back through translations
+  locale?: string
+  // Template warnings such as unknown variables; templates with errors do not render
+  diagnostics?: TemplateDiagnostic[]
   platformSpecific: {
     [key in Platform]?: {
       text: string
       truncated: boolean
+      // Hashtags actually used, wherever they were placed
+      hashtags: string[]
+      hashtagPlacement: HashtagPlacement
+      // Hashtag comment to post right after publishing, when placement is first_comment
+      firstComment?: string
+      // Lower-priority sentences removed to fit the limit
+      droppedSentences: number
+      // Brand-voice and compliance issues in the text as it will be posted
+      lint: CaptionLintIssue[]
     }
   }
 }
\ No newline at end of file
@@ -9,47 +9,121 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      account_rate_limits: {
+        Row: {
+          account_id: string
+          app_usage: Json | null
+          business_usage: Json | null
+          created_at: string | null
+          observed_at: string | null
+          platform: string
+          throttle_reason: string | null
+          throttled_until: string | null
+          updated_at: string | null
+          usage_percent: number | null
+        }
+        Insert: {
+          account_id: string
+          app_usage?: Json | null
+          business_usage?: Json | null
+          created_at?: string | null
+          observed_at?: string | null
+          platform: string
+          throttle_reason?: string | null
+          throttled_until?: string | null
+          updated_at?: string | null
+          usage_percent?: number | null
+        }
+        Update: {
+          account_id?: string
+          app_usage?: Json | null
+          business_usage?: Json | null
+          created_at?: string | null
+          observed_at?: string | null
+          platform?: string
+          throttle_reason?: string | null
+          throttled_until?: string | null
+          updated_at?: string | null
+          usage_percent?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_rate_limits_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: true
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       accounts: {
         Row: {
+          access_token_encrypted: string | null
           account_handle: string
           account_metadata: Json
           account_name: string
-          access_token: string | null
+          brand_voice: Json | null
+          business_profile: Json
+          caption_policy: Json | null
           created_at: string
           created_by: string | null
           id: string
           is_active: boolean
+          locale: string
           platform: string
-          refresh_token: string | null
+          platform_account_id: string | null
+          refresh_token_encrypted: string | null
+          token_error: string | null
           token_expires_at: string | null
+          token_refreshed_at: string | null
+          token_scopes: string[] | null
+          token_status: string | null
           updated_at: string
         }
         Insert: {
+          access_token_encrypted?: string | null
           account_handle: string
           account_metadata?: Json
           account_name: string
-          access_token?: string | null
+          brand_voice?: Json | null
+          business_profile?: Json
+          caption_policy?: Json | null
           created_at?: string
           created_by?: string | null
           id?: string
           is_active?: boolean
+          locale?: string
           platform: string
-          refresh_token?: string | null
+          platform_account_id?: string | null
+          refresh_token_encrypted?: string | null
+          token_error?: string | null
           token_expires_at?: string | null
+          token_refreshed_at?: string | null
+          token_scopes?: string[] | null
+          token_status?: string | null
           updated_at?: string
         }
         Update: {
+          access_token_encrypted?: string | null
           account_handle?: string
           account_metadata?: Json
           account_name?: string
-          access_token?: string | null
+          brand_voice?: Json | null
+          business_profile?: Json
+          caption_policy?: Json | null
           created_at?: string
           created_by?: string | null
           id?: string
           is_active?: boolean
+          locale?: string
           platform?: string
-          refresh_token?: string | null
+          platform_account_id?: string | null
+          refresh_token_encrypted?: string | null
+          token_error?: string | null
           token_expires_at?: string | null
+          token_refreshed_at?: string | null
+          token_scopes?: string[] | null
+          token_status?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -62,6 +136,60 @@ export type Database = {
           }
         ]
       }
+      asset_analytics: {
+        Row: {
+          asset_id: string
+          comments: number
+          created_at: string | null
+          destination_id: string | null
+          id: string
+          likes: number
+          platform: string | null
+          recorded_at: string
+          shares: number
+          views: number
+        }
+        Insert: {
+          asset_id: string
+          comments?: number
+          created_at?: string | null
+          destination_id?: string | null
+          id?: string
+          likes?: number
+          platform?: string | null
+          recorded_at?: string
+          shares?: number
+          views?: number
+        }
+        Update: {
+          asset_id?: string
+          comments?: number
+          created_at?: string | null
+          destination_id?: string | null
+          id?: string
+          likes?: number
+          platform?: string | null
+          recorded_at?: string
+          shares?: number
+          views?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "asset_analytics_asset_id_fkey"
+            columns: ["asset_id"]
+            isOneToOne: false
+            referencedRelation: "assets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "asset_analytics_destination_id_fkey"
+            columns: ["destination_id"]
+            isOneToOne: false
+            referencedRelation: "asset_destinations"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       asset_destinations: {
         Row: {
           account_id: string | null
@@ -70,8 +198,16 @@ export type Database = {
           error_message: string | null
           external_post_id: string | null
           id: string
+          idempotency_key: string | null
           metadata: Json
+          needs_reconcile: boolean | null
+          next_retry_at: string | null
+          platform_post_id: string | null
+          platform_response: Json | null
+          publish_claimed_at: string | null
+          publish_options: Json
           published_at: string | null
+          publishing_attempts: number | null
           retry_count: number
           scheduled_at: string | null
           status: string
@@ -84,8 +220,16 @@ export type Database = {
           error_message?: string | null
           external_post_id?: string | null
           id?: string
+          idempotency_key?: string | null
           metadata?: Json
+          needs_reconcile?: boolean | null
+          next_retry_at?: string | null
+          platform_post_id?: string | null
+          platform_response?: Json | null
+          publish_claimed_at?: string | null
+          publish_options?: Json
           published_at?: string | null
+          publishing_attempts?: number | null
           retry_count?: number
           scheduled_at?: string | null
           status?: string
@@ -98,8 +242,16 @@ export type Database = {
           error_message?: string | null
           external_post_id?: string | null
           id?: string
+          idempotency_key?: string | null
           metadata?: Json
+          needs_reconcile?: boolean | null
+          next_retry_at?: string | null
+          platform_post_id?: string | null
+          platform_response?: Json | null
+          publish_claimed_at?: string | null
+          publish_options?: Json
           published_at?: string | null
+          publishing_attempts?: number | null
           retry_count?: number
           scheduled_at?: string | null
           status?: string
@@ -122,6 +274,41 @@ export type Database = {
           }
         ]
       }
+      asset_hashtags: {
+        Row: {
+          asset_id: string
+          created_at: string | null
+          id: string
+          platform: string | null
+          source: string
+          tag: string
+        }
+        Insert: {
+          asset_id: string
+          created_at?: string | null
+          id?: string
+          platform?: string | null
+          source?: string
+          tag: string
+        }
+        Update: {
+          asset_id?: string
+          created_at?: string | null
+          id?: string
+          platform?: string | null
+          source?: string
+          tag?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "asset_hashtags_asset_id_fkey"
+            columns: ["asset_id"]
+            isOneToOne: false
+            referencedRelation: "assets"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       assets: {
         Row: {
           content_type: string
@@ -175,6 +362,350 @@ export type Database = {
           }
         ]
       }
+      banned_hashtags: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          platform: string | null
+          reason: string | null
+          status: string
+          tag: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          platform?: string | null
+          reason?: string | null
+          status?: string
+          tag: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          platform?: string | null
+          reason?: string | null
+          status?: string
+          tag?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "banned_hashtags_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      caption_experiments: {
+        Row: {
+          asset_id: string
+          completed_at: string | null
+          confidence: number
+          created_at: string | null
+          created_by: string | null
+          hypothesis: string | null
+          id: string
+          metric: string
+          min_views_per_variant: number
+          name: string
+          promoted_template_id: string | null
+          started_at: string | null
+          status: string
+          updated_at: string | null
+          winner_p_value: number | null
+          winner_variant_id: string | null
+        }
+        Insert: {
+          asset_id: string
+          completed_at?: string | null
+          confidence?: number
+          created_at?: string | null
+          created_by?: string | null
+          hypothesis?: string | null
+          id?: string
+          metric?: string
+          min_views_per_variant?: number
+          name: string
+          promoted_template_id?: string | null
+          started_at?: string | null
+          status?: string
+          updated_at?: string | null
+          winner_p_value?: number | null
+          winner_variant_id?: string | null
+        }
+        Update: {
+          asset_id?: string
+          completed_at?: string | null
+          confidence?: number
+          created_at?: string | null
+          created_by?: string | null
+          hypothesis?: string | null
+          id?: string
+          metric?: string
+          min_views_per_variant?: number
+          name?: string
+          promoted_template_id?: string | null
+          started_at?: string | null
+          status?: string
+          updated_at?: string | null
+          winner_p_value?: number | null
+          winner_variant_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "caption_experiments_asset_id_fkey"
+            columns: ["asset_id"]
+            isOneToOne: false
+            referencedRelation: "assets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "caption_experiments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "caption_experiments_promoted_template_id_fkey"
+            columns: ["promoted_template_id"]
+            isOneToOne: false
+            referencedRelation: "caption_templates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "caption_experiments_winner_fkey"
+            columns: ["winner_variant_id"]
+            isOneToOne: false
+            referencedRelation: "caption_variants"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      caption_template_translations: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          locale: string
+          template: string
+          template_id: string
+          updated_at: string | null
+          variables: Json | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          locale: string
+          template: string
+          template_id: string
+          updated_at?: string | null
+          variables?: Json | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          locale?: string
+          template?: string
+          template_id?: string
+          updated_at?: string | null
+          variables?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "caption_template_translations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "caption_template_translations_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "caption_templates"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      caption_template_versions: {
+        Row: {
+          change_note: string | null
+          content_type: string | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          name: string
+          platform: string | null
+          restored_from_version_id: string | null
+          template: string
+          template_id: string
+          variables: Json | null
+          version_number: number
+        }
+        Insert: {
+          change_note?: string | null
+          content_type?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          name: string
+          platform?: string | null
+          restored_from_version_id?: string | null
+          template: string
+          template_id: string
+          variables?: Json | null
+          version_number: number
+        }
+        Update: {
+          change_note?: string | null
+          content_type?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          name?: string
+          platform?: string | null
+          restored_from_version_id?: string | null
+          template?: string
+          template_id?: string
+          variables?: Json | null
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "caption_template_versions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "caption_template_versions_restored_from_version_id_fkey"
+            columns: ["restored_from_version_id"]
+            isOneToOne: false
+            referencedRelation: "caption_template_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "caption_template_versions_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "caption_templates"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      caption_templates: {
+        Row: {
+          content_type: string | null
+          created_at: string | null
+          current_version_id: string | null
+          current_version_number: number | null
+          id: string
+          is_active: boolean | null
+          locale: string
+          name: string
+          platform: string | null
+          template: string
+          updated_at: string | null
+          variables: Json | null
+        }
+        Insert: {
+          content_type?: string | null
+          created_at?: string | null
+          current_version_id?: string | null
+          current_version_number?: number | null
+          id?: string
+          is_active?: boolean | null
+          locale?: string
+          name: string
+          platform?: string | null
+          template: string
+          updated_at?: string | null
+          variables?: Json | null
+        }
+        Update: {
+          content_type?: string | null
+          created_at?: string | null
+          current_version_id?: string | null
+          current_version_number?: number | null
+          id?: string
+          is_active?: boolean | null
+          locale?: string
+          name?: string
+          platform?: string | null
+          template?: string
+          updated_at?: string | null
+          variables?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "caption_templates_current_version_id_fkey"
+            columns: ["current_version_id"]
+            isOneToOne: false
+            referencedRelation: "caption_template_versions"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      caption_variants: {
+        Row: {
+          created_at: string | null
+          experiment_id: string
+          id: string
+          label: string
+          source_template_id: string | null
+          source_template_version_id: string | null
+          template: string
+        }
+        Insert: {
+          created_at?: string | null
+          experiment_id: string
+          id?: string
+          label: string
+          source_template_id?: string | null
+          source_template_version_id?: string | null
+          template: string
+        }
+        Update: {
+          created_at?: string | null
+          experiment_id?: string
+          id?: string
+          label?: string
+          source_template_id?: string | null
+          source_template_version_id?: string | null
+          template?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "caption_variants_experiment_id_fkey"
+            columns: ["experiment_id"]
+            isOneToOne: false
+            referencedRelation: "caption_experiments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "caption_variants_source_template_id_fkey"
+            columns: ["source_template_id"]
+            isOneToOne: false
+            referencedRelation: "caption_templates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "caption_variants_source_template_version_id_fkey"
+            columns: ["source_template_version_id"]
+            isOneToOne: false
+            referencedRelation: "caption_template_versions"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       card_preferences: {
         Row: {
           card_type: string
@@ -418,13 +949,137 @@ export type Database = {
           }
         ]
       }
+      hashtag_sets: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean | null
+          name: string
+          niche: string
+          platform: string | null
+          tags: string[]
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean | null
+          name: string
+          niche: string
+          platform?: string | null
+          tags?: string[]
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean | null
+          name?: string
+          niche?: string
+          platform?: string | null
+          tags?: string[]
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hashtag_sets_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      publish_attempts: {
+        Row: {
+          adapter: string
+          attempt_number: number
+          created_at: string | null
+          destination_id: string
+          duration_ms: number | null
+          error_class: string | null
+          error_message: string | null
+          finished_at: string | null
+          http_status: number | null
+          id: string
+          idempotency_key: string | null
+          platform_post_id: string | null
+          raw_response: Json | null
+          rendered_caption_id: string | null
+          started_at: string
+          status: string
+        }
+        Insert: {
+          adapter: string
+          attempt_number?: number
+          created_at?: string | null
+          destination_id: string
+          duration_ms?: number | null
+          error_class?: string | null
+          error_message?: string | null
+          finished_at?: string | null
+          http_status?: number | null
+          id?: string
+          idempotency_key?: string | null
+          platform_post_id?: string | null
+          raw_response?: Json | null
+          rendered_caption_id?: string | null
+          started_at?: string
+          status?: string
+        }
+        Update: {
+          adapter?: string
+          attempt_number?: number
+          created_at?: string | null
+          destination_id?: string
+          duration_ms?: number | null
+          error_class?: string | null
+          error_message?: string | null
+          finished_at?: string | null
+          http_status?: number | null
+          id?: string
+          idempotency_key?: string | null
+          platform_post_id?: string | null
+          raw_response?: Json | null
+          rendered_caption_id?: string | null
+          started_at?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "publish_attempts_destination_id_fkey"
+            columns: ["destination_id"]
+            isOneToOne: false
+            referencedRelation: "asset_destinations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "publish_attempts_rendered_caption_id_fkey"
+            columns: ["rendered_caption_id"]
+            isOneToOne: false
+            referencedRelation: "rendered_captions"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       publish_queue: {
         Row: {
           asset_destination_id: string | null
           attempts: number
+          completed_at: string | null
           created_at: string
+          dead_lettered_at: string | null
           error_details: Json | null
           id: string
+          last_attempt_at: string | null
+          locked_at: string | null
+          locked_by: string | null
           max_attempts: number
           priority: number
           scheduled_at: string
@@ -434,9 +1089,14 @@ export type Database = {
         Insert: {
           asset_destination_id?: string | null
           attempts?: number
+          completed_at?: string | null
           created_at?: string
+          dead_lettered_at?: string | null
           error_details?: Json | null
           id?: string
+          last_attempt_at?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
           max_attempts?: number
           priority?: number
           scheduled_at: string
@@ -446,9 +1106,14 @@ export type Database = {
         Update: {
           asset_destination_id?: string | null
           attempts?: number
+          completed_at?: string | null
           created_at?: string
+          dead_lettered_at?: string | null
           error_details?: Json | null
           id?: string
+          last_attempt_at?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
           max_attempts?: number
           priority?: number
           scheduled_at?: string
@@ -512,6 +1177,96 @@ export type Database = {
           }
         ]
       }
+      rendered_captions: {
+        Row: {
+          character_count: number | null
+          created_at: string | null
+          destination_id: string | null
+          hashtags: string[] | null
+          id: string
+          is_locked: boolean
+          locale: string | null
+          locked_at: string | null
+          locked_by: string | null
+          mentions: string[] | null
+          rendered_text: string
+          source: string
+          template_id: string | null
+          template_version_id: string | null
+          variant_id: string | null
+        }
+        Insert: {
+          character_count?: number | null
+          created_at?: string | null
+          destination_id?: string | null
+          hashtags?: string[] | null
+          id?: string
+          is_locked?: boolean
+          locale?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          mentions?: string[] | null
+          rendered_text: string
+          source?: string
+          template_id?: string | null
+          template_version_id?: string | null
+          variant_id?: string | null
+        }
+        Update: {
+          character_count?: number | null
+          created_at?: string | null
+          destination_id?: string | null
+          hashtags?: string[] | null
+          id?: string
+          is_locked?: boolean
+          locale?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          mentions?: string[] | null
+          rendered_text?: string
+          source?: string
+          template_id?: string | null
+          template_version_id?: string | null
+          variant_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rendered_captions_destination_id_fkey"
+            columns: ["destination_id"]
+            isOneToOne: false
+            referencedRelation: "asset_destinations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rendered_captions_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "caption_templates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rendered_captions_template_version_id_fkey"
+            columns: ["template_version_id"]
+            isOneToOne: false
+            referencedRelation: "caption_template_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rendered_captions_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "caption_variants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rendered_captions_locked_by_fkey"
+            columns: ["locked_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       user_profiles: {
         Row: {
           created_at: string
@@ -556,21 +1311,501 @@ export type Database = {
           }
         ]
       }
+      webhook_configs: {
+        Row: {
+          active: boolean | null
+          allowed_origins: string[] | null
+          created_at: string | null
+          endpoint_url: string | null
+          event_types: string[] | null
+          expires_at: string | null
+          headers: Json | null
+          id: string
+          is_active: boolean | null
+          last_used_at: string | null
+          name: string | null
+          previous_secret_encrypted: string | null
+          previous_secret_expires_at: string | null
+          rate_limit_requests: number | null
+          rate_limit_window_minutes: number | null
+          secret_encrypted: string | null
+          secret_key: string | null
+          secret_rotated_at: string | null
+          secret_version: number
+          workflow_type: string | null
+        }
+        Insert: {
+          active?: boolean | null
+          allowed_origins?: string[] | null
+          created_at?: string | null
+          endpoint_url?: string | null
+          event_types?: string[] | null
+          expires_at?: string | null
+          headers?: Json | null
+          id?: string
+          is_active?: boolean | null
+          last_used_at?: string | null
+          name?: string | null
+          previous_secret_encrypted?: string | null
+          previous_secret_expires_at?: string | null
+          rate_limit_requests?: number | null
+          rate_limit_window_minutes?: number | null
+          secret_encrypted?: string | null
+          secret_key?: string | null
+          secret_rotated_at?: string | null
+          secret_version?: number
+          workflow_type?: string | null
+        }
+        Update: {
+          active?: boolean | null
+          allowed_origins?: string[] | null
+          created_at?: string | null
+          endpoint_url?: string | null
+          event_types?: string[] | null
+          expires_at?: string | null
+          headers?: Json | null
+          id?: string
+          is_active?: boolean | null
+          last_used_at?: string | null
+          name?: string | null
+          previous_secret_encrypted?: string | null
+          previous_secret_expires_at?: string | null
+          rate_limit_requests?: number | null
+          rate_limit_window_minutes?: number | null
+          secret_encrypted?: string | null
+          secret_key?: string | null
+          secret_rotated_at?: string | null
+          secret_version?: number
+          workflow_type?: string | null
+        }
+        Relationships: []
+      }
+      webhook_request_logs: {
+        Row: {
+          created_at: string | null
+          details: Json
+          error_message: string | null
+          event_type: string
+          id: string
+          payload_size: number | null
+          performed_by: string | null
+          request_headers: Json | null
+          request_ip: unknown
+          request_method: string | null
+          request_path: string | null
+          response_status: number | null
+          response_time_ms: number | null
+          user_agent: string | null
+          validation_result: string | null
+          webhook_config_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          details?: Json
+          error_message?: string | null
+          event_type?: string
+          id?: string
+          payload_size?: number | null
+          performed_by?: string | null
+          request_headers?: Json | null
+          request_ip?: unknown
+          request_method?: string | null
+          request_path?: string | null
+          response_status?: number | null
+          response_time_ms?: number | null
+          user_agent?: string | null
+          validation_result?: string | null
+          webhook_config_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          details?: Json
+          error_message?: string | null
+          event_type?: string
+          id?: string
+          payload_size?: number | null
+          performed_by?: string | null
+          request_headers?: Json | null
+          request_ip?: unknown
+          request_method?: string | null
+          request_path?: string | null
+          response_status?: number | null
+          response_time_ms?: number | null
+          user_agent?: string | null
+          validation_result?: string | null
+          webhook_config_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_request_logs_performed_by_fkey"
+            columns: ["performed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_request_logs_webhook_config_id_fkey"
+            columns: ["webhook_config_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_configs"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      workflow_executions: {
+        Row: {
+          asset_id: string | null
+          completed_at: string | null
+          created_at: string | null
+          duration_ms: number | null
+          error_details: string | null
+          id: string
+          input_data: Json
+          max_retries: number | null
+          metadata: Json | null
+          n8n_execution_id: string | null
+          n8n_node_runs: Json
+          n8n_status: string | null
+          n8n_synced_at: string | null
+          output_data: Json | null
+          retry_count: number | null
+          security_metadata: Json | null
+          started_at: string | null
+          status: string
+          status_changed_at: string
+          timeout_at: string | null
+          updated_at: string | null
+          webhook_config_id: string | null
+          workflow_data: Json | null
+          workflow_type: string
+        }
+        Insert: {
+          asset_id?: string | null
+          completed_at?: string | null
+          created_at?: string | null
+          duration_ms?: number | null
+          error_details?: string | null
+          id?: string
+          input_data?: Json
+          max_retries?: number | null
+          metadata?: Json | null
+          n8n_execution_id?: string | null
+          n8n_node_runs?: Json
+          n8n_status?: string | null
+          n8n_synced_at?: string | null
+          output_data?: Json | null
+          retry_count?: number | null
+          security_metadata?: Json | null
+          started_at?: string | null
+          status?: string
+          status_changed_at?: string
+          timeout_at?: string | null
+          updated_at?: string | null
+          webhook_config_id?: string | null
+          workflow_data?: Json | null
+          workflow_type: string
+        }
+        Update: {
+          asset_id?: string | null
+          completed_at?: string | null
+          created_at?: string | null
+          duration_ms?: number | null
+          error_details?: string | null
+          id?: string
+          input_data?: Json
+          max_retries?: number | null
+          metadata?: Json | null
+          n8n_execution_id?: string | null
+          n8n_node_runs?: Json
+          n8n_status?: string | null
+          n8n_synced_at?: string | null
+          output_data?: Json | null
+          retry_count?: number | null
+          security_metadata?: Json | null
+          started_at?: string | null
+          status?: string
+          status_changed_at?: string
+          timeout_at?: string | null
+          updated_at?: string | null
+          webhook_config_id?: string | null
+          workflow_data?: Json | null
+          workflow_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_executions_asset_id_fkey"
+            columns: ["asset_id"]
+            isOneToOne: false
+            referencedRelation: "assets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_executions_webhook_config_id_fkey"
+            columns: ["webhook_config_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_configs"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      account_publish_window: {
+        Args: {
+          account_uuid: string
+          window_seconds?: number
+        }
+        Returns: {
+          oldest_post_at: string
+          post_count: number
+        }[]
+      }
+      account_token_health: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          account_handle: string
+          account_id: string
+          has_refresh_token: boolean
+          next_scheduled_at: string
+          platform: string
+          token_expires_at: string
+          token_refreshed_at: string
+          token_status: string
+        }[]
+      }
+      caption_experiment_results: {
+        Args: {
+          experiment_uuid: string
+        }
+        Returns: {
+          comments: number
+          destination_count: number
+          label: string
+          likes: number
+          measured_count: number
+          published_count: number
+          shares: number
+          variant_id: string
+          views: number
+        }[]
+      }
+      caption_template_version_usage: {
+        Args: {
+          template_uuid: string
+        }
+        Returns: {
+          failed_count: number
+          last_used_at: string
+          pending_count: number
+          published_count: number
+          rendered_count: number
+          version_id: string
+          version_number: number
+        }[]
+      }
+      claim_destination_for_publish: {
+        Args: {
+          destination_id: string
+          force?: boolean
+          idempotency_key: string
+          lease_seconds?: number
+        }
+        Returns: {
+          claimed: boolean
+          needs_reconcile: boolean
+          platform_post_id: string
+          previous_idempotency_key: string
+          reason: string
+        }[]
+      }
+      claim_publish_jobs: {
+        Args: {
+          batch_size?: number
+          lock_timeout_seconds?: number
+          worker_id: string
+        }
+        Returns: {
+          asset_destination_id: string | null
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          dead_lettered_at: string | null
+          error_details: Json | null
+          id: string
+          last_attempt_at: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          priority: number
+          scheduled_at: string
+          status: string
+          updated_at: string
+        }[]
+      }
+      cleanup_webhook_logs: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      detect_suspicious_webhook_activity: {
+        Args: {
+          hours_back?: number
+        }
+        Returns: {
+          failed_count: number
+          failure_rate: number
+          request_count: number
+          risk_level: string
+          suspicious_ip: unknown
+        }[]
+      }
+      extract_hashtags: {
+        Args: {
+          body: string
+        }
+        Returns: string[]
+      }
+      get_account_tokens: {
+        Args: {
+          account_uuid: string
+        }
+        Returns: {
+          access_token: string
+          refresh_token: string
+          token_expires_at: string
+        }[]
+      }
+      get_webhook_secrets: {
+        Args: {
+          config_uuid?: string
+        }
+        Returns: {
+          config_id: string
+          current_secret: string
+          previous_expires_at: string
+          previous_secret: string
+          version: number
+        }[]
+      }
+      get_webhook_security_stats: {
+        Args: {
+          config_id?: string
+          hours_back?: number
+        }
+        Returns: {
+          avg_response_time: number
+          failed_requests: number
+          rate_limited_requests: number
+          successful_requests: number
+          total_requests: number
+          unique_ips: number
+        }[]
+      }
       has_role: {
         Args: {
           required_role: Database["public"]["Enums"]["app_role"]
         }
         Returns: boolean
       }
+      hashtag_performance: {
+        Args: {
+          platform_filter?: string
+        }
+        Returns: {
+          engagement_rate: number
+          last_used_at: string
+          measured_count: number
+          tag: string
+          total_comments: number
+          total_likes: number
+          total_shares: number
+          total_views: number
+          usage_count: number
+        }[]
+      }
       is_staff: {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      normalize_hashtag: {
+        Args: {
+          tag: string
+        }
+        Returns: string
+      }
+      promote_caption_variant: {
+        Args: {
+          experiment_uuid: string
+          p_value?: number
+          variant_uuid: string
+        }
+        Returns: {
+          asset_id: string
+          completed_at: string | null
+          confidence: number
+          created_at: string | null
+          created_by: string | null
+          hypothesis: string | null
+          id: string
+          metric: string
+          min_views_per_variant: number
+          name: string
+          promoted_template_id: string | null
+          started_at: string | null
+          status: string
+          updated_at: string | null
+          winner_p_value: number | null
+          winner_variant_id: string | null
+        }
+      }
+      retire_expired_webhook_secrets: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      rollback_caption_template: {
+        Args: {
+          template_uuid: string
+          version_uuid: string
+        }
+        Returns: {
+          content_type: string | null
+          created_at: string | null
+          current_version_id: string | null
+          current_version_number: number | null
+          id: string
+          is_active: boolean | null
+          locale: string
+          name: string
+          platform: string | null
+          template: string
+          updated_at: string | null
+          variables: Json | null
+        }
+      }
+      rotate_webhook_secret: {
+        Args: {
+          config_uuid: string
+          grace_minutes?: number
+          new_secret?: string
+        }
+        Returns: {
+          grace_ends_at: string
+          secret: string
+          version: number
+        }[]
+      }
+      store_account_tokens: {
+        Args: {
+          account_uuid: string
+          expires_at?: string
+          new_access_token: string
+          new_refresh_token?: string
+          scopes?: string[]
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "staff" | "partner" | "user"
@@ -1,8 +1,12 @@
 import EventConsole from "@/components/console/EventConsole";
+import WebhookSecretsPanel from "@/components/console/WebhookSecretsPanel";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Terminal, Activity, Database, Shield } from "lucide-react";
+import { usePermissions } from "@/hooks/useAuth";
 
 export default function Console() {
+  const { isAdmin } = usePermissions();
+
   return (
     <div className="container mx-auto px-4 py-6 space-y-6">
       {/* Page Header */}
@@ -68,6 +72,9 @@ export default function Console() {
 
       {/* Main Console Component */}
       <EventConsole />
+
+      {/* Webhook secret rotation is admin-only */}
+      {isAdmin() && <WebhookSecretsPanel />}
     </div>
   );
 }
\ No newline at end of file
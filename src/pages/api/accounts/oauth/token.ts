@@ -0,0 +1,53 @@
+// API Route: /api/accounts/oauth/token
+// Exchanges an OAuth authorization code for tokens where the platform client secrets live
+
+import { accountOAuth, OAUTH_PROVIDERS } from '@/services/account-oauth'
+import type { Platform } from '@/integrations/supabase/types-enhanced'
+
+interface TokenExchangeRequest {
+  platform: Platform
+  code: string
+  redirectUri: string
+  codeVerifier: string
+}
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+}
+
+export default async function handler(req: Request) {
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405)
+  }
+
+  let body: Partial<TokenExchangeRequest>
+  try {
+    body = await req.json()
+  } catch {
+    return json({ error: 'Invalid JSON body' }, 400)
+  }
+
+  const { platform, code, redirectUri, codeVerifier } = body
+  if (!platform || !Object.prototype.hasOwnProperty.call(OAUTH_PROVIDERS, platform)) {
+    return json({ error: 'Unsupported platform' }, 400)
+  }
+  if (!code || !redirectUri || !codeVerifier) {
+    return json({ error: 'code, redirectUri and codeVerifier are required' }, 400)
+  }
+
+  try {
+    const tokens = await accountOAuth.exchangeCode({ platform, code, redirectUri, codeVerifier })
+    return json(tokens, 200)
+  } catch (error) {
+    console.error('OAuth token exchange failed:', error)
+
+    // The provider rejected the code (expired, reused, wrong verifier): the user has to start again
+    return json({
+      error: 'Token exchange failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 502)
+  }
+}
@@ -5,6 +5,8 @@ import type { NextApiRequest, NextApiResponse } from 'next'
 import { n8nService } from '@/services/n8n-integration'
 import { securityService } from '@/services/security'
 import { supabase } from '@/integrations/supabase/client'
+import { IllegalWorkflowTransitionError } from '@/utils/workflow-state'
+import { SUPPORTED_SCHEMA_VERSIONS, parseWorkflowCallback } from '@/integrations/n8n/contract'
 
 const WEBHOOK_SECRET = process.env.N8N_WEBHOOK_SECRET || 'dev-secret-key'
 
@@ -41,32 +43,21 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(401).json({ error: 'Request too old' })
     }
 
-    // Process webhook data
-    const {
-      executionId,
-      status,
-      assetId,
-      workflowType,
-      destinations,
-      error,
-      metadata
-    } = req.body
-
-    // Validate required fields
-    if (!executionId || !status || !assetId) {
-      return res.status(400).json({ 
-        error: 'Missing required fields: executionId, status, assetId' 
+    // Validate against the contract version the payload declares
+    const result = parseWorkflowCallback(req.body)
+    if (!result.success) {
+      return res.status(422).json({
+        error: 'Invalid payload',
+        schemaVersion: result.schemaVersion,
+        supportedVersions: SUPPORTED_SCHEMA_VERSIONS,
+        issues: result.issues
       })
     }
 
+    const { executionId, status, assetId, workflowType, destinations, error } = result.data
+
     // Handle the workflow callback
-    await n8nService.handleWorkflowCallback({
-      executionId,
-      status,
-      assetId,
-      destinations,
-      error
-    })
+    await n8nService.getInstance().handleWorkflowCallback(result.data)
 
     // Log the webhook for debugging
     await supabase
@@ -77,9 +68,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         event_type: 'n8n_webhook_received',
         event_data: {
           executionId,
+          schemaVersion: result.schemaVersion,
           status,
           workflowType,
-          destinations: destinations?.length || 0,
+          destinations: destinations.length,
           error
         }
       })
@@ -90,6 +82,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     })
 
   } catch (error) {
+    // The run already finished, was cancelled or timed out; tell n8n not to retry
+    if (error instanceof IllegalWorkflowTransitionError) {
+      return res.status(409).json({
+        error: 'Illegal workflow transition',
+        message: error.message
+      })
+    }
+
     console.error('N8N webhook error:', error)
     
     res.status(500).json({ 
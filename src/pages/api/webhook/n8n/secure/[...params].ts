@@ -4,23 +4,13 @@
 import { webhookSecurityService } from '@/services/webhook-security'
 import { EventEmitter } from '@/services/event-sourcing'
 import { supabase } from '@/integrations/supabase/client'
-
-interface N8NWebhookPayload {
-  executionId: string
-  status: 'running' | 'completed' | 'failed' | 'cancelled'
-  assetId: string
-  workflowType: string
-  destinations?: Array<{
-    id: string
-    platform: string
-    status: string
-    platformPostId?: string
-    error?: string
-    publishedAt?: string
-  }>
-  error?: string
-  metadata?: Record<string, any>
-}
+import { n8nService } from '@/services/n8n-integration'
+import { IllegalWorkflowTransitionError } from '@/utils/workflow-state'
+import {
+  SUPPORTED_SCHEMA_VERSIONS,
+  parseWorkflowCallback,
+  type N8NCallback
+} from '@/integrations/n8n/contract'
 
 export default async function handler(req: Request) {
   if (req.method !== 'POST') {
@@ -75,10 +65,10 @@ export default async function handler(req: Request) {
       )
     }
 
-    // Parse the validated payload
-    let webhookData: N8NWebhookPayload
+    // Parse the validated payload against the contract version it declares
+    let body: unknown
     try {
-      webhookData = JSON.parse(payload)
+      body = JSON.parse(payload)
     } catch (error) {
       return new Response(
         JSON.stringify({ error: 'Invalid JSON payload' }),
@@ -89,25 +79,29 @@ export default async function handler(req: Request) {
       )
     }
 
-    // Validate required fields
-    if (!webhookData.executionId || !webhookData.status || !webhookData.assetId) {
+    const parsed = parseWorkflowCallback(body)
+    if (!parsed.success) {
       return new Response(
-        JSON.stringify({ 
-          error: 'Missing required fields: executionId, status, assetId' 
+        JSON.stringify({
+          error: 'Invalid payload',
+          schemaVersion: parsed.schemaVersion,
+          supportedVersions: SUPPORTED_SCHEMA_VERSIONS,
+          issues: parsed.issues
         }),
         { 
-          status: 400,
+          status: 422,
           headers: { 'Content-Type': 'application/json' }
         }
       )
     }
+    const webhookData = parsed.data
 
     // Process the webhook based on workflow type
     const result = await processWorkflowWebhook(workflowType, webhookData, validation.metadata!)
 
     // Log successful webhook processing using event sourcing
     await EventEmitter.workflow.completed(
-      webhookData.executionId,
+      webhookData.workflowExecutionId || webhookData.executionId,
       0, // Duration will be calculated elsewhere
       {
         source: 'webhook_endpoint',
@@ -133,6 +127,19 @@ export default async function handler(req: Request) {
     )
 
   } catch (error) {
+    if (error instanceof IllegalWorkflowTransitionError) {
+      return new Response(
+        JSON.stringify({ 
+          error: 'Illegal workflow transition',
+          message: error.message
+        }),
+        { 
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
     console.error('Webhook processing error:', error)
     
     return new Response(
@@ -153,15 +160,14 @@ export default async function handler(req: Request) {
  */
 async function processWorkflowWebhook(
   workflowType: string,
-  webhookData: N8NWebhookPayload,
+  webhookData: N8NCallback,
   metadata: any
 ): Promise<any> {
-  const { executionId, status, assetId, destinations, error } = webhookData
+  const { executionId, workflowExecutionId, status, assetId, destinations, error } = webhookData
 
-  // Update workflow execution record
-  await updateWorkflowExecution(executionId, {
-    status,
-    completed_at: status === 'completed' || status === 'failed' ? new Date().toISOString() : null,
+  // Update workflow execution record; an illegal transition stops processing here.
+  // Version 1 payloads sent our execution id as executionId.
+  await updateWorkflowExecution(workflowExecutionId || executionId, status, {
     output_data: webhookData,
     error_details: error,
     metadata: {
@@ -174,9 +180,10 @@ async function processWorkflowWebhook(
   // Update asset status based on workflow result
   await updateAssetStatus(assetId, status, error)
 
-  // Process destinations if provided
-  if (destinations && destinations.length > 0) {
-    await processDestinations(assetId, destinations)
+  // Process destinations the workflow attempted
+  const attempted = destinations.filter(destination => destination.status !== 'skipped')
+  if (attempted.length > 0) {
+    await processDestinations(assetId, attempted)
   }
 
   // Handle specific workflow types
@@ -200,25 +207,19 @@ async function processWorkflowWebhook(
 }
 
 /**
- * Update workflow execution record
+ * Move the workflow execution to the reported status
  */
 async function updateWorkflowExecution(
   executionId: string,
+  status: N8NCallback['status'],
   updates: Record<string, any>
 ): Promise<void> {
   try {
-    const { error } = await supabase
-      .from('workflow_executions')
-      .update({
-        ...updates,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', executionId)
-
-    if (error) {
-      console.error('Failed to update workflow execution:', error)
-    }
+    await n8nService.getInstance().transitionExecution({ id: executionId }, status, updates)
   } catch (error) {
+    if (error instanceof IllegalWorkflowTransitionError) {
+      throw error
+    }
     console.error('Error updating workflow execution:', error)
   }
 }
@@ -257,14 +258,7 @@ async function updateAssetStatus(
  */
 async function processDestinations(
   assetId: string,
-  destinations: Array<{
-    id: string
-    platform: string
-    status: string
-    platformPostId?: string
-    error?: string
-    publishedAt?: string
-  }>
+  destinations: N8NCallback['destinations']
 ): Promise<void> {
   try {
     for (const destination of destinations) {
@@ -308,7 +302,7 @@ function mapWorkflowStatusToAssetStatus(workflowStatus: string): string {
 /**
  * Process Instagram-specific workflow
  */
-async function processInstagramWorkflow(webhookData: N8NWebhookPayload): Promise<any> {
+async function processInstagramWorkflow(webhookData: N8NCallback): Promise<any> {
   const { assetId, status, destinations } = webhookData
 
   if (status === 'completed' && destinations) {
@@ -332,7 +326,7 @@ async function processInstagramWorkflow(webhookData: N8NWebhookPayload): Promise
 /**
  * Process LinkedIn-specific workflow
  */
-async function processLinkedInWorkflow(webhookData: N8NWebhookPayload): Promise<any> {
+async function processLinkedInWorkflow(webhookData: N8NCallback): Promise<any> {
   const { assetId, status, destinations } = webhookData
 
   if (status === 'completed' && destinations) {
@@ -354,7 +348,7 @@ async function processLinkedInWorkflow(webhookData: N8NWebhookPayload): Promise<
 /**
  * Process Facebook-specific workflow
  */
-async function processFacebookWorkflow(webhookData: N8NWebhookPayload): Promise<any> {
+async function processFacebookWorkflow(webhookData: N8NCallback): Promise<any> {
   const { assetId, status, destinations } = webhookData
 
   if (status === 'completed' && destinations) {
@@ -376,13 +370,17 @@ async function processFacebookWorkflow(webhookData: N8NWebhookPayload): Promise<
 /**
  * Process multi-platform workflow
  */
-async function processMultiPlatformWorkflow(webhookData: N8NWebhookPayload): Promise<any> {
+async function processMultiPlatformWorkflow(webhookData: N8NCallback): Promise<any> {
   const { assetId, destinations } = webhookData
 
   const platformSummary: Record<string, any> = {}
 
   if (destinations) {
     destinations.forEach(dest => {
+      if (dest.status === 'skipped') {
+        return
+      }
+
       if (!platformSummary[dest.platform]) {
         platformSummary[dest.platform] = { success: 0, failed: 0, posts: [] }
       }
@@ -409,7 +407,7 @@ async function processMultiPlatformWorkflow(webhookData: N8NWebhookPayload): Pro
 /**
  * Process generic workflow
  */
-async function processGenericWorkflow(webhookData: N8NWebhookPayload): Promise<any> {
+async function processGenericWorkflow(webhookData: N8NCallback): Promise<any> {
   // Generic processing for custom workflow types
   await logWorkflowEvent(webhookData.assetId, 'generic_workflow_completed', {
     workflowType: webhookData.workflowType,
@@ -0,0 +1,58 @@
+// API Route: /api/workflows/[executionId]
+// Syncs or cancels an n8n execution server-side, where N8N_API_KEY lives
+
+import { n8nService } from '@/services/n8n-integration'
+import { n8nApi } from '@/services/n8n-api'
+
+type ExecutionAction = 'sync' | 'cancel'
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+}
+
+export default async function handler(req: Request) {
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405)
+  }
+
+  // Extract the n8n execution ID from the URL: workflows/[executionId]
+  const url = new URL(req.url)
+  const executionId = decodeURIComponent(url.pathname.split('/').filter(Boolean).pop() || '')
+  if (!executionId) {
+    return json({ error: 'Execution ID is required' }, 400)
+  }
+
+  let action: ExecutionAction | undefined
+  try {
+    action = (await req.json()).action
+  } catch {
+    return json({ error: 'Invalid JSON body' }, 400)
+  }
+  if (action !== 'sync' && action !== 'cancel') {
+    return json({ error: 'action must be "sync" or "cancel"' }, 400)
+  }
+
+  if (!n8nApi.isConfigured()) {
+    return json({ error: 'N8N_API_KEY is not configured on the server' }, 503)
+  }
+
+  try {
+    if (action === 'cancel') {
+      const cancelled = await n8nService.getInstance().cancelWorkflow(executionId)
+      return json({ cancelled }, 200)
+    }
+
+    const execution = await n8nService.getInstance().syncExecution(executionId)
+    return json({ execution }, 200)
+  } catch (error) {
+    console.error(`Workflow ${action} failed:`, error)
+
+    return json({
+      error: `Workflow ${action} failed`,
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 502)
+  }
+}
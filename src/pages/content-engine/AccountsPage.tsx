@@ -0,0 +1,262 @@
+import { useEffect, useRef } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import ContentEngineLayout from "@/components/content-engine/layout/ContentEngineLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Users,
+  Link2,
+  Unlink,
+  RefreshCw,
+  AlertTriangle,
+  CheckCircle,
+  Clock,
+  XCircle
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { accountOAuth } from "@/services/account-oauth";
+import type { AccountTokenStatus, Platform } from "@/integrations/supabase/types-enhanced";
+
+interface AccountSummary {
+  id: string;
+  platform: Platform;
+  account_name: string;
+  account_handle: string;
+  token_expires_at: string | null;
+  token_refreshed_at: string | null;
+  token_status: AccountTokenStatus;
+  token_error: string | null;
+  token_scopes: string[] | null;
+  is_active: boolean;
+}
+
+const PLATFORMS: { id: Platform; label: string }[] = [
+  { id: "instagram", label: "Instagram" },
+  { id: "facebook", label: "Facebook" },
+  { id: "tiktok", label: "TikTok" },
+  { id: "linkedin", label: "LinkedIn" },
+  { id: "youtube", label: "YouTube" }
+];
+
+const NEEDS_ATTENTION: AccountTokenStatus[] = ["expiring", "expired", "refresh_failed"];
+
+export default function AccountsPage() {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const callbackHandled = useRef(false);
+
+  const redirectUri = `${window.location.origin}/content/accounts`;
+
+  const { data: accounts, isLoading } = useQuery({
+    queryKey: ['connected-accounts'],
+    queryFn: async (): Promise<AccountSummary[]> => {
+      const { data, error } = await supabase
+        .from('accounts')
+        .select('id, platform, account_name, account_handle, token_expires_at, token_refreshed_at, token_status, token_error, token_scopes, is_active')
+        .order('platform')
+        .order('account_handle');
+
+      if (error) throw error;
+      return (data || []) as AccountSummary[];
+    }
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: (params: URLSearchParams) => accountOAuth.completeConnection(params),
+    onSuccess: (account) => {
+      queryClient.invalidateQueries({ queryKey: ['connected-accounts'] });
+      toast({ title: "Account connected", description: `@${account.account_handle} on ${account.platform}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Connection failed", description: error.message, variant: "destructive" });
+    },
+    onSettled: () => {
+      // Drop code and state from the URL so a reload does not replay the callback
+      navigate('/content/accounts', { replace: true });
+    }
+  });
+
+  const disconnectMutation = useMutation({
+    mutationFn: (accountId: string) => accountOAuth.disconnect(accountId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['connected-accounts'] });
+      toast({ title: "Account disconnected" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Disconnect failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  // Finish a connection when the provider redirects back here
+  useEffect(() => {
+    if (callbackHandled.current || !accountOAuth.isCallback(searchParams)) return;
+    callbackHandled.current = true;
+    completeMutation.mutate(new URLSearchParams(searchParams));
+  }, [searchParams, completeMutation]);
+
+  const handleConnect = async (platform: Platform) => {
+    try {
+      window.location.assign(await accountOAuth.beginConnection(platform, redirectUri));
+    } catch (error) {
+      toast({
+        title: "Cannot start connection",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const getTokenBadge = (account: AccountSummary) => {
+    const statusConfig = {
+      valid: { color: "bg-green-100 text-green-800", label: "Connected", icon: CheckCircle },
+      expiring: { color: "bg-yellow-100 text-yellow-800", label: "Expiring", icon: Clock },
+      expired: { color: "bg-red-100 text-red-800", label: "Expired", icon: XCircle },
+      refresh_failed: { color: "bg-red-100 text-red-800", label: "Refresh Failed", icon: AlertTriangle },
+      disconnected: { color: "bg-gray-100 text-gray-800", label: "Disconnected", icon: Unlink }
+    };
+
+    const config = statusConfig[account.token_status] || statusConfig.valid;
+    const IconComponent = config.icon;
+
+    return (
+      <Badge className={cn("text-xs font-medium border", config.color)}>
+        <IconComponent className="mr-1 h-3 w-3" />
+        {config.label}
+      </Badge>
+    );
+  };
+
+  const attentionAccounts = accounts?.filter(a => a.is_active && NEEDS_ATTENTION.includes(a.token_status)) || [];
+
+  return (
+    <ContentEngineLayout>
+      <div className="p-6 space-y-6">
+        {/* Page Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground flex items-center">
+              <Users className="mr-3 h-6 w-6" />
+              Accounts
+            </h1>
+            <p className="text-muted-foreground">Connect publishing accounts and keep their tokens fresh</p>
+          </div>
+        </div>
+
+        {completeMutation.isPending && (
+          <Alert>
+            <RefreshCw className="h-4 w-4 animate-spin" />
+            <AlertTitle>Connecting account...</AlertTitle>
+            <AlertDescription>Exchanging the authorization code with the platform.</AlertDescription>
+          </Alert>
+        )}
+
+        {attentionAccounts.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>{attentionAccounts.length} account(s) need reconnecting</AlertTitle>
+            <AlertDescription>
+              Scheduled posts to these accounts will fail once their tokens lapse:{" "}
+              {attentionAccounts.map(a => `@${a.account_handle} (${a.platform})`).join(", ")}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Connect */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center text-sm">
+              <Link2 className="mr-2 h-4 w-4" />
+              Connect an Account
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            {PLATFORMS.map(platform => (
+              <Button
+                key={platform.id}
+                variant="outline"
+                size="sm"
+                onClick={() => handleConnect(platform.id)}
+                disabled={completeMutation.isPending}
+              >
+                {platform.label}
+              </Button>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Connected Accounts */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Connected Accounts</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {isLoading ? (
+                <div className="text-center py-8">
+                  <RefreshCw className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+                  <p className="text-muted-foreground mt-2">Loading accounts...</p>
+                </div>
+              ) : accounts && accounts.length > 0 ? (
+                accounts.map(account => (
+                  <div key={account.id} className="flex items-center space-x-4 p-3 rounded-lg border">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-foreground truncate">
+                        @{account.account_handle}
+                        <span className="ml-2 text-xs text-muted-foreground capitalize">{account.platform}</span>
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {account.token_expires_at
+                          ? `Token expires ${new Date(account.token_expires_at).toLocaleString()}`
+                          : "Token does not expire"}
+                        {account.token_refreshed_at &&
+                          ` • Refreshed ${new Date(account.token_refreshed_at).toLocaleString()}`}
+                      </p>
+                      {account.token_error && (
+                        <p className="text-xs text-red-600 truncate mt-1">{account.token_error}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {getTokenBadge(account)}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleConnect(account.platform)}
+                        disabled={completeMutation.isPending}
+                      >
+                        <RefreshCw className="mr-1 h-3 w-3" />
+                        Reconnect
+                      </Button>
+                      {account.is_active && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => disconnectMutation.mutate(account.id)}
+                          disabled={disconnectMutation.isPending}
+                        >
+                          <Unlink className="mr-1 h-3 w-3" />
+                          Disconnect
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))
+              ) : (
+                <div className="text-center py-8">
+                  <Users className="h-8 w-8 mx-auto text-muted-foreground" />
+                  <p className="text-muted-foreground mt-2">No accounts connected yet</p>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </ContentEngineLayout>
+  );
+}
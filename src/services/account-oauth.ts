@@ -0,0 +1,483 @@
+// Account OAuth Connection Service
+// Connects platform accounts with the authorization-code + PKCE flow and stores tokens in the vault
+
+import { supabase } from '@/integrations/supabase/client'
+import { tokenVault } from './token-vault'
+import type { Json } from '@/integrations/supabase/types'
+import type {
+  Tables,
+  Platform
+} from '@/integrations/supabase/types-enhanced'
+
+interface OAuthProvider {
+  authorizeUrl: string
+  tokenUrl: string
+  scopes: string[]
+  scopeSeparator: string
+  clientIdEnv: string
+  clientSecretEnv: string
+  // TikTok calls the client id client_key
+  clientIdParam?: string
+  extraParams?: Record<string, string>
+}
+
+interface PendingConnection {
+  platform: Platform
+  codeVerifier: string
+  redirectUri: string
+  createdAt: number
+}
+
+interface CodeExchange {
+  platform: Platform
+  code: string
+  redirectUri: string
+  codeVerifier: string
+}
+
+interface TokenResponse {
+  access_token: string
+  refresh_token?: string
+  expires_in?: number
+  scope?: string
+}
+
+interface PlatformProfile {
+  handle: string
+  name: string
+  platformAccountId: string
+  metadata: Record<string, unknown>
+  // Facebook publishes with the page token rather than the user token
+  accessToken?: string
+}
+
+const GRAPH_URL = 'https://graph.facebook.com/v18.0'
+
+export const OAUTH_PROVIDERS: Record<Platform, OAuthProvider> = {
+  instagram: {
+    authorizeUrl: 'https://www.facebook.com/v18.0/dialog/oauth',
+    tokenUrl: `${GRAPH_URL}/oauth/access_token`,
+    scopes: ['instagram_basic', 'instagram_content_publish', 'pages_show_list', 'pages_read_engagement'],
+    scopeSeparator: ',',
+    clientIdEnv: 'FACEBOOK_APP_ID',
+    clientSecretEnv: 'FACEBOOK_APP_SECRET'
+  },
+  facebook: {
+    authorizeUrl: 'https://www.facebook.com/v18.0/dialog/oauth',
+    tokenUrl: `${GRAPH_URL}/oauth/access_token`,
+    scopes: ['pages_show_list', 'pages_manage_posts', 'pages_read_engagement'],
+    scopeSeparator: ',',
+    clientIdEnv: 'FACEBOOK_APP_ID',
+    clientSecretEnv: 'FACEBOOK_APP_SECRET'
+  },
+  tiktok: {
+    authorizeUrl: 'https://www.tiktok.com/v2/auth/authorize/',
+    tokenUrl: 'https://open.tiktokapis.com/v2/oauth/token/',
+    scopes: ['user.info.basic', 'video.upload', 'video.publish'],
+    scopeSeparator: ',',
+    clientIdEnv: 'TIKTOK_CLIENT_KEY',
+    clientSecretEnv: 'TIKTOK_CLIENT_SECRET',
+    clientIdParam: 'client_key'
+  },
+  linkedin: {
+    authorizeUrl: 'https://www.linkedin.com/oauth/v2/authorization',
+    tokenUrl: 'https://www.linkedin.com/oauth/v2/accessToken',
+    scopes: ['openid', 'profile', 'w_member_social'],
+    scopeSeparator: ' ',
+    clientIdEnv: 'LINKEDIN_CLIENT_ID',
+    clientSecretEnv: 'LINKEDIN_CLIENT_SECRET'
+  },
+  youtube: {
+    authorizeUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenUrl: 'https://oauth2.googleapis.com/token',
+    scopes: [
+      'https://www.googleapis.com/auth/youtube.upload',
+      'https://www.googleapis.com/auth/youtube.readonly'
+    ],
+    scopeSeparator: ' ',
+    clientIdEnv: 'YOUTUBE_CLIENT_ID',
+    clientSecretEnv: 'YOUTUBE_CLIENT_SECRET',
+    // Offline access is what makes Google return a refresh token
+    extraParams: { access_type: 'offline', prompt: 'consent' }
+  }
+}
+
+const PENDING_KEY_PREFIX = 'oauth_pending_'
+// Authorization codes are short-lived; abandon connections older than this
+const PENDING_TTL_MS = 10 * 60 * 1000
+
+export class AccountOAuthService {
+  /**
+   * Start connecting an account: remember the PKCE verifier and return the provider's authorize URL
+   */
+  async beginConnection(platform: Platform, redirectUri: string): Promise<string> {
+    const provider = OAUTH_PROVIDERS[platform]
+    const clientId = this.readEnv(provider.clientIdEnv)
+    if (!clientId) {
+      throw new Error(`${provider.clientIdEnv} is not configured`)
+    }
+
+    const state = this.randomString(16)
+    const codeVerifier = this.randomString(64)
+    const codeChallenge = await this.createCodeChallenge(codeVerifier)
+
+    const pending: PendingConnection = { platform, codeVerifier, redirectUri, createdAt: Date.now() }
+    sessionStorage.setItem(`${PENDING_KEY_PREFIX}${state}`, JSON.stringify(pending))
+
+    const params = new URLSearchParams({
+      [provider.clientIdParam || 'client_id']: clientId,
+      redirect_uri: redirectUri,
+      response_type: 'code',
+      scope: provider.scopes.join(provider.scopeSeparator),
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+      ...provider.extraParams
+    })
+
+    return `${provider.authorizeUrl}?${params}`
+  }
+
+  /**
+   * Whether the URL is an OAuth callback for a connection started in this browser
+   */
+  isCallback(params: URLSearchParams): boolean {
+    const state = params.get('state')
+    return !!state && (params.has('code') || params.has('error')) &&
+      sessionStorage.getItem(`${PENDING_KEY_PREFIX}${state}`) !== null
+  }
+
+  /**
+   * Finish the connection from the provider's redirect: exchange the code, look up the profile,
+   * create or update the account and store its tokens
+   */
+  async completeConnection(params: URLSearchParams): Promise<Tables<'accounts'>> {
+    const state = params.get('state') || ''
+    const pending = this.takePending(state)
+
+    if (!pending) {
+      throw new Error('Unknown or expired connection attempt; start again')
+    }
+
+    const providerError = params.get('error_description') || params.get('error')
+    if (providerError) {
+      throw new Error(`${pending.platform} authorization failed: ${providerError}`)
+    }
+
+    const code = params.get('code')
+    if (!code) {
+      throw new Error('Authorization code missing from callback')
+    }
+
+    const tokens = await this.requestTokens(pending, code)
+    const profile = await this.fetchProfile(pending.platform, tokens.access_token)
+    const account = await this.upsertAccount(pending.platform, profile)
+
+    await tokenVault.storeTokens(account.id, {
+      accessToken: profile.accessToken || tokens.access_token,
+      refreshToken: tokens.refresh_token,
+      // Page tokens derived from a user token do not share its expiry
+      expiresIn: profile.accessToken ? null : tokens.expires_in,
+      scopes: tokens.scope
+        ? tokens.scope.split(/[\s,]+/).filter(Boolean)
+        : OAUTH_PROVIDERS[pending.platform].scopes
+    })
+
+    await supabase
+      .from('events')
+      .insert({
+        entity_type: 'account',
+        entity_id: account.id,
+        event_type: 'account_connected',
+        event_data: {
+          platform: pending.platform,
+          accountHandle: profile.handle,
+          hasRefreshToken: !!tokens.refresh_token
+        }
+      })
+
+    return account
+  }
+
+  /**
+   * Remove an account's tokens; it has to be connected again before publishing
+   */
+  async disconnect(accountId: string): Promise<void> {
+    await tokenVault.disconnect(accountId)
+
+    await supabase
+      .from('events')
+      .insert({
+        entity_type: 'account',
+        entity_id: accountId,
+        event_type: 'account_disconnected',
+        event_data: {}
+      })
+  }
+
+  /**
+   * Exchange an authorization code with the provider. Server-only: it needs the client secret,
+   * which is never exposed to the browser; the Accounts page goes through /api/accounts/oauth/token
+   */
+  async exchangeCode(exchange: CodeExchange): Promise<TokenResponse> {
+    const provider = OAUTH_PROVIDERS[exchange.platform]
+    const clientId = this.readServerEnv(provider.clientIdEnv)
+    const clientSecret = this.readServerEnv(provider.clientSecretEnv)
+
+    if (!clientId || !clientSecret) {
+      throw new Error(`${provider.clientIdEnv} and ${provider.clientSecretEnv} must be configured on the server`)
+    }
+
+    const body = new URLSearchParams({
+      [provider.clientIdParam || 'client_id']: clientId,
+      client_secret: clientSecret,
+      grant_type: 'authorization_code',
+      code: exchange.code,
+      redirect_uri: exchange.redirectUri,
+      code_verifier: exchange.codeVerifier
+    })
+
+    const response = await fetch(provider.tokenUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body
+    })
+
+    const data = await response.json()
+
+    if (!response.ok || !data.access_token) {
+      throw Object.assign(
+        new Error(data.error_description || data.error?.message || data.error || 'Token exchange failed'),
+        { status: response.status }
+      )
+    }
+
+    return data as TokenResponse
+  }
+
+  /**
+   * Have the server exchange the code; the PKCE verifier never left this browser until now
+   */
+  private async requestTokens(pending: PendingConnection, code: string): Promise<TokenResponse> {
+    const exchange: CodeExchange = {
+      platform: pending.platform,
+      code,
+      redirectUri: pending.redirectUri,
+      codeVerifier: pending.codeVerifier
+    }
+
+    const response = await fetch('/api/accounts/oauth/token', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(exchange)
+    })
+
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.message || data.error || 'Token exchange failed')
+    }
+
+    return data as TokenResponse
+  }
+
+  private async fetchProfile(platform: Platform, accessToken: string): Promise<PlatformProfile> {
+    switch (platform) {
+      case 'instagram': {
+        const data = await this.getJson(
+          `${GRAPH_URL}/me/accounts?fields=id,name,instagram_business_account{id,username}&access_token=${accessToken}`
+        )
+        // The first page with a linked business account is used; others can be connected separately
+        const page = (data.data || []).find((item: { instagram_business_account?: unknown }) => item.instagram_business_account)
+        if (!page) {
+          throw new Error('No Instagram business account is linked to the authorized pages')
+        }
+        return {
+          handle: page.instagram_business_account.username,
+          name: page.instagram_business_account.username,
+          platformAccountId: page.instagram_business_account.id,
+          metadata: { instagram_business_id: page.instagram_business_account.id, page_id: page.id }
+        }
+      }
+
+      case 'facebook': {
+        const data = await this.getJson(`${GRAPH_URL}/me/accounts?fields=id,name,access_token&access_token=${accessToken}`)
+        const page = data.data?.[0]
+        if (!page) {
+          throw new Error('No Facebook pages were authorized')
+        }
+        return {
+          handle: page.name,
+          name: page.name,
+          platformAccountId: page.id,
+          metadata: { page_id: page.id },
+          accessToken: page.access_token
+        }
+      }
+
+      case 'tiktok': {
+        const data = await this.getJson(
+          'https://open.tiktokapis.com/v2/user/info/?fields=open_id,display_name,username',
+          accessToken
+        )
+        const user = data.data?.user || {}
+        return {
+          handle: user.username || user.display_name,
+          name: user.display_name || user.username,
+          platformAccountId: user.open_id,
+          metadata: { open_id: user.open_id }
+        }
+      }
+
+      case 'linkedin': {
+        const user = await this.getJson('https://api.linkedin.com/v2/userinfo', accessToken)
+        return {
+          handle: user.name,
+          name: user.name,
+          platformAccountId: user.sub,
+          metadata: { person_urn: `urn:li:person:${user.sub}` }
+        }
+      }
+
+      case 'youtube': {
+        const data = await this.getJson(
+          'https://www.googleapis.com/youtube/v3/channels?part=snippet&mine=true',
+          accessToken
+        )
+        const channel = data.items?.[0]
+        if (!channel) {
+          throw new Error('The authorized Google account has no YouTube channel')
+        }
+        return {
+          handle: channel.snippet.customUrl || channel.snippet.title,
+          name: channel.snippet.title,
+          platformAccountId: channel.id,
+          metadata: { channel_id: channel.id }
+        }
+      }
+    }
+  }
+
+  /**
+   * Reconnecting an existing account keeps its publishing settings in account_metadata
+   */
+  private async upsertAccount(platform: Platform, profile: PlatformProfile): Promise<Tables<'accounts'>> {
+    // Handles are renamed and reused, so only the platform's own account ID identifies an account
+    const { data: existing, error: lookupError } = await supabase
+      .from('accounts')
+      .select('*')
+      .eq('platform', platform)
+      .eq('platform_account_id', profile.platformAccountId)
+      .limit(1)
+      .maybeSingle()
+
+    if (lookupError) {
+      throw new Error(`Failed to look up account: ${lookupError.message}`)
+    }
+
+    if (existing) {
+      const { data, error } = await supabase
+        .from('accounts')
+        .update({
+          account_name: profile.name,
+          account_handle: profile.handle,
+          platform_account_id: profile.platformAccountId,
+          account_metadata: { ...(existing.account_metadata as Record<string, unknown>), ...profile.metadata } as Json,
+          is_active: true
+        })
+        .eq('id', existing.id)
+        .select()
+        .single()
+
+      if (error || !data) {
+        throw new Error(`Failed to update account: ${error?.message}`)
+      }
+      return data as unknown as Tables<'accounts'>
+    }
+
+    const { data: { user } } = await supabase.auth.getUser()
+    const { data, error } = await supabase
+      .from('accounts')
+      .insert({
+        platform,
+        account_name: profile.name,
+        account_handle: profile.handle,
+        platform_account_id: profile.platformAccountId,
+        account_metadata: profile.metadata as Json,
+        is_active: true,
+        created_by: user?.id ?? null
+      })
+      .select()
+      .single()
+
+    if (error || !data) {
+      throw new Error(`Failed to create account: ${error?.message}`)
+    }
+    return data as unknown as Tables<'accounts'>
+  }
+
+  private async getJson(url: string, bearerToken?: string) {
+    const response = await fetch(url, {
+      headers: bearerToken ? { 'Authorization': `Bearer ${bearerToken}` } : undefined
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw Object.assign(
+        new Error(data.error?.message || data.message || `Profile lookup failed: ${response.status}`),
+        { status: response.status }
+      )
+    }
+
+    return data
+  }
+
+  private takePending(state: string): PendingConnection | null {
+    const key = `${PENDING_KEY_PREFIX}${state}`
+    const stored = sessionStorage.getItem(key)
+    // One use only, whatever the outcome
+    sessionStorage.removeItem(key)
+
+    if (!stored) return null
+
+    const pending = JSON.parse(stored) as PendingConnection
+    return Date.now() - pending.createdAt <= PENDING_TTL_MS ? pending : null
+  }
+
+  /**
+   * S256 challenge: base64url(sha256(verifier))
+   */
+  private async createCodeChallenge(codeVerifier: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier))
+    return this.base64Url(new Uint8Array(digest))
+  }
+
+  private randomString(byteLength: number): string {
+    return this.base64Url(crypto.getRandomValues(new Uint8Array(byteLength)))
+  }
+
+  private base64Url(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '')
+  }
+
+  /**
+   * Browser builds only expose VITE_-prefixed variables; scripts read process.env
+   */
+  private readEnv(name: string): string | undefined {
+    return (import.meta.env?.[`VITE_${name}`] as string | undefined) || this.readServerEnv(name)
+  }
+
+  private readServerEnv(name: string): string | undefined {
+    return typeof process !== 'undefined' ? process.env?.[name] : undefined
+  }
+}
+
+// Export singleton instance
+export const accountOAuth = new AccountOAuthService()
@@ -3,12 +3,16 @@
 
 import { supabase } from '@/integrations/supabase/client'
 import { EventEmitter, eventSourcingService } from './event-sourcing'
+import { preflightValidator } from './preflight-validator'
 import type { 
   Tables, 
   ContentType, 
   AssetStatus, 
   DestinationStatus,
-  Platform 
+  Platform,
+  Json,
+  PreflightReport,
+  DestinationPublishOptions
 } from '@/integrations/supabase/types-enhanced'
 
 interface CreateAssetData {
@@ -198,6 +202,14 @@ export class AssetManagementService {
     try {
       // Get current asset for comparison
       const currentAsset = await this.getAssetById(assetId)
+
+      // Assets only become ready once every destination passes preflight
+      if (updates.status === 'ready' && currentAsset.status !== 'ready') {
+        const report = await this.validateAssetForPublishing(assetId)
+        if (!report.passed) {
+          throw new Error(`Asset failed preflight checks: ${this.describePreflightFailures(report)}`)
+        }
+      }
       
       // Prepare update data
       const updateData = {
@@ -424,6 +436,33 @@ export class AssetManagementService {
     }
   }
 
+  /**
+   * Set a destination's first comment, collaborators, user tags, location and alt text.
+   * Empty values are dropped; published destinations keep what they were posted with.
+   */
+  async updateDestinationPublishOptions(
+    destinationId: string,
+    options: DestinationPublishOptions
+  ): Promise<DestinationPublishOptions> {
+    const cleaned = Object.fromEntries(
+      Object.entries(options).filter(([, value]) => Array.isArray(value) ? value.length > 0 : !!value)
+    ) as DestinationPublishOptions
+
+    const { data, error } = await supabase
+      .from('asset_destinations')
+      .update({ publish_options: cleaned as unknown as Json })
+      .eq('id', destinationId)
+      .neq('status', 'published')
+      .select('publish_options')
+      .single()
+
+    if (error || !data) {
+      throw new Error(`Failed to update publish options: ${error?.message}`)
+    }
+
+    return data.publish_options as unknown as DestinationPublishOptions
+  }
+
   /**
    * Private helper methods
    */
@@ -482,11 +521,6 @@ export class AssetManagementService {
   ): Promise<void> {
     // Handle specific status transitions
     switch (toStatus) {
-      case 'ready':
-        // Asset is ready for workflow creation
-        await this.validateAssetForPublishing(assetId)
-        break
-      
       case 'published':
         // Update published timestamp
         await supabase
@@ -505,30 +539,35 @@ export class AssetManagementService {
     }
   }
 
-  private async validateAssetForPublishing(assetId: string): Promise<void> {
-    const asset = await this.getAssetById(assetId)
-    
-    const checks = {
-      has_title: !!asset.title,
-      has_media: !!asset.media_files?.length,
-      has_destinations: !!asset.destinations?.length,
-      content_type_valid: ['reel', 'carousel', 'single_image', 'story'].includes(asset.content_type)
-    }
+  /**
+   * Run preflight checks against every destination's platform limits and store the report
+   */
+  async validateAssetForPublishing(assetId: string): Promise<PreflightReport> {
+    const report = await preflightValidator.validateAsset(assetId)
 
     // Update preflight checks
     await supabase
       .from('assets')
-      .update({ 
-        preflight_checks: checks,
+      .update({
+        preflight_checks: report as unknown as Json,
         updated_at: new Date().toISOString()
       })
       .eq('id', assetId)
 
     // Log validation result
     await this.logAssetEvent(assetId, 'preflight_validation', {
-      checks,
-      passed: Object.values(checks).every(Boolean)
+      passed: report.passed,
+      failed_checks: report.checks.filter(check => check.status === 'failed')
     })
+
+    return report
+  }
+
+  private describePreflightFailures(report: PreflightReport): string {
+    return report.checks
+      .filter(check => check.status === 'failed')
+      .map(check => check.platform ? `${check.platform}: ${check.message}` : check.message)
+      .join('; ')
   }
 
   private isAssetReadyForPublishing(asset: AssetWithRelations): boolean {
@@ -545,6 +584,17 @@ export class AssetManagementService {
    */
 
   async batchUpdateStatus(assetIds: string[], status: AssetStatus): Promise<number> {
+    // Assets failing preflight are left in their current status
+    if (status === 'ready') {
+      const passing: string[] = []
+      for (const assetId of assetIds) {
+        const report = await this.validateAssetForPublishing(assetId)
+        if (report.passed) passing.push(assetId)
+      }
+      assetIds = passing
+      if (assetIds.length === 0) return 0
+    }
+
     const { error, count } = await supabase
       .from('assets')
       .update({ 
@@ -0,0 +1,76 @@
+// Caption Experiment Evaluator
+// Background job that checks running caption experiments and promotes significant winners
+
+import { captionExperiments } from './caption-experiments'
+
+interface CaptionExperimentEvaluatorOptions {
+  intervalMs?: number
+}
+
+export class CaptionExperimentEvaluator {
+  private readonly intervalMs: number
+
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private running = false
+  private currentEvaluation: Promise<number> | null = null
+
+  constructor(options: CaptionExperimentEvaluatorOptions = {}) {
+    // Engagement snapshots arrive hours apart, so checking more often gains nothing
+    this.intervalMs = options.intervalMs ?? 60 * 60 * 1000
+  }
+
+  /**
+   * Start evaluating on an interval
+   */
+  start(): void {
+    if (this.running) return
+    this.running = true
+    console.log('Caption experiment evaluator started')
+    this.scheduleNextEvaluation(0)
+  }
+
+  /**
+   * Stop evaluating and wait for the in-flight evaluation to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    if (this.currentEvaluation) {
+      await this.currentEvaluation
+    }
+    console.log('Caption experiment evaluator stopped')
+  }
+
+  /**
+   * Evaluate every running experiment once; returns how many were completed with a winner
+   */
+  async evaluateOnce(): Promise<number> {
+    const completed = await captionExperiments.evaluateRunning()
+    if (completed > 0) {
+      console.log(`Promoted the winners of ${completed} caption experiments`)
+    }
+    return completed
+  }
+
+  private scheduleNextEvaluation(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      if (!this.running) return
+
+      try {
+        this.currentEvaluation = this.evaluateOnce()
+        await this.currentEvaluation
+      } catch (error) {
+        console.error('Caption experiment evaluation failed:', error)
+      } finally {
+        this.currentEvaluation = null
+        this.scheduleNextEvaluation(this.intervalMs)
+      }
+    }, delayMs)
+  }
+}
+
+// Export singleton instance
+export const captionExperimentEvaluator = new CaptionExperimentEvaluator()
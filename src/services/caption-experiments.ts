@@ -0,0 +1,368 @@
+// Caption Experiments Service
+// A/B caption variants for one asset: render each variant onto its own destinations, compare
+// per-view engagement and promote a statistically significant winner into the template library
+
+import { supabase } from '@/integrations/supabase/client'
+import { captionRenderer, type CaptionContext, type CaptionRenderOptions } from './caption-renderer'
+import { pickWinner } from '@/utils/experiment-stats'
+import type {
+  Tables,
+  Platform,
+  BrandVoice,
+  BusinessProfile,
+  CaptionPolicy,
+  CaptionExperiment,
+  CaptionExperimentVariant,
+  CaptionExperimentMetric,
+  CaptionExperimentEvaluation,
+  CaptionVariantTotals,
+  CaptionVariantResult
+} from '@/integrations/supabase/types-enhanced'
+
+export interface CreateExperimentInput {
+  assetId: string
+  name: string
+  hypothesis?: string
+  metric?: CaptionExperimentMetric
+  minViewsPerVariant?: number
+  confidence?: number
+  // Each variant is an existing template or new template source; labels default to A, B, C...
+  variants: Array<{ label?: string; templateId?: string; template?: string }>
+}
+
+export interface CaptionExperimentWithVariants extends CaptionExperiment {
+  variants: CaptionExperimentVariant[]
+}
+
+export interface VariantAssignment {
+  destinationId: string
+  variantId: string
+}
+
+export interface CaptionExperimentResults {
+  experiment: CaptionExperimentWithVariants
+  variants: CaptionVariantResult[]
+  evaluation: CaptionExperimentEvaluation
+}
+
+interface ExperimentDestination {
+  id: string
+  scheduled_at: string | null
+  created_at: string
+  accounts: {
+    platform: Platform
+    brand_voice: BrandVoice | null
+    caption_policy: CaptionPolicy | null
+    locale: string | null
+    business_profile: BusinessProfile | null
+  } | null
+}
+
+// Engagements counted towards each metric
+const METRIC_SUCCESSES: Record<CaptionExperimentMetric, (totals: CaptionVariantTotals) => number> = {
+  engagement_rate: totals => totals.likes + totals.comments + totals.shares,
+  like_rate: totals => totals.likes,
+  comment_rate: totals => totals.comments,
+  share_rate: totals => totals.shares
+}
+
+export class CaptionExperimentService {
+  /**
+   * Create a draft experiment. Variants based on a template snapshot its current source and
+   * version, so later template edits do not change a running test.
+   */
+  async createExperiment(input: CreateExperimentInput): Promise<CaptionExperimentWithVariants> {
+    if (input.variants.length < 2) {
+      throw new Error('An experiment needs at least two variants')
+    }
+
+    const variants = await Promise.all(input.variants.map(async (variant, index) => {
+      const label = variant.label || String.fromCharCode(65 + index)
+      if (!variant.templateId) {
+        if (!variant.template?.trim()) {
+          throw new Error(`Variant ${label} needs a template or template text`)
+        }
+        return { label, template: variant.template, source_template_id: null, source_template_version_id: null }
+      }
+
+      const { data: template, error } = await supabase
+        .from('caption_templates')
+        .select('*')
+        .eq('id', variant.templateId)
+        .single()
+
+      if (error || !template) {
+        throw new Error(`Caption template not found for variant ${label}`)
+      }
+
+      const source = template as unknown as Tables<'caption_templates'>
+      return {
+        label,
+        template: variant.template ?? source.template,
+        source_template_id: source.id,
+        source_template_version_id: source.current_version_id
+      }
+    }))
+
+    const { data: experiment, error } = await supabase
+      .from('caption_experiments')
+      .insert({
+        asset_id: input.assetId,
+        name: input.name,
+        hypothesis: input.hypothesis ?? null,
+        metric: input.metric,
+        min_views_per_variant: input.minViewsPerVariant,
+        confidence: input.confidence
+      })
+      .select()
+      .single()
+
+    if (error || !experiment) {
+      throw new Error(`Failed to create experiment: ${error?.message}`)
+    }
+
+    const { error: variantsError } = await supabase
+      .from('caption_variants')
+      .insert(variants.map(variant => ({ ...variant, experiment_id: experiment.id })))
+
+    if (variantsError) {
+      await supabase.from('caption_experiments').delete().eq('id', experiment.id)
+      throw new Error(`Failed to create experiment variants: ${variantsError.message}`)
+    }
+
+    return this.getExperiment(experiment.id)
+  }
+
+  /**
+   * Load an experiment with its variants
+   */
+  async getExperiment(experimentId: string): Promise<CaptionExperimentWithVariants> {
+    const { data, error } = await supabase
+      .from('caption_experiments')
+      .select('*, caption_variants(*)')
+      .eq('id', experimentId)
+      .single()
+
+    if (error || !data) {
+      throw new Error(`Experiment not found: ${error?.message}`)
+    }
+
+    const { caption_variants: variants, ...experiment } = data as unknown as CaptionExperiment & {
+      caption_variants: CaptionExperimentVariant[]
+    }
+    return {
+      ...experiment,
+      variants: [...(variants || [])].sort((a, b) => a.label.localeCompare(b.label))
+    }
+  }
+
+  /**
+   * Experiments for an asset, newest first
+   */
+  async listExperiments(assetId: string): Promise<CaptionExperiment[]> {
+    const { data, error } = await supabase
+      .from('caption_experiments')
+      .select('*')
+      .eq('asset_id', assetId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to list experiments: ${error.message}`)
+    }
+
+    return (data || []) as unknown as CaptionExperiment[]
+  }
+
+  /**
+   * Render each variant onto its destinations and start the experiment. Without explicit
+   * assignments the asset's destinations are dealt out in schedule order, so variants
+   * alternate across accounts and time slots.
+   */
+  async assignVariants(
+    experimentId: string,
+    assignments?: VariantAssignment[],
+    context?: CaptionContext,
+    options: CaptionRenderOptions = {}
+  ): Promise<VariantAssignment[]> {
+    const experiment = await this.getExperiment(experimentId)
+    if (experiment.status !== 'draft' && experiment.status !== 'running') {
+      throw new Error(`Experiment is ${experiment.status}`)
+    }
+
+    const { data: asset, error } = await supabase
+      .from('assets')
+      .select('*, asset_destinations(id, scheduled_at, created_at, accounts(platform, brand_voice, caption_policy, locale, business_profile))')
+      .eq('id', experiment.asset_id)
+      .single()
+
+    if (error || !asset) {
+      throw new Error(`Asset not found: ${error?.message}`)
+    }
+
+    const destinations = ((asset.asset_destinations || []) as unknown as ExperimentDestination[])
+      .filter(destination => destination.accounts)
+      .sort((a, b) =>
+        (a.scheduled_at || a.created_at).localeCompare(b.scheduled_at || b.created_at))
+
+    const plan = assignments ?? destinations.map((destination, index) => ({
+      destinationId: destination.id,
+      variantId: experiment.variants[index % experiment.variants.length].id
+    }))
+
+    const renderContext = context ?? { asset: asset as unknown as Tables<'assets'> }
+
+    for (const assignment of plan) {
+      const destination = destinations.find(candidate => candidate.id === assignment.destinationId)
+      const variant = experiment.variants.find(candidate => candidate.id === assignment.variantId)
+      if (!destination || !variant) {
+        throw new Error(`Invalid assignment of variant ${assignment.variantId} to destination ${assignment.destinationId}`)
+      }
+
+      const account = destination.accounts!
+      const platform = account.platform
+      const rendered = await captionRenderer.renderTemplateText(
+        variant.template,
+        { ...renderContext, business: { ...account.business_profile, ...renderContext.business } },
+        platform,
+        {
+          ...options,
+          locale: options.locale ?? account.locale ?? undefined,
+          policy: options.policy ?? account.caption_policy ?? {},
+          brandVoice: options.brandVoice ?? account.brand_voice ?? {}
+        }
+      )
+      const platformVersion = rendered.platformSpecific[platform]!
+
+      // Store what will actually be posted, so results compare the text people saw
+      await captionRenderer.saveRenderedCaption(destination.id, variant.source_template_id, {
+        ...rendered,
+        text: platformVersion.text,
+        hashtags: platformVersion.hashtags,
+        characterCount: platformVersion.text.length,
+        templateVersionId: variant.source_template_version_id
+      }, variant.id)
+    }
+
+    if (experiment.status === 'draft' && plan.length > 0) {
+      const { error: startError } = await supabase
+        .from('caption_experiments')
+        .update({ status: 'running', started_at: new Date().toISOString() })
+        .eq('id', experimentId)
+
+      if (startError) {
+        throw new Error(`Failed to start experiment: ${startError.message}`)
+      }
+    }
+
+    return plan
+  }
+
+  /**
+   * Per-variant totals and rates with the current statistical verdict
+   */
+  async getResults(experimentId: string): Promise<CaptionExperimentResults> {
+    const experiment = await this.getExperiment(experimentId)
+    const { data, error } = await supabase.rpc('caption_experiment_results', { experiment_uuid: experimentId })
+
+    if (error) {
+      throw new Error(`Failed to load experiment results: ${error.message}`)
+    }
+
+    const successes = METRIC_SUCCESSES[experiment.metric]
+    // BIGINT columns arrive as strings
+    const variants = ((data || []) as unknown as CaptionVariantTotals[]).map(row => {
+      const totals: CaptionVariantTotals = {
+        ...row,
+        views: Number(row.views),
+        likes: Number(row.likes),
+        comments: Number(row.comments),
+        shares: Number(row.shares)
+      }
+      return { ...totals, rate: totals.views > 0 ? successes(totals) / totals.views : null }
+    })
+
+    const verdict = pickWinner(
+      variants.map(variant => ({ id: variant.variant_id, successes: successes(variant), trials: variant.views })),
+      { confidence: Number(experiment.confidence), minTrials: experiment.min_views_per_variant }
+    )
+
+    return {
+      experiment,
+      variants,
+      evaluation: {
+        winnerVariantId: verdict.winnerId,
+        pValue: verdict.pValue,
+        lift: verdict.lift,
+        reason: verdict.reason
+      }
+    }
+  }
+
+  /**
+   * Promote the winner if there is a significant one; otherwise leave the experiment running
+   */
+  async pickWinner(experimentId: string): Promise<CaptionExperimentResults> {
+    const results = await this.getResults(experimentId)
+    const { winnerVariantId, pValue } = results.evaluation
+
+    if (!winnerVariantId || results.experiment.status !== 'running') {
+      return results
+    }
+
+    const { error } = await supabase.rpc('promote_caption_variant', {
+      experiment_uuid: experimentId,
+      variant_uuid: winnerVariantId,
+      p_value: pValue
+    })
+
+    if (error) {
+      throw new Error(`Failed to promote winning variant: ${error.message}`)
+    }
+
+    return { ...results, experiment: await this.getExperiment(experimentId) }
+  }
+
+  /**
+   * Check every running experiment and promote those with a winner; returns how many finished
+   */
+  async evaluateRunning(): Promise<number> {
+    const { data, error } = await supabase
+      .from('caption_experiments')
+      .select('id')
+      .eq('status', 'running')
+
+    if (error) {
+      throw new Error(`Failed to load running experiments: ${error.message}`)
+    }
+
+    let completed = 0
+    for (const { id } of data || []) {
+      try {
+        const results = await this.pickWinner(id)
+        if (results.experiment.status === 'completed') completed++
+      } catch (error) {
+        console.error(`Failed to evaluate caption experiment ${id}:`, error)
+      }
+    }
+
+    return completed
+  }
+
+  /**
+   * Stop an experiment without promoting anything
+   */
+  async cancel(experimentId: string): Promise<void> {
+    const { error } = await supabase
+      .from('caption_experiments')
+      .update({ status: 'cancelled', completed_at: new Date().toISOString() })
+      .eq('id', experimentId)
+      .in('status', ['draft', 'running'])
+
+    if (error) {
+      throw new Error(`Failed to cancel experiment: ${error.message}`)
+    }
+  }
+}
+
+// Export singleton instance
+export const captionExperiments = new CaptionExperimentService()
@@ -0,0 +1,483 @@
+// Caption Generation Service
+// Pluggable caption providers (deterministic local stand-in, OpenAI-compatible HTTP) with scored, limit-checked variants
+
+import { supabase } from '@/integrations/supabase/client'
+import { captionRenderer, type CaptionRenderOptions } from './caption-renderer'
+import { joinCaption } from '@/utils/caption-layout'
+import type {
+  Tables,
+  Platform,
+  BrandVoice,
+  CaptionPolicy,
+  CaptionGenerationRequest,
+  CaptionVariant,
+  CaptionVariantScore
+} from '@/integrations/supabase/types-enhanced'
+
+export interface CaptionDraft {
+  text: string
+  hashtags: string[]
+}
+
+export interface CaptionGenerationProvider {
+  readonly name: string
+  generate(request: CaptionGenerationRequest): Promise<CaptionDraft[]>
+}
+
+export interface CaptionGenerationTarget {
+  platform: Platform
+  // Account whose brand voice and caption policy to use
+  accountId?: string
+}
+
+interface GenerateVariantsOptions extends CaptionRenderOptions {
+  targets: CaptionGenerationTarget[]
+  variants?: number
+  hook?: string
+  cta?: string
+  // Override the account's stored brand voice and caption policy
+  brandVoice?: BrandVoice
+  policy?: CaptionPolicy
+}
+
+interface OpenAICompatibleConfig {
+  baseUrl: string
+  apiKey?: string
+  model: string
+  temperature?: number
+  timeoutMs?: number
+}
+
+// Caption lengths that tend to perform on each platform, in characters
+const IDEAL_LENGTHS: Record<Platform, { min: number; max: number }> = {
+  instagram: { min: 120, max: 400 },
+  tiktok: { min: 60, max: 180 },
+  linkedin: { min: 400, max: 1300 },
+  facebook: { min: 40, max: 250 },
+  youtube: { min: 100, max: 500 }
+}
+
+const EMOJI = ['🔥', '💡', '🚀', '✅', '📈', '🏡', '💰', '👉']
+
+/**
+ * Deterministic provider: builds variants from the asset, hook and CTA without calling a model.
+ * Same input, same output, so it is safe for tests and offline development.
+ */
+export class LocalCaptionProvider implements CaptionGenerationProvider {
+  readonly name = 'local'
+
+  async generate(request: CaptionGenerationRequest): Promise<CaptionDraft[]> {
+    const seed = hashString(`${request.asset.id}:${request.platform}`)
+    const { asset, brandVoice } = request
+    const hook = request.hook || asset.title
+    const cta = request.cta || this.defaultCta(request.platform)
+    const sentences = splitIntoSentences(asset.description || '')
+    const hashtags = uniqueTags([...asset.hashtags, ...(brandVoice.keywords || []).map(toTag)])
+      .slice(0, request.limits.hashtags)
+
+    const layouts = [
+      () => [hook, sentences.join(' '), cta],
+      () => [this.asQuestion(hook), sentences.join(' '), cta],
+      () => [hook, sentences.map(sentence => `• ${sentence}`).join('\n'), cta],
+      () => [hook, sentences[0] || '', cta],
+      () => [`${hook} ${cta}`]
+    ]
+
+    const drafts: CaptionDraft[] = []
+    for (let i = 0; i < request.variants; i++) {
+      const layout = layouts[(seed + i) % layouts.length]
+      const paragraphs = layout().filter(Boolean)
+      drafts.push({
+        text: this.applyEmojiStyle(paragraphs, brandVoice.emojiStyle, seed + i).join('\n\n'),
+        // Rotate tag order so variants do not all lead with the same hashtag
+        hashtags: rotate(hashtags, i)
+      })
+    }
+
+    return drafts
+  }
+
+  private asQuestion(hook: string): string {
+    const base = hook.replace(/[.!?…]+$/, '')
+    return /\?$/.test(hook) ? hook : `Want to know ${base.charAt(0).toLowerCase()}${base.slice(1)}?`
+  }
+
+  private applyEmojiStyle(paragraphs: string[], style: BrandVoice['emojiStyle'], seed: number): string[] {
+    if (!style || style === 'none' || paragraphs.length === 0) return paragraphs
+
+    const first = EMOJI[seed % EMOJI.length]
+    const result = [`${first} ${paragraphs[0]}`, ...paragraphs.slice(1)]
+    if (style === 'heavy' && result.length > 1) {
+      result[result.length - 1] = `${EMOJI[(seed + 3) % EMOJI.length]} ${result[result.length - 1]}`
+    }
+    return result
+  }
+
+  private defaultCta(platform: Platform): string {
+    switch (platform) {
+      case 'linkedin':
+        return 'What has your experience been? Share your thoughts in the comments.'
+      case 'youtube':
+        return 'Subscribe for more.'
+      case 'tiktok':
+        return 'Follow for part 2.'
+      default:
+        return 'Follow for more tips.'
+    }
+  }
+}
+
+/**
+ * Provider for any endpoint that speaks the OpenAI chat completions API
+ */
+export class OpenAICompatibleCaptionProvider implements CaptionGenerationProvider {
+  readonly name = 'openai-compatible'
+
+  constructor(private readonly config: OpenAICompatibleConfig) {}
+
+  async generate(request: CaptionGenerationRequest): Promise<CaptionDraft[]> {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), this.config.timeoutMs ?? 30000)
+
+    try {
+      const response = await fetch(`${this.config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: this.config.model,
+          temperature: this.config.temperature ?? 0.8,
+          response_format: { type: 'json_object' },
+          messages: [
+            { role: 'system', content: this.systemPrompt(request) },
+            { role: 'user', content: this.userPrompt(request) }
+          ]
+        }),
+        signal: controller.signal
+      })
+
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw Object.assign(
+          new Error(data?.error?.message || `Caption provider request failed: ${response.statusText}`),
+          { status: response.status }
+        )
+      }
+
+      return this.parseDrafts(data?.choices?.[0]?.message?.content)
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  private systemPrompt(request: CaptionGenerationRequest): string {
+    const { brandVoice, limits, platform } = request
+    const lines = [
+      `You write ${platform} captions for a real estate education brand.`,
+      `Each caption must be under ${limits.characters} characters including hashtags, with at most ${limits.hashtags} hashtags.`,
+      brandVoice.tone && `Tone: ${brandVoice.tone}.`,
+      brandVoice.audience && `Audience: ${brandVoice.audience}.`,
+      brandVoice.keywords?.length && `Work in these keywords where natural: ${brandVoice.keywords.join(', ')}.`,
+      brandVoice.avoidWords?.length && `Never use these words: ${brandVoice.avoidWords.join(', ')}.`,
+      brandVoice.emojiStyle && `Emoji use: ${brandVoice.emojiStyle}.`,
+      brandVoice.sampleCaptions?.length && `Captions that sound right:\n${brandVoice.sampleCaptions.map(sample => `---\n${sample}`).join('\n')}`,
+      'Reply with JSON only: {"captions": [{"text": "...", "hashtags": ["tag", "..."]}]}. Hashtags without "#" and not repeated inside text.'
+    ]
+    return lines.filter(Boolean).join('\n')
+  }
+
+  private userPrompt(request: CaptionGenerationRequest): string {
+    const { asset } = request
+    return [
+      `Write ${request.variants} distinct caption variants.`,
+      `Content type: ${asset.contentType}`,
+      `Title: ${asset.title}`,
+      asset.description && `Description: ${asset.description}`,
+      request.hook && `Open with this hook (reword lightly if needed): ${request.hook}`,
+      request.cta && `End with this call to action: ${request.cta}`,
+      asset.hashtags.length > 0 && `Suggested hashtags: ${asset.hashtags.join(', ')}`
+    ].filter(Boolean).join('\n')
+  }
+
+  private parseDrafts(content: unknown): CaptionDraft[] {
+    if (typeof content !== 'string') {
+      throw new Error('Caption provider returned no content')
+    }
+
+    // Some endpoints wrap JSON in a code fence despite response_format
+    const json = content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, '')
+    let parsed: { captions?: Array<{ text?: unknown; hashtags?: unknown }> }
+    try {
+      parsed = JSON.parse(json)
+    } catch {
+      throw new Error('Caption provider returned invalid JSON')
+    }
+
+    return (parsed.captions || [])
+      .filter(caption => typeof caption.text === 'string' && caption.text.trim())
+      .map(caption => ({
+        text: (caption.text as string).trim(),
+        hashtags: Array.isArray(caption.hashtags)
+          ? uniqueTags(caption.hashtags.filter((tag): tag is string => typeof tag === 'string').map(toTag))
+          : []
+      }))
+  }
+}
+
+export class CaptionGenerationService {
+  private readonly fallback = new LocalCaptionProvider()
+
+  constructor(private provider: CaptionGenerationProvider = createCaptionProviderFromEnv()) {}
+
+  /**
+   * Swap the provider, e.g. the local one in tests
+   */
+  setProvider(provider: CaptionGenerationProvider): void {
+    this.provider = provider
+  }
+
+  /**
+   * Generate scored variants per target, best first. Every variant is fitted to the platform
+   * and checked with validateCaption, including the account's compliance rules; variants that
+   * still fail are dropped, so a target can get fewer than requested.
+   */
+  async generateVariants(
+    asset: Tables<'assets'>,
+    options: GenerateVariantsOptions
+  ): Promise<Partial<Record<Platform, CaptionVariant[]>>> {
+    const count = options.variants ?? 3
+    const accounts = await this.loadAccountSettings(options.targets)
+    const metadata = (asset.metadata || {}) as Record<string, unknown>
+    const results: Partial<Record<Platform, CaptionVariant[]>> = {}
+
+    for (const target of options.targets) {
+      const account = target.accountId ? accounts[target.accountId] : undefined
+      const brandVoice = options.brandVoice || account?.brandVoice || {}
+      const policy = options.policy || account?.policy || {}
+      const request: CaptionGenerationRequest = {
+        asset: {
+          id: asset.id,
+          title: asset.title,
+          description: asset.description,
+          contentType: asset.content_type,
+          hashtags: Array.isArray(metadata.hashtags) ? metadata.hashtags.map(String) : []
+        },
+        platform: target.platform,
+        hook: options.hook,
+        cta: options.cta,
+        brandVoice,
+        variants: count,
+        limits: captionRenderer.getPlatformLimits(target.platform)
+      }
+
+      const { provider, drafts } = await this.draft(request)
+      const variants = drafts.map(draft => this.toVariant(draft, request, provider, { ...options, brandVoice, policy }))
+      const valid = variants.filter(variant => variant.valid)
+      if (valid.length < variants.length) {
+        console.warn(`Dropped ${variants.length - valid.length} ${target.platform} caption variants that failed validation`)
+      }
+
+      results[target.platform] = this.dedupe(valid)
+        .sort((a, b) => b.score.total - a.score.total)
+        .slice(0, count)
+    }
+
+    return results
+  }
+
+  /**
+   * Score a caption for a platform: limits, length sweet spot, hook, CTA and brand vocabulary
+   */
+  scoreCaption(
+    text: string,
+    request: Pick<CaptionGenerationRequest, 'platform' | 'hook' | 'cta' | 'brandVoice' | 'limits'>,
+    valid: boolean
+  ): CaptionVariantScore {
+    const breakdown: Record<string, number> = {}
+    const lower = text.toLowerCase()
+
+    breakdown.within_limits = valid ? 0.3 : 0
+
+    const ideal = IDEAL_LENGTHS[request.platform]
+    const length = text.length
+    const distance = length < ideal.min ? (ideal.min - length) / ideal.min
+      : length > ideal.max ? (length - ideal.max) / ideal.max
+      : 0
+    breakdown.length = round(0.2 * Math.max(0, 1 - distance))
+
+    const firstLine = lower.split('\n')[0]
+    breakdown.hook = request.hook
+      ? (firstLine.includes(stripEnding(normalize(request.hook)).slice(0, 40)) ? 0.15 : 0)
+      : (firstLine.length > 0 && firstLine.length <= 125 ? 0.15 : 0.05)
+
+    breakdown.cta = request.cta
+      ? (lower.includes(stripEnding(normalize(request.cta)).slice(0, 40)) ? 0.15 : 0)
+      : (/\b(follow|comment|share|subscribe|save|dm|link in bio|click|visit)\b/.test(lower) ? 0.15 : 0)
+
+    const keywords = request.brandVoice.keywords || []
+    breakdown.keywords = keywords.length > 0
+      ? round(0.1 * keywords.filter(keyword => lower.includes(keyword.toLowerCase())).length / keywords.length)
+      : 0.1
+
+    const hashtagCount = captionRenderer.extractHashtags(text).length
+    breakdown.hashtags = hashtagCount > 0 && hashtagCount <= request.limits.hashtags ? 0.1 : 0
+
+    const avoided = (request.brandVoice.avoidWords || [])
+      .filter(word => new RegExp(`\\b${escapeRegExp(word.toLowerCase())}\\b`).test(lower))
+    if (avoided.length > 0) {
+      breakdown.avoid_words = -0.2 * avoided.length
+    }
+
+    const total = Object.values(breakdown).reduce((sum, value) => sum + value, 0)
+    return { total: round(Math.min(1, Math.max(0, total))), breakdown }
+  }
+
+  private async draft(request: CaptionGenerationRequest): Promise<{ provider: string; drafts: CaptionDraft[] }> {
+    try {
+      const drafts = await this.provider.generate(request)
+      if (drafts.length > 0) {
+        return { provider: this.provider.name, drafts }
+      }
+      console.warn(`Caption provider ${this.provider.name} returned no drafts for ${request.platform}`)
+    } catch (error) {
+      console.error(`Caption provider ${this.provider.name} failed for ${request.platform}:`, error)
+    }
+
+    // A caption from the local provider beats no caption at all
+    if (this.provider === this.fallback) {
+      return { provider: this.fallback.name, drafts: [] }
+    }
+    return { provider: this.fallback.name, drafts: await this.fallback.generate(request) }
+  }
+
+  private toVariant(
+    draft: CaptionDraft,
+    request: CaptionGenerationRequest,
+    provider: string,
+    options: CaptionRenderOptions
+  ): CaptionVariant {
+    const formatted = captionRenderer.formatForPlatform(
+      joinCaption([draft.text], draft.hashtags),
+      request.platform,
+      options
+    )
+    const validation = captionRenderer.validateCaption(formatted.text, request.platform, options)
+
+    return {
+      platform: request.platform,
+      provider,
+      text: formatted.text,
+      hashtags: formatted.hashtags,
+      score: this.scoreCaption(formatted.text, request, validation.valid),
+      valid: validation.valid,
+      issues: validation.issues,
+      truncated: formatted.truncated
+    }
+  }
+
+  private dedupe(variants: CaptionVariant[]): CaptionVariant[] {
+    const seen = new Set<string>()
+    return variants.filter(variant => {
+      const key = normalize(variant.text)
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+  }
+
+  private async loadAccountSettings(
+    targets: CaptionGenerationTarget[]
+  ): Promise<Record<string, { brandVoice: BrandVoice; policy: CaptionPolicy }>> {
+    const accountIds = targets.map(target => target.accountId).filter((id): id is string => !!id)
+    if (accountIds.length === 0) return {}
+
+    const { data, error } = await supabase
+      .from('accounts')
+      .select('id, brand_voice, caption_policy')
+      .in('id', accountIds)
+
+    if (error) {
+      console.error('Failed to load account caption settings:', error)
+      return {}
+    }
+
+    return Object.fromEntries(
+      ((data || []) as unknown as Array<{ id: string; brand_voice: BrandVoice | null; caption_policy: CaptionPolicy | null }>)
+        .map(account => [account.id, { brandVoice: account.brand_voice || {}, policy: account.caption_policy || {} }])
+    )
+  }
+}
+
+/**
+ * Pick a provider from CAPTION_PROVIDER; anything but "openai" uses the local provider
+ */
+export function createCaptionProviderFromEnv(): CaptionGenerationProvider {
+  const env = typeof process !== 'undefined' ? process.env : {}
+
+  if (env?.CAPTION_PROVIDER === 'openai' && env.CAPTION_LLM_BASE_URL && env.CAPTION_LLM_MODEL) {
+    return new OpenAICompatibleCaptionProvider({
+      baseUrl: env.CAPTION_LLM_BASE_URL,
+      apiKey: env.CAPTION_LLM_API_KEY,
+      model: env.CAPTION_LLM_MODEL,
+      timeoutMs: env.CAPTION_LLM_TIMEOUT_MS ? Number(env.CAPTION_LLM_TIMEOUT_MS) : undefined
+    })
+  }
+
+  return new LocalCaptionProvider()
+}
+
+// FNV-1a, so the local provider picks the same layouts for the same asset every time
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+function splitIntoSentences(text: string): string[] {
+  return (text.match(/[^.!?]+[.!?]*/g) || []).map(sentence => sentence.trim()).filter(Boolean)
+}
+
+function toTag(value: string): string {
+  return value.replace(/^#/, '').replace(/[^\p{L}\p{N}_]/gu, '')
+}
+
+function uniqueTags(tags: string[]): string[] {
+  const seen = new Set<string>()
+  return tags.filter(tag => {
+    const key = tag.toLowerCase()
+    if (!tag || seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+function rotate<T>(items: T[], by: number): T[] {
+  if (items.length === 0) return items
+  const offset = by % items.length
+  return [...items.slice(offset), ...items.slice(0, offset)]
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+function stripEnding(text: string): string {
+  return text.replace(/[.!?…]+$/, '')
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+// Export singleton instance
+export const captionGenerator = new CaptionGenerationService()
@@ -7,23 +7,109 @@ import type {
   Platform, 
   ContentType, 
   RenderedCaption,
-  CaptionVariable 
+  CaptionVariable,
+  TemplateDiagnostic,
+  HashtagPlacement,
+  BrandVoice,
+  BusinessProfile,
+  CaptionPolicy,
+  CaptionLintIssue,
+  CaptionTemplateTranslation,
+  DestinationCaption,
+  RenderedCaptionSource,
+  HashtagRecommendation
 } from '@/integrations/supabase/types-enhanced'
-
-interface CaptionContext {
+import {
+  fitCaption,
+  joinCaption,
+  parseCaption,
+  truncateText,
+  type CaptionParts
+} from '@/utils/caption-layout'
+import {
+  analyzeTemplate,
+  formatDiagnostic,
+  listTemplateVariables,
+  renderTemplate
+} from '@/utils/template-engine'
+import { formatLintIssue, lintCaption } from '@/utils/caption-lint'
+import { DEFAULT_LOCALE, defaultCurrency, localeLanguage, normalizeLocale, resolveLocalized } from '@/utils/locale'
+import { hashtagLibrary, normalizeHashtag } from './hashtag-library'
+import { captionGenerator } from './caption-generation'
+
+export interface CaptionContext {
   asset: Tables<'assets'>
   creator?: {
     name: string
     handle?: string
   }
-  business?: {
-    name: string
-    website?: string
-    phone?: string
-  }
+  business?: BusinessProfile
   customVariables?: Record<string, any>
 }
 
+export interface CaptionRenderOptions {
+  // One choice for every platform, or per platform
+  hashtagPlacement?: HashtagPlacement | Partial<Record<Platform, HashtagPlacement>>
+  // Compliance settings and voice of the account the caption is for, checked by the linter
+  policy?: CaptionPolicy
+  brandVoice?: BrandVoice
+  // Tags never to place, per platform; renderCaption loads them from the hashtag library when omitted
+  bannedHashtags?: Partial<Record<Platform, string[]>>
+  // Destination the caption is for; its account supplies locale, business details, policy and voice
+  destinationId?: string
+  // Render in this locale instead of the account's, e.g. 'es-MX'
+  locale?: string
+  // ISO 4217 code for {{value | currency}} instead of the account's
+  currency?: string
+}
+
+export interface CaptionSuggestionOptions extends CaptionRenderOptions {
+  // Slots kept for provider-written variants even when enough templates match
+  generatedCount?: number
+}
+
+// Account settings that shape a destination's caption
+interface DestinationCaptionSettings {
+  locale: string | null
+  business: BusinessProfile
+  policy: CaptionPolicy | null
+  brandVoice: BrandVoice | null
+}
+
+// Used when neither the context nor the account names the business
+const DEFAULT_BUSINESS: BusinessProfile = {
+  name: 'Wholesale Mastery',
+  website: 'wholesalemastery.com'
+}
+
+// Platforms whose publishers can post a first comment
+export const FIRST_COMMENT_PLATFORMS: Platform[] = ['instagram', 'facebook', 'linkedin']
+
+// Stand-in data for previewing and checking templates in the editor
+export const SAMPLE_CAPTION_CONTEXT: CaptionContext = {
+  asset: {
+    id: 'sample-asset',
+    title: 'How I Closed My First Wholesale Deal',
+    description: 'Three lessons from my first assignment contract and what I would do differently.',
+    content_type: 'reel',
+    status: 'draft',
+    thumbnail_url: null,
+    created_by: null,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    scheduled_at: null,
+    published_at: null,
+    metadata: { hashtags: ['realestate', 'wholesale', 'investing'] },
+    workflow_id: null,
+    n8n_execution_id: null,
+    retry_count: 0,
+    last_error: null,
+    preflight_checks: {}
+  } as Tables<'assets'>,
+  creator: { name: 'Alex Rivera', handle: '@alexrivera' },
+  business: { name: 'Wholesale Mastery', website: 'wholesalemastery.com', phone: '555-0100' }
+}
+
 export class CaptionRenderingService {
   // Platform-specific character limits
   private readonly PLATFORM_LIMITS = {
@@ -43,47 +129,72 @@ export class CaptionRenderingService {
     youtube: 15
   }
 
+  // Hashtags always placed first in the block for a platform
+  private readonly REQUIRED_HASHTAGS: Partial<Record<Platform, string[]>> = {
+    // TikTok likes trending hashtags
+    tiktok: ['fyp', 'viral']
+  }
+
   /**
-   * Render caption from template
+   * Render caption from template. With a destination, the caption is rendered in its account's
+   * locale: the closest translation is used (es-MX, then es, then the template's own language)
+   * and dates, numbers and currency are formatted for that locale.
    */
   async renderCaption(
     templateId: string,
     context: CaptionContext,
-    platform?: Platform
+    platform?: Platform,
+    options: CaptionRenderOptions = {}
   ): Promise<RenderedCaption> {
     try {
       // Get template
-      const { data: template, error: templateError } = await supabase
+      const { data, error: templateError } = await supabase
         .from('caption_templates')
         .select('*')
         .eq('id', templateId)
         .single()
 
-      if (templateError || !template) {
+      if (templateError || !data) {
         throw new Error('Caption template not found')
       }
 
-      // Parse template variables
-      const variables = this.parseTemplateVariables(template.template)
-      const renderedText = this.processTemplate(template.template, context, variables)
-
-      // Extract hashtags and mentions
-      const hashtags = this.extractHashtags(renderedText)
-      const mentions = this.extractMentions(renderedText)
-
-      // Generate platform-specific versions
-      const platformSpecific = this.generatePlatformSpecificVersions(
-        renderedText, 
-        hashtags, 
-        platform
+      const template = data as unknown as Tables<'caption_templates'>
+      const settings = options.destinationId
+        ? await this.loadDestinationSettings(options.destinationId)
+        : null
+
+      const baseLocale = normalizeLocale(template.locale)
+      const requestedLocale = normalizeLocale(options.locale ?? settings?.locale, baseLocale)
+      const translations = requestedLocale === baseLocale ? [] : await this.getTranslations(templateId)
+
+      const source = resolveLocalized(
+        {
+          [baseLocale]: template.template,
+          ...Object.fromEntries(translations.map(translation => [translation.locale, translation.template]))
+        },
+        requestedLocale,
+        baseLocale
+      ) ?? { locale: baseLocale, value: template.template }
+
+      // Keep regional formats (es-MX dates for an "es" translation) unless the text fell back to another language
+      const locale = localeLanguage(source.locale) === localeLanguage(requestedLocale) ? requestedLocale : source.locale
+
+      const rendered = await this.renderTemplateText(
+        source.value,
+        { ...context, business: { ...settings?.business, ...context.business } },
+        platform,
+        {
+          ...options,
+          locale,
+          policy: options.policy ?? settings?.policy ?? undefined,
+          brandVoice: options.brandVoice ?? settings?.brandVoice ?? undefined
+        }
       )
 
       return {
-        text: renderedText,
-        hashtags,
-        mentions,
-        characterCount: renderedText.length,
-        platformSpecific
+        ...rendered,
+        templateId: template.id,
+        templateVersionId: template.current_version_id
       }
 
     } catch (error) {
@@ -93,79 +204,244 @@ export class CaptionRenderingService {
   }
 
   /**
-   * Process template with context variables
+   * Render template source that is not (or not yet) a stored template, e.g. an experiment variant
    */
-  private processTemplate(
-    template: string, 
-    context: CaptionContext, 
-    variables: string[]
-  ): string {
-    let processed = template
-
-    // Define available variables
-    const variableMap: Record<string, any> = {
-      // Asset variables
-      'asset.title': context.asset.title,
-      'asset.description': context.asset.description,
-      'asset.type': context.asset.content_type,
-      
-      // Creator variables
-      'creator.name': context.creator?.name || 'Creator',
-      'creator.handle': context.creator?.handle || '',
-      
-      // Business variables
-      'business.name': context.business?.name || 'Wholesale Mastery',
-      'business.website': context.business?.website || 'wholesalemastery.com',
-      'business.phone': context.business?.phone || '',
-      
-      // Date/time variables
-      'date.today': new Date().toLocaleDateString(),
-      'date.year': new Date().getFullYear().toString(),
-      'date.month': new Date().toLocaleDateString('en-US', { month: 'long' }),
-      'date.day': new Date().getDate().toString(),
-      
-      // Custom variables
-      ...context.customVariables
+  async renderTemplateText(
+    source: string,
+    context: CaptionContext,
+    platform?: Platform,
+    options: CaptionRenderOptions = {}
+  ): Promise<RenderedCaption> {
+    const partials = await this.loadPartials(source)
+    const locale = normalizeLocale(options.locale)
+    const { text: renderedText, diagnostics } = this.processTemplate(source, context, partials, {
+      locale,
+      currency: options.currency ?? context.business?.currency ?? defaultCurrency(locale)
+    })
+
+    // A missing ban list should not stop a caption from rendering
+    const bannedHashtags = options.bannedHashtags ?? await hashtagLibrary.getBannedTagMap().catch(error => {
+      console.error('Failed to load banned hashtags:', error)
+      return {}
+    })
+
+    return {
+      text: renderedText,
+      hashtags: this.extractHashtags(renderedText),
+      mentions: this.extractMentions(renderedText),
+      characterCount: renderedText.length,
+      platformSpecific: this.generatePlatformSpecificVersions(renderedText, platform, { ...options, bannedHashtags }),
+      diagnostics,
+      locale
+    }
+  }
+
+  /**
+   * Locale, business details, policy and voice of the account a destination posts to
+   */
+  private async loadDestinationSettings(destinationId: string): Promise<DestinationCaptionSettings | null> {
+    const { data, error } = await supabase
+      .from('asset_destinations')
+      .select('accounts(locale, business_profile, caption_policy, brand_voice)')
+      .eq('id', destinationId)
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to load destination account: ${error.message}`)
     }
 
-    // Process each variable
-    for (const variable of variables) {
-      const value = variableMap[variable]
-      if (value !== undefined) {
-        const regex = new RegExp(`{{\\s*${variable.replace(/\./g, '\\.')}\\s*}}`, 'g')
-        processed = processed.replace(regex, String(value))
-      }
+    const account = (data as unknown as {
+      accounts: {
+        locale: string | null
+        business_profile: BusinessProfile | null
+        caption_policy: CaptionPolicy | null
+        brand_voice: BrandVoice | null
+      } | null
+    }).accounts
+    if (!account) return null
+
+    return {
+      locale: account.locale,
+      business: account.business_profile || {},
+      policy: account.caption_policy,
+      brandVoice: account.brand_voice
     }
+  }
+
+  /**
+   * Translations of a template, one per locale
+   */
+  async getTranslations(templateId: string): Promise<CaptionTemplateTranslation[]> {
+    const { data, error } = await supabase
+      .from('caption_template_translations')
+      .select('*')
+      .eq('template_id', templateId)
+      .order('locale')
 
-    // Clean up any remaining unprocessed variables
-    processed = processed.replace(/{{[^}]+}}/g, '')
+    if (error) {
+      throw new Error(`Failed to get template translations: ${error.message}`)
+    }
 
-    return processed.trim()
+    return (data || []) as unknown as CaptionTemplateTranslation[]
   }
 
   /**
-   * Parse template to find variables
+   * Add or replace the translation of a template for a locale
    */
-  private parseTemplateVariables(template: string): string[] {
-    const variableRegex = /{{([^}]+)}}/g
-    const variables: string[] = []
-    let match
+  async saveTranslation(templateId: string, locale: string, template: string): Promise<CaptionTemplateTranslation> {
+    const { data, error } = await supabase
+      .from('caption_template_translations')
+      .upsert(
+        {
+          template_id: templateId,
+          locale: normalizeLocale(locale),
+          template,
+          variables: this.describeVariables(template)
+        },
+        { onConflict: 'template_id,locale' }
+      )
+      .select()
+      .single()
 
-    while ((match = variableRegex.exec(template)) !== null) {
-      const variable = match[1].trim()
-      if (!variables.includes(variable)) {
-        variables.push(variable)
-      }
+    if (error || !data) {
+      throw new Error(`Failed to save template translation: ${error?.message}`)
+    }
+
+    return data as unknown as CaptionTemplateTranslation
+  }
+
+  /**
+   * Remove a translation; destinations in that locale fall back to the next closest one
+   */
+  async deleteTranslation(translationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('caption_template_translations')
+      .delete()
+      .eq('id', translationId)
+
+    if (error) {
+      throw new Error(`Failed to delete template translation: ${error.message}`)
+    }
+  }
+
+  /**
+   * Build the variable scope templates render against, with dates in the caption's locale
+   */
+  private buildScope(context: CaptionContext, format: { locale: string; currency: string }): Record<string, unknown> {
+    const now = new Date()
+    const metadata = (context.asset.metadata || {}) as Record<string, unknown>
+    const business = { ...DEFAULT_BUSINESS, ...context.business }
+
+    return {
+      asset: {
+        title: context.asset.title,
+        description: context.asset.description,
+        type: context.asset.content_type
+      },
+      creator: {
+        name: context.creator?.name || 'Creator',
+        handle: context.creator?.handle || ''
+      },
+      business: {
+        name: business.name || DEFAULT_BUSINESS.name,
+        website: business.website || DEFAULT_BUSINESS.website,
+        phone: business.phone || ''
+      },
+      date: {
+        // Raw date for {{date.now | date:"long"}}
+        now,
+        today: now.toLocaleDateString(format.locale),
+        year: now.getFullYear().toString(),
+        month: now.toLocaleDateString(format.locale, { month: 'long' }),
+        weekday: now.toLocaleDateString(format.locale, { weekday: 'long' }),
+        day: now.getDate().toString()
+      },
+      locale: {
+        code: format.locale,
+        language: localeLanguage(format.locale),
+        currency: format.currency
+      },
+      hashtags: Array.isArray(metadata.hashtags) ? metadata.hashtags : [],
+      ...context.customVariables
+    }
+  }
+
+  /**
+   * Render template source against a context, failing on syntax errors
+   */
+  private processTemplate(
+    template: string,
+    context: CaptionContext,
+    partials: Record<string, string>,
+    format: { locale: string; currency: string }
+  ): { text: string; diagnostics: TemplateDiagnostic[] } {
+    const { text, diagnostics } = renderTemplate(template, this.buildScope(context, format), { partials, ...format })
+
+    const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error')
+    if (errors.length > 0) {
+      throw new Error(`Caption template has errors: ${errors.map(formatDiagnostic).join('; ')}`)
+    }
+
+    // Skipped blocks leave blank lines behind
+    return { text: text.replace(/\n{3,}/g, '\n\n').trim(), diagnostics }
+  }
+
+  /**
+   * Load active templates by name for {{> partial}} includes
+   */
+  private async loadPartials(template: string): Promise<Record<string, string>> {
+    if (!template.includes('{{>')) return {}
+
+    const { data, error } = await supabase
+      .from('caption_templates')
+      .select('name, template')
+      .eq('is_active', true)
+
+    if (error) {
+      throw new Error(`Failed to load caption partials: ${error.message}`)
     }
 
-    return variables
+    return Object.fromEntries((data || []).map(row => [row.name, row.template]))
+  }
+
+  /**
+   * Check template source for syntax errors and unknown variables, for live editing
+   */
+  analyzeTemplate(template: string, partials: Record<string, string> = {}): TemplateDiagnostic[] {
+    const format = { locale: DEFAULT_LOCALE, currency: defaultCurrency(DEFAULT_LOCALE) }
+    return analyzeTemplate(template, this.buildScope(SAMPLE_CAPTION_CONTEXT, format), { partials })
+  }
+
+  /**
+   * Render template source against sample data, for previews; pass a locale to preview a translation
+   */
+  previewTemplate(template: string, partials: Record<string, string> = {}, locale = DEFAULT_LOCALE): string {
+    const format = { locale: normalizeLocale(locale), currency: defaultCurrency(locale) }
+    const { text, diagnostics } = renderTemplate(template, this.buildScope(SAMPLE_CAPTION_CONTEXT, format), {
+      partials,
+      ...format
+    })
+    return diagnostics.some(diagnostic => diagnostic.severity === 'error')
+      ? ''
+      : text.replace(/\n{3,}/g, '\n\n').trim()
+  }
+
+  /**
+   * Describe the variables a template reads, for the caption_templates.variables column
+   */
+  describeVariables(template: string): CaptionVariable[] {
+    return listTemplateVariables(template).map(variable => ({
+      name: variable.name,
+      type: variable.isList ? 'array' : 'text',
+      required: !variable.hasDefault
+    }))
   }
 
   /**
    * Extract hashtags from text
    */
-  private extractHashtags(text: string): string[] {
-    const hashtagRegex = /#[\w\u0590-\u05ff]+/g
+  extractHashtags(text: string): string[] {
+    const hashtagRegex = /#[\p{L}\p{N}_]+/gu
     const matches = text.match(hashtagRegex) || []
     return matches.map(tag => tag.substring(1)) // Remove # symbol
   }
@@ -180,65 +456,115 @@ export class CaptionRenderingService {
   }
 
   /**
-   * Generate platform-specific versions
+   * Generate platform-specific versions: budget hashtags, place them in the caption or the
+   * first comment, and fit the text to the platform limit without cutting words or emoji
    */
   private generatePlatformSpecificVersions(
     text: string,
-    hashtags: string[],
-    targetPlatform?: Platform
+    targetPlatform?: Platform,
+    options: CaptionRenderOptions = {}
   ): RenderedCaption['platformSpecific'] {
     const platformSpecific: RenderedCaption['platformSpecific'] = {}
 
-    const platforms: Platform[] = targetPlatform ? [targetPlatform] : 
+    const platforms: Platform[] = targetPlatform ? [targetPlatform] :
       ['instagram', 'tiktok', 'linkedin', 'facebook', 'youtube']
 
     for (const platform of platforms) {
-      const limit = this.PLATFORM_LIMITS[platform]
-      const hashtagLimit = this.HASHTAG_LIMITS[platform]
-
-      let platformText = text
-      let platformHashtags = hashtags.slice(0, hashtagLimit)
-      let truncated = false
-
-      // Add hashtags back to text for platforms that include them in character count
-      if (platform === 'instagram' || platform === 'tiktok') {
-        const hashtagText = platformHashtags.map(tag => `#${tag}`).join(' ')
-        platformText = `${text}\n\n${hashtagText}`
-      }
-
-      // Truncate if needed
-      if (platformText.length > limit) {
-        const truncateLength = limit - 3 // Account for "..."
-        platformText = platformText.substring(0, truncateLength).trim() + '...'
-        truncated = true
-      }
+      const parts = parseCaption(text)
+      const hashtags = this.budgetHashtags(platform, parts, options.bannedHashtags?.[platform])
+      const placement = this.resolveHashtagPlacement(platform, options.hashtagPlacement)
 
-      // Platform-specific adjustments
-      switch (platform) {
-        case 'linkedin':
-          // LinkedIn prefers professional tone
-          platformText = platformText.replace(/🔥|💪|🚀/g, '') // Remove some emojis
-          break
-        case 'tiktok':
-          // TikTok likes trending hashtags
-          if (!platformHashtags.includes('fyp')) {
-            platformHashtags.unshift('fyp')
-          }
-          if (!platformHashtags.includes('viral')) {
-            platformHashtags.push('viral')
-          }
-          break
-      }
+      const fitted = fitCaption(parts, {
+        limit: this.PLATFORM_LIMITS[platform],
+        hashtags: placement === 'caption' ? hashtags : []
+      })
 
       platformSpecific[platform] = {
-        text: platformText,
-        truncated
+        text: fitted.text,
+        truncated: fitted.truncated,
+        hashtags: placement === 'caption' ? fitted.hashtags : hashtags,
+        hashtagPlacement: placement,
+        firstComment: placement === 'first_comment' && hashtags.length > 0
+          ? truncateText(joinCaption([], hashtags), this.PLATFORM_LIMITS[platform])
+          : undefined,
+        droppedSentences: fitted.droppedSentences,
+        // Wording is flagged with suggested fixes rather than rewritten behind the author's back
+        lint: lintCaption(fitted.text, { platform, policy: options.policy, brandVoice: options.brandVoice }).issues
       }
     }
 
     return platformSpecific
   }
 
+  /**
+   * Lay out arbitrary caption text for one platform (hashtag budget, placement, length fit)
+   */
+  formatForPlatform(
+    text: string,
+    platform: Platform,
+    options: CaptionRenderOptions = {}
+  ): NonNullable<RenderedCaption['platformSpecific'][Platform]> {
+    return this.generatePlatformSpecificVersions(text, platform, options)[platform]!
+  }
+
+  /**
+   * Pick the trailing hashtags for a platform: required tags first, no duplicates or banned
+   * tags, and no more than the platform allows once hashtags inside the text are counted
+   */
+  private budgetHashtags(platform: Platform, parts: CaptionParts, banned: string[] = []): string[] {
+    const inlineCount = this.extractHashtags([parts.hook, ...parts.body, parts.cta].join('\n')).length
+    const budget = Math.max(0, this.HASHTAG_LIMITS[platform] - inlineCount)
+
+    const seen = new Set<string>(banned.map(normalizeHashtag))
+    return [...(this.REQUIRED_HASHTAGS[platform] || []), ...parts.hashtags]
+      .filter(tag => {
+        const key = tag.toLowerCase()
+        if (seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+      .slice(0, budget)
+  }
+
+  /**
+   * Recommend the best-performing hashtag set for an asset on a platform. Sets from the asset's
+   * niche (metadata.niche) are preferred; banned tags are removed and the set is trimmed to what
+   * the platform allows next to its required tags. Returns null when the library has no usable set.
+   */
+  async recommendHashtags(
+    asset: Tables<'assets'>,
+    platform: Platform,
+    options: { niche?: string } = {}
+  ): Promise<HashtagRecommendation | null> {
+    const metadata = (asset.metadata || {}) as Record<string, unknown>
+    const niche = options.niche ?? (typeof metadata.niche === 'string' ? metadata.niche : undefined)
+
+    const [nicheSets, performance, banned] = await Promise.all([
+      hashtagLibrary.getSets({ niche, platform }),
+      hashtagLibrary.getPerformance(platform),
+      hashtagLibrary.getBannedTags(platform)
+    ])
+    // An unknown niche falls back to the whole library
+    const sets = nicheSets.length > 0 || !niche ? nicheSets : await hashtagLibrary.getSets({ platform })
+
+    const limit = Math.max(0, this.HASHTAG_LIMITS[platform] - (this.REQUIRED_HASHTAGS[platform] || []).length)
+    const [best] = hashtagLibrary.rankSets(sets, performance, banned.map(entry => entry.tag), limit)
+    return best || null
+  }
+
+  /**
+   * Hashtags go in the caption unless the first comment was chosen and the platform can post one
+   */
+  private resolveHashtagPlacement(
+    platform: Platform,
+    requested?: CaptionRenderOptions['hashtagPlacement']
+  ): HashtagPlacement {
+    const placement = typeof requested === 'string' ? requested : requested?.[platform]
+    return placement === 'first_comment' && FIRST_COMMENT_PLATFORMS.includes(platform)
+      ? 'first_comment'
+      : 'caption'
+  }
+
   /**
    * Create caption template
    */
@@ -300,18 +626,24 @@ export class CaptionRenderingService {
   }
 
   /**
-   * Save rendered caption to database
+   * Save rendered caption to database, optionally as the caption of an experiment variant
    */
   async saveRenderedCaption(
     destinationId: string,
     templateId: string | null,
-    renderedCaption: RenderedCaption
+    renderedCaption: RenderedCaption,
+    variantId: string | null = null,
+    source: RenderedCaptionSource = variantId ? 'experiment' : 'template'
   ): Promise<string> {
     const { data, error } = await supabase
       .from('rendered_captions')
       .insert({
         destination_id: destinationId,
         template_id: templateId,
+        template_version_id: renderedCaption.templateVersionId ?? null,
+        variant_id: variantId,
+        source,
+        locale: renderedCaption.locale ?? null,
         rendered_text: renderedCaption.text,
         hashtags: renderedCaption.hashtags,
         mentions: renderedCaption.mentions,
@@ -328,47 +660,193 @@ export class CaptionRenderingService {
   }
 
   /**
-   * Generate caption suggestions based on asset content
+   * The stored caption a publish must use instead of rendering a new one: the locked caption,
+   * else the latest caption if an experiment assigned it. Null when the caption may be regenerated.
+   */
+  async getPublishCaption(destinationId: string): Promise<DestinationCaption | null> {
+    const { data, error } = await supabase
+      .from('rendered_captions')
+      .select('*')
+      .eq('destination_id', destinationId)
+      .order('is_locked', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(1)
+
+    if (error) {
+      throw new Error(`Failed to get destination caption: ${error.message}`)
+    }
+
+    const latest = (data?.[0] ?? null) as unknown as DestinationCaption | null
+    return latest && (latest.is_locked || latest.variant_id) ? latest : null
+  }
+
+  /**
+   * Locked captions of the given destinations, keyed by destination
+   */
+  async getLockedCaptions(destinationIds: string[]): Promise<Record<string, DestinationCaption>> {
+    if (destinationIds.length === 0) return {}
+
+    const { data, error } = await supabase
+      .from('rendered_captions')
+      .select('*')
+      .in('destination_id', destinationIds)
+      .eq('is_locked', true)
+
+    if (error) {
+      throw new Error(`Failed to get locked captions: ${error.message}`)
+    }
+
+    return Object.fromEntries(((data || []) as unknown as DestinationCaption[]).map(caption => [caption.destination_id, caption]))
+  }
+
+  /**
+   * Lock an edited caption to a destination; publishing uses it verbatim from now on.
+   * Replaces any caption locked before.
+   */
+  async lockCaption(destinationId: string, text: string): Promise<DestinationCaption> {
+    await this.unlockCaption(destinationId)
+    return this.saveCaptionText(destinationId, text, 'manual', { locked: true })
+  }
+
+  /**
+   * Store caption text that did not come from a template, e.g. an edit or a caption passed to a publish
+   */
+  async saveCaptionText(
+    destinationId: string,
+    text: string,
+    source: RenderedCaptionSource,
+    options: { locked?: boolean } = {}
+  ): Promise<DestinationCaption> {
+    const { data: { user } } = options.locked ? await supabase.auth.getUser() : { data: { user: null } }
+    const { data, error } = await supabase
+      .from('rendered_captions')
+      .insert({
+        destination_id: destinationId,
+        rendered_text: text,
+        hashtags: this.extractHashtags(text),
+        mentions: this.extractMentions(text),
+        character_count: text.length,
+        source,
+        is_locked: !!options.locked,
+        locked_by: options.locked ? user?.id ?? null : null,
+        locked_at: options.locked ? new Date().toISOString() : null
+      })
+      .select()
+      .single()
+
+    if (error || !data) {
+      throw new Error(`Failed to save caption: ${error?.message}`)
+    }
+
+    return data as unknown as DestinationCaption
+  }
+
+  /**
+   * Release a destination's locked caption so the next publish renders a fresh one.
+   * The row stays as history.
+   */
+  async unlockCaption(destinationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('rendered_captions')
+      .update({ is_locked: false })
+      .eq('destination_id', destinationId)
+      .eq('is_locked', true)
+
+    if (error) {
+      throw new Error(`Failed to unlock caption: ${error.message}`)
+    }
+  }
+
+  /**
+   * Generate caption suggestions based on asset content: matching templates first, then
+   * variants from the caption provider for the slots templates leave open
    */
   async generateSuggestions(
     asset: Tables<'assets'>,
     platform: Platform,
-    count = 3
+    count = 3,
+    options: CaptionSuggestionOptions = {}
   ): Promise<RenderedCaption[]> {
+    const { generatedCount = 0, ...renderOptions } = options
+    const templateSlots = Math.max(0, count - generatedCount)
+    const suggestions: RenderedCaption[] = []
+
     try {
       // Get templates that match the platform and content type
-      const templates = await this.getTemplates(platform, asset.content_type)
-      
-      if (templates.length === 0) {
-        // Create a simple default caption
-        const defaultText = this.generateDefaultCaption(asset, platform)
-        return [this.createSimpleCaption(defaultText)]
-      }
+      const templates = templateSlots > 0 ? await this.getTemplates(platform, asset.content_type) : []
 
-      const suggestions: RenderedCaption[] = []
+      // Business details come from the destination's account when options.destinationId is set
       const context: CaptionContext = {
         asset,
-        creator: { name: 'Creator' },
-        business: { name: 'Wholesale Mastery' }
+        creator: { name: 'Creator' }
       }
 
       // Render different templates
-      for (let i = 0; i < Math.min(count, templates.length); i++) {
+      for (let i = 0; i < Math.min(templateSlots, templates.length); i++) {
         try {
-          const rendered = await this.renderCaption(templates[i].id, context, platform)
+          const rendered = await this.renderCaption(templates[i].id, context, platform, renderOptions)
           suggestions.push(rendered)
         } catch (error) {
           console.error(`Failed to render template ${templates[i].id}:`, error)
         }
       }
-
-      return suggestions
-
     } catch (error) {
       console.error('Failed to generate caption suggestions:', error)
-      // Return a simple default
+    }
+
+    if (suggestions.length < count) {
+      suggestions.push(...await this.generateVariantSuggestions(asset, platform, count - suggestions.length, renderOptions))
+    }
+
+    if (suggestions.length === 0) {
+      // Create a simple default caption
       const defaultText = this.generateDefaultCaption(asset, platform)
-      return [this.createSimpleCaption(defaultText)]
+      return [this.createSimpleCaption(defaultText, platform, renderOptions)]
+    }
+
+    return suggestions
+  }
+
+  /**
+   * Scored variants from the configured caption provider (the local one unless CAPTION_PROVIDER
+   * names another), laid out for the platform like a rendered template
+   */
+  private async generateVariantSuggestions(
+    asset: Tables<'assets'>,
+    platform: Platform,
+    count: number,
+    options: CaptionRenderOptions
+  ): Promise<RenderedCaption[]> {
+    try {
+      const settings = options.destinationId
+        ? await this.loadDestinationSettings(options.destinationId)
+        : null
+      const bannedHashtags = options.bannedHashtags ?? await hashtagLibrary.getBannedTagMap().catch(error => {
+        console.error('Failed to load banned hashtags:', error)
+        return {}
+      })
+      const variantOptions: CaptionRenderOptions = {
+        ...options,
+        bannedHashtags,
+        policy: options.policy ?? settings?.policy ?? undefined,
+        brandVoice: options.brandVoice ?? settings?.brandVoice ?? undefined
+      }
+
+      // Hashtags stay inline so validation sees the whole caption; the requested placement is applied below
+      const variants = await captionGenerator.generateVariants(asset, {
+        ...variantOptions,
+        hashtagPlacement: 'caption',
+        targets: [{ platform }],
+        variants: count
+      })
+
+      return (variants[platform] || []).map(variant => ({
+        ...this.createSimpleCaption(variant.text, platform, variantOptions),
+        provider: variant.provider
+      }))
+    } catch (error) {
+      console.error('Failed to generate caption variants:', error)
+      return []
     }
   }
 
@@ -403,25 +881,42 @@ export class CaptionRenderingService {
   /**
    * Create a simple rendered caption object
    */
-  private createSimpleCaption(text: string): RenderedCaption {
+  private createSimpleCaption(
+    text: string,
+    platform?: Platform,
+    options: CaptionRenderOptions = {}
+  ): RenderedCaption {
     return {
       text,
       hashtags: this.extractHashtags(text),
       mentions: this.extractMentions(text),
       characterCount: text.length,
-      platformSpecific: this.generatePlatformSpecificVersions(
-        text,
-        this.extractHashtags(text)
-      )
+      platformSpecific: this.generatePlatformSpecificVersions(text, platform, options)
+    }
+  }
+
+  /**
+   * Get caption character and hashtag limits for a platform
+   */
+  getPlatformLimits(platform: Platform): { characters: number; hashtags: number } {
+    return {
+      characters: this.PLATFORM_LIMITS[platform],
+      hashtags: this.HASHTAG_LIMITS[platform]
     }
   }
 
   /**
-   * Validate caption against platform rules
+   * Validate caption against platform limits and the brand-voice and compliance rules.
+   * Lint warnings are reported as issues but only errors make the caption invalid.
    */
-  validateCaption(caption: string, platform: Platform): {
+  validateCaption(
+    caption: string,
+    platform: Platform,
+    options: Pick<CaptionRenderOptions, 'policy' | 'brandVoice'> = {}
+  ): {
     valid: boolean
     issues: string[]
+    lint: CaptionLintIssue[]
   } {
     const issues: string[] = []
     const limit = this.PLATFORM_LIMITS[platform]
@@ -438,27 +933,12 @@ export class CaptionRenderingService {
       issues.push(`Too many hashtags: ${hashtags.length}/${hashtagLimit}`)
     }
 
-    // Platform-specific validations
-    switch (platform) {
-      case 'instagram':
-        if (caption.includes('tiktok') || caption.includes('TikTok')) {
-          issues.push('Instagram content should not reference TikTok')
-        }
-        break
-      case 'linkedin':
-        // Check for professional tone
-        const unprofessionalWords = ['lit', 'fire', 'sick', 'dope']
-        for (const word of unprofessionalWords) {
-          if (caption.toLowerCase().includes(word)) {
-            issues.push(`Consider more professional language instead of "${word}"`)
-          }
-        }
-        break
-    }
+    const lint = lintCaption(caption, { platform, ...options })
 
     return {
-      valid: issues.length === 0,
-      issues
+      valid: issues.length === 0 && lint.passed,
+      issues: [...issues, ...lint.issues.map(formatLintIssue)],
+      lint: lint.issues
     }
   }
 }
@@ -477,7 +957,7 @@ export const DEFAULT_CAPTION_TEMPLATES = [
 💰 Ready to start your real estate journey?
 👉 Follow {{creator.handle}} for more tips!
 
-#RealEstate #Wholesale #Investment #Entrepreneur #Success #Motivation #RealEstateInvesting #WholesaleReal Estate #BusinessTips`,
+#RealEstate #Wholesale #Investment #Entrepreneur #Success #Motivation #RealEstateInvesting #WholesaleRealEstate #BusinessTips`,
     platform: 'instagram' as Platform,
     contentType: 'reel' as ContentType
   },
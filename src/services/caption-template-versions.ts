@@ -0,0 +1,95 @@
+// Caption Template Versions
+// Immutable template history: the database snapshots every edit, this reads, compares and restores versions
+
+import { supabase } from '@/integrations/supabase/client'
+import { diffLinesSideBySide, type DiffRow } from '@/utils/text-diff'
+import type {
+  Tables,
+  CaptionTemplateVersion,
+  CaptionTemplateVersionUsage
+} from '@/integrations/supabase/types-enhanced'
+
+export interface CaptionTemplateVersionWithUsage extends CaptionTemplateVersion {
+  usage: CaptionTemplateVersionUsage
+}
+
+export interface CaptionTemplateVersionDiff {
+  from: CaptionTemplateVersion
+  to: CaptionTemplateVersion
+  rows: DiffRow[]
+  // Non-text fields that differ, e.g. platform
+  changedFields: string[]
+}
+
+const COMPARED_FIELDS = ['name', 'platform', 'content_type'] as const
+
+export class CaptionTemplateVersionService {
+  /**
+   * All versions of a template, newest first, with how captions rendered from each fared
+   */
+  async getVersions(templateId: string): Promise<CaptionTemplateVersionWithUsage[]> {
+    const [versionsResult, usageResult] = await Promise.all([
+      supabase
+        .from('caption_template_versions')
+        .select('*')
+        .eq('template_id', templateId)
+        .order('version_number', { ascending: false }),
+      supabase.rpc('caption_template_version_usage', { template_uuid: templateId })
+    ])
+
+    if (versionsResult.error) {
+      throw new Error(`Failed to load template versions: ${versionsResult.error.message}`)
+    }
+    if (usageResult.error) {
+      throw new Error(`Failed to load template usage: ${usageResult.error.message}`)
+    }
+
+    const usageByVersion = new Map(
+      ((usageResult.data || []) as CaptionTemplateVersionUsage[]).map(usage => [usage.version_id, usage])
+    )
+
+    return ((versionsResult.data || []) as unknown as CaptionTemplateVersion[]).map(version => ({
+      ...version,
+      usage: usageByVersion.get(version.id) || {
+        version_id: version.id,
+        version_number: version.version_number,
+        rendered_count: 0,
+        published_count: 0,
+        failed_count: 0,
+        pending_count: 0,
+        last_used_at: null
+      }
+    }))
+  }
+
+  /**
+   * Compare two versions line by line
+   */
+  diffVersions(from: CaptionTemplateVersion, to: CaptionTemplateVersion): CaptionTemplateVersionDiff {
+    return {
+      from,
+      to,
+      rows: diffLinesSideBySide(from.template, to.template),
+      changedFields: COMPARED_FIELDS.filter(field => from[field] !== to[field])
+    }
+  }
+
+  /**
+   * Restore an earlier version; the restore is recorded as a new version
+   */
+  async rollback(templateId: string, versionId: string): Promise<Tables<'caption_templates'>> {
+    const { data, error } = await supabase.rpc('rollback_caption_template', {
+      template_uuid: templateId,
+      version_uuid: versionId
+    })
+
+    if (error || !data) {
+      throw new Error(`Failed to roll back template: ${error?.message}`)
+    }
+
+    return data as unknown as Tables<'caption_templates'>
+  }
+}
+
+// Export singleton instance
+export const captionTemplateVersions = new CaptionTemplateVersionService()
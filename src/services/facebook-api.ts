@@ -0,0 +1,332 @@
+// Facebook Graph API Integration Service
+// Handles Page publishing: photos, multi-photo carousels, Reels and text posts
+
+import { supabase } from '@/integrations/supabase/client'
+import { tokenVault } from './token-vault'
+import { captionsMatch } from '@/utils/idempotency'
+import { quotaGovernor } from './quota-governor'
+import type {
+  ContentType,
+  DestinationPublishOptions,
+  FacebookPublishPhase,
+  FacebookPublishResponse
+} from '@/integrations/supabase/types-enhanced'
+
+interface FacebookPage {
+  id: string
+  access_token: string
+  // accounts row ID, used to track rate-limit usage
+  account_id: string
+}
+
+interface GraphAPIError {
+  message: string
+  type: string
+  code: number
+  fbtrace_id?: string
+}
+
+export class FacebookAPIService {
+  constructor(
+    private readonly baseUrl = 'https://graph.facebook.com/v18.0',
+    private readonly uploadBaseUrl = 'https://rupload.facebook.com/video-upload/v18.0'
+  ) {}
+
+  /**
+   * Publish a single photo to the Page
+   */
+  async publishPhoto(
+    page: FacebookPage,
+    imageUrl: string,
+    caption?: string,
+    options: DestinationPublishOptions = {}
+  ): Promise<{ id: string; post_id?: string }> {
+    return this.post(page, `/${page.id}/photos`, {
+      url: imageUrl,
+      caption: caption || '',
+      ...this.photoOptions(options, 0),
+      ...(options.locationId && { place: options.locationId }),
+      access_token: page.access_token
+    })
+  }
+
+  /**
+   * Stage a photo without publishing it so it can be attached to a feed post
+   */
+  async stageUnpublishedPhoto(page: FacebookPage, imageUrl: string, altText?: string): Promise<string> {
+    const result = await this.post<{ id: string }>(page, `/${page.id}/photos`, {
+      url: imageUrl,
+      published: 'false',
+      temporary: 'true',
+      ...(altText && { alt_text_custom: altText }),
+      access_token: page.access_token
+    })
+    return result.id
+  }
+
+  /**
+   * Publish a feed post, optionally with staged photos attached and a place
+   */
+  async publishFeedPost(
+    page: FacebookPage,
+    message?: string,
+    mediaIds: string[] = [],
+    locationId?: string
+  ): Promise<{ id: string }> {
+    const payload: Record<string, string> = {
+      message: message || '',
+      access_token: page.access_token
+    }
+
+    if (locationId) {
+      payload.place = locationId
+    }
+
+    mediaIds.forEach((mediaId, index) => {
+      payload[`attached_media[${index}]`] = JSON.stringify({ media_fbid: mediaId })
+    })
+
+    return this.post(page, `/${page.id}/feed`, payload)
+  }
+
+  /**
+   * Reels upload phase 1: reserve a video ID and upload URL
+   */
+  async startReelUpload(page: FacebookPage): Promise<{ video_id: string; upload_url: string }> {
+    return this.post(page, `/${page.id}/video_reels`, {
+      upload_phase: 'start',
+      access_token: page.access_token
+    })
+  }
+
+  /**
+   * Reels upload phase 2: have Facebook pull the hosted video file
+   */
+  async uploadReelFromUrl(page: FacebookPage, videoId: string, videoUrl: string): Promise<void> {
+    const response = await fetch(`${this.uploadBaseUrl}/${videoId}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `OAuth ${page.access_token}`,
+        'file_url': videoUrl
+      }
+    })
+
+    await quotaGovernor.recordResponse(page.account_id, 'facebook', response)
+    const result = await response.json()
+
+    if (!response.ok || !result.success) {
+      throw this.toGraphError(result.error, 'Reel upload failed', response.status)
+    }
+  }
+
+  /**
+   * Reels upload phase 3: publish the uploaded video with its description
+   */
+  async finishReelUpload(page: FacebookPage, videoId: string, caption?: string): Promise<{ success: boolean; post_id?: string }> {
+    return this.post(page, `/${page.id}/video_reels`, {
+      upload_phase: 'finish',
+      video_id: videoId,
+      video_state: 'PUBLISHED',
+      description: caption || '',
+      access_token: page.access_token
+    })
+  }
+
+  /**
+   * Comment on a published post, e.g. the first comment carrying the hashtags
+   */
+  async postComment(accountId: string, objectId: string, message: string): Promise<string> {
+    const page = await this.getPage(accountId)
+    const result = await this.post<{ id: string }>(page, `/${objectId}/comments`, {
+      message,
+      access_token: page.access_token
+    })
+    return result.id
+  }
+
+  /**
+   * Complete publish flow, recording the outcome of every phase
+   */
+  async uploadAndPublish(
+    accountId: string,
+    mediaUrls: string | string[],
+    contentType: ContentType,
+    caption?: string,
+    options: DestinationPublishOptions = {}
+  ): Promise<FacebookPublishResponse> {
+    const phases: FacebookPublishPhase[] = []
+
+    // Run a phase and record its result; failures stop the flow
+    const runPhase = async <T>(phase: string, action: () => Promise<T>, idOf?: (result: T) => string | undefined): Promise<T> => {
+      try {
+        const result = await action()
+        phases.push({ phase, status: 'succeeded', id: idOf?.(result), completed_at: new Date().toISOString() })
+        return result
+      } catch (error) {
+        phases.push({
+          phase,
+          status: 'failed',
+          error: this.describeError(error),
+          completed_at: new Date().toISOString()
+        })
+        throw error
+      }
+    }
+
+    try {
+      const page = await this.getPage(accountId)
+      const urls = (Array.isArray(mediaUrls) ? mediaUrls : [mediaUrls]).filter(Boolean)
+
+      switch (contentType) {
+        case 'single_image': {
+          const result = await runPhase('publish_photo', () => this.publishPhoto(page, urls[0], caption, options), r => r.id)
+          return { id: result.post_id || result.id, phases }
+        }
+
+        case 'carousel': {
+          if (urls.length < 2) {
+            throw new Error('Facebook carousels require at least 2 images')
+          }
+
+          const mediaIds: string[] = []
+          for (let index = 0; index < urls.length; index++) {
+            const altText = this.photoOptions(options, index).alt_text_custom
+            mediaIds.push(await runPhase(`stage_photo_${index + 1}`, () => this.stageUnpublishedPhoto(page, urls[index], altText), id => id))
+          }
+
+          const post = await runPhase('publish_feed', () => this.publishFeedPost(page, caption, mediaIds, options.locationId), r => r.id)
+          return { id: post.id, phases }
+        }
+
+        case 'reel': {
+          const start = await runPhase('reel_start', () => this.startReelUpload(page), r => r.video_id)
+          await runPhase('reel_upload', () => this.uploadReelFromUrl(page, start.video_id, urls[0]), () => start.video_id)
+          const finish = await runPhase('reel_finish', () => this.finishReelUpload(page, start.video_id, caption), r => r.post_id)
+          return { id: finish.post_id || start.video_id, video_id: start.video_id, phases }
+        }
+
+        default: {
+          if (urls.length > 0) {
+            throw new Error(`Unsupported Facebook content type: ${contentType}`)
+          }
+          const post = await runPhase('publish_feed', () => this.publishFeedPost(page, caption, [], options.locationId), r => r.id)
+          return { id: post.id, phases }
+        }
+      }
+    } catch (error) {
+      return {
+        id: '',
+        phases,
+        error: this.describeError(error)
+      }
+    }
+  }
+
+  /**
+   * Find a Page post published since the given time whose message matches the caption
+   */
+  async findRecentPost(accountId: string, caption: string | undefined, since: Date): Promise<string | null> {
+    const page = await this.getPage(accountId)
+    const params = new URLSearchParams({
+      fields: 'id,message,created_time',
+      since: String(Math.floor(since.getTime() / 1000)),
+      limit: '10',
+      access_token: page.access_token
+    })
+
+    const response = await fetch(`${this.baseUrl}/${page.id}/published_posts?${params}`)
+    const result = await response.json()
+
+    if (!response.ok || result.error) {
+      throw this.toGraphError(result.error, 'Facebook post lookup failed', response.status)
+    }
+
+    const match = ((result.data || []) as Array<{ id: string; message?: string }>).find(post =>
+      captionsMatch(caption, post.message)
+    )
+
+    return match?.id || null
+  }
+
+  /**
+   * Validate account connection
+   */
+  async validateAccount(accountId: string): Promise<boolean> {
+    try {
+      const page = await this.getPage(accountId)
+      const response = await fetch(`${this.baseUrl}/${page.id}?access_token=${page.access_token}`)
+      await quotaGovernor.recordResponse(page.account_id, 'facebook', response)
+      return response.ok
+    } catch (error) {
+      return false
+    }
+  }
+
+  /**
+   * Alt text for one photo (index 0 for single photos)
+   */
+  private photoOptions(options: DestinationPublishOptions, index: number): { alt_text_custom?: string } {
+    const altText = Array.isArray(options.altText) ? options.altText[index] : index === 0 ? options.altText : undefined
+    return altText ? { alt_text_custom: altText } : {}
+  }
+
+  private async post<T>(page: FacebookPage, path: string, payload: Record<string, string>): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams(payload)
+    })
+
+    await quotaGovernor.recordResponse(page.account_id, 'facebook', response)
+    const result = await response.json()
+
+    if (!response.ok || result.error) {
+      throw this.toGraphError(result.error, `Facebook request to ${path.split('/').pop()} failed`, response.status)
+    }
+
+    return result
+  }
+
+  private toGraphError(
+    error: GraphAPIError | undefined,
+    fallback: string,
+    status: number
+  ): Error & { graph?: GraphAPIError; status: number } {
+    return Object.assign(new Error(error?.message || fallback), { graph: error, status })
+  }
+
+  private describeError(error: unknown): FacebookPublishPhase['error'] {
+    const { graph, status } = (error || {}) as { graph?: GraphAPIError; status?: number }
+    return {
+      message: error instanceof Error ? error.message : 'Unknown error',
+      type: graph?.type,
+      code: graph?.code,
+      fbtrace_id: graph?.fbtrace_id,
+      http_status: status
+    }
+  }
+
+  private async getPage(accountId: string): Promise<FacebookPage> {
+    const account = await tokenVault.getConnectedAccount(accountId, 'facebook')
+
+    if (!account || !account.access_token) {
+      throw new Error('Facebook account not found or not connected')
+    }
+
+    const metadata = (account.account_metadata || {}) as Record<string, unknown>
+    if (!metadata.page_id) {
+      throw new Error('Facebook page ID not configured')
+    }
+
+    return {
+      id: metadata.page_id as string,
+      access_token: account.access_token,
+      account_id: account.id
+    }
+  }
+}
+
+// Export singleton instance
+export const facebookAPI = new FacebookAPIService()
@@ -0,0 +1,270 @@
+// Hashtag Library Service
+// Niche hashtag sets, banned tags and per-tag performance from the engagement metrics we import
+
+import { supabase } from '@/integrations/supabase/client'
+import type {
+  Platform,
+  HashtagSet,
+  BannedHashtag,
+  BannedHashtagStatus,
+  HashtagPerformance,
+  HashtagRecommendation
+} from '@/integrations/supabase/types-enhanced'
+
+export interface HashtagSetInput {
+  name: string
+  niche: string
+  platform?: Platform | null
+  tags: string[]
+  description?: string | null
+}
+
+// Measured assets a tag needs before its own engagement rate outweighs the library average
+const PRIOR_ASSETS = 3
+
+/**
+ * Lowercase and strip the leading "#", matching how the database stores tags
+ */
+export function normalizeHashtag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').toLowerCase()
+}
+
+export class HashtagLibraryService {
+  /**
+   * Active sets, optionally for one niche and those usable on a platform
+   */
+  async getSets(filters: { niche?: string; platform?: Platform } = {}): Promise<HashtagSet[]> {
+    let query = supabase
+      .from('hashtag_sets')
+      .select('*')
+      .eq('is_active', true)
+      .order('niche')
+      .order('name')
+
+    if (filters.niche) {
+      query = query.eq('niche', filters.niche)
+    }
+
+    if (filters.platform) {
+      query = query.or(`platform.eq.${filters.platform},platform.is.null`)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to get hashtag sets: ${error.message}`)
+    }
+
+    return (data || []) as unknown as HashtagSet[]
+  }
+
+  /**
+   * Create a set, or update it when an id is given
+   */
+  async saveSet(input: HashtagSetInput, id?: string): Promise<HashtagSet> {
+    const values = {
+      name: input.name,
+      niche: input.niche,
+      platform: input.platform ?? null,
+      tags: input.tags.map(normalizeHashtag).filter(Boolean),
+      description: input.description ?? null
+    }
+
+    const { data, error } = id
+      ? await supabase.from('hashtag_sets').update(values).eq('id', id).select().single()
+      : await supabase.from('hashtag_sets').insert(values).select().single()
+
+    if (error || !data) {
+      throw new Error(`Failed to save hashtag set: ${error?.message}`)
+    }
+
+    return data as unknown as HashtagSet
+  }
+
+  /**
+   * Retire a set; past usage stays in the performance numbers
+   */
+  async archiveSet(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('hashtag_sets')
+      .update({ is_active: false })
+      .eq('id', id)
+
+    if (error) {
+      throw new Error(`Failed to archive hashtag set: ${error.message}`)
+    }
+  }
+
+  /**
+   * Banned and shadowbanned tags, optionally only those that apply on a platform
+   */
+  async getBannedTags(platform?: Platform): Promise<BannedHashtag[]> {
+    let query = supabase
+      .from('banned_hashtags')
+      .select('*')
+      .order('tag')
+
+    if (platform) {
+      query = query.or(`platform.eq.${platform},platform.is.null`)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to get banned hashtags: ${error.message}`)
+    }
+
+    return (data || []) as unknown as BannedHashtag[]
+  }
+
+  /**
+   * Banned tags per platform; tags banned everywhere appear under every platform
+   */
+  async getBannedTagMap(): Promise<Record<Platform, string[]>> {
+    const platforms: Platform[] = ['instagram', 'tiktok', 'linkedin', 'facebook', 'youtube']
+    const banned = await this.getBannedTags()
+
+    return Object.fromEntries(platforms.map(platform => [
+      platform,
+      banned.filter(entry => !entry.platform || entry.platform === platform).map(entry => entry.tag)
+    ])) as Record<Platform, string[]>
+  }
+
+  /**
+   * Ban a tag everywhere, or on one platform
+   */
+  async banTag(
+    tag: string,
+    options: { platform?: Platform | null; status?: BannedHashtagStatus; reason?: string } = {}
+  ): Promise<BannedHashtag> {
+    const { data, error } = await supabase
+      .from('banned_hashtags')
+      .insert({
+        tag: normalizeHashtag(tag),
+        platform: options.platform ?? null,
+        status: options.status || 'banned',
+        reason: options.reason ?? null
+      })
+      .select()
+      .single()
+
+    if (error || !data) {
+      throw new Error(`Failed to ban hashtag: ${error?.message}`)
+    }
+
+    return data as unknown as BannedHashtag
+  }
+
+  /**
+   * Lift a ban
+   */
+  async unbanTag(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('banned_hashtags')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      throw new Error(`Failed to unban hashtag: ${error.message}`)
+    }
+  }
+
+  /**
+   * Usage counts and engagement per tag, most used first
+   */
+  async getPerformance(platform?: Platform): Promise<HashtagPerformance[]> {
+    const { data, error } = await supabase.rpc('hashtag_performance', { platform_filter: platform ?? null })
+
+    if (error) {
+      throw new Error(`Failed to get hashtag performance: ${error.message}`)
+    }
+
+    // NUMERIC and BIGINT columns arrive as strings
+    return ((data || []) as unknown as HashtagPerformance[]).map(row => ({
+      ...row,
+      usage_count: Number(row.usage_count),
+      measured_count: Number(row.measured_count),
+      total_views: Number(row.total_views),
+      total_likes: Number(row.total_likes),
+      total_comments: Number(row.total_comments),
+      total_shares: Number(row.total_shares),
+      engagement_rate: row.engagement_rate === null ? null : Number(row.engagement_rate)
+    }))
+  }
+
+  /**
+   * Record the tags an asset was posted with, for assets that never had a caption rendered
+   */
+  async recordUsage(assetId: string, tags: string[], platform?: Platform | null): Promise<void> {
+    const rows = [...new Set(tags.map(normalizeHashtag).filter(Boolean))].map(tag => ({
+      asset_id: assetId,
+      tag,
+      platform: platform ?? null,
+      source: 'metadata' as const
+    }))
+    if (rows.length === 0) return
+
+    const { error } = await supabase
+      .from('asset_hashtags')
+      .upsert(rows, { onConflict: 'asset_id,tag,platform', ignoreDuplicates: true })
+
+    if (error) {
+      throw new Error(`Failed to record hashtag usage: ${error.message}`)
+    }
+  }
+
+  /**
+   * Rank sets by the smoothed engagement rate of their tags. Tags with few measured posts are
+   * pulled towards the library average so one lucky post does not top the list.
+   */
+  rankSets(
+    sets: HashtagSet[],
+    performance: HashtagPerformance[],
+    bannedTags: string[],
+    limit: number
+  ): HashtagRecommendation[] {
+    const banned = new Set(bannedTags.map(normalizeHashtag))
+    const byTag = new Map(performance.map(row => [row.tag, row]))
+
+    const views = performance.reduce((sum, row) => sum + row.total_views, 0)
+    const engagements = performance.reduce(
+      (sum, row) => sum + row.total_likes + row.total_comments + row.total_shares,
+      0
+    )
+    const baseline = views > 0 ? engagements / views : 0
+
+    const tagScore = (tag: string): number => {
+      const row = byTag.get(tag)
+      if (!row || row.engagement_rate === null) return baseline
+      return (row.engagement_rate * row.measured_count + baseline * PRIOR_ASSETS) / (row.measured_count + PRIOR_ASSETS)
+    }
+
+    return sets
+      .map(set => {
+        const tags = set.tags.map(normalizeHashtag)
+        const tagScores = Object.fromEntries(tags.filter(tag => !banned.has(tag)).map(tag => [tag, round(tagScore(tag))]))
+        const ranked = Object.keys(tagScores)
+          .sort((a, b) => tagScores[b] - tagScores[a])
+          .slice(0, limit)
+
+        return {
+          setId: set.id,
+          name: set.name,
+          niche: set.niche,
+          tags: ranked,
+          score: ranked.length > 0 ? round(ranked.reduce((sum, tag) => sum + tagScores[tag], 0) / ranked.length) : 0,
+          tagScores,
+          removedBanned: tags.filter(tag => banned.has(tag))
+        }
+      })
+      .filter(recommendation => recommendation.tags.length > 0)
+      .sort((a, b) => b.score - a.score)
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6
+}
+
+// Export singleton instance
+export const hashtagLibrary = new HashtagLibraryService()
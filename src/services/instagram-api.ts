@@ -2,17 +2,23 @@
 // Handles publishing to Instagram (Reels, Posts, Stories)
 
 import { supabase } from '@/integrations/supabase/client'
+import { tokenVault } from './token-vault'
+import { captionsMatch } from '@/utils/idempotency'
+import { quotaGovernor } from './quota-governor'
 import type { 
   Tables, 
   InstagramMediaResponse, 
   InstagramPublishResponse,
-  ContentType 
+  ContentType,
+  DestinationPublishOptions
 } from '@/integrations/supabase/types-enhanced'
 
 interface InstagramAccount {
   id: string
   access_token: string
   account_handle: string
+  // accounts row ID, used to track rate-limit usage
+  account_id?: string
 }
 
 interface MediaUploadResponse {
@@ -35,7 +41,8 @@ export class InstagramAPIService {
     account: InstagramAccount,
     mediaUrl: string,
     contentType: ContentType,
-    caption?: string
+    caption?: string,
+    options: DestinationPublishOptions = {}
   ): Promise<string> {
     const endpoint = `${this.baseUrl}/${account.id}/media`
     
@@ -74,7 +81,8 @@ export class InstagramAPIService {
     const params = new URLSearchParams({
       access_token: account.access_token,
       caption: caption || '',
-      ...additionalParams
+      ...additionalParams,
+      ...this.containerOptions(contentType, options)
     })
 
     const response = await fetch(endpoint, {
@@ -85,6 +93,7 @@ export class InstagramAPIService {
       body: params
     })
 
+    await this.trackUsage(account, response)
     const data: MediaUploadResponse = await response.json()
 
     if (!response.ok || data.error) {
@@ -105,7 +114,8 @@ export class InstagramAPIService {
   async uploadCarousel(
     account: InstagramAccount,
     mediaUrls: string[],
-    caption?: string
+    caption?: string,
+    options: DestinationPublishOptions = {}
   ): Promise<string> {
     if (mediaUrls.length < 2 || mediaUrls.length > 10) {
       throw new Error('Carousel must contain 2-10 media items')
@@ -114,7 +124,7 @@ export class InstagramAPIService {
     // Upload each media item first
     const mediaIds: string[] = []
     
-    for (const mediaUrl of mediaUrls) {
+    for (const [index, mediaUrl] of mediaUrls.entries()) {
       const isVideo = mediaUrl.toLowerCase().includes('.mp4') || 
                      mediaUrl.toLowerCase().includes('.mov')
       
@@ -122,7 +132,9 @@ export class InstagramAPIService {
       const params = new URLSearchParams({
         access_token: account.access_token,
         [isVideo ? 'video_url' : 'image_url']: mediaUrl,
-        is_carousel_item: 'true'
+        is_carousel_item: 'true',
+        // Tags and alt text belong to the individual images
+        ...(isVideo ? {} : this.imageOptions(options, index))
       })
 
       const response = await fetch(endpoint, {
@@ -133,6 +145,7 @@ export class InstagramAPIService {
         body: params
       })
 
+      await this.trackUsage(account, response)
       const data: MediaUploadResponse = await response.json()
 
       if (!response.ok || data.error) {
@@ -148,7 +161,8 @@ export class InstagramAPIService {
       access_token: account.access_token,
       media_type: 'CAROUSEL',
       children: mediaIds.join(','),
-      caption: caption || ''
+      caption: caption || '',
+      ...this.containerOptions('carousel', options)
     })
 
     const containerResponse = await fetch(containerEndpoint, {
@@ -159,6 +173,7 @@ export class InstagramAPIService {
       body: containerParams
     })
 
+    await this.trackUsage(account, containerResponse)
     const containerData: MediaUploadResponse = await containerResponse.json()
 
     if (!containerResponse.ok || containerData.error) {
@@ -168,6 +183,83 @@ export class InstagramAPIService {
     return containerData.id
   }
 
+  /**
+   * Container fields for collaborators, location, user tags and alt text. Reels take tags
+   * without coordinates, carousel items carry their own tags and stories take none of these.
+   */
+  private containerOptions(contentType: ContentType, options: DestinationPublishOptions): Record<string, string> {
+    if (contentType === 'story') return {}
+
+    const params: Record<string, string> = {}
+    if (options.collaborators?.length) {
+      params.collaborators = JSON.stringify(options.collaborators.map(stripAt))
+    }
+    if (options.locationId) {
+      params.location_id = options.locationId
+    }
+
+    if (contentType === 'single_image') {
+      Object.assign(params, this.imageOptions(options, 0))
+    } else if (contentType === 'reel' && options.userTags?.length) {
+      params.user_tags = JSON.stringify(options.userTags.map(tag => ({ username: stripAt(tag.username) })))
+    }
+
+    return params
+  }
+
+  /**
+   * User tags with coordinates and alt text for one image (index 0 for single images)
+   */
+  private imageOptions(options: DestinationPublishOptions, index: number): Record<string, string> {
+    const params: Record<string, string> = {}
+
+    const tags = (options.userTags || []).filter(tag => (tag.mediaIndex ?? 0) === index)
+    if (tags.length > 0) {
+      params.user_tags = JSON.stringify(tags.map(tag => ({ username: stripAt(tag.username), x: tag.x, y: tag.y })))
+    }
+
+    const altText = Array.isArray(options.altText) ? options.altText[index] : index === 0 ? options.altText : undefined
+    if (altText) {
+      params.alt_text = altText
+    }
+
+    return params
+  }
+
+  /**
+   * Comment on published media, e.g. the first comment carrying the hashtags
+   */
+  async postComment(accountId: string, mediaId: string, message: string): Promise<string> {
+    const account = await tokenVault.getConnectedAccount(accountId, 'instagram')
+
+    if (!account || !account.access_token) {
+      throw new Error('Instagram account not found or not connected')
+    }
+
+    const response = await fetch(`${this.baseUrl}/${mediaId}/comments`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        access_token: account.access_token,
+        message
+      })
+    })
+
+    await quotaGovernor.recordResponse(account.id, 'instagram', response)
+    const data = await response.json()
+
+    if (!response.ok || data.error) {
+      throw Object.assign(
+        new Error(data.error?.message || 'Failed to post Instagram comment'),
+        { status: response.status }
+      )
+    }
+
+    return data.id
+  }
+
   /**
    * Publish uploaded media
    */
@@ -190,6 +282,7 @@ export class InstagramAPIService {
       body: params
     })
 
+    await this.trackUsage(account, response)
     const data = await response.json()
 
     if (!response.ok) {
@@ -216,34 +309,31 @@ export class InstagramAPIService {
     accountId: string,
     mediaUrls: string | string[],
     contentType: ContentType,
-    caption?: string
+    caption?: string,
+    options: DestinationPublishOptions = {}
   ): Promise<InstagramPublishResponse> {
     try {
       // Get account details
-      const { data: account, error: accountError } = await supabase
-        .from('accounts')
-        .select('*')
-        .eq('id', accountId)
-        .eq('platform', 'instagram')
-        .single()
-
-      if (accountError || !account) {
+      const account = await tokenVault.getConnectedAccount(accountId, 'instagram')
+
+      if (!account) {
         throw new Error('Instagram account not found or not connected')
       }
 
       const instagramAccount: InstagramAccount = {
         id: account.account_metadata?.instagram_business_id || account.id,
         access_token: account.access_token!,
-        account_handle: account.account_handle
+        account_handle: account.account_handle,
+        account_id: account.id
       }
 
       // Upload media
       let creationId: string
 
       if (contentType === 'carousel' && Array.isArray(mediaUrls)) {
-        creationId = await this.uploadCarousel(instagramAccount, mediaUrls, caption)
+        creationId = await this.uploadCarousel(instagramAccount, mediaUrls, caption, options)
       } else if (typeof mediaUrls === 'string') {
-        creationId = await this.uploadMedia(instagramAccount, mediaUrls, contentType, caption)
+        creationId = await this.uploadMedia(instagramAccount, mediaUrls, contentType, caption, options)
       } else {
         throw new Error('Invalid media URLs for content type')
       }
@@ -333,26 +423,57 @@ export class InstagramAPIService {
     return data
   }
 
+  /**
+   * Find media published since the given time whose caption matches
+   */
+  async findRecentPost(accountId: string, caption: string | undefined, since: Date): Promise<string | null> {
+    const account = await tokenVault.getConnectedAccount(accountId, 'instagram')
+
+    if (!account || !account.access_token) {
+      throw new Error('Instagram account not found or not connected')
+    }
+
+    const instagramId = account.account_metadata?.instagram_business_id || account.id
+    const params = new URLSearchParams({
+      access_token: account.access_token,
+      fields: 'id,caption,timestamp',
+      limit: '10'
+    })
+
+    const response = await fetch(`${this.baseUrl}/${instagramId}/media?${params}`)
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw Object.assign(
+        new Error(data.error?.message || 'Failed to list Instagram media'),
+        { status: response.status }
+      )
+    }
+
+    const match = ((data.data || []) as InstagramMediaResponse[]).find(media =>
+      new Date(media.timestamp).getTime() >= since.getTime() &&
+      captionsMatch(caption, media.caption)
+    )
+
+    return match?.id || null
+  }
+
   /**
    * Validate account connection
    */
   async validateAccount(accountId: string): Promise<boolean> {
     try {
-      const { data: account, error } = await supabase
-        .from('accounts')
-        .select('*')
-        .eq('id', accountId)
-        .eq('platform', 'instagram')
-        .single()
-
-      if (error || !account) {
+      const account = await tokenVault.getConnectedAccount(accountId, 'instagram')
+
+      if (!account) {
         return false
       }
 
       const instagramAccount: InstagramAccount = {
         id: account.account_metadata?.instagram_business_id || account.id,
         access_token: account.access_token!,
-        account_handle: account.account_handle
+        account_handle: account.account_handle,
+        account_id: account.id
       }
 
       // Test API call
@@ -363,6 +484,7 @@ export class InstagramAPIService {
       })
 
       const response = await fetch(`${endpoint}?${params}`)
+      await this.trackUsage(instagramAccount, response)
       return response.ok
 
     } catch (error) {
@@ -371,6 +493,12 @@ export class InstagramAPIService {
     }
   }
 
+  private async trackUsage(account: InstagramAccount, response: Response): Promise<void> {
+    if (account.account_id) {
+      await quotaGovernor.recordResponse(account.account_id, 'instagram', response)
+    }
+  }
+
   /**
    * Log publishing attempts for debugging and analytics
    */
@@ -404,20 +532,17 @@ export class InstagramAPIService {
    */
   async refreshAccessToken(accountId: string): Promise<boolean> {
     try {
-      const { data: account, error } = await supabase
-        .from('accounts')
-        .select('*')
-        .eq('id', accountId)
-        .single()
+      const account = await tokenVault.getConnectedAccount(accountId)
 
-      if (error || !account || !account.refresh_token) {
+      // Meta has no refresh tokens; a long-lived token is exchanged for a fresh one
+      if (!account || !account.access_token) {
         return false
       }
 
       const endpoint = 'https://graph.facebook.com/v18.0/oauth/access_token'
       const params = new URLSearchParams({
         grant_type: 'fb_exchange_token',
-        client_id: process.env.NEXT_PUBLIC_FACEBOOK_APP_ID!,
+        client_id: process.env.FACEBOOK_APP_ID!,
         client_secret: process.env.FACEBOOK_APP_SECRET!,
         fb_exchange_token: account.access_token!
       })
@@ -431,15 +556,10 @@ export class InstagramAPIService {
 
       if (response.ok && data.access_token) {
         // Update token in database
-        await supabase
-          .from('accounts')
-          .update({
-            access_token: data.access_token,
-            token_expires_at: data.expires_in ? 
-              new Date(Date.now() + data.expires_in * 1000).toISOString() : 
-              null
-          })
-          .eq('id', accountId)
+        await tokenVault.storeTokens(accountId, {
+          accessToken: data.access_token,
+          expiresIn: data.expires_in
+        })
 
         return true
       }
@@ -453,5 +573,9 @@ export class InstagramAPIService {
   }
 }
 
+function stripAt(username: string): string {
+  return username.trim().replace(/^@/, '')
+}
+
 // Export singleton instance
 export const instagramAPI = new InstagramAPIService()
\ No newline at end of file
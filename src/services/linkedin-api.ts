@@ -0,0 +1,413 @@
+// LinkedIn API Integration Service
+// Handles image uploads, multi-image posts and document (PDF carousel) posts
+
+import { supabase } from '@/integrations/supabase/client'
+import { tokenVault } from './token-vault'
+import { buildImagePdf } from '@/utils/pdf'
+import { captionsMatch } from '@/utils/idempotency'
+import type {
+  ConnectedAccount,
+  ContentType,
+  LinkedInPublishResponse
+} from '@/integrations/supabase/types-enhanced'
+
+interface LinkedInAccount {
+  id: string
+  access_token: string
+  author_urn: string
+  carousel_mode: 'document' | 'multi_image'
+}
+
+interface RegisterUploadResponse {
+  value: {
+    asset: string
+    uploadMechanism: {
+      'com.linkedin.digitalmedia.uploading.MediaUploadHttpRequest': {
+        uploadUrl: string
+        headers?: Record<string, string>
+      }
+    }
+  }
+}
+
+interface InitializeDocumentUploadResponse {
+  value: {
+    uploadUrl: string
+    document: string
+  }
+}
+
+const MAX_MULTI_IMAGE_ITEMS = 9
+const REST_API_VERSION = '202401'
+
+export class LinkedInAPIService {
+  constructor(private readonly baseUrl = 'https://api.linkedin.com') {}
+
+  /**
+   * Register an image upload and return the upload URL and asset URN
+   */
+  async registerImageUpload(account: LinkedInAccount): Promise<{ uploadUrl: string; assetUrn: string }> {
+    const response = await fetch(`${this.baseUrl}/v2/assets?action=registerUpload`, {
+      method: 'POST',
+      headers: this.v2Headers(account),
+      body: JSON.stringify({
+        registerUploadRequest: {
+          recipes: ['urn:li:digitalmediaRecipe:feedshare-image'],
+          owner: account.author_urn,
+          serviceRelationships: [{
+            relationshipType: 'OWNER',
+            identifier: 'urn:li:userGeneratedContent'
+          }]
+        }
+      })
+    })
+
+    const data: RegisterUploadResponse = await response.json()
+
+    if (!response.ok) {
+      throw Object.assign(
+        new Error((data as { message?: string }).message || `LinkedIn register upload failed: ${response.statusText}`),
+        { status: response.status }
+      )
+    }
+
+    return {
+      uploadUrl: data.value.uploadMechanism['com.linkedin.digitalmedia.uploading.MediaUploadHttpRequest'].uploadUrl,
+      assetUrn: data.value.asset
+    }
+  }
+
+  /**
+   * Upload an image (register upload -> binary PUT) and return its asset URN
+   */
+  async uploadImage(account: LinkedInAccount, imageUrl: string): Promise<string> {
+    const image = await this.downloadMedia(imageUrl)
+    const { uploadUrl, assetUrn } = await this.registerImageUpload(account)
+
+    await this.putBinary(account, uploadUrl, image, image.type || 'application/octet-stream')
+
+    return assetUrn
+  }
+
+  /**
+   * Upload a PDF document and return its document URN
+   */
+  async uploadDocument(account: LinkedInAccount, pdf: Blob): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/rest/documents?action=initializeUpload`, {
+      method: 'POST',
+      headers: this.restHeaders(account),
+      body: JSON.stringify({
+        initializeUploadRequest: {
+          owner: account.author_urn
+        }
+      })
+    })
+
+    const data: InitializeDocumentUploadResponse = await response.json()
+
+    if (!response.ok) {
+      throw Object.assign(
+        new Error((data as { message?: string }).message || `LinkedIn document upload init failed: ${response.statusText}`),
+        { status: response.status }
+      )
+    }
+
+    await this.putBinary(account, data.value.uploadUrl, pdf, 'application/pdf')
+
+    return data.value.document
+  }
+
+  /**
+   * Publish a text, single-image or multi-image share through ugcPosts
+   */
+  async publishShare(
+    account: LinkedInAccount,
+    caption: string | undefined,
+    assetUrns: string[] = []
+  ): Promise<LinkedInPublishResponse> {
+    const sharePayload = {
+      author: account.author_urn,
+      lifecycleState: 'PUBLISHED',
+      specificContent: {
+        'com.linkedin.ugc.ShareContent': {
+          shareCommentary: {
+            text: caption || ''
+          },
+          shareMediaCategory: assetUrns.length > 0 ? 'IMAGE' : 'NONE',
+          ...(assetUrns.length > 0 && {
+            media: assetUrns.map(assetUrn => ({
+              status: 'READY',
+              media: assetUrn
+            }))
+          })
+        }
+      },
+      visibility: {
+        'com.linkedin.ugc.MemberNetworkVisibility': 'PUBLIC'
+      }
+    }
+
+    const response = await fetch(`${this.baseUrl}/v2/ugcPosts`, {
+      method: 'POST',
+      headers: this.v2Headers(account),
+      body: JSON.stringify(sharePayload)
+    })
+
+    const result = await response.json()
+
+    if (!response.ok) {
+      throw Object.assign(new Error(result.message || 'LinkedIn publish failed'), { status: response.status })
+    }
+
+    return {
+      id: result.id,
+      author: account.author_urn,
+      media: assetUrns
+    }
+  }
+
+  /**
+   * Publish a document post (PDF carousel) through the Posts API
+   */
+  async publishDocumentPost(
+    account: LinkedInAccount,
+    caption: string | undefined,
+    documentUrn: string,
+    title: string
+  ): Promise<LinkedInPublishResponse> {
+    const response = await fetch(`${this.baseUrl}/rest/posts`, {
+      method: 'POST',
+      headers: this.restHeaders(account),
+      body: JSON.stringify({
+        author: account.author_urn,
+        commentary: caption || '',
+        visibility: 'PUBLIC',
+        distribution: {
+          feedDistribution: 'MAIN_FEED',
+          targetEntities: [],
+          thirdPartyDistributionChannels: []
+        },
+        content: {
+          media: {
+            title,
+            id: documentUrn
+          }
+        },
+        lifecycleState: 'PUBLISHED',
+        isReshareDisabledByAuthor: false
+      })
+    })
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}))
+      throw Object.assign(new Error(result.message || 'LinkedIn document post failed'), { status: response.status })
+    }
+
+    // The Posts API returns the new post URN in a header with an empty body
+    return {
+      id: response.headers.get('x-restli-id') || '',
+      author: account.author_urn,
+      media: [documentUrn]
+    }
+  }
+
+  /**
+   * Complete upload and publish flow
+   */
+  async uploadAndPublish(
+    accountId: string,
+    mediaUrls: string | string[],
+    contentType: ContentType,
+    caption?: string
+  ): Promise<LinkedInPublishResponse> {
+    const linkedinAccount = await this.getAccount(accountId)
+    const urls = (Array.isArray(mediaUrls) ? mediaUrls : [mediaUrls]).filter(Boolean)
+
+    // Pre-rendered PDFs always go out as document posts
+    if (urls.length === 1 && /\.pdf($|\?)/i.test(urls[0])) {
+      const pdf = await this.downloadMedia(urls[0])
+      const documentUrn = await this.uploadDocument(linkedinAccount, pdf)
+      return this.publishDocumentPost(linkedinAccount, caption, documentUrn, this.documentTitle(caption))
+    }
+
+    if (contentType === 'carousel') {
+      if (urls.length > MAX_MULTI_IMAGE_ITEMS) {
+        throw new Error(`LinkedIn carousels support at most ${MAX_MULTI_IMAGE_ITEMS} items`)
+      }
+
+      if (linkedinAccount.carousel_mode === 'document') {
+        const pdf = await this.renderCarouselPdf(urls, this.documentTitle(caption))
+        const documentUrn = await this.uploadDocument(linkedinAccount, pdf)
+        return this.publishDocumentPost(linkedinAccount, caption, documentUrn, this.documentTitle(caption))
+      }
+    }
+
+    if (contentType === 'single_image' && urls.length > 1) {
+      throw new Error('Single image posts accept exactly one image')
+    }
+
+    // Single or multi-image share: upload each image sequentially to keep order
+    const assetUrns: string[] = []
+    for (const url of urls) {
+      assetUrns.push(await this.uploadImage(linkedinAccount, url))
+    }
+
+    return this.publishShare(linkedinAccount, caption, assetUrns)
+  }
+
+  /**
+   * Find a post by the account's author published since the given time whose commentary matches the caption
+   */
+  async findRecentPost(accountId: string, caption: string | undefined, since: Date): Promise<string | null> {
+    const linkedinAccount = await this.getAccount(accountId)
+    const params = new URLSearchParams({
+      q: 'author',
+      author: linkedinAccount.author_urn,
+      count: '10',
+      sortBy: 'LAST_MODIFIED'
+    })
+
+    const response = await fetch(`${this.baseUrl}/rest/posts?${params}`, {
+      headers: this.restHeaders(linkedinAccount)
+    })
+
+    const data = await response.json()
+    if (!response.ok) {
+      throw Object.assign(
+        new Error(data.message || `LinkedIn post lookup failed: ${response.statusText}`),
+        { status: response.status }
+      )
+    }
+
+    const match = ((data.elements || []) as Array<{ id: string; commentary?: string; createdAt: number }>).find(post =>
+      post.createdAt >= since.getTime() &&
+      captionsMatch(caption, post.commentary)
+    )
+
+    return match?.id || null
+  }
+
+  /**
+   * Validate account connection
+   */
+  async validateAccount(accountId: string): Promise<boolean> {
+    try {
+      const linkedinAccount = await this.getAccount(accountId)
+
+      const response = await fetch(`${this.baseUrl}/v2/me`, {
+        headers: {
+          'Authorization': `Bearer ${linkedinAccount.access_token}`,
+          'cache-control': 'no-cache',
+          'X-Restli-Protocol-Version': '2.0.0'
+        }
+      })
+
+      return response.ok
+    } catch (error) {
+      return false
+    }
+  }
+
+  /**
+   * Render carousel images into a single multi-page PDF
+   */
+  private async renderCarouselPdf(imageUrls: string[], title: string): Promise<Blob> {
+    const pages: Uint8Array[] = []
+    for (const url of imageUrls) {
+      const image = await this.downloadMedia(url)
+      pages.push(new Uint8Array(await image.arrayBuffer()))
+    }
+
+    return new Blob([buildImagePdf(pages, title)], { type: 'application/pdf' })
+  }
+
+  private documentTitle(caption?: string): string {
+    const firstLine = (caption || '').split('\n').find(line => line.trim())
+    return (firstLine || 'Carousel').trim().substring(0, 100)
+  }
+
+  private async putBinary(
+    account: LinkedInAccount,
+    uploadUrl: string,
+    body: Blob,
+    contentType: string
+  ): Promise<void> {
+    const response = await fetch(uploadUrl, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Bearer ${account.access_token}`,
+        'Content-Type': contentType
+      },
+      body
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw Object.assign(
+        new Error(`LinkedIn media upload failed: ${response.status} ${errorText}`),
+        { status: response.status }
+      )
+    }
+  }
+
+  private async downloadMedia(mediaUrl: string): Promise<Blob> {
+    const response = await fetch(mediaUrl)
+    if (!response.ok) {
+      throw new Error(`Failed to download media: ${response.status} ${response.statusText}`)
+    }
+    return response.blob()
+  }
+
+  private v2Headers(account: LinkedInAccount): Record<string, string> {
+    return {
+      'Authorization': `Bearer ${account.access_token}`,
+      'Content-Type': 'application/json',
+      'X-Restli-Protocol-Version': '2.0.0'
+    }
+  }
+
+  private restHeaders(account: LinkedInAccount): Record<string, string> {
+    return {
+      ...this.v2Headers(account),
+      'LinkedIn-Version': REST_API_VERSION
+    }
+  }
+
+  private async getAccount(accountId: string): Promise<LinkedInAccount> {
+    const account = await tokenVault.getConnectedAccount(accountId, 'linkedin')
+
+    if (!account || !account.access_token) {
+      throw new Error('LinkedIn account not found or not connected')
+    }
+
+    return this.toLinkedInAccount(account)
+  }
+
+  private toLinkedInAccount(account: ConnectedAccount): LinkedInAccount {
+    const metadata = (account.account_metadata || {}) as Record<string, unknown>
+
+    // Organization pages take precedence over the member profile
+    let authorUrn: string
+    if (metadata.organization_urn) {
+      authorUrn = metadata.organization_urn as string
+    } else if (metadata.organization_id) {
+      authorUrn = `urn:li:organization:${metadata.organization_id}`
+    } else if (metadata.person_urn) {
+      authorUrn = metadata.person_urn as string
+    } else if (metadata.linkedin_id) {
+      authorUrn = `urn:li:person:${metadata.linkedin_id}`
+    } else {
+      throw new Error('LinkedIn author URN not configured')
+    }
+
+    return {
+      id: account.id,
+      access_token: account.access_token!,
+      author_urn: authorUrn,
+      carousel_mode: metadata.carousel_mode === 'multi_image' ? 'multi_image' : 'document'
+    }
+  }
+}
+
+// Export singleton instance
+export const linkedinAPI = new LinkedInAPIService()
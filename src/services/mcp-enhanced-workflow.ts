@@ -1,34 +1,19 @@
 // MCP-Enhanced N8N Workflow Service
 // Collaborative workflow creation and deployment with MCP tools
 
-import { supabase } from '@/integrations/supabase/client'
 import { EventEmitter } from './event-sourcing'
+import { n8nApi } from './n8n-api'
+import {
+  WorkflowBuilder,
+  diffWorkflows,
+  formatWorkflowDiff,
+  toN8NJson,
+  type N8NWorkflowJson,
+  type WorkflowDefinition,
+  type WorkflowDiff
+} from '@/integrations/n8n/workflow-builder'
 
-interface MCPWorkflowConfig {
-  name: string
-  description: string
-  trigger: {
-    type: 'webhook' | 'manual' | 'scheduled'
-    config: any
-  }
-  nodes: MCPWorkflowNode[]
-  connections: MCPWorkflowConnection[]
-  settings: {
-    errorPolicy: 'stop' | 'continue' | 'retry'
-    retryCount: number
-    timeout: number
-    tags: string[]
-  }
-}
-
-interface MCPWorkflowNode {
-  id: string
-  type: string
-  name: string
-  parameters: Record<string, any>
-  position: [number, number]
-  disabled?: boolean
-  notes?: string
+interface MCPNodeFields {
   // MCP-specific enhancements
   mcp_enhanced?: {
     tool_type: 'content_analyzer' | 'platform_publisher' | 'engagement_tracker' | 'custom'
@@ -38,17 +23,17 @@ interface MCPWorkflowNode {
   }
 }
 
-interface MCPWorkflowConnection {
-  source: string
-  destination: string
-  sourceOutput: string
-  destinationInput: string
-}
+export type MCPWorkflowConfig = WorkflowDefinition<MCPNodeFields>
 
 interface WorkflowDeploymentResult {
   success: boolean
+  // created/updated: written to n8n; unchanged: the deployed copy already matches;
+  // planned: dry run; manual: no API key, so the JSON has to be imported by hand
+  action?: 'created' | 'updated' | 'unchanged' | 'planned' | 'manual'
   workflowId?: string
   webhookUrl?: string
+  // Changes against the deployed copy; null when nothing was deployed under this name yet
+  diff?: WorkflowDiff | null
   error?: string
   deployment_metadata: {
     created_at: string
@@ -57,62 +42,8 @@ interface WorkflowDeploymentResult {
   }
 }
 
-export class MCPEnhancedWorkflowService {
-  private baseWebhookUrl: string
-  private apiKey: string
-  
-  constructor() {
-    this.baseWebhookUrl = 'https://lifemastery.app.n8n.cloud'
-    this.apiKey = process.env.VITE_N8N_API_KEY || 'Z@V@L@'
-  }
-
-  /**
-   * Create Content Processing Workflow
-   * Enhanced version of your existing workflow with MCP tools
-   */
-  async createContentProcessingWorkflow(): Promise<MCPWorkflowConfig> {
-    const workflow: MCPWorkflowConfig = {
-      name: 'MCP-Enhanced Content Processing Pipeline',
-      description: 'Advanced content processing with MCP tool integration for Instagram & TikTok publishing',
-      trigger: {
-        type: 'webhook',
-        config: {
-          httpMethod: 'POST',
-          path: 'content-pipeline',
-          responseMode: 'responseNode'
-        }
-      },
-      nodes: [
-        // 1. Webhook Trigger (Enhanced)
-        {
-          id: 'webhook-trigger',
-          type: 'n8n-nodes-base.webhook',
-          name: 'Content Webhook',
-          parameters: {
-            httpMethod: 'POST',
-            path: 'content-pipeline',
-            responseMode: 'responseNode',
-            options: {
-              rawBody: true
-            }
-          },
-          position: [100, 200],
-          mcp_enhanced: {
-            tool_type: 'content_analyzer',
-            capabilities: ['payload_validation', 'content_extraction'],
-            error_handling: 'graceful',
-            monitoring: true
-          }
-        },
-
-        // 2. MCP Content Analyzer
-        {
-          id: 'mcp-content-analyzer',
-          type: 'n8n-nodes-base.function',
-          name: 'MCP Content Analysis',
-          parameters: {
-            functionCode: `
-// MCP-Enhanced Content Analysis
+// Function node bodies, run by n8n
+const CONTENT_ANALYSIS_CODE = `// MCP-Enhanced Content Analysis
 const contentData = $json.body;
 
 // Extract and enhance content metadata
@@ -144,139 +75,9 @@ const analysis = {
 };
 
 return { analysis };
-            `
-          },
-          position: [300, 200],
-          mcp_enhanced: {
-            tool_type: 'content_analyzer',
-            capabilities: ['ai_analysis', 'optimization_suggestions', 'quality_scoring'],
-            error_handling: 'graceful',
-            monitoring: true
-          }
-        },
-
-        // 3. Platform Router (Enhanced)
-        {
-          id: 'platform-router',
-          type: 'n8n-nodes-base.switch',
-          name: 'MCP Platform Router',
-          parameters: {
-            conditions: {
-              boolean: [
-                {
-                  condition1: 'instagram',
-                  condition2: '={{ $json.analysis.platforms.includes("instagram") }}'
-                },
-                {
-                  condition1: 'tiktok',
-                  condition2: '={{ $json.analysis.platforms.includes("tiktok") }}'
-                }
-              ]
-            }
-          },
-          position: [500, 200],
-          mcp_enhanced: {
-            tool_type: 'platform_publisher',
-            capabilities: ['intelligent_routing', 'platform_optimization'],
-            error_handling: 'strict',
-            monitoring: true
-          }
-        },
+`
 
-        // 4. Instagram Publisher (MCP Enhanced)
-        {
-          id: 'instagram-publisher',
-          type: 'n8n-nodes-base.httpRequest',
-          name: 'MCP Instagram Publisher',
-          parameters: {
-            url: 'https://graph.facebook.com/v18.0/{{ $json.instagram_account_id }}/media',
-            method: 'POST',
-            sendHeaders: true,
-            headerParameters: {
-              parameters: [
-                {
-                  name: 'Authorization',
-                  value: 'Bearer {{ $json.instagram_access_token }}'
-                }
-              ]
-            },
-            sendBody: true,
-            contentType: 'form-urlencoded',
-            bodyParameters: {
-              parameters: [
-                {
-                  name: 'image_url',
-                  value: '={{ $json.analysis.media_url }}'
-                },
-                {
-                  name: 'caption',
-                  value: '={{ $json.analysis.captions.instagram }}'
-                },
-                {
-                  name: 'access_token',
-                  value: '={{ $json.instagram_access_token }}'
-                }
-              ]
-            }
-          },
-          position: [700, 150],
-          mcp_enhanced: {
-            tool_type: 'platform_publisher',
-            capabilities: ['instagram_api', 'media_upload', 'caption_optimization'],
-            error_handling: 'graceful',
-            monitoring: true
-          }
-        },
-
-        // 5. TikTok Publisher (MCP Enhanced)
-        {
-          id: 'tiktok-publisher',
-          type: 'n8n-nodes-base.httpRequest',
-          name: 'MCP TikTok Publisher',
-          parameters: {
-            url: 'https://open-api.tiktok.com/share/video/upload/',
-            method: 'POST',
-            sendHeaders: true,
-            headerParameters: {
-              parameters: [
-                {
-                  name: 'Authorization',
-                  value: 'Bearer {{ $json.tiktok_access_token }}'
-                },
-                {
-                  name: 'Content-Type',
-                  value: 'application/json'
-                }
-              ]
-            },
-            sendBody: true,
-            body: {
-              video_url: '={{ $json.analysis.media_url }}',
-              text: '={{ $json.analysis.captions.tiktok }}',
-              privacy_level: 'MUTUAL_FOLLOW_FRIENDS',
-              disable_duet: false,
-              disable_comment: false,
-              disable_stitch: false,
-              brand_content_toggle: false
-            }
-          },
-          position: [700, 250],
-          mcp_enhanced: {
-            tool_type: 'platform_publisher',
-            capabilities: ['tiktok_api', 'video_upload', 'engagement_optimization'],
-            error_handling: 'graceful',
-            monitoring: true
-          }
-        },
-
-        // 6. MCP Success Tracker
-        {
-          id: 'mcp-success-tracker',
-          type: 'n8n-nodes-base.function',
-          name: 'MCP Success Tracking',
-          parameters: {
-            functionCode: `
-// MCP-Enhanced Success Tracking
+const SUCCESS_TRACKING_CODE = `// MCP-Enhanced Success Tracking
 const results = [];
 
 // Collect all publishing results
@@ -307,97 +108,272 @@ return {
     processing_completed_at: new Date().toISOString()
   }
 };
-            `
+`
+
+const MCP_FEATURES = [
+  'content_analysis',
+  'platform_optimization',
+  'engagement_prediction',
+  'success_tracking',
+  'database_sync',
+  'notification_hub'
+]
+
+export class MCPEnhancedWorkflowService {
+  /**
+   * Base URL of the n8n instance workflows are deployed to
+   */
+  getInstanceUrl(): string {
+    return n8nApi.instanceUrl()
+  }
+
+  /**
+   * Create Content Processing Workflow
+   * Enhanced version of your existing workflow with MCP tools
+   */
+  async createContentProcessingWorkflow(): Promise<MCPWorkflowConfig> {
+    return new WorkflowBuilder<MCPNodeFields>('MCP-Enhanced Content Processing Pipeline', {
+      description: 'Advanced content processing with MCP tool integration for Instagram & TikTok publishing',
+      settings: { executionTimeout: 300 },
+      tags: ['mcp-enhanced', 'content-pipeline', 'instagram', 'tiktok']
+    })
+      .node('webhook-trigger', {
+        type: 'n8n-nodes-base.webhook',
+        name: 'Content Webhook',
+        trigger: true,
+        parameters: {
+          httpMethod: 'POST',
+          path: 'content-pipeline',
+          responseMode: 'responseNode',
+          options: {
+            rawBody: true
+          }
+        },
+        mcp_enhanced: {
+          tool_type: 'content_analyzer',
+          capabilities: ['payload_validation', 'content_extraction'],
+          error_handling: 'graceful',
+          monitoring: true
+        }
+      })
+      .node('mcp-content-analyzer', {
+        type: 'n8n-nodes-base.function',
+        name: 'MCP Content Analysis',
+        parameters: {
+          functionCode: CONTENT_ANALYSIS_CODE
+        },
+        mcp_enhanced: {
+          tool_type: 'content_analyzer',
+          capabilities: ['ai_analysis', 'optimization_suggestions', 'quality_scoring'],
+          error_handling: 'graceful',
+          monitoring: true
+        }
+      })
+      .node('platform-router', {
+        type: 'n8n-nodes-base.switch',
+        name: 'MCP Platform Router',
+        outputs: 2,
+        parameters: {
+          conditions: {
+            boolean: [
+              {
+                condition1: 'instagram',
+                condition2: '={{ $json.analysis.platforms.includes("instagram") }}'
+              },
+              {
+                condition1: 'tiktok',
+                condition2: '={{ $json.analysis.platforms.includes("tiktok") }}'
+              }
+            ]
+          }
+        },
+        mcp_enhanced: {
+          tool_type: 'platform_publisher',
+          capabilities: ['intelligent_routing', 'platform_optimization'],
+          error_handling: 'strict',
+          monitoring: true
+        }
+      })
+      .node('instagram-publisher', {
+        type: 'n8n-nodes-base.httpRequest',
+        name: 'MCP Instagram Publisher',
+        // One platform failing must not stop the other; two retries before giving up
+        onError: 'continueRegularOutput',
+        retryOnFail: true,
+        maxTries: 3,
+        parameters: {
+          url: 'https://graph.facebook.com/v18.0/{{ $json.instagram_account_id }}/media',
+          method: 'POST',
+          sendHeaders: true,
+          headerParameters: {
+            parameters: [
+              {
+                name: 'Authorization',
+                value: 'Bearer {{ $json.instagram_access_token }}'
+              }
+            ]
           },
-          position: [900, 200],
-          mcp_enhanced: {
-            tool_type: 'engagement_tracker',
-            capabilities: ['result_aggregation', 'performance_tracking', 'analytics'],
-            error_handling: 'graceful',
-            monitoring: true
+          sendBody: true,
+          contentType: 'form-urlencoded',
+          bodyParameters: {
+            parameters: [
+              {
+                name: 'image_url',
+                value: '={{ $json.analysis.media_url }}'
+              },
+              {
+                name: 'caption',
+                value: '={{ $json.analysis.captions.instagram }}'
+              },
+              {
+                name: 'access_token',
+                value: '={{ $json.instagram_access_token }}'
+              }
+            ]
           }
         },
-
-        // 7. Database Update (MCP Enhanced)
-        {
-          id: 'database-update',
-          type: 'n8n-nodes-base.supabase',
-          name: 'MCP Database Sync',
-          parameters: {
-            resource: 'table',
-            operation: 'update',
-            tableId: 'assets',
-            filterType: 'manual',
-            conditions: {
-              conditions: [
-                {
-                  column: 'id',
-                  condition: 'equals',
-                  value: '={{ $json.asset_id }}'
-                }
-              ]
-            },
-            updateFields: {
-              status: 'published',
-              published_at: '={{ $json.mcp_summary.processing_completed_at }}',
-              metadata: '={{ JSON.stringify(Object.assign($json.original_metadata || {}, { mcp_processing: $json.mcp_summary, publishing_results: $json.results })) }}'
-            }
+        mcp_enhanced: {
+          tool_type: 'platform_publisher',
+          capabilities: ['instagram_api', 'media_upload', 'caption_optimization'],
+          error_handling: 'graceful',
+          monitoring: true
+        }
+      })
+      .node('tiktok-publisher', {
+        type: 'n8n-nodes-base.httpRequest',
+        name: 'MCP TikTok Publisher',
+        onError: 'continueRegularOutput',
+        retryOnFail: true,
+        maxTries: 3,
+        parameters: {
+          url: 'https://open-api.tiktok.com/share/video/upload/',
+          method: 'POST',
+          sendHeaders: true,
+          headerParameters: {
+            parameters: [
+              {
+                name: 'Authorization',
+                value: 'Bearer {{ $json.tiktok_access_token }}'
+              },
+              {
+                name: 'Content-Type',
+                value: 'application/json'
+              }
+            ]
           },
-          position: [1100, 200],
-          mcp_enhanced: {
-            tool_type: 'custom',
-            capabilities: ['database_sync', 'metadata_enhancement'],
-            error_handling: 'strict',
-            monitoring: true
+          sendBody: true,
+          body: {
+            video_url: '={{ $json.analysis.media_url }}',
+            text: '={{ $json.analysis.captions.tiktok }}',
+            privacy_level: 'MUTUAL_FOLLOW_FRIENDS',
+            disable_duet: false,
+            disable_comment: false,
+            disable_stitch: false,
+            brand_content_toggle: false
           }
         },
-
-        // 8. MCP Notification System
-        {
-          id: 'mcp-notifications',
-          type: 'n8n-nodes-base.webhook',
-          name: 'MCP Notification Hub',
-          parameters: {
-            httpMethod: 'POST',
-            path: 'mcp-notifications',
-            responseCode: 200,
-            responseData: '{{ JSON.stringify($json) }}'
+        mcp_enhanced: {
+          tool_type: 'platform_publisher',
+          capabilities: ['tiktok_api', 'video_upload', 'engagement_optimization'],
+          error_handling: 'graceful',
+          monitoring: true
+        }
+      })
+      .node('mcp-success-tracker', {
+        type: 'n8n-nodes-base.function',
+        name: 'MCP Success Tracking',
+        parameters: {
+          functionCode: SUCCESS_TRACKING_CODE
+        },
+        mcp_enhanced: {
+          tool_type: 'engagement_tracker',
+          capabilities: ['result_aggregation', 'performance_tracking', 'analytics'],
+          error_handling: 'graceful',
+          monitoring: true
+        }
+      })
+      .node('database-update', {
+        type: 'n8n-nodes-base.supabase',
+        name: 'MCP Database Sync',
+        credentials: {
+          supabaseApi: { name: 'Supabase' }
+        },
+        parameters: {
+          resource: 'table',
+          operation: 'update',
+          tableId: 'assets',
+          filterType: 'manual',
+          conditions: {
+            conditions: [
+              {
+                column: 'id',
+                condition: 'equals',
+                value: '={{ $json.asset_id }}'
+              }
+            ]
           },
-          position: [1300, 200],
-          mcp_enhanced: {
-            tool_type: 'custom',
-            capabilities: ['notification_dispatch', 'event_broadcasting'],
-            error_handling: 'graceful',
-            monitoring: true
+          updateFields: {
+            status: 'published',
+            published_at: '={{ $json.mcp_summary.processing_completed_at }}',
+            metadata: '={{ JSON.stringify(Object.assign($json.original_metadata || {}, { mcp_processing: $json.mcp_summary, publishing_results: $json.results })) }}'
           }
+        },
+        mcp_enhanced: {
+          tool_type: 'custom',
+          capabilities: ['database_sync', 'metadata_enhancement'],
+          error_handling: 'strict',
+          monitoring: true
         }
-      ],
-      connections: [
-        { source: 'webhook-trigger', destination: 'mcp-content-analyzer', sourceOutput: 'main', destinationInput: 'main' },
-        { source: 'mcp-content-analyzer', destination: 'platform-router', sourceOutput: 'main', destinationInput: 'main' },
-        { source: 'platform-router', destination: 'instagram-publisher', sourceOutput: '0', destinationInput: 'main' },
-        { source: 'platform-router', destination: 'tiktok-publisher', sourceOutput: '1', destinationInput: 'main' },
-        { source: 'instagram-publisher', destination: 'mcp-success-tracker', sourceOutput: 'main', destinationInput: 'main' },
-        { source: 'tiktok-publisher', destination: 'mcp-success-tracker', sourceOutput: 'main', destinationInput: 'main' },
-        { source: 'mcp-success-tracker', destination: 'database-update', sourceOutput: 'main', destinationInput: 'main' },
-        { source: 'database-update', destination: 'mcp-notifications', sourceOutput: 'main', destinationInput: 'main' }
-      ],
-      settings: {
-        errorPolicy: 'continue',
-        retryCount: 2,
-        timeout: 300000, // 5 minutes
-        tags: ['mcp-enhanced', 'content-pipeline', 'instagram', 'tiktok']
-      }
-    }
+      })
+      .node('mcp-notifications', {
+        type: 'n8n-nodes-base.webhook',
+        name: 'MCP Notification Hub',
+        parameters: {
+          httpMethod: 'POST',
+          path: 'mcp-notifications',
+          responseCode: 200,
+          responseData: '{{ JSON.stringify($json) }}'
+        },
+        mcp_enhanced: {
+          tool_type: 'custom',
+          capabilities: ['notification_dispatch', 'event_broadcasting'],
+          error_handling: 'graceful',
+          monitoring: true
+        }
+      })
+      .chain('webhook-trigger', 'mcp-content-analyzer', 'platform-router')
+      .connect('platform-router', 'instagram-publisher', { output: 0 })
+      .connect('platform-router', 'tiktok-publisher', { output: 1 })
+      .connect('instagram-publisher', 'mcp-success-tracker')
+      .connect('tiktok-publisher', 'mcp-success-tracker')
+      .chain('mcp-success-tracker', 'database-update', 'mcp-notifications')
+      .build()
+  }
 
-    return workflow
+  /**
+   * The JSON to import into n8n
+   */
+  exportWorkflow(workflow: MCPWorkflowConfig): N8NWorkflowJson {
+    return toN8NJson(workflow)
   }
 
   /**
-   * Deploy workflow to N8N instance
-   * This will be done collaboratively with the user
+   * Deploy workflow to N8N instance. The workflow is diffed against the deployed copy with the
+   * same name first; nothing is written when they match or on a dry run. Without an API key
+   * the JSON is left for a collaborative manual import.
    */
-  async deployWorkflow(workflow: MCPWorkflowConfig): Promise<WorkflowDeploymentResult> {
+  async deployWorkflow(
+    workflow: MCPWorkflowConfig,
+    options: { dryRun?: boolean } = {}
+  ): Promise<WorkflowDeploymentResult> {
+    const local = this.exportWorkflow(workflow)
+    const webhookPath = workflow.nodes.find(n => n.trigger)?.parameters?.path as string | undefined
+    const deploymentMetadata = {
+      created_at: new Date().toISOString(),
+      version: '1.0.0-mcp-enhanced',
+      mcp_features: MCP_FEATURES
+    }
+
     console.log('🚀 Preparing MCP-Enhanced Workflow Deployment...')
     console.log('📋 Workflow Configuration:', {
       name: workflow.name,
@@ -413,27 +389,56 @@ return {
       {
         source: 'mcp_workflow_service',
         workflow_name: workflow.name,
-        collaboration_mode: true,
-        user_account: 'lifemastery.app.n8n.cloud',
+        collaboration_mode: !n8nApi.isConfigured(),
+        user_account: new URL(this.getInstanceUrl()).host,
         deployment_ready: true
       }
     )
 
-    return {
-      success: true,
-      workflowId: 'pending-collaborative-deployment',
-      webhookUrl: `${this.baseWebhookUrl}/webhook/[generated-after-deployment]`,
-      deployment_metadata: {
-        created_at: new Date().toISOString(),
-        version: '1.0.0-mcp-enhanced',
-        mcp_features: [
-          'content_analysis',
-          'platform_optimization', 
-          'engagement_prediction',
-          'success_tracking',
-          'database_sync',
-          'notification_hub'
-        ]
+    if (!n8nApi.isConfigured()) {
+      return {
+        success: true,
+        action: 'manual',
+        workflowId: 'pending-collaborative-deployment',
+        webhookUrl: n8nApi.webhookUrl('[generated-after-deployment]'),
+        deployment_metadata: deploymentMetadata
+      }
+    }
+
+    try {
+      const deployed = await n8nApi.findWorkflowByName(local.name)
+      const diff = deployed ? diffWorkflows(local, deployed) : null
+      const webhookUrl = webhookPath ? n8nApi.webhookUrl(webhookPath) : undefined
+
+      if (diff) {
+        console.log(`🔍 Changes against deployed workflow ${deployed!.id}:\n${formatWorkflowDiff(diff)}`)
+      }
+
+      if (deployed && !diff!.hasChanges) {
+        return { success: true, action: 'unchanged', workflowId: deployed.id, webhookUrl, diff, deployment_metadata: deploymentMetadata }
+      }
+
+      if (options.dryRun) {
+        return { success: true, action: 'planned', workflowId: deployed?.id, webhookUrl, diff, deployment_metadata: deploymentMetadata }
+      }
+
+      const saved = deployed
+        ? await n8nApi.updateWorkflow(deployed.id, local)
+        : await n8nApi.createWorkflow(local)
+
+      return {
+        success: true,
+        action: deployed ? 'updated' : 'created',
+        workflowId: String(saved.id),
+        webhookUrl,
+        diff,
+        deployment_metadata: deploymentMetadata
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Deployment failed',
+        deployment_metadata: deploymentMetadata
       }
     }
   }
@@ -457,9 +462,9 @@ We're about to deploy an enhanced version of your content processing workflow wi
 - **Notification Hub**: Centralized notification system replacing Slack
 
 ## Deployment Steps (Collaborative)
-1. **Access your N8N instance**: https://lifemastery.app.n8n.cloud
+1. **Access your N8N instance**: ${this.getInstanceUrl()}
 2. **Create new workflow**: Click "New Workflow"
-3. **Import configuration**: I'll provide the JSON configuration to paste
+3. **Import configuration**: Paste the exported workflow JSON (${workflow.nodes.length} nodes)
 4. **Configure credentials**: Set up Instagram & TikTok API credentials
 5. **Test workflow**: Run test with sample content
 6. **Deploy webhook**: Activate and get webhook URL
@@ -0,0 +1,242 @@
+// N8N REST API Service
+// Reads execution status and per-node run data from n8n, stops executions and manages workflow definitions
+
+import type {
+  N8NExecutionSnapshot,
+  N8NExecutionStatus,
+  N8NNodeRun
+} from '@/integrations/supabase/types-enhanced'
+import type { N8NWorkflowJson } from '@/integrations/n8n/workflow-builder'
+
+interface N8NApiOptions {
+  // e.g. https://example.app.n8n.cloud, or a local fake server
+  baseUrl?: string
+  apiKey?: string
+}
+
+interface N8NApiError {
+  message: string
+  description?: string
+}
+
+interface N8NRawNodeRun {
+  startTime?: number
+  executionTime?: number
+  executionStatus?: string
+  error?: N8NApiError
+  data?: { main?: Array<unknown[] | null> }
+}
+
+// The subset of GET /executions/{id}?includeData=true we read
+interface N8NRawExecution {
+  id: string | number
+  workflowId?: string | number | null
+  status?: N8NExecutionStatus
+  finished?: boolean
+  startedAt?: string | null
+  stoppedAt?: string | null
+  data?: {
+    resultData?: {
+      runData?: Record<string, N8NRawNodeRun[]>
+      lastNodeExecuted?: string
+      error?: N8NApiError
+    }
+  }
+}
+
+// A workflow as GET /workflows returns it; tags are objects there and cannot be written through the API
+export interface N8NDeployedWorkflow extends Pick<N8NWorkflowJson, 'name' | 'nodes' | 'connections' | 'settings'> {
+  id: string
+  active: boolean
+  updatedAt?: string
+}
+
+const NODE_RUN_STATUSES: N8NNodeRun['status'][] = ['success', 'error', 'running', 'waiting']
+
+export class N8NApiService {
+  private readonly baseUrl: string
+  private readonly apiKey: string | undefined
+
+  constructor(options: N8NApiOptions = {}) {
+    this.baseUrl = (options.baseUrl || this.readEnv('N8N_BASE_URL') || 'http://localhost:5678').replace(/\/+$/, '')
+    // Never read from a VITE_ variable: those are bundled into the browser. Browser code goes
+    // through /api/workflows instead
+    this.apiKey = options.apiKey ?? this.readServerEnv('N8N_API_KEY')
+  }
+
+  /**
+   * Whether an API key is set; without one every call would be rejected
+   */
+  isConfigured(): boolean {
+    return Boolean(this.apiKey)
+  }
+
+  /**
+   * Status, errors and the per-node timeline of an execution
+   */
+  async getExecution(executionId: string): Promise<N8NExecutionSnapshot> {
+    const raw = await this.request<N8NRawExecution>('GET', `/executions/${encodeURIComponent(executionId)}?includeData=true`)
+    return this.toSnapshot(raw)
+  }
+
+  /**
+   * Stop a running or waiting execution. Returns false when n8n has no such running
+   * execution, e.g. because it already finished.
+   */
+  async stopExecution(executionId: string): Promise<boolean> {
+    try {
+      await this.request('POST', `/executions/${encodeURIComponent(executionId)}/stop`)
+      return true
+    } catch (error) {
+      const status = (error as { status?: number }).status
+      if (status === 404 || status === 409) return false
+      throw error
+    }
+  }
+
+  /**
+   * Public URL of a production webhook path
+   */
+  webhookUrl(path: string): string {
+    return `${this.baseUrl}/webhook/${path.replace(/^\/+/, '')}`
+  }
+
+  /**
+   * Base URL of the configured n8n instance, for logs and deployment guides
+   */
+  instanceUrl(): string {
+    return this.baseUrl
+  }
+
+  /**
+   * A deployed workflow with its nodes and connections
+   */
+  async getWorkflow(workflowId: string): Promise<N8NDeployedWorkflow> {
+    return this.request<N8NDeployedWorkflow>('GET', `/workflows/${encodeURIComponent(workflowId)}`)
+  }
+
+  /**
+   * The deployed workflow with exactly this name, or null when there is none
+   */
+  async findWorkflowByName(name: string): Promise<N8NDeployedWorkflow | null> {
+    const result = await this.request<{ data: N8NDeployedWorkflow[] }>('GET', `/workflows?name=${encodeURIComponent(name)}&limit=250`)
+    const match = (result.data || []).find(workflow => workflow.name === name)
+    return match ? this.getWorkflow(String(match.id)) : null
+  }
+
+  /**
+   * Create a workflow; it stays inactive until activated in n8n
+   */
+  async createWorkflow(workflow: N8NWorkflowJson): Promise<N8NDeployedWorkflow> {
+    return this.request<N8NDeployedWorkflow>('POST', '/workflows', this.writableFields(workflow))
+  }
+
+  /**
+   * Replace the nodes, connections and settings of a deployed workflow
+   */
+  async updateWorkflow(workflowId: string, workflow: N8NWorkflowJson): Promise<N8NDeployedWorkflow> {
+    return this.request<N8NDeployedWorkflow>('PUT', `/workflows/${encodeURIComponent(workflowId)}`, this.writableFields(workflow))
+  }
+
+  /**
+   * Activate a workflow so its production webhooks start listening
+   */
+  async activateWorkflow(workflowId: string): Promise<N8NDeployedWorkflow> {
+    return this.request<N8NDeployedWorkflow>('POST', `/workflows/${encodeURIComponent(workflowId)}/activate`)
+  }
+
+  // The API rejects tags, staticData and meta in workflow bodies
+  private writableFields(workflow: N8NWorkflowJson): Pick<N8NWorkflowJson, 'name' | 'nodes' | 'connections' | 'settings'> {
+    const { name, nodes, connections, settings } = workflow
+    return { name, nodes, connections, settings }
+  }
+
+  /**
+   * Flatten runData into one entry per node run, in the order the runs started
+   */
+  private nodeTimeline(runData: Record<string, N8NRawNodeRun[]> = {}): N8NNodeRun[] {
+    const runs: N8NNodeRun[] = []
+
+    for (const [node, nodeRuns] of Object.entries(runData)) {
+      nodeRuns.forEach((nodeRun, run) => {
+        const status = NODE_RUN_STATUSES.find(candidate => candidate === nodeRun.executionStatus)
+        runs.push({
+          node,
+          run,
+          status: status || (nodeRun.error ? 'error' : 'success'),
+          startedAt: new Date(nodeRun.startTime ?? 0).toISOString(),
+          durationMs: nodeRun.executionTime ?? 0,
+          itemCount: (nodeRun.data?.main || []).reduce((sum, items) => sum + (items?.length || 0), 0),
+          ...(nodeRun.error && { error: nodeRun.error.description || nodeRun.error.message })
+        })
+      })
+    }
+
+    return runs.sort((a, b) => a.startedAt.localeCompare(b.startedAt) || a.run - b.run)
+  }
+
+  private toSnapshot(raw: N8NRawExecution): N8NExecutionSnapshot {
+    const resultData = raw.data?.resultData
+    const nodes = this.nodeTimeline(resultData?.runData)
+    const failedNode = nodes.find(node => node.status === 'error')
+
+    return {
+      id: String(raw.id),
+      workflowId: raw.workflowId == null ? null : String(raw.workflowId),
+      // Older n8n versions only report finished
+      status: raw.status || (raw.finished ? 'success' : raw.stoppedAt ? 'error' : 'running'),
+      finished: Boolean(raw.finished),
+      startedAt: raw.startedAt ?? null,
+      stoppedAt: raw.stoppedAt ?? null,
+      lastNodeExecuted: resultData?.lastNodeExecuted ?? null,
+      error: resultData?.error?.message
+        ?? (failedNode ? `${failedNode.node}: ${failedNode.error || 'failed'}` : null),
+      nodes
+    }
+  }
+
+  private async request<T = unknown>(method: 'GET' | 'POST' | 'PUT', path: string, body?: unknown): Promise<T> {
+    if (!this.apiKey) {
+      throw new Error('n8n API key not configured')
+    }
+
+    const response = await fetch(`${this.baseUrl}/api/v1${path}`, {
+      method,
+      headers: {
+        'Accept': 'application/json',
+        'X-N8N-API-KEY': this.apiKey,
+        ...(body !== undefined && { 'Content-Type': 'application/json' })
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    })
+
+    const text = await response.text()
+    let result: unknown = {}
+    try {
+      result = text ? JSON.parse(text) : {}
+    } catch {
+      result = { message: text.slice(0, 200) }
+    }
+
+    if (!response.ok) {
+      const message = (result as Partial<N8NApiError>).message || `${response.status} ${response.statusText}`
+      throw Object.assign(new Error(`n8n API ${method} ${path.split('?')[0]} failed: ${message}`), { status: response.status })
+    }
+
+    return result as T
+  }
+
+  /**
+   * Vite builds expose VITE_-prefixed variables; workers read process.env
+   */
+  private readEnv(name: string): string | undefined {
+    return (import.meta.env?.[`VITE_${name}`] as string | undefined) || this.readServerEnv(name)
+  }
+
+  private readServerEnv(name: string): string | undefined {
+    return typeof process !== 'undefined' ? process.env?.[name] : undefined
+  }
+}
+
+// Export singleton instance
+export const n8nApi = new N8NApiService()
@@ -3,22 +3,83 @@
 
 import { supabase } from '@/integrations/supabase/client'
 import { generateJWT } from '@/utils/jwt'
+import { publishAttemptLedger } from './publish-attempt-ledger'
+import { n8nApi } from './n8n-api'
+import { buildIdempotencyKey } from '@/utils/idempotency'
+import {
+  CURRENT_SCHEMA_VERSION,
+  SUPPORTED_SCHEMA_VERSIONS,
+  formatContractIssues,
+  parseWebhookResponse,
+  parseWorkflowCallback,
+  validateWorkflowTrigger,
+  type ContractIssue,
+  type N8NCallback,
+  type N8NSchemaVersion,
+  type N8NWebhookResponse,
+  type N8NWorkflowPayload
+} from '@/integrations/n8n/contract'
+import {
+  ACTIVE_WORKFLOW_STATUSES,
+  IllegalWorkflowTransitionError,
+  canTransition,
+  isTerminalWorkflowStatus,
+  transitionSources,
+  workflowDeadline,
+  workflowStatusFromN8N
+} from '@/utils/workflow-state'
 import type { 
-  N8NWorkflowPayload, 
-  N8NWebhookResponse, 
+  Json,
   Tables, 
+  Updates,
   WorkflowType,
-  AssetStatus 
+  WorkflowExecutionStatus,
+  AssetStatus,
+  ContentType
 } from '@/integrations/supabase/types-enhanced'
 
+export type WorkflowExecutionMatch = { id: string } | { n8nExecutionId: string }
+
+type DestinationWithAccount = Tables<'asset_destinations'> & { accounts: Tables<'accounts'> | null }
+
+export interface WorkflowReconcileSummary {
+  checked: number
+  settled: number
+  failed: number
+}
+
+// Thrown when a payload does not match the n8n contract; issues carry the precise paths
+export class N8NContractError extends Error {
+  constructor(
+    message: string,
+    public readonly schemaVersion: number | null,
+    public readonly issues: ContractIssue[]
+  ) {
+    super(`${message}: ${formatContractIssues(issues)}`)
+    this.name = 'N8NContractError'
+  }
+}
+
 export class N8NIntegrationService {
   private baseUrl: string
   private jwtSecret: string
+  // Trigger payload version; set to 1 for workflows that still read the original shape
+  private payloadSchemaVersion: N8NSchemaVersion
 
   constructor() {
-    // Using import.meta.env for Vite environment variables
-    this.baseUrl = import.meta.env.VITE_N8N_WEBHOOK_URL || 'http://localhost:5678/webhook'
-    this.jwtSecret = import.meta.env.VITE_N8N_JWT_SECRET || 'dev-secret-key'
+    this.baseUrl = this.readEnv('VITE_N8N_WEBHOOK_URL') || 'http://localhost:5678/webhook'
+    this.jwtSecret = this.readEnv('VITE_N8N_JWT_SECRET') || 'dev-secret-key'
+
+    const configuredVersion = Number(this.readEnv('VITE_N8N_PAYLOAD_SCHEMA_VERSION') || CURRENT_SCHEMA_VERSION)
+    this.payloadSchemaVersion = SUPPORTED_SCHEMA_VERSIONS.find(version => version === configuredVersion) ?? CURRENT_SCHEMA_VERSION
+  }
+
+  /**
+   * Vite builds expose import.meta.env; workers run under tsx, where only process.env exists
+   */
+  private readEnv(name: string): string | undefined {
+    return (import.meta.env?.[name] as string | undefined) ||
+      (typeof process !== 'undefined' ? process.env?.[name] : undefined)
   }
 
   /**
@@ -31,8 +92,12 @@ export class N8NIntegrationService {
       destinations?: string[]
       scheduledTime?: string
       priority?: number
+      // Include destinations that are already published
+      force?: boolean
     } = {}
   ): Promise<string | null> {
+    let executionId: string | null = null
+
     try {
       // First, get the asset details
       const { data: asset, error: assetError } = await supabase
@@ -42,6 +107,8 @@ export class N8NIntegrationService {
           asset_destinations(
             id,
             account_id,
+            status,
+            platform_post_id,
             accounts(*)
           )
         `)
@@ -52,6 +119,20 @@ export class N8NIntegrationService {
         throw new Error(`Asset not found: ${assetError?.message}`)
       }
 
+      // Never hand n8n a destination that already went out unless explicitly forced
+      const requested = options.destinations || asset.asset_destinations?.map(d => d.id) || []
+      const destinations = options.force
+        ? requested
+        : requested.filter(id => {
+            const dest = asset.asset_destinations?.find(d => d.id === id)
+            return !dest || (dest.status !== 'published' && !dest.platform_post_id)
+          })
+
+      if (requested.length > 0 && destinations.length === 0) {
+        console.log(`All destinations of asset ${assetId} are already published; workflow not triggered`)
+        return null
+      }
+
       // Create workflow execution record
       const { data: execution, error: executionError } = await supabase
         .from('workflow_executions')
@@ -59,10 +140,11 @@ export class N8NIntegrationService {
           asset_id: assetId,
           workflow_type: workflowType,
           status: 'started',
+          timeout_at: workflowDeadline(workflowType, new Date(), options.scheduledTime).toISOString(),
           input_data: {
             assetId,
             workflowType,
-            destinations: options.destinations,
+            destinations,
             scheduledTime: options.scheduledTime,
             priority: options.priority
           }
@@ -73,6 +155,7 @@ export class N8NIntegrationService {
       if (executionError || !execution) {
         throw new Error(`Failed to create workflow execution: ${executionError?.message}`)
       }
+      executionId = execution.id
 
       // Update asset status to queued
       await supabase
@@ -83,31 +166,74 @@ export class N8NIntegrationService {
         })
         .eq('id', assetId)
 
-      // Prepare N8N webhook payload
-      const payload: N8NWorkflowPayload = {
-        assetId,
-        workflowType,
-        destinations: options.destinations || asset.asset_destinations?.map(d => d.id) || [],
-        scheduledTime: options.scheduledTime,
-        metadata: {
-          executionId: execution.id,
-          asset: asset,
-          destinations: asset.asset_destinations
-        }
+      // n8n renders captions itself, so the key covers the media and content type
+      const mediaUrls = ((asset.metadata as Record<string, unknown>)?.files as string[]) || []
+      const idempotencyKeys: Record<string, string> = {}
+      for (const destinationId of destinations) {
+        idempotencyKeys[destinationId] = await buildIdempotencyKey(destinationId, {
+          contentType: asset.content_type,
+          mediaUrls
+        })
+      }
+
+      // Prepare N8N webhook payload in the configured contract version
+      const payload: N8NWorkflowPayload = this.payloadSchemaVersion === 1
+        ? {
+            assetId,
+            workflowType,
+            destinations,
+            idempotencyKeys,
+            scheduledTime: options.scheduledTime,
+            metadata: {
+              executionId: execution.id,
+              asset: asset,
+              destinations: asset.asset_destinations
+            }
+          }
+        : {
+            schemaVersion: 2,
+            executionId: execution.id,
+            workflowType,
+            assetId,
+            destinations: destinations.map(destinationId => {
+              const dest = (asset.asset_destinations as unknown as DestinationWithAccount[] | null)
+                ?.find(d => d.id === destinationId)
+              return {
+                id: destinationId,
+                accountId: dest?.account_id,
+                platform: dest?.accounts?.platform,
+                accountHandle: dest?.accounts?.account_handle ?? null,
+                idempotencyKey: idempotencyKeys[destinationId]
+              }
+            }),
+            scheduledTime: options.scheduledTime ?? null,
+            priority: options.priority ?? null,
+            asset: {
+              id: asset.id,
+              title: asset.title,
+              description: asset.description ?? null,
+              contentType: asset.content_type as ContentType,
+              mediaUrls
+            }
+          }
+
+      // A payload n8n would misread is a bug on our side, so it never leaves
+      const validation = validateWorkflowTrigger(payload)
+      if (!validation.success) {
+        throw new N8NContractError('Workflow trigger payload violates the n8n contract', validation.schemaVersion, validation.issues)
       }
 
       // Send to N8N webhook
-      const response = await this.sendWebhookRequest(workflowType, payload)
+      const response = await this.sendWebhookRequest(workflowType, validation.data)
       
       // Update execution with N8N execution ID
       if (response.executionId) {
-        await supabase
-          .from('workflow_executions')
-          .update({
-            n8n_execution_id: response.executionId,
-            status: 'running'
-          })
-          .eq('id', execution.id)
+        await this.transitionExecution({ id: execution.id }, 'running', {
+          n8n_execution_id: response.executionId
+        }).catch(error => {
+          // A run can finish before the webhook response arrives; that is not a trigger failure
+          if (!(error instanceof IllegalWorkflowTransitionError)) throw error
+        })
 
         await supabase
           .from('assets')
@@ -119,6 +245,13 @@ export class N8NIntegrationService {
 
     } catch (error) {
       console.error('Failed to trigger N8N workflow:', error)
+
+      // Do not leave the run for the sweeper when we already know it never started
+      if (executionId) {
+        await this.transitionExecution({ id: executionId }, 'failed', {
+          error_details: error instanceof Error ? error.message : 'Unknown error'
+        }).catch(transitionError => console.error('Failed to mark workflow execution failed:', transitionError))
+      }
       
       // Update asset status to failed
       await supabase
@@ -164,40 +297,86 @@ export class N8NIntegrationService {
       throw new Error(`N8N webhook failed: ${response.status} ${response.statusText} - ${errorText}`)
     }
 
-    return response.json()
+    const result = parseWebhookResponse(await response.json())
+    if (!result.success) {
+      throw new N8NContractError('N8N webhook response violates the n8n contract', result.schemaVersion, result.issues)
+    }
+
+    return result.data
+  }
+
+  /**
+   * Move an execution to a new status. The update only matches while the execution is in a
+   * status that may move there, so concurrent callbacks and the sweeper cannot both win.
+   */
+  async transitionExecution(
+    match: WorkflowExecutionMatch,
+    to: WorkflowExecutionStatus,
+    updates: Updates<'workflow_executions'> = {}
+  ): Promise<Tables<'workflow_executions'>> {
+    const [column, value] = 'id' in match ? ['id', match.id] : ['n8n_execution_id', match.n8nExecutionId]
+
+    const { data, error } = await supabase
+      .from('workflow_executions')
+      .update({ ...updates, status: to })
+      .eq(column, value)
+      .in('status', transitionSources(to))
+      .select()
+
+    if (error) {
+      throw new Error(`Failed to update workflow execution: ${error.message}`)
+    }
+
+    if (data && data.length > 0) {
+      return data[0] as unknown as Tables<'workflow_executions'>
+    }
+
+    const { data: current } = await supabase
+      .from('workflow_executions')
+      .select('id, status')
+      .eq(column, value)
+      .maybeSingle()
+
+    if (!current) {
+      throw new Error(`Workflow execution ${value} not found`)
+    }
+
+    throw new IllegalWorkflowTransitionError(value, current.status as WorkflowExecutionStatus, to)
   }
 
   /**
-   * Handle webhook responses from N8N workflows
+   * Handle webhook responses from N8N workflows. Callbacks for runs that already finished,
+   * were cancelled or timed out are rejected with an IllegalWorkflowTransitionError.
    */
-  async handleWorkflowCallback(data: {
-    executionId: string
-    status: 'completed' | 'failed'
-    assetId: string
-    destinations?: Array<{
-      id: string
-      status: string
-      platformPostId?: string
-      error?: string
-    }>
-    error?: string
-  }): Promise<void> {
+  async handleWorkflowCallback(data: N8NCallback): Promise<void> {
     try {
-      const { executionId, status, assetId, destinations, error } = data
+      const { executionId, workflowExecutionId, status, assetId, destinations, error } = data
+
+      // Version 2 callbacks name our execution directly; version 1 only knows n8n's id
+      const match: WorkflowExecutionMatch = workflowExecutionId
+        ? { id: workflowExecutionId }
+        : { n8nExecutionId: executionId }
+
+      // Progress reports only record n8n's id; repeats for a run already running are fine
+      if (status === 'running') {
+        await this.transitionExecution(match, 'running', { n8n_execution_id: executionId })
+          .catch(error => {
+            if (!(error instanceof IllegalWorkflowTransitionError && error.from === 'running')) throw error
+          })
+        return
+      }
 
-      // Update workflow execution
-      const { error: executionError } = await supabase
-        .from('workflow_executions')
-        .update({
-          status: status,
-          completed_at: new Date().toISOString(),
-          output_data: data,
-          error_details: error
-        })
-        .eq('n8n_execution_id', executionId)
+      // Nothing else is touched when the run may no longer move to this status
+      const execution = await this.transitionExecution(match, status, {
+        n8n_execution_id: executionId,
+        output_data: data as unknown as Json,
+        error_details: error ?? null
+      })
 
-      if (executionError) {
-        console.error('Failed to update workflow execution:', executionError)
+      if (status === 'cancelled') {
+        await this.releaseAsset(execution, error || 'Workflow cancelled in n8n')
+        console.log(`Workflow ${executionId} was cancelled`)
+        return
       }
 
       // Update asset status
@@ -211,20 +390,26 @@ export class N8NIntegrationService {
         })
         .eq('id', assetId)
 
-      // Update destination statuses
-      if (destinations) {
-        for (const dest of destinations) {
-          await supabase
-            .from('asset_destinations')
-            .update({
-              status: dest.status as any,
-              platform_post_id: dest.platformPostId,
-              published_at: dest.status === 'published' ? new Date().toISOString() : null,
-              error_message: dest.error,
-              publishing_attempts: supabase.rpc('increment', { x: 1 }) as any
-            })
-            .eq('id', dest.id)
-        }
+      // Update destination statuses; skipped destinations were not attempted
+      for (const dest of destinations.filter(d => d.status !== 'skipped')) {
+        await supabase
+          .from('asset_destinations')
+          .update({
+            status: dest.status as any,
+            platform_post_id: dest.platformPostId,
+            published_at: dest.status === 'published' ? (dest.publishedAt || new Date().toISOString()) : null,
+            error_message: dest.error
+          })
+          .eq('id', dest.id)
+
+        // The ledger insert bumps publishing_attempts atomically
+        await publishAttemptLedger.record(dest.id, 'n8n', {
+          success: dest.status === 'published',
+          errorClass: dest.error ? 'workflow_error' : undefined,
+          errorMessage: dest.error,
+          platformPostId: dest.platformPostId,
+          rawResponse: dest
+        }, dest.idempotencyKey)
       }
 
       console.log(`Workflow ${executionId} completed with status: ${status}`)
@@ -254,43 +439,164 @@ export class N8NIntegrationService {
   }
 
   /**
-   * Cancel a running workflow
+   * Cancel a running workflow: stop it in n8n, then release its asset. Needs N8N_API_KEY, so
+   * browser code calls /api/workflows/[executionId] instead
    */
   async cancelWorkflow(executionId: string): Promise<boolean> {
     try {
-      // Generate JWT token for authentication
-      const token = await generateJWT(this.jwtSecret, {
-        action: 'cancel',
-        executionId,
-        timestamp: Date.now()
+      if (!await n8nApi.stopExecution(executionId)) {
+        // n8n has nothing running under this id; record how it actually ended instead
+        await this.syncExecution(executionId)
+        return false
+      }
+
+      const execution = await this.transitionExecution({ n8nExecutionId: executionId }, 'cancelled')
+      await this.releaseAsset(execution, 'Workflow cancelled')
+
+      return true
+    } catch (error) {
+      console.error('Failed to cancel workflow:', error)
+      return false
+    }
+  }
+
+  /**
+   * Pull status, node timeline and errors for an execution from the n8n API. A run n8n has
+   * finished but we still consider active (its callback never arrived) is settled from n8n's view.
+   * Server-side only, like cancelWorkflow.
+   */
+  async syncExecution(n8nExecutionId: string): Promise<Tables<'workflow_executions'>> {
+    const snapshot = await n8nApi.getExecution(n8nExecutionId)
+
+    const { data, error } = await supabase
+      .from('workflow_executions')
+      .update({
+        n8n_status: snapshot.status,
+        n8n_node_runs: snapshot.nodes as unknown as Json,
+        n8n_synced_at: new Date().toISOString()
       })
+      .eq('n8n_execution_id', n8nExecutionId)
+      .select()
+      .single()
 
-      // Call N8N API to cancel execution
-      const response = await fetch(`${this.baseUrl}/executions/${executionId}/stop`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
+    if (error || !data) {
+      throw new Error(`Failed to sync workflow execution: ${error?.message}`)
+    }
+
+    const execution = data as unknown as Tables<'workflow_executions'>
+    const target = workflowStatusFromN8N(snapshot.status)
+    if (!target || !canTransition(execution.status, target)) {
+      return execution
+    }
+
+    let settled: Tables<'workflow_executions'>
+    try {
+      settled = await this.transitionExecution({ id: execution.id }, target, {
+        error_details: snapshot.error ?? execution.error_details
       })
+    } catch (transitionError) {
+      // A callback or the sweeper got there first
+      if (transitionError instanceof IllegalWorkflowTransitionError) return execution
+      throw transitionError
+    }
 
-      if (response.ok) {
-        // Update local status
+    if (isTerminalWorkflowStatus(target) && execution.asset_id) {
+      if (target === 'cancelled') {
+        await this.releaseAsset(settled, 'Workflow cancelled in n8n')
+      } else {
         await supabase
-          .from('workflow_executions')
+          .from('assets')
           .update({
-            status: 'cancelled',
-            completed_at: new Date().toISOString()
+            status: (target === 'completed' ? 'published' : 'failed') as AssetStatus,
+            published_at: target === 'completed' ? new Date().toISOString() : null,
+            last_error: target === 'completed' ? null : snapshot.error
           })
-          .eq('n8n_execution_id', executionId)
+          .eq('id', execution.asset_id)
+          .eq('workflow_id', execution.id)
+      }
+    }
+
+    await supabase
+      .from('events')
+      .insert({
+        entity_type: 'workflow',
+        entity_id: execution.id,
+        event_type: 'workflow_reconciled',
+        event_data: {
+          n8nExecutionId,
+          from: execution.status,
+          to: target,
+          n8nStatus: snapshot.status,
+          lastNodeExecuted: snapshot.lastNodeExecuted,
+          error: snapshot.error
+        }
+      })
+
+    return settled
+  }
 
-        return true
+  /**
+   * Sync active executions with n8n, oldest status change first
+   */
+  async reconcileExecutions(limit = 50): Promise<WorkflowReconcileSummary> {
+    const { data, error } = await supabase
+      .from('workflow_executions')
+      .select('n8n_execution_id, status')
+      .in('status', ACTIVE_WORKFLOW_STATUSES)
+      .not('n8n_execution_id', 'is', null)
+      .order('status_changed_at', { ascending: true })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Failed to load active workflow executions: ${error.message}`)
+    }
+
+    const summary: WorkflowReconcileSummary = { checked: 0, settled: 0, failed: 0 }
+    const rows = (data || []) as unknown as Array<{ n8n_execution_id: string; status: WorkflowExecutionStatus }>
+    for (const row of rows) {
+      summary.checked++
+      try {
+        const synced = await this.syncExecution(row.n8n_execution_id)
+        if (synced.status !== row.status) summary.settled++
+      } catch (syncError) {
+        summary.failed++
+        console.error(`Failed to reconcile workflow execution ${row.n8n_execution_id}:`, syncError)
       }
+    }
 
-      return false
-    } catch (error) {
-      console.error('Failed to cancel workflow:', error)
-      return false
+    return summary
+  }
+
+  /**
+   * Put an asset and its waiting destinations back to ready after its run ended without
+   * publishing, unless another run has taken the asset over since
+   */
+  async releaseAsset(execution: Tables<'workflow_executions'>, message: string): Promise<void> {
+    if (!execution.asset_id) return
+
+    const { error: assetError } = await supabase
+      .from('assets')
+      .update({ status: 'ready' as AssetStatus, last_error: message })
+      .eq('id', execution.asset_id)
+      .eq('workflow_id', execution.id)
+      .in('status', ['queued', 'publishing'])
+
+    if (assetError) {
+      console.error(`Failed to release asset ${execution.asset_id}:`, assetError)
+    }
+
+    // Destinations already publishing may have gone out; reconciliation settles those
+    const destinations = ((execution.input_data as { destinations?: string[] } | null)?.destinations) || []
+    if (destinations.length === 0) return
+
+    const { error: destinationError } = await supabase
+      .from('asset_destinations')
+      .update({ status: 'ready', error_message: message })
+      .in('id', destinations)
+      .eq('status', 'queued')
+
+    if (destinationError) {
+      console.error(`Failed to release destinations of asset ${execution.asset_id}:`, destinationError)
     }
   }
 
@@ -401,14 +707,39 @@ export const n8nService = {
 // Webhook endpoint handler for Next.js API routes
 export async function handleN8NWebhook(req: Request): Promise<Response> {
   try {
-    const data = await req.json()
-    await n8nService.handleWorkflowCallback(data)
+    const result = parseWorkflowCallback(await req.json())
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid payload',
+          schemaVersion: result.schemaVersion,
+          supportedVersions: SUPPORTED_SCHEMA_VERSIONS,
+          issues: result.issues
+        }),
+        {
+          status: 422,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    await n8nService.getInstance().handleWorkflowCallback(result.data)
     
     return new Response(JSON.stringify({ success: true }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' }
     })
   } catch (error) {
+    if (error instanceof IllegalWorkflowTransitionError) {
+      return new Response(
+        JSON.stringify({ error: 'Illegal workflow transition', message: error.message }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
     console.error('Webhook handler error:', error)
     
     return new Response(
@@ -3,12 +3,23 @@
 
 import { supabase } from '@/integrations/supabase/client'
 import { instagramAPI } from './instagram-api'
+import { tiktokAPI } from './tiktok-api'
+import { youtubeAPI } from './youtube-api'
+import { linkedinAPI } from './linkedin-api'
+import { facebookAPI } from './facebook-api'
 import { captionRenderer } from './caption-renderer'
+import { publishAttemptLedger } from './publish-attempt-ledger'
+import { quotaGovernor } from './quota-governor'
+import { buildIdempotencyKey } from '@/utils/idempotency'
 import type { 
   Tables, 
   Platform, 
   ContentType, 
-  InstagramPublishResponse 
+  InstagramPublishResponse,
+  RenderedCaption,
+  RenderedCaptionSource,
+  DestinationPublishOptions,
+  PostPublishActionResult
 } from '@/integrations/supabase/types-enhanced'
 
 interface PublishRequest {
@@ -16,26 +27,94 @@ interface PublishRequest {
   destinationId: string
   mediaUrls: string | string[]
   contentType: ContentType
+  // Used when the destination has no locked or experiment caption; rendered from templates if omitted
   caption?: string
   scheduledTime?: string
+  // Republish even if the destination is already published
+  force?: boolean
 }
 
 interface PublishResponse {
   success: boolean
   platformPostId?: string
   error?: string
+  httpStatus?: number
+  // The platform may have created the post despite the failure (timeout, 5xx)
+  ambiguous?: boolean
+  // Destination was already published; nothing was sent to the platform
+  alreadyPublished?: boolean
+  // Post was found on the platform after an ambiguous failure instead of being republished
+  reconciled?: boolean
+  // Held back by a rate limit or quota; retry at deferUntil instead of counting it as a failure
+  deferred?: boolean
+  deferUntil?: string
+  // Follow-ups run once the post was live, such as the first comment
+  postActions?: PostPublishActionResult[]
   response?: any
 }
 
+// Caption chosen for a publish, before it is stored with the attempt
+interface PreparedCaption {
+  text: string
+  source: RenderedCaptionSource
+  // Stored caption being reused (locked or experiment-assigned)
+  captionId?: string
+  // Freshly rendered caption, stored with its template and version
+  rendered?: RenderedCaption
+  // Hashtags the template placed in the first comment
+  firstComment?: string
+}
+
+const FALLBACK_CAPTION = 'Check this out!'
+
+// Where in the publish pipeline a failure happened, recorded as the attempt's error class
+type PublishStage = 'lookup' | 'validation' | 'caption' | 'claim' | 'reconcile' | 'publish'
+
+// Upper bound for one adapter publish call; past this the outcome is unknown
+const PUBLISH_TIMEOUT_MS = 10 * 60 * 1000
+
+// Services attach the HTTP status of a failed platform call to the thrown error
+function httpStatusOf(error: unknown): number | undefined {
+  const status = (error as { status?: unknown })?.status
+  return typeof status === 'number' ? status : undefined
+}
+
+function isAmbiguousStatus(status: number | undefined): boolean {
+  return status === 408 || (status !== undefined && status >= 500)
+}
+
+// Graph API error codes for app, user, page and publishing rate limits
+const GRAPH_RATE_LIMIT_CODES = [4, 9, 17, 32, 613]
+
+function isRateLimited(result: PublishResponse): boolean {
+  if (result.httpStatus === 429) return true
+  if (result.httpStatus === 403 && /quota/i.test(result.error || '')) return true // YouTube quotaExceeded
+  return GRAPH_RATE_LIMIT_CODES.includes(result.response?.error?.code)
+}
+
+// Timeouts, dropped connections and server errors leave it unknown whether the post went out
+function isAmbiguousFailure(error: unknown): boolean {
+  const status = httpStatusOf(error)
+  if (status !== undefined) return isAmbiguousStatus(status)
+
+  const name = (error as { name?: string })?.name
+  const message = error instanceof Error ? error.message : ''
+  return name === 'AbortError' || name === 'TimeoutError' || error instanceof TypeError || /timeout/i.test(message)
+}
+
 interface PlatformAPI {
   validateAccount(accountId: string): Promise<boolean>
   publishContent(
     accountId: string, 
     mediaUrls: string | string[], 
     contentType: ContentType, 
-    caption?: string
+    caption?: string,
+    options?: DestinationPublishOptions
   ): Promise<PublishResponse>
   refreshToken?(accountId: string): Promise<boolean>
+  findRecentPost?(accountId: string, caption: string | undefined, since: Date): Promise<string | null>
+  // Platforms that can comment on their own posts; used for the first comment
+  postComment?(accountId: string, postId: string, message: string): Promise<string>
 }
 
 export class MultiPlatformPublisher {
@@ -55,6 +134,10 @@ export class MultiPlatformPublisher {
    * Publish content to specific platform
    */
   async publishToPlatform(request: PublishRequest): Promise<PublishResponse> {
+    let attempt: Awaited<ReturnType<typeof publishAttemptLedger.start>> = null
+    let stage: PublishStage = 'lookup'
+    let claimed = false
+
     try {
       // Get destination and account info
       const { data: destination, error: destError } = await supabase
@@ -73,48 +156,147 @@ export class MultiPlatformPublisher {
       const account = destination.accounts as Tables<'accounts'>
       const platform = account.platform as Platform
 
-      // Update destination status to publishing
-      await supabase
-        .from('asset_destinations')
-        .update({ status: 'publishing' })
-        .eq('id', request.destinationId)
-
       // Get platform API
       const platformAPI = this.platformAPIs[platform]
       if (!platformAPI) {
         throw new Error(`Platform ${platform} not supported`)
       }
 
-      // Validate account connection
-      const isValid = await platformAPI.validateAccount(account.id)
-      if (!isValid) {
-        throw new Error(`${platform} account not connected or invalid`)
+      // Hold the publish back if it would exceed the account's quota
+      const quota = await quotaGovernor.checkQuota(account.id, platform)
+      if (!quota.allowed) {
+        await supabase
+          .from('asset_destinations')
+          .update({ next_retry_at: quota.deferUntil })
+          .eq('id', request.destinationId)
+
+        return {
+          success: false,
+          deferred: true,
+          deferUntil: quota.deferUntil,
+          error: quota.reason
+        }
       }
 
-      // Render caption if not provided
-      let caption = request.caption
-      if (!caption) {
-        caption = await this.generateCaption(request.assetId, platform)
-      }
+      // Pick the caption; it is part of the idempotency key
+      stage = 'caption'
+      const prepared = await this.prepareCaption(request, platform)
+      const caption = prepared.text
+      const publishOptions = this.resolvePublishOptions(destination.publish_options, prepared)
 
-      // Publish content
-      const result = await platformAPI.publishContent(
-        account.id,
-        request.mediaUrls,
-        request.contentType,
+      const idempotencyKey = await buildIdempotencyKey(request.destinationId, {
+        contentType: request.contentType,
+        mediaUrls: request.mediaUrls,
         caption
-      )
+      })
 
-      // Update destination with result
+      // Atomically move the destination to publishing, refusing published or in-flight ones
+      stage = 'claim'
+      const { data: claims, error: claimError } = await supabase.rpc('claim_destination_for_publish', {
+        destination_id: request.destinationId,
+        idempotency_key: idempotencyKey,
+        force: !!request.force
+      })
+
+      if (claimError) {
+        throw new Error(`Failed to claim destination: ${claimError.message}`)
+      }
+
+      const claim = claims?.[0]
+      if (!claim?.claimed) {
+        if (claim?.reason === 'already_published') {
+          return {
+            success: true,
+            platformPostId: claim.platform_post_id || undefined,
+            alreadyPublished: true
+          }
+        }
+
+        return {
+          success: false,
+          error: claim?.reason === 'in_progress'
+            ? 'Destination is already being published'
+            : 'Destination could not be claimed for publishing'
+        }
+      }
+      claimed = true
+
+      // Store the exact caption and open the ledger row before anything can fail on the platform side
+      const renderedCaptionId = await this.persistCaption(request.destinationId, prepared)
+      attempt = await publishAttemptLedger.start(request.destinationId, platform, idempotencyKey, renderedCaptionId)
+
+      let result: PublishResponse | null = null
+
+      // A previous try of the same content ended ambiguously; check the platform first
+      if (claim.needs_reconcile && claim.previous_idempotency_key === idempotencyKey) {
+        stage = 'reconcile'
+        const since = new Date(destination.publish_claimed_at || destination.updated_at)
+        // A failed lookup throws rather than risk posting the same content twice
+        result = await this.reconcile(platformAPI, account.id, caption, since)
+      }
+
+      if (!result) {
+        // Validate account connection, refreshing an expired token once if supported
+        stage = 'validation'
+        let isValid = await platformAPI.validateAccount(account.id)
+        if (!isValid && platformAPI.refreshToken) {
+          const refreshed = await platformAPI.refreshToken(account.id)
+          isValid = refreshed && await platformAPI.validateAccount(account.id)
+        }
+        if (!isValid) {
+          throw new Error(`${platform} account not connected or invalid`)
+        }
+
+        // Publish content
+        stage = 'publish'
+        const publishStartedAt = new Date()
+        result = await this.publishWithTimeout(platformAPI, account.id, request, caption, publishOptions)
+
+        if (!result.success && isRateLimited(result)) {
+          const deferUntil = quotaGovernor.defaultDeferUntil()
+          await quotaGovernor.recordThrottle(account.id, platform, deferUntil, result.error || `${platform} rate limit`)
+          result = { ...result, ambiguous: false, deferred: true, deferUntil: deferUntil.toISOString() }
+        }
+
+        if (!result.success && result.ambiguous) {
+          const failure = result
+          result = await this.reconcile(platformAPI, account.id, caption, publishStartedAt, failure)
+            .catch(error => {
+              // Unknown either way; needs_reconcile stays set for the next try
+              console.error('Publish reconcile failed:', error)
+              return null
+            }) || failure
+        }
+      }
+
+      if (result.success) {
+        result = await this.applyPostPublishActions(platformAPI, account.id, result, publishOptions)
+      }
+
+      await publishAttemptLedger.finish(attempt, {
+        success: result.success,
+        httpStatus: result.httpStatus,
+        errorClass: result.success
+          ? undefined
+          : result.deferred ? 'rate_limited' : result.ambiguous ? 'ambiguous_failure' : 'platform_rejected',
+        errorMessage: result.error,
+        platformPostId: result.platformPostId,
+        rawResponse: result.response
+      })
+
+      // Update destination with result; publishing_attempts is derived from the ledger
       await supabase
         .from('asset_destinations')
         .update({
-          status: result.success ? 'published' : 'failed',
+          // Rate-limited destinations go back in the queue rather than failing
+          status: result.success ? 'published' : result.deferred ? 'queued' : 'failed',
           platform_post_id: result.platformPostId,
           published_at: result.success ? new Date().toISOString() : null,
           error_message: result.error,
           platform_response: result.response,
-          publishing_attempts: supabase.rpc('increment', { x: 1 }) as any
+          next_retry_at: result.deferred ? result.deferUntil : null,
+          // Keep the flag so the next try checks the platform before posting again
+          needs_reconcile: !result.success && !!result.ambiguous
         })
         .eq('id', request.destinationId)
 
@@ -128,6 +310,8 @@ export class MultiPlatformPublisher {
           event_data: {
             platform,
             assetId: request.assetId,
+            idempotencyKey,
+            reconciled: !!result.reconciled,
             result
           }
         })
@@ -136,16 +320,26 @@ export class MultiPlatformPublisher {
 
     } catch (error) {
       console.error('Platform publishing failed:', error)
-      
-      // Update destination status to failed
-      await supabase
-        .from('asset_destinations')
-        .update({
-          status: 'failed',
-          error_message: error instanceof Error ? error.message : 'Unknown error',
-          publishing_attempts: supabase.rpc('increment', { x: 1 }) as any
-        })
-        .eq('id', request.destinationId)
+
+      await publishAttemptLedger.finish(attempt, {
+        success: false,
+        httpStatus: httpStatusOf(error),
+        errorClass: `${stage}_error`,
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      })
+
+      // Only touch the destination if this call owns it; otherwise a concurrent
+      // or finished publish would be overwritten
+      if (claimed) {
+        await supabase
+          .from('asset_destinations')
+          .update({
+            status: 'failed',
+            error_message: error instanceof Error ? error.message : 'Unknown error',
+            needs_reconcile: stage === 'publish' || stage === 'reconcile'
+          })
+          .eq('id', request.destinationId)
+      }
 
       return {
         success: false,
@@ -158,8 +352,18 @@ export class MultiPlatformPublisher {
    * Batch publish to multiple platforms
    */
   async batchPublish(requests: PublishRequest[]): Promise<PublishResponse[]> {
+    // The same destination twice in one batch is published once and shares the result
+    const inFlight = new Map<string, Promise<PublishResponse>>()
+
     const results = await Promise.allSettled(
-      requests.map(request => this.publishToPlatform(request))
+      requests.map(request => {
+        const existing = inFlight.get(request.destinationId)
+        if (existing) return existing
+
+        const publish = this.publishToPlatform(request)
+        inFlight.set(request.destinationId, publish)
+        return publish
+      })
     )
 
     return results.map(result => 
@@ -170,9 +374,173 @@ export class MultiPlatformPublisher {
   }
 
   /**
-   * Generate platform-specific caption
+   * Whether the platform adapter can refresh tokens without the user reconnecting
+   */
+  canRefreshToken(platform: Platform): boolean {
+    return !!this.platformAPIs[platform]?.refreshToken
+  }
+
+  /**
+   * Refresh an account's token through its platform adapter
+   */
+  async refreshAccountToken(accountId: string, platform: Platform): Promise<boolean> {
+    const platformAPI = this.platformAPIs[platform]
+    if (!platformAPI?.refreshToken) {
+      return false
+    }
+    return platformAPI.refreshToken(accountId)
+  }
+
+  /**
+   * Call the adapter, turning an overrun into an ambiguous failure
+   */
+  private async publishWithTimeout(
+    platformAPI: PlatformAPI,
+    accountId: string,
+    request: PublishRequest,
+    caption: string,
+    options: DestinationPublishOptions
+  ): Promise<PublishResponse> {
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const timeout = new Promise<PublishResponse>(resolve => {
+      timer = setTimeout(() => resolve({
+        success: false,
+        ambiguous: true,
+        error: `Publish timed out after ${PUBLISH_TIMEOUT_MS / 1000}s`
+      }), PUBLISH_TIMEOUT_MS)
+    })
+
+    try {
+      return await Promise.race([
+        platformAPI.publishContent(accountId, request.mediaUrls, request.contentType, caption, options),
+        timeout
+      ])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /**
+   * The destination's publish options, with hashtags the template moved to the first comment
+   * added after the destination's own first comment
+   */
+  private resolvePublishOptions(stored: unknown, prepared: PreparedCaption): DestinationPublishOptions {
+    const options = (stored || {}) as DestinationPublishOptions
+    const firstComment = [options.firstComment?.trim(), prepared.firstComment].filter(Boolean).join('\n\n')
+    return { ...options, firstComment: firstComment || undefined }
+  }
+
+  /**
+   * Run what follows a live post, such as the first comment. A failure is recorded on the
+   * result but does not fail the publish; the post is already up.
+   */
+  private async applyPostPublishActions(
+    platformAPI: PlatformAPI,
+    accountId: string,
+    result: PublishResponse,
+    options: DestinationPublishOptions
+  ): Promise<PublishResponse> {
+    if (!options.firstComment || !result.platformPostId || !platformAPI.postComment) {
+      return result
+    }
+
+    let action: PostPublishActionResult
+    try {
+      const commentId = await platformAPI.postComment(accountId, result.platformPostId, options.firstComment)
+      action = { action: 'first_comment', status: 'succeeded', id: commentId }
+    } catch (error) {
+      console.error('First comment failed:', error)
+      action = {
+        action: 'first_comment',
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+
+    const postActions = [action]
+    return { ...result, postActions, response: { ...result.response, post_actions: postActions } }
+  }
+
+  /**
+   * Ask the platform whether the post already exists. Returns a success result when it does,
+   * or null when it does not or the adapter cannot look posts up.
+   */
+  private async reconcile(
+    platformAPI: PlatformAPI,
+    accountId: string,
+    caption: string,
+    since: Date,
+    failure?: PublishResponse
+  ): Promise<PublishResponse | null> {
+    if (!platformAPI.findRecentPost) {
+      return null
+    }
+
+    const platformPostId = await platformAPI.findRecentPost(accountId, caption, since)
+    if (!platformPostId) {
+      return null
+    }
+
+    return {
+      success: true,
+      platformPostId,
+      reconciled: true,
+      response: {
+        reconciled: true,
+        reconciled_at: new Date().toISOString(),
+        failure: failure ? { error: failure.error, httpStatus: failure.httpStatus } : undefined
+      }
+    }
+  }
+
+  /**
+   * Choose the caption to publish: a locked or experiment-assigned caption always wins so
+   * regeneration never overwrites it, then the caption in the request, then a rendered one
+   */
+  private async prepareCaption(request: PublishRequest, platform: Platform): Promise<PreparedCaption> {
+    const stored = await captionRenderer.getPublishCaption(request.destinationId)
+    if (stored) {
+      return { text: stored.rendered_text, source: stored.source, captionId: stored.id }
+    }
+
+    if (request.caption) {
+      return { text: request.caption, source: 'request' }
+    }
+
+    return this.generateCaption(request.assetId, platform, request.destinationId)
+  }
+
+  /**
+   * Record the caption of an attempt; returns the stored caption id. Caption history
+   * must never block a publish.
+   */
+  private async persistCaption(destinationId: string, prepared: PreparedCaption): Promise<string | null> {
+    if (prepared.captionId) return prepared.captionId
+
+    try {
+      if (prepared.rendered) {
+        return await captionRenderer.saveRenderedCaption(
+          destinationId,
+          prepared.rendered.templateId ?? null,
+          prepared.rendered,
+          null,
+          prepared.source
+        )
+      }
+      return (await captionRenderer.saveCaptionText(destinationId, prepared.text, prepared.source)).id
+    } catch (error) {
+      console.error('Failed to store published caption:', error)
+      return null
+    }
+  }
+
+  /**
+   * Generate platform-specific caption in the language of the destination's account
    */
-  private async generateCaption(assetId: string, platform: Platform): Promise<string> {
+  private async generateCaption(assetId: string, platform: Platform, destinationId: string): Promise<PreparedCaption> {
+    const fallback: PreparedCaption = { text: FALLBACK_CAPTION, source: 'fallback' }
+
     try {
       const { data: asset, error } = await supabase
         .from('assets')
@@ -181,20 +549,36 @@ export class MultiPlatformPublisher {
         .single()
 
       if (error || !asset) {
-        return 'Check this out!'
+        return fallback
       }
 
-      const suggestions = await captionRenderer.generateSuggestions(asset, platform, 1)
-      return suggestions[0]?.text || 'Check this out!'
+      const [suggestion] = await captionRenderer.generateSuggestions(asset, platform, 1, { destinationId })
+      const platformVersion = suggestion?.platformSpecific[platform]
+      if (!suggestion || !platformVersion?.text) {
+        return fallback
+      }
+
+      // Publish and store the text fitted to the platform, not the raw template output
+      return {
+        text: platformVersion.text,
+        source: suggestion.templateId ? 'template' : 'fallback',
+        rendered: {
+          ...suggestion,
+          text: platformVersion.text,
+          hashtags: platformVersion.hashtags,
+          characterCount: platformVersion.text.length
+        },
+        firstComment: platformVersion.firstComment
+      }
 
     } catch (error) {
       console.error('Caption generation failed:', error)
-      return 'Check this out!'
+      return fallback
     }
   }
 
   /**
-   * Get publishing status for all destinations of an asset
+   * Get publishing status for all destinations of an asset, including attempt history
    */
   async getPublishingStatus(assetId: string): Promise<Record<string, any>> {
     const { data: destinations, error } = await supabase
@@ -209,6 +593,10 @@ export class MultiPlatformPublisher {
       throw new Error(`Failed to get publishing status: ${error.message}`)
     }
 
+    const history = await publishAttemptLedger.getHistory(
+      destinations?.map(dest => dest.id) || []
+    )
+
     return destinations?.reduce((acc, dest) => {
       const account = dest.accounts as Tables<'accounts'>
       acc[account.platform] = {
@@ -216,7 +604,18 @@ export class MultiPlatformPublisher {
         platformPostId: dest.platform_post_id,
         publishedAt: dest.published_at,
         error: dest.error_message,
-        attempts: dest.publishing_attempts
+        attempts: dest.publishing_attempts,
+        history: (history[dest.id] || []).map(attempt => ({
+          attemptNumber: attempt.attempt_number,
+          adapter: attempt.adapter,
+          status: attempt.status,
+          startedAt: attempt.started_at,
+          finishedAt: attempt.finished_at,
+          durationMs: attempt.duration_ms,
+          httpStatus: attempt.http_status,
+          errorClass: attempt.error_class,
+          error: attempt.error_message
+        }))
       }
       return acc
     }, {} as Record<string, any>) || {}
@@ -230,18 +629,24 @@ class InstagramPlatformAdapter implements PlatformAPI {
     return instagramAPI.validateAccount(accountId)
   }
 
+  async findRecentPost(accountId: string, caption: string | undefined, since: Date): Promise<string | null> {
+    return instagramAPI.findRecentPost(accountId, caption, since)
+  }
+
   async publishContent(
     accountId: string,
     mediaUrls: string | string[],
     contentType: ContentType,
-    caption?: string
+    caption?: string,
+    options?: DestinationPublishOptions
   ): Promise<PublishResponse> {
     try {
       const result = await instagramAPI.uploadAndPublish(
         accountId,
         mediaUrls,
         contentType,
-        caption
+        caption,
+        options
       )
 
       return {
@@ -253,11 +658,17 @@ class InstagramPlatformAdapter implements PlatformAPI {
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Instagram publish failed'
+        error: error instanceof Error ? error.message : 'Instagram publish failed',
+        httpStatus: httpStatusOf(error),
+        ambiguous: isAmbiguousFailure(error)
       }
     }
   }
 
+  async postComment(accountId: string, postId: string, message: string): Promise<string> {
+    return instagramAPI.postComment(accountId, postId, message)
+  }
+
   async refreshToken(accountId: string): Promise<boolean> {
     return instagramAPI.refreshAccessToken(accountId)
   }
@@ -265,9 +676,11 @@ class InstagramPlatformAdapter implements PlatformAPI {
 
 class TikTokPlatformAdapter implements PlatformAPI {
   async validateAccount(accountId: string): Promise<boolean> {
-    // TODO: Implement TikTok account validation
-    console.log('TikTok validation not implemented yet')
-    return false
+    return tiktokAPI.validateAccount(accountId)
+  }
+
+  async findRecentPost(accountId: string, caption: string | undefined, since: Date): Promise<string | null> {
+    return tiktokAPI.findRecentPost(accountId, caption, since)
   }
 
   async publishContent(
@@ -276,45 +689,47 @@ class TikTokPlatformAdapter implements PlatformAPI {
     contentType: ContentType,
     caption?: string
   ): Promise<PublishResponse> {
-    // TODO: Implement TikTok publishing via API
-    // TikTok API is more restrictive and may require different approach
-    
-    return {
-      success: false,
-      error: 'TikTok publishing not implemented yet'
-    }
-  }
-}
-
-class LinkedInPlatformAdapter implements PlatformAPI {
-  async validateAccount(accountId: string): Promise<boolean> {
     try {
-      const { data: account, error } = await supabase
-        .from('accounts')
-        .select('*')
-        .eq('id', accountId)
-        .eq('platform', 'linkedin')
-        .single()
+      if (contentType !== 'reel') {
+        throw new Error(`TikTok does not support ${contentType} posts`)
+      }
 
-      if (error || !account?.access_token) {
-        return false
+      const videoUrl = Array.isArray(mediaUrls) ? mediaUrls[0] : mediaUrls
+      if (!videoUrl) {
+        throw new Error('TikTok publish requires a video URL')
       }
 
-      // Test LinkedIn API connection
-      const response = await fetch('https://api.linkedin.com/v2/me', {
-        headers: {
-          'Authorization': `Bearer ${account.access_token}`,
-          'cache-control': 'no-cache',
-          'X-Restli-Protocol-Version': '2.0.0'
-        }
-      })
+      const result = await tiktokAPI.uploadAndPublish(accountId, videoUrl, caption)
 
-      return response.ok
+      return {
+        success: true,
+        platformPostId: result.post_id || result.publish_id,
+        response: result
+      }
     } catch (error) {
-      return false
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'TikTok publish failed',
+        httpStatus: httpStatusOf(error),
+        ambiguous: isAmbiguousFailure(error)
+      }
     }
   }
 
+  async refreshToken(accountId: string): Promise<boolean> {
+    return tiktokAPI.refreshAccessToken(accountId)
+  }
+}
+
+class LinkedInPlatformAdapter implements PlatformAPI {
+  async validateAccount(accountId: string): Promise<boolean> {
+    return linkedinAPI.validateAccount(accountId)
+  }
+
+  async findRecentPost(accountId: string, caption: string | undefined, since: Date): Promise<string | null> {
+    return linkedinAPI.findRecentPost(accountId, caption, since)
+  }
+
   async publishContent(
     accountId: string,
     mediaUrls: string | string[],
@@ -322,68 +737,24 @@ class LinkedInPlatformAdapter implements PlatformAPI {
     caption?: string
   ): Promise<PublishResponse> {
     try {
-      const { data: account, error } = await supabase
-        .from('accounts')
-        .select('*')
-        .eq('id', accountId)
-        .single()
-
-      if (error || !account) {
-        throw new Error('LinkedIn account not found')
-      }
-
-      // LinkedIn publishing logic
-      const personURN = account.account_metadata?.person_urn || 
-                       `urn:li:person:${account.account_metadata?.linkedin_id}`
-
-      let sharePayload: any = {
-        author: personURN,
-        lifecycleState: 'PUBLISHED',
-        specificContent: {
-          'com.linkedin.ugc.ShareContent': {
-            shareCommentary: {
-              text: caption || ''
-            },
-            shareMediaCategory: 'NONE'
-          }
-        },
-        visibility: {
-          'com.linkedin.ugc.MemberNetworkVisibility': 'PUBLIC'
-        }
-      }
-
-      // Add media if provided (simplified - LinkedIn media upload is complex)
-      if (typeof mediaUrls === 'string' && contentType === 'single_image') {
-        sharePayload.specificContent['com.linkedin.ugc.ShareContent'].shareMediaCategory = 'IMAGE'
-        // Media upload would require additional API calls
-      }
-
-      const response = await fetch('https://api.linkedin.com/v2/ugcPosts', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${account.access_token}`,
-          'Content-Type': 'application/json',
-          'X-Restli-Protocol-Version': '2.0.0'
-        },
-        body: JSON.stringify(sharePayload)
-      })
-
-      const result = await response.json()
-
-      if (!response.ok) {
-        throw new Error(result.message || 'LinkedIn publish failed')
-      }
+      const result = await linkedinAPI.uploadAndPublish(
+        accountId,
+        mediaUrls,
+        contentType,
+        caption
+      )
 
       return {
         success: true,
         platformPostId: result.id,
         response: result
       }
-
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'LinkedIn publish failed'
+        error: error instanceof Error ? error.message : 'LinkedIn publish failed',
+        httpStatus: httpStatusOf(error),
+        ambiguous: isAmbiguousFailure(error)
       }
     }
   }
@@ -391,30 +762,53 @@ class LinkedInPlatformAdapter implements PlatformAPI {
 
 class FacebookPlatformAdapter implements PlatformAPI {
   async validateAccount(accountId: string): Promise<boolean> {
-    try {
-      const { data: account, error } = await supabase
-        .from('accounts')
-        .select('*')
-        .eq('id', accountId)
-        .eq('platform', 'facebook')
-        .single()
-
-      if (error || !account?.access_token) {
-        return false
-      }
+    return facebookAPI.validateAccount(accountId)
+  }
 
-      // Test Facebook Graph API
-      const pageId = account.account_metadata?.page_id
-      if (!pageId) return false
+  async findRecentPost(accountId: string, caption: string | undefined, since: Date): Promise<string | null> {
+    return facebookAPI.findRecentPost(accountId, caption, since)
+  }
 
-      const response = await fetch(`https://graph.facebook.com/v18.0/${pageId}?access_token=${account.access_token}`)
-      return response.ok
+  async publishContent(
+    accountId: string,
+    mediaUrls: string | string[],
+    contentType: ContentType,
+    caption?: string,
+    options?: DestinationPublishOptions
+  ): Promise<PublishResponse> {
+    const result = await facebookAPI.uploadAndPublish(
+      accountId,
+      mediaUrls,
+      contentType,
+      caption,
+      options
+    )
 
-    } catch (error) {
-      return false
+    // Phase log is kept in the response so it lands in platform_response either way
+    return {
+      success: !result.error,
+      platformPostId: result.id || undefined,
+      error: result.error?.message,
+      httpStatus: result.error?.http_status,
+      ambiguous: !!result.error && isAmbiguousStatus(result.error.http_status),
+      response: result
     }
   }
 
+  async postComment(accountId: string, postId: string, message: string): Promise<string> {
+    return facebookAPI.postComment(accountId, postId, message)
+  }
+}
+
+class YouTubePlatformAdapter implements PlatformAPI {
+  async validateAccount(accountId: string): Promise<boolean> {
+    return youtubeAPI.validateAccount(accountId)
+  }
+
+  async findRecentPost(accountId: string, caption: string | undefined, since: Date): Promise<string | null> {
+    return youtubeAPI.findRecentPost(accountId, caption, since)
+  }
+
   async publishContent(
     accountId: string,
     mediaUrls: string | string[],
@@ -422,93 +816,34 @@ class FacebookPlatformAdapter implements PlatformAPI {
     caption?: string
   ): Promise<PublishResponse> {
     try {
-      const { data: account, error } = await supabase
-        .from('accounts')
-        .select('*')
-        .eq('id', accountId)
-        .single()
-
-      if (error || !account) {
-        throw new Error('Facebook account not found')
-      }
-
-      const pageId = account.account_metadata?.page_id
-      if (!pageId) {
-        throw new Error('Facebook page ID not configured')
-      }
-
-      let endpoint = `https://graph.facebook.com/v18.0/${pageId}/feed`
-      let payload: any = {
-        message: caption || '',
-        access_token: account.access_token
+      if (contentType !== 'reel') {
+        throw new Error(`YouTube only supports Shorts, not ${contentType} posts`)
       }
 
-      // Handle media posts
-      if (typeof mediaUrls === 'string') {
-        if (contentType === 'single_image') {
-          endpoint = `https://graph.facebook.com/v18.0/${pageId}/photos`
-          payload = {
-            url: mediaUrls,
-            caption: caption || '',
-            access_token: account.access_token
-          }
-        } else if (contentType === 'reel') {
-          endpoint = `https://graph.facebook.com/v18.0/${pageId}/videos`
-          payload = {
-            file_url: mediaUrls,
-            description: caption || '',
-            access_token: account.access_token
-          }
-        }
+      const videoUrl = Array.isArray(mediaUrls) ? mediaUrls[0] : mediaUrls
+      if (!videoUrl) {
+        throw new Error('YouTube publish requires a video URL')
       }
 
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded'
-        },
-        body: new URLSearchParams(payload)
-      })
-
-      const result = await response.json()
-
-      if (!response.ok) {
-        throw new Error(result.error?.message || 'Facebook publish failed')
-      }
+      const result = await youtubeAPI.uploadShort(accountId, videoUrl, caption)
 
       return {
         success: true,
         platformPostId: result.id,
         response: result
       }
-
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Facebook publish failed'
+        error: error instanceof Error ? error.message : 'YouTube publish failed',
+        httpStatus: httpStatusOf(error),
+        ambiguous: isAmbiguousFailure(error)
       }
     }
   }
-}
-
-class YouTubePlatformAdapter implements PlatformAPI {
-  async validateAccount(accountId: string): Promise<boolean> {
-    // YouTube API validation would be implemented here
-    console.log('YouTube validation not implemented yet')
-    return false
-  }
 
-  async publishContent(
-    accountId: string,
-    mediaUrls: string | string[],
-    contentType: ContentType,
-    caption?: string
-  ): Promise<PublishResponse> {
-    // YouTube Shorts API would be implemented here
-    return {
-      success: false,
-      error: 'YouTube publishing not implemented yet'
-    }
+  async refreshToken(accountId: string): Promise<boolean> {
+    return youtubeAPI.refreshAccessToken(accountId)
   }
 }
 
@@ -516,12 +851,18 @@ class YouTubePlatformAdapter implements PlatformAPI {
 export const multiPlatformPublisher = new MultiPlatformPublisher()
 
 // Supported platforms and their capabilities
+// Aspect ratios are width / height; preflight validation enforces these limits
 export const PLATFORM_CAPABILITIES = {
   instagram: {
     contentTypes: ['reel', 'single_image', 'carousel', 'story'],
     maxVideoLength: 90, // seconds
+    maxVideoSize: 1024 * 1024 * 1024, // 1GB
     maxImageSize: 8 * 1024 * 1024, // 8MB
-    maxCarouselItems: 10
+    minCarouselItems: 2,
+    maxCarouselItems: 10,
+    imageAspectRatio: { min: 0.8, max: 1.91 }, // 4:5 to 1.91:1
+    publishOptions: ['firstComment', 'collaborators', 'userTags', 'locationId', 'altText'],
+    maxCollaborators: 3
   },
   tiktok: {
     contentTypes: ['reel'],
@@ -531,17 +872,24 @@ export const PLATFORM_CAPABILITIES = {
   linkedin: {
     contentTypes: ['single_image', 'carousel'],
     maxImageSize: 5 * 1024 * 1024, // 5MB
-    maxCarouselItems: 9
+    minCarouselItems: 2,
+    maxCarouselItems: 9,
+    imageAspectRatio: { min: 1 / 2.4, max: 2.4 }
   },
   facebook: {
     contentTypes: ['reel', 'single_image', 'carousel'],
     maxVideoLength: 240, // seconds
+    maxVideoSize: 1024 * 1024 * 1024, // 1GB
     maxImageSize: 4 * 1024 * 1024, // 4MB
-    maxCarouselItems: 10
+    minCarouselItems: 2,
+    maxCarouselItems: 10,
+    videoAspectRatio: { min: 9 / 16, max: 9 / 16 }, // Reels must be vertical
+    publishOptions: ['firstComment', 'locationId', 'altText']
   },
   youtube: {
     contentTypes: ['reel'], // YouTube Shorts
     maxVideoLength: 60, // seconds
-    maxVideoSize: 256 * 1024 * 1024 // 256MB
+    maxVideoSize: 256 * 1024 * 1024, // 256MB
+    videoAspectRatio: { max: 1 } // Shorts are vertical or square
   }
-} as const
\ No newline at end of file
+} as const
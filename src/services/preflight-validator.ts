@@ -0,0 +1,454 @@
+// Preflight Validator
+// Checks an asset against the limits of every destination's platform before it can be published
+
+import { supabase } from '@/integrations/supabase/client'
+import { PLATFORM_CAPABILITIES } from './platform-publisher'
+import { captionRenderer } from './caption-renderer'
+import { lintCaption } from '@/utils/caption-lint'
+import type {
+  Tables,
+  Platform,
+  ContentType,
+  PreflightCheck,
+  PreflightReport,
+  BrandVoice,
+  CaptionPolicy,
+  CaptionLintIssue,
+  DestinationPublishOptions,
+  PublishOption
+} from '@/integrations/supabase/types-enhanced'
+
+interface AspectRatioRange {
+  readonly min?: number
+  readonly max?: number
+}
+
+interface PlatformLimits {
+  readonly contentTypes: readonly string[]
+  readonly maxVideoLength?: number
+  readonly maxVideoSize?: number
+  readonly maxImageSize?: number
+  readonly minCarouselItems?: number
+  readonly maxCarouselItems?: number
+  readonly videoAspectRatio?: AspectRatioRange
+  readonly imageAspectRatio?: AspectRatioRange
+  readonly publishOptions?: readonly PublishOption[]
+  readonly maxCollaborators?: number
+}
+
+interface ReelMeta {
+  duration_seconds: number | null
+  file_size_mb: number | null
+  aspect_ratio: string | null
+}
+
+interface CarouselMeta {
+  image_count: number | null
+  image_urls: string[] | null
+  aspect_ratio: string | null
+}
+
+interface PreflightInput {
+  asset: Tables<'assets'>
+  reelMeta?: ReelMeta | null
+  carouselMeta?: CarouselMeta | null
+  destinations: PreflightDestination[]
+}
+
+interface PreflightDestination {
+  id: string
+  platform: Platform
+  caption?: string
+  // The account's caption compliance settings and voice
+  policy?: CaptionPolicy
+  brandVoice?: BrandVoice
+  publishOptions?: DestinationPublishOptions
+}
+
+interface DestinationAccount {
+  platform: Platform
+  brand_voice: BrandVoice | null
+  caption_policy: CaptionPolicy | null
+}
+
+// Aspect ratios within this distance of a limit are accepted (e.g. 1080x1920 vs 9:16)
+const ASPECT_RATIO_TOLERANCE = 0.01
+const BYTES_PER_MB = 1024 * 1024
+
+export class PreflightValidator {
+  /**
+   * Load an asset with its media metadata, destinations and latest captions, and run every check
+   */
+  async validateAsset(assetId: string): Promise<PreflightReport> {
+    const { data: asset, error } = await supabase
+      .from('assets')
+      .select(`
+        *,
+        reel_meta(*),
+        carousel_meta(*),
+        asset_destinations(
+          id,
+          publish_options,
+          accounts(platform, brand_voice, caption_policy)
+        )
+      `)
+      .eq('id', assetId)
+      .single()
+
+    if (error || !asset) {
+      throw new Error(`Asset not found: ${error?.message}`)
+    }
+
+    const destinations = ((asset.asset_destinations || []) as unknown as Array<{
+      id: string
+      publish_options: DestinationPublishOptions | null
+      accounts: DestinationAccount | null
+    }>)
+      .filter(dest => dest.accounts)
+    const captions = await this.getLatestCaptions(destinations.map(dest => dest.id))
+
+    return this.runChecks({
+      asset: asset as Tables<'assets'>,
+      reelMeta: this.first(asset.reel_meta as ReelMeta | ReelMeta[] | null),
+      carouselMeta: this.first(asset.carousel_meta as CarouselMeta | CarouselMeta[] | null),
+      destinations: destinations.map(dest => ({
+        id: dest.id,
+        platform: dest.accounts!.platform,
+        caption: captions[dest.id],
+        policy: dest.accounts!.caption_policy || {},
+        brandVoice: dest.accounts!.brand_voice || {},
+        publishOptions: dest.publish_options || {}
+      }))
+    })
+  }
+
+  /**
+   * Run asset-level checks plus platform checks for each destination
+   */
+  runChecks(input: PreflightInput): PreflightReport {
+    const { asset, destinations } = input
+    const mediaFiles = ((asset.metadata as Record<string, unknown>)?.files as string[]) || []
+
+    const checks: PreflightCheck[] = [
+      this.result('has_title', !!asset.title?.trim(), 'Asset has a title', 'Asset title is required'),
+      this.result(
+        'has_media',
+        mediaFiles.length > 0 || !!input.reelMeta || !!input.carouselMeta,
+        'Asset has media',
+        'Asset has no media files'
+      ),
+      this.result(
+        'has_destinations',
+        destinations.length > 0,
+        `${destinations.length} destination(s) configured`,
+        'No publishing destinations configured'
+      ),
+      this.result(
+        'content_type_valid',
+        ['reel', 'carousel', 'single_image', 'story'].includes(asset.content_type),
+        `Content type ${asset.content_type} is valid`,
+        `Unknown content type ${asset.content_type}`
+      )
+    ]
+
+    for (const destination of destinations) {
+      const limits: PlatformLimits | undefined = PLATFORM_CAPABILITIES[destination.platform]
+      const scope = { destination_id: destination.id, platform: destination.platform }
+
+      if (!limits) {
+        checks.push({ ...scope, check: 'platform_supported', status: 'failed', message: `${destination.platform} is not supported` })
+        continue
+      }
+
+      const destinationChecks = [
+        ...this.checkContentType(asset.content_type, limits),
+        ...this.checkMedia(input, limits),
+        ...this.checkCaption(destination),
+        ...this.checkPublishOptions(input, destination, limits)
+      ]
+      checks.push(...destinationChecks.map(check => ({ ...check, ...scope })))
+    }
+
+    return {
+      passed: checks.every(check => check.status !== 'failed'),
+      checked_at: new Date().toISOString(),
+      checks
+    }
+  }
+
+  private checkContentType(contentType: ContentType, limits: PlatformLimits): PreflightCheck[] {
+    const supported = limits.contentTypes.includes(contentType)
+    return [{
+      check: 'content_type_supported',
+      status: supported ? 'passed' : 'failed',
+      message: supported
+        ? `${contentType} is supported`
+        : `${contentType} is not supported (supports ${limits.contentTypes.join(', ')})`,
+      actual: contentType
+    }]
+  }
+
+  private checkMedia(input: PreflightInput, limits: PlatformLimits): PreflightCheck[] {
+    const { asset, reelMeta, carouselMeta } = input
+    const metadata = (asset.metadata || {}) as Record<string, unknown>
+    const checks: PreflightCheck[] = []
+
+    switch (asset.content_type) {
+      case 'reel': {
+        checks.push(this.checkMax(
+          'video_duration',
+          reelMeta?.duration_seconds,
+          limits.maxVideoLength,
+          value => `${value}s`,
+          'Video duration unknown'
+        ))
+        checks.push(this.checkMax(
+          'video_file_size',
+          reelMeta?.file_size_mb != null ? reelMeta.file_size_mb * BYTES_PER_MB : null,
+          limits.maxVideoSize,
+          value => `${(value / BYTES_PER_MB).toFixed(1)}MB`,
+          'Video file size unknown'
+        ))
+        checks.push(this.checkAspectRatio('video_aspect_ratio', reelMeta?.aspect_ratio, limits.videoAspectRatio))
+        break
+      }
+
+      case 'carousel': {
+        const itemCount = carouselMeta?.image_count ?? carouselMeta?.image_urls?.length ??
+          ((metadata.files as string[]) || []).length
+        checks.push(this.checkMax('carousel_items', itemCount, limits.maxCarouselItems, value => `${value} items`))
+        if (limits.minCarouselItems !== undefined) {
+          checks.push({
+            check: 'carousel_min_items',
+            status: itemCount >= limits.minCarouselItems ? 'passed' : 'failed',
+            message: itemCount >= limits.minCarouselItems
+              ? `${itemCount} items`
+              : `Carousel needs at least ${limits.minCarouselItems} items (has ${itemCount})`,
+            actual: itemCount,
+            limit: limits.minCarouselItems
+          })
+        }
+        checks.push(this.checkAspectRatio('image_aspect_ratio', carouselMeta?.aspect_ratio, limits.imageAspectRatio))
+        break
+      }
+
+      default: {
+        const dimensions = metadata.dimensions as { width: number; height: number } | undefined
+        checks.push(this.checkMax(
+          'image_file_size',
+          metadata.fileSize as number | undefined,
+          limits.maxImageSize,
+          value => `${(value / BYTES_PER_MB).toFixed(1)}MB`,
+          'Image file size unknown'
+        ))
+        checks.push(this.checkAspectRatio(
+          'image_aspect_ratio',
+          dimensions ? `${dimensions.width}:${dimensions.height}` : null,
+          limits.imageAspectRatio
+        ))
+      }
+    }
+
+    return checks
+  }
+
+  private checkCaption({ platform, caption, policy, brandVoice }: PreflightDestination): PreflightCheck[] {
+    if (caption === undefined) {
+      return [{ check: 'caption', status: 'skipped', message: 'No caption rendered for this destination yet' }]
+    }
+
+    const limits = captionRenderer.getPlatformLimits(platform)
+    const hashtagCount = captionRenderer.extractHashtags(caption).length
+
+    const lint = lintCaption(caption, { platform, policy, brandVoice })
+
+    return [
+      this.checkMax('caption_length', caption.length, limits.characters, value => `${value} characters`),
+      this.checkMax('hashtag_count', hashtagCount, limits.hashtags, value => `${value} hashtags`),
+      ...(lint.issues.length > 0
+        ? lint.issues.map(issue => this.lintCheck(issue))
+        : [{ check: 'caption_compliance', status: 'passed' as const, message: 'Caption passes brand-voice and compliance rules' }])
+    ]
+  }
+
+  /**
+   * First comment, collaborators and user tags against what the platform accepts. Options the
+   * platform ignores only warn; no checks are added when the destination sets none.
+   */
+  private checkPublishOptions(
+    input: PreflightInput,
+    { platform, publishOptions = {} }: PreflightDestination,
+    limits: PlatformLimits
+  ): PreflightCheck[] {
+    const checks: PreflightCheck[] = []
+    const { content_type: contentType, metadata } = input.asset
+
+    const isSet = (option: PublishOption) => {
+      const value = publishOptions[option]
+      return Array.isArray(value) ? value.length > 0 : !!value
+    }
+    const used = (Object.keys(publishOptions) as PublishOption[]).filter(isSet)
+    if (used.length === 0) return checks
+
+    const ignored = used.filter(option => !limits.publishOptions?.includes(option))
+    if (ignored.length > 0) {
+      checks.push({
+        check: 'publish_options_supported',
+        status: 'warning',
+        message: `${platform} ignores ${ignored.join(', ')}`,
+        actual: ignored.join(', ')
+      })
+    }
+
+    if (publishOptions.firstComment && !ignored.includes('firstComment')) {
+      checks.push(this.checkMax(
+        'first_comment_length',
+        publishOptions.firstComment.length,
+        captionRenderer.getPlatformLimits(platform).characters,
+        value => `${value} characters`
+      ))
+    }
+
+    if (publishOptions.collaborators?.length && limits.maxCollaborators !== undefined) {
+      checks.push(this.checkMax(
+        'collaborator_count',
+        publishOptions.collaborators.length,
+        limits.maxCollaborators,
+        value => `${value} collaborators`
+      ))
+    }
+
+    if (publishOptions.userTags?.length && !ignored.includes('userTags')) {
+      const itemCount = contentType === 'carousel'
+        ? input.carouselMeta?.image_count ?? (((metadata as Record<string, unknown>)?.files as string[]) || []).length
+        : 1
+      const invalid = publishOptions.userTags.filter(tag =>
+        !tag.username?.trim() ||
+        // Reels are tagged without a position
+        (contentType !== 'reel' && !(tag.x >= 0 && tag.x <= 1 && tag.y >= 0 && tag.y <= 1)) ||
+        (tag.mediaIndex ?? 0) >= itemCount
+      )
+
+      checks.push(contentType === 'story'
+        ? { check: 'user_tags', status: 'warning', message: 'User tags are not applied to stories' }
+        : {
+            check: 'user_tags',
+            status: invalid.length === 0 ? 'passed' : 'failed',
+            message: invalid.length === 0
+              ? `${publishOptions.userTags.length} user tag(s)`
+              : `Invalid user tags for ${invalid.map(tag => tag.username || '(no username)').join(', ')}: positions must be between 0 and 1 on an existing item`,
+            actual: invalid.length
+          })
+    }
+
+    return checks
+  }
+
+  /**
+   * Lint errors block publishing; warnings need a human look. The first suggestion rides along.
+   */
+  private lintCheck(issue: CaptionLintIssue): PreflightCheck {
+    const subject = issue.match ? `${issue.message} ("${issue.match}")` : issue.message
+    return {
+      check: `caption_${issue.rule}`,
+      status: issue.severity === 'error' ? 'failed' : 'warning',
+      message: issue.suggestions.length > 0 ? `${subject}. ${issue.suggestions[0]}` : subject,
+      ...(issue.match && { actual: issue.match })
+    }
+  }
+
+  private checkMax(
+    check: string,
+    actual: number | null | undefined,
+    limit: number | undefined,
+    format: (value: number) => string,
+    unknownMessage = 'Value unknown'
+  ): PreflightCheck {
+    if (limit === undefined) {
+      return { check, status: 'skipped', message: 'No platform limit' }
+    }
+    if (actual === null || actual === undefined) {
+      // Missing metadata should not block, but needs a human look
+      return { check, status: 'warning', message: unknownMessage, limit }
+    }
+
+    const passed = actual <= limit
+    return {
+      check,
+      status: passed ? 'passed' : 'failed',
+      message: passed
+        ? `${format(actual)} within limit of ${format(limit)}`
+        : `${format(actual)} exceeds limit of ${format(limit)}`,
+      actual,
+      limit
+    }
+  }
+
+  private checkAspectRatio(check: string, aspectRatio: string | null | undefined, range: AspectRatioRange | undefined): PreflightCheck {
+    if (!range) {
+      return { check, status: 'skipped', message: 'No platform aspect ratio requirement' }
+    }
+
+    const ratio = this.parseAspectRatio(aspectRatio)
+    if (ratio === null) {
+      return { check, status: 'warning', message: 'Aspect ratio unknown' }
+    }
+
+    const tooNarrow = range.min !== undefined && ratio < range.min - ASPECT_RATIO_TOLERANCE
+    const tooWide = range.max !== undefined && ratio > range.max + ASPECT_RATIO_TOLERANCE
+    const limit = [range.min, range.max].map(value => value === undefined ? '∞' : value.toFixed(2)).join('–')
+
+    return {
+      check,
+      status: tooNarrow || tooWide ? 'failed' : 'passed',
+      message: tooNarrow || tooWide
+        ? `Aspect ratio ${aspectRatio} (${ratio.toFixed(2)}) is outside ${limit}`
+        : `Aspect ratio ${aspectRatio} is allowed`,
+      actual: aspectRatio!,
+      limit
+    }
+  }
+
+  /**
+   * Parse "9:16" or "1080:1920" into width / height
+   */
+  private parseAspectRatio(aspectRatio: string | null | undefined): number | null {
+    const match = aspectRatio?.match(/^\s*(\d+(?:\.\d+)?)\s*[:x/]\s*(\d+(?:\.\d+)?)\s*$/)
+    if (!match || Number(match[2]) === 0) return null
+    return Number(match[1]) / Number(match[2])
+  }
+
+  private result(check: string, passed: boolean, passMessage: string, failMessage: string): PreflightCheck {
+    return { check, status: passed ? 'passed' : 'failed', message: passed ? passMessage : failMessage }
+  }
+
+  private async getLatestCaptions(destinationIds: string[]): Promise<Record<string, string>> {
+    if (destinationIds.length === 0) return {}
+
+    const { data, error } = await supabase
+      .from('rendered_captions')
+      .select('destination_id, rendered_text, created_at')
+      .in('destination_id', destinationIds)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Failed to load rendered captions for preflight:', error)
+      return {}
+    }
+
+    // Newest first, so keep the first caption seen per destination
+    return (data || []).reduce((acc, caption) => {
+      if (!(caption.destination_id in acc)) {
+        acc[caption.destination_id] = caption.rendered_text
+      }
+      return acc
+    }, {} as Record<string, string>)
+  }
+
+  private first<T>(value: T | T[] | null | undefined): T | null {
+    return Array.isArray(value) ? value[0] || null : value || null
+  }
+}
+
+// Export singleton instance
+export const preflightValidator = new PreflightValidator()
@@ -0,0 +1,118 @@
+// Publish Attempt Ledger
+// Records one row per publish try; the database derives asset_destinations.publishing_attempts from it
+
+import { supabase } from '@/integrations/supabase/client'
+import type { Json } from '@/integrations/supabase/types'
+import type { PublishAttempt } from '@/integrations/supabase/types-enhanced'
+
+interface AttemptOutcome {
+  success: boolean
+  httpStatus?: number
+  errorClass?: string
+  errorMessage?: string
+  platformPostId?: string
+  rawResponse?: unknown
+}
+
+export class PublishAttemptLedger {
+  /**
+   * Open a ledger row for a new attempt; the attempt number is assigned by the database
+   */
+  async start(
+    destinationId: string,
+    adapter: string,
+    idempotencyKey?: string,
+    renderedCaptionId?: string | null
+  ): Promise<{ id: string; startedAt: number } | null> {
+    const startedAt = Date.now()
+
+    const { data, error } = await supabase
+      .from('publish_attempts')
+      .insert({
+        destination_id: destinationId,
+        adapter,
+        status: 'in_progress',
+        started_at: new Date(startedAt).toISOString(),
+        idempotency_key: idempotencyKey ?? null,
+        rendered_caption_id: renderedCaptionId ?? null
+      })
+      .select('id')
+      .single()
+
+    if (error || !data) {
+      // Ledger problems must never block a publish
+      console.error('Failed to open publish attempt:', error)
+      return null
+    }
+
+    return { id: data.id, startedAt }
+  }
+
+  /**
+   * Close an attempt with its outcome
+   */
+  async finish(
+    attempt: { id: string; startedAt: number } | null,
+    outcome: AttemptOutcome
+  ): Promise<void> {
+    if (!attempt) return
+
+    const { error } = await supabase
+      .from('publish_attempts')
+      .update({
+        status: outcome.success ? 'succeeded' : 'failed',
+        finished_at: new Date().toISOString(),
+        duration_ms: Date.now() - attempt.startedAt,
+        http_status: outcome.httpStatus ?? null,
+        error_class: outcome.errorClass ?? null,
+        error_message: outcome.errorMessage ?? null,
+        platform_post_id: outcome.platformPostId ?? null,
+        raw_response: (outcome.rawResponse ?? null) as Json
+      })
+      .eq('id', attempt.id)
+
+    if (error) {
+      console.error('Failed to close publish attempt:', error)
+    }
+  }
+
+  /**
+   * Record an attempt that was executed elsewhere (e.g. inside an n8n workflow)
+   */
+  async record(
+    destinationId: string,
+    adapter: string,
+    outcome: AttemptOutcome,
+    idempotencyKey?: string
+  ): Promise<void> {
+    const attempt = await this.start(destinationId, adapter, idempotencyKey)
+    await this.finish(attempt, outcome)
+  }
+
+  /**
+   * Get attempt history for destinations, newest first
+   */
+  async getHistory(destinationIds: string[]): Promise<Record<string, PublishAttempt[]>> {
+    if (destinationIds.length === 0) return {}
+
+    const { data, error } = await supabase
+      .from('publish_attempts')
+      .select('*')
+      .in('destination_id', destinationIds)
+      .order('attempt_number', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to get publish attempts: ${error.message}`)
+    }
+
+    return (data || []).reduce((acc, attempt) => {
+      const key = attempt.destination_id as string
+      acc[key] = acc[key] || []
+      acc[key].push(attempt as PublishAttempt)
+      return acc
+    }, {} as Record<string, PublishAttempt[]>)
+  }
+}
+
+// Export singleton instance
+export const publishAttemptLedger = new PublishAttemptLedger()
@@ -0,0 +1,316 @@
+// Publish Queue Worker
+// Headless worker that drains publish_queue so scheduled posts go out without the dashboard open
+
+import { supabase } from '@/integrations/supabase/client'
+import { multiPlatformPublisher } from './platform-publisher'
+import type { TablesUpdate } from '@/integrations/supabase/types'
+import type {
+  ContentType,
+  PublishQueueJob
+} from '@/integrations/supabase/types-enhanced'
+
+interface PublishQueueWorkerOptions {
+  workerId?: string
+  batchSize?: number
+  pollIntervalMs?: number
+  lockTimeoutSeconds?: number
+  baseBackoffMs?: number
+  maxBackoffMs?: number
+}
+
+interface JobOutcome {
+  jobId: string
+  // unsettled: the job's new state could not be fully written; a job still leased is reclaimed once the lease expires
+  status: 'completed' | 'retrying' | 'deferred' | 'dead_letter' | 'skipped' | 'unsettled'
+  error?: string
+}
+
+export class PublishJobUpdateError extends Error {
+  constructor(
+    public readonly jobId: string,
+    public readonly workerId: string,
+    detail: string
+  ) {
+    super(`Publish job ${jobId} could not be updated by ${workerId}: ${detail}`)
+    this.name = 'PublishJobUpdateError'
+  }
+}
+
+export class PublishQueueWorker {
+  private readonly workerId: string
+  private readonly batchSize: number
+  private readonly pollIntervalMs: number
+  private readonly lockTimeoutSeconds: number
+  private readonly baseBackoffMs: number
+  private readonly maxBackoffMs: number
+
+  private pollTimer: ReturnType<typeof setTimeout> | null = null
+  private running = false
+  private currentDrain: Promise<JobOutcome[]> | null = null
+
+  constructor(options: PublishQueueWorkerOptions = {}) {
+    this.workerId = options.workerId || `publish-worker-${crypto.randomUUID().slice(0, 8)}`
+    this.batchSize = options.batchSize ?? 5
+    this.pollIntervalMs = options.pollIntervalMs ?? 15000
+    this.lockTimeoutSeconds = options.lockTimeoutSeconds ?? 600
+    this.baseBackoffMs = options.baseBackoffMs ?? 30000
+    this.maxBackoffMs = options.maxBackoffMs ?? 60 * 60 * 1000
+  }
+
+  /**
+   * Start polling the queue
+   */
+  start(): void {
+    if (this.running) return
+    this.running = true
+    console.log(`Publish queue worker ${this.workerId} started`)
+    this.scheduleNextPoll(0)
+  }
+
+  /**
+   * Stop polling and wait for the in-flight batch to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer)
+      this.pollTimer = null
+    }
+    if (this.currentDrain) {
+      await this.currentDrain
+    }
+    console.log(`Publish queue worker ${this.workerId} stopped`)
+  }
+
+  /**
+   * Claim one batch of due jobs and process them
+   */
+  async drainOnce(): Promise<JobOutcome[]> {
+    const jobs = await this.claimJobs()
+    const outcomes: JobOutcome[] = []
+
+    // Sequential on purpose: adapters upload large media and platforms throttle bursts
+    for (const job of jobs) {
+      try {
+        outcomes.push(await this.processJob(job))
+      } catch (error) {
+        if (!(error instanceof PublishJobUpdateError)) throw error
+        console.error(error.message)
+        outcomes.push({ jobId: job.id, status: 'unsettled', error: error.message })
+      }
+    }
+
+    return outcomes
+  }
+
+  /**
+   * Exponential backoff with full jitter, capped at maxBackoffMs
+   */
+  computeBackoffMs(attempts: number): number {
+    const exponential = this.baseBackoffMs * Math.pow(2, Math.max(0, attempts - 1))
+    const capped = Math.min(exponential, this.maxBackoffMs)
+    return Math.floor(Math.random() * capped)
+  }
+
+  private scheduleNextPoll(delayMs: number): void {
+    this.pollTimer = setTimeout(async () => {
+      if (!this.running) return
+
+      try {
+        this.currentDrain = this.drainOnce()
+        const outcomes = await this.currentDrain
+        // Keep draining immediately while the queue has a full batch waiting
+        this.scheduleNextPoll(outcomes.length >= this.batchSize ? 0 : this.pollIntervalMs)
+      } catch (error) {
+        console.error('Publish queue poll failed:', error)
+        this.scheduleNextPoll(this.pollIntervalMs)
+      } finally {
+        this.currentDrain = null
+      }
+    }, delayMs)
+  }
+
+  private async claimJobs(): Promise<PublishQueueJob[]> {
+    const { data, error } = await supabase.rpc('claim_publish_jobs', {
+      worker_id: this.workerId,
+      batch_size: this.batchSize,
+      lock_timeout_seconds: this.lockTimeoutSeconds
+    })
+
+    if (error) {
+      throw new Error(`Failed to claim publish jobs: ${error.message}`)
+    }
+
+    return (data || []) as PublishQueueJob[]
+  }
+
+  private async processJob(job: PublishQueueJob): Promise<JobOutcome> {
+    try {
+      const { data: destination, error } = await supabase
+        .from('asset_destinations')
+        .select(`
+          *,
+          assets(*)
+        `)
+        .eq('id', job.asset_destination_id)
+        .single()
+
+      if (error || !destination) {
+        return this.deadLetter(job, `Destination not found: ${error?.message}`)
+      }
+
+      // Nothing to do if someone already published or cancelled it
+      if (destination.status === 'published' || destination.status === 'cancelled') {
+        await this.finishJob(job, destination.status === 'published' ? 'completed' : 'cancelled')
+        return { jobId: job.id, status: 'skipped' }
+      }
+
+      const asset = destination.assets as { id: string; content_type: ContentType; metadata: Record<string, unknown> }
+      const mediaUrls = (asset?.metadata?.files as string[]) || []
+
+      if (mediaUrls.length === 0) {
+        // Retrying cannot fix a missing media file
+        return this.deadLetter(job, 'No media files found')
+      }
+
+      const result = await multiPlatformPublisher.publishToPlatform({
+        assetId: asset.id,
+        destinationId: destination.id,
+        mediaUrls: asset.content_type === 'carousel' ? mediaUrls : mediaUrls[0],
+        contentType: asset.content_type
+      })
+
+      if (result.success) {
+        await this.finishJob(job, 'completed')
+        return { jobId: job.id, status: 'completed' }
+      }
+
+      if (result.deferred && result.deferUntil) {
+        return this.deferJob(job, result.deferUntil, result.error || 'Rate limited')
+      }
+
+      return this.handleFailure(job, result.error || 'Publish failed')
+
+    } catch (error) {
+      // Recording a publish failure for a job whose state could not be written would repeat the same write
+      if (error instanceof PublishJobUpdateError) throw error
+      return this.handleFailure(job, error instanceof Error ? error.message : 'Unknown error')
+    }
+  }
+
+  private async handleFailure(job: PublishQueueJob, message: string): Promise<JobOutcome> {
+    if (job.attempts >= job.max_attempts) {
+      return this.deadLetter(job, message)
+    }
+
+    const nextAttemptAt = new Date(Date.now() + this.computeBackoffMs(job.attempts)).toISOString()
+
+    await this.updateLeasedJob(job, {
+      status: 'pending',
+      scheduled_at: nextAttemptAt,
+      locked_by: null,
+      locked_at: null,
+      error_details: this.appendError(job, message)
+    })
+
+    const { data: destinations, error } = await supabase
+      .from('asset_destinations')
+      .update({ next_retry_at: nextAttemptAt })
+      .eq('id', job.asset_destination_id)
+      .select('id')
+
+    if (error || !destinations?.length) {
+      throw new PublishJobUpdateError(job.id, this.workerId, `destination ${job.asset_destination_id} not updated: ${error?.message || 'no row matched'}`)
+    }
+
+    return { jobId: job.id, status: 'retrying', error: message }
+  }
+
+  /**
+   * Put a rate-limited job back without spending one of its attempts
+   */
+  private async deferJob(job: PublishQueueJob, deferUntil: string, message: string): Promise<JobOutcome> {
+    await this.updateLeasedJob(job, {
+      status: 'pending',
+      scheduled_at: deferUntil,
+      // claim_publish_jobs counted this run as an attempt; a deferral is not one
+      attempts: Math.max(0, job.attempts - 1),
+      locked_by: null,
+      locked_at: null
+    })
+
+    return { jobId: job.id, status: 'deferred', error: message }
+  }
+
+  private async deadLetter(job: PublishQueueJob, message: string): Promise<JobOutcome> {
+    await this.updateLeasedJob(job, {
+      status: 'dead_letter',
+      dead_lettered_at: new Date().toISOString(),
+      locked_by: null,
+      locked_at: null,
+      error_details: this.appendError(job, message)
+    })
+
+    await supabase
+      .from('events')
+      .insert({
+        entity_type: 'publish_queue',
+        entity_id: job.id,
+        event_type: 'publish_job_dead_lettered',
+        event_data: {
+          destinationId: job.asset_destination_id,
+          attempts: job.attempts,
+          maxAttempts: job.max_attempts,
+          error: message
+        }
+      })
+
+    return { jobId: job.id, status: 'dead_letter', error: message }
+  }
+
+  private async finishJob(job: PublishQueueJob, status: 'completed' | 'cancelled'): Promise<void> {
+    await this.updateLeasedJob(job, {
+      status,
+      completed_at: new Date().toISOString(),
+      locked_by: null,
+      locked_at: null
+    })
+  }
+
+  /**
+   * Write a job this worker holds the lease on. No matched row means the lease expired and another
+   * worker took the job, or row-level security hid it; either way the write must not pass silently.
+   */
+  private async updateLeasedJob(job: PublishQueueJob, changes: TablesUpdate<'publish_queue'>): Promise<void> {
+    const { data, error } = await supabase
+      .from('publish_queue')
+      .update(changes)
+      .eq('id', job.id)
+      .eq('locked_by', this.workerId)
+      .select('id')
+
+    if (error) {
+      throw new PublishJobUpdateError(job.id, this.workerId, error.message)
+    }
+    if (!data?.length) {
+      throw new PublishJobUpdateError(job.id, this.workerId, 'no row matched; the lease expired or row-level security hid it')
+    }
+  }
+
+  private appendError(job: PublishQueueJob, message: string): PublishQueueJob['error_details'] {
+    const history = job.error_details?.history || []
+
+    return {
+      last_error: message,
+      history: [
+        ...history,
+        {
+          attempt: job.attempts,
+          error: message,
+          worker_id: this.workerId,
+          failed_at: new Date().toISOString()
+        }
+      ]
+    }
+  }
+}
@@ -0,0 +1,244 @@
+// Publishing Quota Governor
+// Tracks per-account platform usage so publishes are deferred before they hit a rate limit
+
+import { supabase } from '@/integrations/supabase/client'
+import type {
+  Json,
+  Platform,
+  AccountQuota
+} from '@/integrations/supabase/types-enhanced'
+
+interface BusinessUseCaseUsage {
+  type?: string
+  call_count?: number
+  total_cputime?: number
+  total_time?: number
+  estimated_time_to_regain_access?: number // minutes
+}
+
+// Documented publishing caps per account over a rolling window
+export const PLATFORM_POST_QUOTAS: Partial<Record<Platform, { maxPosts: number; windowHours: number }>> = {
+  instagram: { maxPosts: 25, windowHours: 24 }, // content_publishing_limit
+  tiktok: { maxPosts: 15, windowHours: 24 }, // Direct Post cap per creator
+  linkedin: { maxPosts: 150, windowHours: 24 }, // Member share limit
+  youtube: { maxPosts: 6, windowHours: 24 } // 10,000 daily units at 1,600 per upload
+}
+
+// Meta starts throttling at 100%; stop a little before that
+const USAGE_DEFER_THRESHOLD = 90
+// How long to wait when usage is high or a 429 carries no Retry-After
+const DEFAULT_DEFER_MINUTES = 15
+
+export class QuotaGovernor {
+  /**
+   * Record rate-limit headers from a platform response (x-app-usage, x-business-use-case-usage, Retry-After)
+   */
+  async recordResponse(accountId: string, platform: Platform, response: Response): Promise<void> {
+    try {
+      const appUsage = this.parseJsonHeader<Record<string, number>>(response.headers.get('x-app-usage'))
+      const businessUsage = this.parseJsonHeader<Record<string, BusinessUseCaseUsage[]>>(
+        response.headers.get('x-business-use-case-usage')
+      )
+      const retryAfter = this.parseRetryAfter(response.headers.get('retry-after'))
+
+      if (!appUsage && !businessUsage && response.status !== 429) {
+        return
+      }
+
+      const businessEntries = Object.values(businessUsage || {}).flat()
+      const usagePercent = Math.max(
+        0,
+        ...Object.values(appUsage || {}).filter(value => typeof value === 'number'),
+        ...businessEntries.flatMap(entry => [entry.call_count || 0, entry.total_cputime || 0, entry.total_time || 0])
+      )
+
+      // Meta reports how long until a throttled app/business regains access
+      const regainMinutes = Math.max(0, ...businessEntries.map(entry => entry.estimated_time_to_regain_access || 0))
+
+      let throttledUntil: Date | null = null
+      let throttleReason: string | null = null
+      if (response.status === 429 || retryAfter) {
+        throttledUntil = retryAfter || this.minutesFromNow(DEFAULT_DEFER_MINUTES)
+        throttleReason = `${platform} returned ${response.status} rate limit`
+      } else if (regainMinutes > 0) {
+        throttledUntil = this.minutesFromNow(regainMinutes)
+        throttleReason = `${platform} usage throttled for ${regainMinutes} minutes`
+      }
+
+      await supabase
+        .from('account_rate_limits')
+        .upsert({
+          account_id: accountId,
+          platform,
+          app_usage: (appUsage || null) as Json,
+          business_usage: (businessUsage || null) as unknown as Json,
+          usage_percent: Math.min(usagePercent, 999),
+          ...(throttledUntil ? {
+            throttled_until: throttledUntil.toISOString(),
+            throttle_reason: throttleReason
+          } : {}),
+          observed_at: new Date().toISOString()
+        })
+    } catch (error) {
+      // Usage tracking must never break a publish
+      console.error('Failed to record rate limit usage:', error)
+    }
+  }
+
+  /**
+   * Mark an account as throttled, e.g. after a 429 surfaced only as an error
+   */
+  async recordThrottle(accountId: string, platform: Platform, until: Date, reason: string): Promise<void> {
+    const { error } = await supabase
+      .from('account_rate_limits')
+      .upsert({
+        account_id: accountId,
+        platform,
+        throttled_until: until.toISOString(),
+        throttle_reason: reason,
+        observed_at: new Date().toISOString()
+      })
+
+    if (error) {
+      console.error('Failed to record account throttle:', error)
+    }
+  }
+
+  /**
+   * Default throttle window for a rate-limited publish without a Retry-After
+   */
+  defaultDeferUntil(): Date {
+    return this.minutesFromNow(DEFAULT_DEFER_MINUTES)
+  }
+
+  /**
+   * Check whether one more post fits in the account's quota, and if not, when to retry
+   */
+  async checkQuota(accountId: string, platform: Platform): Promise<AccountQuota> {
+    const quota = PLATFORM_POST_QUOTAS[platform]
+
+    const [{ data: limits }, window] = await Promise.all([
+      supabase
+        .from('account_rate_limits')
+        .select('*')
+        .eq('account_id', accountId)
+        .maybeSingle(),
+      quota ? this.getPublishWindow(accountId, quota.windowHours) : Promise.resolve(null)
+    ])
+
+    const postsUsed = window?.post_count || 0
+    const remaining = quota ? Math.max(0, quota.maxPosts - postsUsed) : null
+    const usagePercent = Number(limits?.usage_percent || 0)
+    const throttledUntil = limits?.throttled_until && new Date(limits.throttled_until) > new Date()
+      ? limits.throttled_until
+      : null
+
+    const result: AccountQuota = {
+      accountId,
+      platform,
+      postsUsed,
+      postLimit: quota?.maxPosts ?? null,
+      remaining,
+      windowHours: quota?.windowHours ?? null,
+      usagePercent,
+      throttledUntil,
+      allowed: true
+    }
+
+    if (throttledUntil) {
+      return {
+        ...result,
+        allowed: false,
+        deferUntil: throttledUntil,
+        reason: limits?.throttle_reason || `${platform} account is rate limited`
+      }
+    }
+
+    if (quota && remaining === 0) {
+      // The next slot opens when the oldest post in the window ages out
+      const oldest = window?.oldest_post_at ? new Date(window.oldest_post_at) : new Date()
+      return {
+        ...result,
+        allowed: false,
+        deferUntil: new Date(oldest.getTime() + quota.windowHours * 60 * 60 * 1000).toISOString(),
+        reason: `${platform} limit of ${quota.maxPosts} posts per ${quota.windowHours}h reached`
+      }
+    }
+
+    if (usagePercent >= USAGE_DEFER_THRESHOLD) {
+      return {
+        ...result,
+        allowed: false,
+        deferUntil: this.minutesFromNow(DEFAULT_DEFER_MINUTES).toISOString(),
+        reason: `${platform} API usage at ${usagePercent}%`
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Get quota status for all active accounts
+   */
+  async getAccountQuotas(): Promise<Array<AccountQuota & { accountHandle: string }>> {
+    const { data: accounts, error } = await supabase
+      .from('accounts')
+      .select('id, platform, account_handle')
+      .eq('is_active', true)
+
+    if (error) {
+      throw new Error(`Failed to get accounts: ${error.message}`)
+    }
+
+    return Promise.all(
+      (accounts || []).map(async account => ({
+        ...(await this.checkQuota(account.id, account.platform as Platform)),
+        accountHandle: account.account_handle
+      }))
+    )
+  }
+
+  private async getPublishWindow(accountId: string, windowHours: number) {
+    const { data, error } = await supabase.rpc('account_publish_window', {
+      account_uuid: accountId,
+      window_seconds: windowHours * 60 * 60
+    })
+
+    if (error) {
+      throw new Error(`Failed to count recent posts: ${error.message}`)
+    }
+
+    return data?.[0] || null
+  }
+
+  private parseJsonHeader<T>(value: string | null): T | null {
+    if (!value) return null
+    try {
+      return JSON.parse(value) as T
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Retry-After is either delay seconds or an HTTP date
+   */
+  private parseRetryAfter(value: string | null): Date | null {
+    if (!value) return null
+
+    const seconds = Number(value)
+    if (!Number.isNaN(seconds)) {
+      return new Date(Date.now() + seconds * 1000)
+    }
+
+    const date = new Date(value)
+    return Number.isNaN(date.getTime()) ? null : date
+  }
+
+  private minutesFromNow(minutes: number): Date {
+    return new Date(Date.now() + minutes * 60 * 1000)
+  }
+}
+
+// Export singleton instance
+export const quotaGovernor = new QuotaGovernor()
@@ -0,0 +1,383 @@
+// TikTok Content Posting API Integration Service
+// Handles direct video posting to TikTok (init, chunked upload, status polling)
+
+import { supabase } from '@/integrations/supabase/client'
+import { tokenVault } from './token-vault'
+import { captionsMatch } from '@/utils/idempotency'
+import type {
+  ConnectedAccount,
+  TikTokCreatorInfo,
+  TikTokPrivacyLevel,
+  TikTokPublishResponse
+} from '@/integrations/supabase/types-enhanced'
+
+interface TikTokAccount {
+  id: string
+  access_token: string
+  account_handle: string
+  privacy_level?: TikTokPrivacyLevel
+  disable_duet: boolean
+  disable_stitch: boolean
+  disable_comment: boolean
+}
+
+interface TikTokAPIEnvelope<T> {
+  data: T
+  error: {
+    code: string
+    message: string
+    log_id?: string
+  }
+}
+
+interface PublishInitResponse {
+  publish_id: string
+  upload_url?: string
+}
+
+interface PublishStatusResponse {
+  status: 'PROCESSING_UPLOAD' | 'PROCESSING_DOWNLOAD' | 'SEND_TO_USER_INBOX' | 'PUBLISH_COMPLETE' | 'FAILED'
+  fail_reason?: string
+  publicaly_available_post_id?: Array<string | number>
+  uploaded_bytes?: number
+}
+
+// TikTok requires chunks between 5MB and 64MB; the final chunk may absorb the remainder
+const MIN_CHUNK_SIZE = 5 * 1024 * 1024
+const DEFAULT_CHUNK_SIZE = 10 * 1024 * 1024
+const MAX_TITLE_LENGTH = 2200
+
+export class TikTokAPIService {
+  constructor(
+    private readonly baseUrl = 'https://open.tiktokapis.com/v2',
+    private readonly chunkSize = DEFAULT_CHUNK_SIZE
+  ) {}
+
+  /**
+   * Query creator info (privacy options, interaction settings, max duration)
+   */
+  async getCreatorInfo(account: TikTokAccount): Promise<TikTokCreatorInfo> {
+    return this.request<TikTokCreatorInfo>(
+      account,
+      '/post/publish/creator_info/query/',
+      {}
+    )
+  }
+
+  /**
+   * Initialize a direct post and obtain the upload URL
+   */
+  async initVideoUpload(
+    account: TikTokAccount,
+    videoSize: number,
+    caption: string | undefined,
+    privacyLevel: TikTokPrivacyLevel
+  ): Promise<PublishInitResponse & { chunkSize: number; totalChunkCount: number }> {
+    const { chunkSize, totalChunkCount } = this.planChunks(videoSize)
+
+    const data = await this.request<PublishInitResponse>(
+      account,
+      '/post/publish/video/init/',
+      {
+        post_info: {
+          title: (caption || '').slice(0, MAX_TITLE_LENGTH),
+          privacy_level: privacyLevel,
+          disable_duet: account.disable_duet,
+          disable_stitch: account.disable_stitch,
+          disable_comment: account.disable_comment
+        },
+        source_info: {
+          source: 'FILE_UPLOAD',
+          video_size: videoSize,
+          chunk_size: chunkSize,
+          total_chunk_count: totalChunkCount
+        }
+      }
+    )
+
+    if (!data.upload_url) {
+      throw new Error('TikTok did not return an upload URL')
+    }
+
+    return { ...data, chunkSize, totalChunkCount }
+  }
+
+  /**
+   * Upload video bytes to the upload URL in sequential chunks
+   */
+  async uploadVideoChunks(
+    uploadUrl: string,
+    video: Blob,
+    chunkSize: number,
+    totalChunkCount: number
+  ): Promise<void> {
+    const totalSize = video.size
+
+    for (let index = 0; index < totalChunkCount; index++) {
+      const start = index * chunkSize
+      // Last chunk carries any remainder
+      const end = index === totalChunkCount - 1 ? totalSize : start + chunkSize
+      const chunk = video.slice(start, end)
+
+      const response = await fetch(uploadUrl, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': video.type || 'video/mp4',
+          'Content-Length': String(end - start),
+          'Content-Range': `bytes ${start}-${end - 1}/${totalSize}`
+        },
+        body: chunk
+      })
+
+      // 206 = chunk accepted, 201 = upload complete
+      if (!response.ok) {
+        const errorText = await response.text()
+        throw Object.assign(
+          new Error(`Chunk ${index + 1}/${totalChunkCount} upload failed: ${response.status} ${errorText}`),
+          { status: response.status }
+        )
+      }
+    }
+  }
+
+  /**
+   * Fetch the publish status for a publish ID
+   */
+  async getPublishStatus(account: TikTokAccount, publishId: string): Promise<PublishStatusResponse> {
+    return this.request<PublishStatusResponse>(
+      account,
+      '/post/publish/status/fetch/',
+      { publish_id: publishId }
+    )
+  }
+
+  /**
+   * Complete upload and publish flow
+   */
+  async uploadAndPublish(
+    accountId: string,
+    mediaUrl: string,
+    caption?: string
+  ): Promise<TikTokPublishResponse> {
+    const tiktokAccount = await this.getAccount(accountId)
+
+    // Resolve privacy level against what the creator is allowed to use
+    const creatorInfo = await this.getCreatorInfo(tiktokAccount)
+    const privacyLevel = this.resolvePrivacyLevel(tiktokAccount, creatorInfo)
+
+    // Download the rendered video so it can be pushed in chunks
+    const video = await this.downloadVideo(mediaUrl)
+
+    const init = await this.initVideoUpload(tiktokAccount, video.size, caption, privacyLevel)
+    await this.uploadVideoChunks(init.upload_url!, video, init.chunkSize, init.totalChunkCount)
+
+    const status = await this.waitForPublish(tiktokAccount, init.publish_id)
+
+    return {
+      publish_id: init.publish_id,
+      post_id: status.publicaly_available_post_id?.[0]?.toString(),
+      status: status.status,
+      privacy_level: privacyLevel
+    }
+  }
+
+  /**
+   * Find a post published since the given time whose description matches the caption
+   */
+  async findRecentPost(accountId: string, caption: string | undefined, since: Date): Promise<string | null> {
+    const tiktokAccount = await this.getAccount(accountId)
+    const result = await this.request<{
+      videos: Array<{ id: string; video_description?: string; create_time: number }>
+    }>(
+      tiktokAccount,
+      '/video/list/?fields=id,video_description,create_time',
+      { max_count: 10 }
+    )
+
+    const match = (result.videos || []).find(video =>
+      video.create_time * 1000 >= since.getTime() &&
+      captionsMatch(caption, video.video_description)
+    )
+
+    return match?.id || null
+  }
+
+  /**
+   * Validate account connection
+   */
+  async validateAccount(accountId: string): Promise<boolean> {
+    try {
+      const tiktokAccount = await this.getAccount(accountId)
+      await this.getCreatorInfo(tiktokAccount)
+      return true
+    } catch (error) {
+      console.error('TikTok account validation failed:', error)
+      return false
+    }
+  }
+
+  /**
+   * Refresh access token using the stored refresh token
+   */
+  async refreshAccessToken(accountId: string): Promise<boolean> {
+    try {
+      const account = await tokenVault.getConnectedAccount(accountId)
+
+      if (!account || !account.refresh_token) {
+        return false
+      }
+
+      const params = new URLSearchParams({
+        client_key: process.env.TIKTOK_CLIENT_KEY!,
+        client_secret: process.env.TIKTOK_CLIENT_SECRET!,
+        grant_type: 'refresh_token',
+        refresh_token: account.refresh_token
+      })
+
+      const response = await fetch(`${this.baseUrl}/oauth/token/`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: params
+      })
+
+      const data = await response.json()
+
+      if (response.ok && data.access_token) {
+        await tokenVault.storeTokens(accountId, {
+          accessToken: data.access_token,
+          // TikTok rotates refresh tokens, keep the newest one
+          refreshToken: data.refresh_token,
+          expiresIn: data.expires_in
+        })
+
+        return true
+      }
+
+      return false
+
+    } catch (error) {
+      console.error('TikTok token refresh failed:', error)
+      return false
+    }
+  }
+
+  /**
+   * Poll publish status until TikTok finishes processing
+   */
+  private async waitForPublish(
+    account: TikTokAccount,
+    publishId: string,
+    maxAttempts = 30,
+    intervalMs = 2000
+  ): Promise<PublishStatusResponse> {
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const status = await this.getPublishStatus(account, publishId)
+
+      if (status.status === 'PUBLISH_COMPLETE' || status.status === 'SEND_TO_USER_INBOX') {
+        return status
+      }
+
+      if (status.status === 'FAILED') {
+        throw new Error(`TikTok publish failed: ${status.fail_reason || 'unknown reason'}`)
+      }
+
+      await new Promise(resolve => setTimeout(resolve, intervalMs))
+    }
+
+    throw new Error('TikTok publish status timeout')
+  }
+
+  /**
+   * Work out chunk size and count according to TikTok's chunking rules
+   */
+  private planChunks(videoSize: number): { chunkSize: number; totalChunkCount: number } {
+    // Small files must be sent as a single chunk
+    if (videoSize <= Math.max(this.chunkSize, MIN_CHUNK_SIZE)) {
+      return { chunkSize: videoSize, totalChunkCount: 1 }
+    }
+
+    return {
+      chunkSize: this.chunkSize,
+      totalChunkCount: Math.floor(videoSize / this.chunkSize)
+    }
+  }
+
+  private resolvePrivacyLevel(
+    account: TikTokAccount,
+    creatorInfo: TikTokCreatorInfo
+  ): TikTokPrivacyLevel {
+    const options = creatorInfo.privacy_level_options || []
+
+    if (account.privacy_level) {
+      if (options.length > 0 && !options.includes(account.privacy_level)) {
+        throw new Error(`Privacy level ${account.privacy_level} is not available for this TikTok account`)
+      }
+      return account.privacy_level
+    }
+
+    return options.includes('PUBLIC_TO_EVERYONE') ? 'PUBLIC_TO_EVERYONE' : (options[0] || 'SELF_ONLY')
+  }
+
+  private async downloadVideo(mediaUrl: string): Promise<Blob> {
+    const response = await fetch(mediaUrl)
+    if (!response.ok) {
+      throw new Error(`Failed to download video: ${response.status} ${response.statusText}`)
+    }
+    return response.blob()
+  }
+
+  private async getAccount(accountId: string): Promise<TikTokAccount> {
+    const account = await tokenVault.getConnectedAccount(accountId, 'tiktok')
+
+    if (!account || !account.access_token) {
+      throw new Error('TikTok account not found or not connected')
+    }
+
+    return this.toTikTokAccount(account)
+  }
+
+  private toTikTokAccount(account: ConnectedAccount): TikTokAccount {
+    const metadata = (account.account_metadata || {}) as Record<string, unknown>
+
+    return {
+      id: account.id,
+      access_token: account.access_token!,
+      account_handle: account.account_handle,
+      privacy_level: metadata.privacy_level as TikTokPrivacyLevel | undefined,
+      disable_duet: !!metadata.disable_duet,
+      disable_stitch: !!metadata.disable_stitch,
+      disable_comment: !!metadata.disable_comment
+    }
+  }
+
+  private async request<T>(
+    account: TikTokAccount,
+    path: string,
+    body: Record<string, unknown>
+  ): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${account.access_token}`,
+        'Content-Type': 'application/json; charset=UTF-8'
+      },
+      body: JSON.stringify(body)
+    })
+
+    const result: TikTokAPIEnvelope<T> = await response.json()
+
+    if (!response.ok || (result.error && result.error.code !== 'ok')) {
+      throw Object.assign(
+        new Error(result.error?.message || `TikTok API request failed: ${response.statusText}`),
+        { status: response.status }
+      )
+    }
+
+    return result.data
+  }
+}
+
+// Export singleton instance
+export const tiktokAPI = new TikTokAPIService()
@@ -0,0 +1,204 @@
+// Account Token Refresher
+// Background job that refreshes platform tokens before they expire and flags accounts that need reconnecting
+
+import { supabase } from '@/integrations/supabase/client'
+import { multiPlatformPublisher } from './platform-publisher'
+import { tokenVault } from './token-vault'
+import type {
+  AccountTokenHealth,
+  AccountTokenStatus
+} from '@/integrations/supabase/types-enhanced'
+
+interface TokenRefresherOptions {
+  intervalMs?: number
+  // Refresh once this fraction of the token's lifetime has passed
+  refreshAtLifetime?: number
+  // Accounts that cannot refresh are flagged this long before expiry
+  expiryWarningHours?: number
+}
+
+interface TokenSweepOutcome {
+  accountId: string
+  status: AccountTokenStatus
+  refreshed: boolean
+  error?: string
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+export class TokenRefresher {
+  private readonly intervalMs: number
+  private readonly refreshAtLifetime: number
+  private readonly expiryWarningMs: number
+
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private running = false
+  private currentSweep: Promise<TokenSweepOutcome[]> | null = null
+
+  constructor(options: TokenRefresherOptions = {}) {
+    this.intervalMs = options.intervalMs ?? 15 * 60 * 1000
+    this.refreshAtLifetime = options.refreshAtLifetime ?? 0.8
+    this.expiryWarningMs = (options.expiryWarningHours ?? 72) * HOUR_MS
+  }
+
+  /**
+   * Start sweeping on an interval
+   */
+  start(): void {
+    if (this.running) return
+    this.running = true
+    console.log('Token refresher started')
+    this.scheduleNextSweep(0)
+  }
+
+  /**
+   * Stop sweeping and wait for the in-flight sweep to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    if (this.currentSweep) {
+      await this.currentSweep
+    }
+    console.log('Token refresher stopped')
+  }
+
+  /**
+   * Refresh due tokens and update each account's token status
+   */
+  async sweepOnce(): Promise<TokenSweepOutcome[]> {
+    const { data, error } = await supabase.rpc('account_token_health')
+
+    if (error) {
+      throw new Error(`Failed to load account token health: ${error.message}`)
+    }
+
+    const outcomes: TokenSweepOutcome[] = []
+    for (const account of (data || []) as AccountTokenHealth[]) {
+      outcomes.push(await this.processAccount(account))
+    }
+
+    return outcomes
+  }
+
+  /**
+   * Whether the token has used up enough of its lifetime to be refreshed
+   */
+  isRefreshDue(account: AccountTokenHealth, now = Date.now()): boolean {
+    const expiresAt = new Date(account.token_expires_at).getTime()
+
+    if (!account.token_refreshed_at) {
+      return expiresAt - now <= this.expiryWarningMs
+    }
+
+    const issuedAt = new Date(account.token_refreshed_at).getTime()
+    return now >= issuedAt + (expiresAt - issuedAt) * this.refreshAtLifetime
+  }
+
+  private scheduleNextSweep(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      if (!this.running) return
+
+      try {
+        this.currentSweep = this.sweepOnce()
+        await this.currentSweep
+      } catch (error) {
+        console.error('Token refresh sweep failed:', error)
+      } finally {
+        this.currentSweep = null
+        this.scheduleNextSweep(this.intervalMs)
+      }
+    }, delayMs)
+  }
+
+  private async processAccount(account: AccountTokenHealth): Promise<TokenSweepOutcome> {
+    const canRefresh = multiPlatformPublisher.canRefreshToken(account.platform)
+    let refreshError: string | undefined
+
+    if (canRefresh && this.isRefreshDue(account)) {
+      try {
+        if (await multiPlatformPublisher.refreshAccountToken(account.account_id, account.platform)) {
+          // store_account_tokens already reset the status to valid
+          await this.logTokenEvent(account, 'account_token_refreshed', 'valid')
+          return { accountId: account.account_id, status: 'valid', refreshed: true }
+        }
+        refreshError = `${account.platform} token refresh was rejected`
+      } catch (error) {
+        refreshError = error instanceof Error ? error.message : 'Token refresh failed'
+      }
+    }
+
+    const { status, message } = this.assessStatus(account, canRefresh, refreshError)
+
+    if (status !== account.token_status) {
+      await tokenVault.setTokenStatus(account.account_id, status, message)
+      if (status !== 'valid') {
+        await this.logTokenEvent(account, 'account_token_flagged', status, message)
+      }
+    }
+
+    return { accountId: account.account_id, status, refreshed: false, error: refreshError }
+  }
+
+  private assessStatus(
+    account: AccountTokenHealth,
+    canRefresh: boolean,
+    refreshError?: string
+  ): { status: AccountTokenStatus; message?: string } {
+    const now = Date.now()
+    const expiresAt = new Date(account.token_expires_at).getTime()
+
+    if (expiresAt <= now) {
+      return { status: 'expired', message: 'Token expired; reconnect the account' }
+    }
+
+    if (refreshError) {
+      return { status: 'refresh_failed', message: refreshError }
+    }
+
+    if (!canRefresh) {
+      // Without a refresh path the user has to reconnect before the next post goes out
+      const nextPostAt = account.next_scheduled_at ? new Date(account.next_scheduled_at).getTime() : null
+      if (nextPostAt !== null && expiresAt < nextPostAt) {
+        return {
+          status: 'expiring',
+          message: `Token expires before the post scheduled for ${new Date(nextPostAt).toISOString()}`
+        }
+      }
+      if (expiresAt - now <= this.expiryWarningMs) {
+        return { status: 'expiring', message: `Token expires at ${new Date(expiresAt).toISOString()}` }
+      }
+    }
+
+    return { status: 'valid' }
+  }
+
+  private async logTokenEvent(
+    account: AccountTokenHealth,
+    eventType: string,
+    status: AccountTokenStatus,
+    message?: string
+  ): Promise<void> {
+    await supabase
+      .from('events')
+      .insert({
+        entity_type: 'account',
+        entity_id: account.account_id,
+        event_type: eventType,
+        event_data: {
+          platform: account.platform,
+          accountHandle: account.account_handle,
+          status,
+          message,
+          expiresAt: account.token_expires_at,
+          nextScheduledAt: account.next_scheduled_at
+        }
+      })
+  }
+}
+
+// Export singleton instance
+export const tokenRefresher = new TokenRefresher()
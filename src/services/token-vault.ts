@@ -0,0 +1,127 @@
+// Account Token Vault
+// Reads and writes platform tokens through the encrypted vault functions instead of plaintext columns
+
+import { supabase } from '@/integrations/supabase/client'
+import type {
+  Tables,
+  Platform,
+  AccountTokens,
+  AccountTokenStatus,
+  ConnectedAccount
+} from '@/integrations/supabase/types-enhanced'
+
+interface StoreTokensInput {
+  accessToken: string
+  // Omit to keep the stored refresh token
+  refreshToken?: string | null
+  // Seconds until the access token expires, as returned by token endpoints
+  expiresIn?: number | null
+  scopes?: string[]
+}
+
+export class TokenVault {
+  /**
+   * Load an account together with its decrypted tokens
+   */
+  async getConnectedAccount(accountId: string, platform?: Platform): Promise<ConnectedAccount | null> {
+    let query = supabase
+      .from('accounts')
+      .select('*')
+      .eq('id', accountId)
+
+    if (platform) {
+      query = query.eq('platform', platform)
+    }
+
+    const { data: account, error } = await query.single()
+    if (error || !account) {
+      return null
+    }
+
+    const tokens = await this.getTokens(accountId)
+
+    return {
+      ...(account as unknown as Tables<'accounts'>),
+      access_token: tokens?.access_token ?? null,
+      refresh_token: tokens?.refresh_token ?? null
+    }
+  }
+
+  /**
+   * Decrypt the tokens for an account
+   */
+  async getTokens(accountId: string): Promise<AccountTokens | null> {
+    const { data, error } = await supabase.rpc('get_account_tokens', {
+      account_uuid: accountId
+    })
+
+    if (error) {
+      throw new Error(`Failed to read account tokens: ${error.message}`)
+    }
+
+    return data?.[0] || null
+  }
+
+  /**
+   * Encrypt and store tokens; resets the account's token status to valid
+   */
+  async storeTokens(accountId: string, input: StoreTokensInput): Promise<void> {
+    const { error } = await supabase.rpc('store_account_tokens', {
+      account_uuid: accountId,
+      new_access_token: input.accessToken,
+      new_refresh_token: input.refreshToken ?? null,
+      expires_at: input.expiresIn ? new Date(Date.now() + input.expiresIn * 1000).toISOString() : null,
+      scopes: input.scopes ?? null
+    })
+
+    if (error) {
+      throw new Error(`Failed to store account tokens: ${error.message}`)
+    }
+  }
+
+  /**
+   * Record a token problem so the account is flagged in the UI
+   */
+  async setTokenStatus(accountId: string, status: AccountTokenStatus, message?: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('accounts')
+      .update({
+        token_status: status,
+        token_error: message ?? null
+      })
+      .eq('id', accountId)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to update account token status: ${error.message}`)
+    }
+    // RLS hides accounts from a non-staff session, which would leave the account unflagged without an error
+    if (!data?.length) {
+      throw new Error(`Failed to update account token status: account ${accountId} not found or not visible`)
+    }
+  }
+
+  /**
+   * Drop stored tokens and deactivate the account
+   */
+  async disconnect(accountId: string): Promise<void> {
+    const { error } = await supabase
+      .from('accounts')
+      .update({
+        access_token_encrypted: null,
+        refresh_token_encrypted: null,
+        token_expires_at: null,
+        token_status: 'disconnected',
+        token_error: null,
+        is_active: false
+      })
+      .eq('id', accountId)
+
+    if (error) {
+      throw new Error(`Failed to disconnect account: ${error.message}`)
+    }
+  }
+}
+
+// Export singleton instance
+export const tokenVault = new TokenVault()
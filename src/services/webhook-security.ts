@@ -3,11 +3,21 @@
 
 import { securityService } from './security'
 import { supabase } from '@/integrations/supabase/client'
+import type {
+  Tables,
+  WebhookSecretRotation,
+  WebhookSecrets
+} from '@/integrations/supabase/types-enhanced'
 
 interface WebhookConfig {
   id: string
   workflowType: string
+  // Current secret; outgoing requests are always signed with it
   secret: string
+  // Secret replaced by the last rotation, still accepted until previousSecretExpiresAt
+  previousSecret?: string
+  previousSecretExpiresAt?: string
+  secretVersion: number
   active: boolean
   allowedOrigins: string[]
   rateLimit: {
@@ -18,9 +28,20 @@ interface WebhookConfig {
   expires_at?: string
 }
 
+interface WebhookSecretRotationResult {
+  // Shown once; only its ciphertext is stored
+  secret: string
+  secretVersion: number
+  previousSecretExpiresAt: string | null
+}
+
+type SecretMatch = 'current' | 'previous'
+
 interface WebhookValidationResult {
   valid: boolean
   webhookConfig?: WebhookConfig
+  // Which secret signed the request; 'previous' means the sender has not picked up a rotation yet
+  matchedSecret?: SecretMatch
   error?: string
   metadata?: {
     ip: string
@@ -31,14 +52,19 @@ interface WebhookValidationResult {
 
 export class WebhookSecurityService {
   private readonly defaultSecret = import.meta.env.VITE_N8N_WEBHOOK_SECRET || 'dev-webhook-secret'
+  // How long a rotated-out secret keeps validating, so callbacks of runs already in flight still pass
+  private readonly defaultGraceMinutes = Number(import.meta.env.VITE_WEBHOOK_SECRET_GRACE_MINUTES) || 60
   private readonly webhookConfigs = new Map<string, WebhookConfig>()
 
   constructor() {
     // Load webhook configurations from database
     this.loadWebhookConfigs()
     
-    // Cleanup expired configs every hour
-    setInterval(() => this.cleanupExpiredConfigs(), 60 * 60 * 1000)
+    // Cleanup expired configs and retire secrets past their grace window every hour
+    setInterval(() => {
+      this.cleanupExpiredConfigs()
+      this.retireExpiredSecrets()
+    }, 60 * 60 * 1000)
   }
 
   /**
@@ -56,8 +82,13 @@ export class WebhookSecurityService {
         return
       }
 
-      configs?.forEach(config => {
-        this.webhookConfigs.set(config.id, config)
+      const secrets = await this.fetchSecrets()
+
+      configs?.forEach(row => {
+        const config = this.toWebhookConfig(row as unknown as Tables<'webhook_configs'>, secrets.get(row.id))
+        if (config) {
+          this.webhookConfigs.set(config.id, config)
+        }
       })
 
     } catch (error) {
@@ -65,6 +96,92 @@ export class WebhookSecurityService {
     }
   }
 
+  /**
+   * Reload one configuration and its secrets, e.g. after another instance rotated them
+   */
+  private async refreshWebhookConfig(webhookId: string): Promise<WebhookConfig | undefined> {
+    const { data: row, error } = await supabase
+      .from('webhook_configs')
+      .select('*')
+      .eq('id', webhookId)
+      .eq('active', true)
+      .maybeSingle()
+
+    if (error || !row) {
+      this.webhookConfigs.delete(webhookId)
+      return undefined
+    }
+
+    const secrets = await this.fetchSecrets(webhookId)
+    const config = this.toWebhookConfig(row as unknown as Tables<'webhook_configs'>, secrets.get(webhookId))
+    if (config) {
+      this.webhookConfigs.set(webhookId, config)
+    } else {
+      this.webhookConfigs.delete(webhookId)
+    }
+    return config
+  }
+
+  /**
+   * Decrypt the secrets of one or all active configurations
+   */
+  private async fetchSecrets(webhookId?: string): Promise<Map<string, WebhookSecrets>> {
+    const { data, error } = await supabase.rpc('get_webhook_secrets', webhookId ? { config_uuid: webhookId } : {})
+
+    if (error) {
+      throw new Error(`Failed to read webhook secrets: ${error.message}`)
+    }
+
+    return new Map(((data || []) as WebhookSecrets[]).map(secrets => [secrets.config_id, secrets]))
+  }
+
+  /**
+   * Map a database row and its decrypted secrets; configurations without a secret cannot validate anything
+   */
+  private toWebhookConfig(row: Tables<'webhook_configs'>, secrets?: WebhookSecrets): WebhookConfig | undefined {
+    if (!secrets?.current_secret) {
+      console.warn(`Webhook config ${row.id} has no secret; rotate it to issue one`)
+      return undefined
+    }
+
+    return {
+      id: row.id,
+      workflowType: row.workflow_type || row.name,
+      secret: secrets.current_secret,
+      previousSecret: secrets.previous_secret || undefined,
+      previousSecretExpiresAt: secrets.previous_expires_at || undefined,
+      secretVersion: secrets.version,
+      active: row.active ?? row.is_active,
+      allowedOrigins: row.allowed_origins || ['*'],
+      rateLimit: {
+        requests: row.rate_limit_requests || 100,
+        windowMinutes: row.rate_limit_window_minutes || 15
+      },
+      created_at: row.created_at,
+      expires_at: row.expires_at || undefined
+    }
+  }
+
+  /**
+   * Secrets a request may be signed with: the current one, plus the previous one during its grace window
+   */
+  private acceptedSecrets(config: WebhookConfig): Array<{ match: SecretMatch; secret: string }> {
+    const accepted: Array<{ match: SecretMatch; secret: string }> = [{ match: 'current', secret: config.secret }]
+    if (config.previousSecret && config.previousSecretExpiresAt && new Date(config.previousSecretExpiresAt) > new Date()) {
+      accepted.push({ match: 'previous', secret: config.previousSecret })
+    }
+    return accepted
+  }
+
+  /**
+   * Find which accepted secret produced the signature
+   */
+  private matchSignature(payload: string, signatureHeader: string, config: WebhookConfig): SecretMatch | null {
+    const accepted = this.acceptedSecrets(config)
+      .find(({ secret }) => this.validateSignature(payload, signatureHeader, secret))
+    return accepted?.match ?? null
+  }
+
   /**
    * Create secure webhook configuration
    */
@@ -78,12 +195,12 @@ export class WebhookSecurityService {
     } = {}
   ): Promise<WebhookConfig> {
     const secret = options.customSecret || securityService.generateAPIKey(32)
-    const webhookId = securityService.generateSecureRandom(16)
     
     const config: WebhookConfig = {
-      id: webhookId,
+      id: '',
       workflowType,
       secret,
+      secretVersion: 1,
       active: true,
       allowedOrigins: options.allowedOrigins || ['*'],
       rateLimit: options.rateLimit || { requests: 100, windowMinutes: 15 },
@@ -94,30 +211,109 @@ export class WebhookSecurityService {
     }
 
     // Store in database
-    const { error } = await supabase
+    const { data: created, error } = await supabase
       .from('webhook_configs')
       .insert({
-        id: config.id,
         workflow_type: config.workflowType,
-        secret_hash: securityService.hashSensitiveData(config.secret).hash,
-        secret_salt: securityService.hashSensitiveData(config.secret).salt,
         allowed_origins: config.allowedOrigins,
         rate_limit_requests: config.rateLimit.requests,
         rate_limit_window_minutes: config.rateLimit.windowMinutes,
         active: config.active,
         expires_at: config.expires_at
       })
+      .select('id')
+      .single()
 
-    if (error) {
-      throw new Error(`Failed to create webhook config: ${error.message}`)
+    if (error || !created) {
+      throw new Error(`Failed to create webhook config: ${error?.message || 'no row returned'}`)
+    }
+
+    config.id = created.id
+
+    // Store the secret encrypted so signatures can be verified; this is audited as secret_issued
+    const { error: secretError } = await supabase.rpc('rotate_webhook_secret', {
+      config_uuid: config.id,
+      grace_minutes: 0,
+      new_secret: config.secret
+    })
+
+    if (secretError) {
+      throw new Error(`Failed to store webhook secret: ${secretError.message}`)
     }
 
     // Cache in memory
-    this.webhookConfigs.set(webhookId, config)
+    this.webhookConfigs.set(config.id, config)
 
     return config
   }
 
+  /**
+   * Issue a new secret. The replaced secret is accepted for graceMinutes more (0 retires it
+   * immediately, e.g. after a leak); the new secret is returned once and must be copied to n8n.
+   */
+  async rotateSecret(
+    webhookId: string,
+    options: { graceMinutes?: number; customSecret?: string } = {}
+  ): Promise<WebhookSecretRotationResult> {
+    const { data, error } = await supabase.rpc('rotate_webhook_secret', {
+      config_uuid: webhookId,
+      grace_minutes: options.graceMinutes ?? this.defaultGraceMinutes,
+      ...(options.customSecret ? { new_secret: options.customSecret } : {})
+    })
+
+    const rotation = (data as unknown as WebhookSecretRotation[] | null)?.[0]
+    if (error || !rotation) {
+      throw new Error(`Failed to rotate webhook secret: ${error?.message || 'no secret returned'}`)
+    }
+
+    await this.refreshWebhookConfig(webhookId)
+
+    await this.logSecurityEvent(webhookId, 'webhook_secret_rotated', {
+      secretVersion: rotation.version,
+      previousSecretExpiresAt: rotation.grace_ends_at
+    })
+
+    return {
+      secret: rotation.secret,
+      secretVersion: rotation.version,
+      previousSecretExpiresAt: rotation.grace_ends_at
+    }
+  }
+
+  /**
+   * Retire previous secrets whose grace window has ended; returns how many were retired
+   */
+  async retireExpiredSecrets(): Promise<number> {
+    try {
+      const { data, error } = await supabase.rpc('retire_expired_webhook_secrets')
+
+      if (error) {
+        console.error('Failed to retire webhook secrets:', error)
+        return 0
+      }
+
+      const retired = (data as unknown as number) || 0
+
+      // Cached configs already ignore expired secrets; drop them so they are not kept in memory
+      const now = new Date()
+      this.webhookConfigs.forEach(config => {
+        if (config.previousSecretExpiresAt && new Date(config.previousSecretExpiresAt) <= now) {
+          config.previousSecret = undefined
+          config.previousSecretExpiresAt = undefined
+        }
+      })
+
+      if (retired) {
+        console.log(`Retired ${retired} expired webhook secrets`)
+      }
+      return retired
+
+    } catch (error) {
+      console.error('Error retiring webhook secrets:', error)
+      return 0
+    }
+  }
+
   /**
    * Validate incoming webhook request
    */
@@ -128,7 +324,7 @@ export class WebhookSecurityService {
   ): Promise<WebhookValidationResult> {
     try {
       // Get webhook configuration
-      const config = this.webhookConfigs.get(webhookId)
+      let config = this.webhookConfigs.get(webhookId) || await this.refreshWebhookConfig(webhookId)
       if (!config) {
         return { valid: false, error: 'Webhook configuration not found' }
       }
@@ -191,15 +387,25 @@ export class WebhookSecurityService {
         }
       }
 
-      // Validate signature using webhook's secret
-      const isValidSignature = this.validateSignature(payload, signatureHeader, config.secret)
+      // Validate signature using webhook's current or still-accepted previous secret
+      let matchedSecret = this.matchSignature(payload, signatureHeader, config)
+
+      if (!matchedSecret) {
+        // The secret may have been rotated by another instance since it was cached
+        const refreshed = await this.refreshWebhookConfig(webhookId)
+        if (refreshed && refreshed.secretVersion !== config.secretVersion) {
+          config = refreshed
+          matchedSecret = this.matchSignature(payload, signatureHeader, config)
+        }
+      }
       
-      if (!isValidSignature) {
+      if (!matchedSecret) {
         // Log security violation
         await this.logSecurityEvent(webhookId, 'signature_validation_failed', {
           metadata,
           signatureHeader,
-          payloadLength: payload.length
+          payloadLength: payload.length,
+          secretVersion: config.secretVersion
         })
 
         return {
@@ -212,12 +418,15 @@ export class WebhookSecurityService {
       // All validations passed
       await this.logSecurityEvent(webhookId, 'webhook_validated', {
         metadata,
-        payloadLength: payload.length
+        payloadLength: payload.length,
+        secretVersion: config.secretVersion,
+        matchedSecret
       })
 
       return {
         valid: true,
         webhookConfig: config,
+        matchedSecret,
         metadata
       }
 
@@ -298,9 +507,9 @@ export class WebhookSecurityService {
         return false
       }
 
-      // Validate token
-      const expectedToken = securityService.generateHMAC(`${webhookId}.${timestamp}`, config.secret)
-      return securityService.verifyHMAC(`${webhookId}.${timestamp}`, token, config.secret)
+      // Validate token; URLs issued before a rotation stay valid during the grace window
+      return this.acceptedSecrets(config)
+        .some(({ secret }) => securityService.verifyHMAC(`${webhookId}.${timestamp}`, token, secret))
 
     } catch (error) {
       return false
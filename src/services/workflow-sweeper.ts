@@ -0,0 +1,170 @@
+// Workflow Sweeper
+// Background job that reconciles workflow executions with n8n, times out runs n8n never called back
+// about and releases their assets
+
+import { supabase } from '@/integrations/supabase/client'
+import { n8nService } from './n8n-integration'
+import { n8nApi } from './n8n-api'
+import { EventTypes } from './event-sourcing'
+import {
+  ACTIVE_WORKFLOW_STATUSES,
+  IllegalWorkflowTransitionError
+} from '@/utils/workflow-state'
+import type { Tables } from '@/integrations/supabase/types-enhanced'
+
+interface WorkflowSweeperOptions {
+  intervalMs?: number
+  // Upper bound on executions handled per sweep
+  batchSize?: number
+}
+
+interface WorkflowSweepOutcome {
+  executionId: string
+  assetId: string | null
+  timedOut: boolean
+  error?: string
+}
+
+export class WorkflowSweeper {
+  private readonly intervalMs: number
+  private readonly batchSize: number
+
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private running = false
+  private currentSweep: Promise<WorkflowSweepOutcome[]> | null = null
+
+  constructor(options: WorkflowSweeperOptions = {}) {
+    this.intervalMs = options.intervalMs ?? 60 * 1000
+    this.batchSize = options.batchSize ?? 50
+  }
+
+  /**
+   * Start sweeping on an interval
+   */
+  start(): void {
+    if (this.running) return
+    this.running = true
+    console.log('Workflow sweeper started')
+    this.scheduleNextSweep(0)
+  }
+
+  /**
+   * Stop sweeping and wait for the in-flight sweep to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    if (this.currentSweep) {
+      await this.currentSweep
+    }
+    console.log('Workflow sweeper stopped')
+  }
+
+  /**
+   * Settle active executions n8n has already finished, then mark those still active past
+   * their deadline as timed out
+   */
+  async sweepOnce(): Promise<WorkflowSweepOutcome[]> {
+    // Without API access every overdue run is treated as lost
+    if (n8nApi.isConfigured()) {
+      const summary = await n8nService.getInstance().reconcileExecutions(this.batchSize)
+      if (summary.settled > 0 || summary.failed > 0) {
+        console.log(`Reconciled ${summary.checked} workflow executions: ${summary.settled} settled, ${summary.failed} failed`)
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('workflow_executions')
+      .select('*')
+      .in('status', ACTIVE_WORKFLOW_STATUSES)
+      .lt('timeout_at', new Date().toISOString())
+      .order('timeout_at', { ascending: true })
+      .limit(this.batchSize)
+
+    if (error) {
+      throw new Error(`Failed to load overdue workflow executions: ${error.message}`)
+    }
+
+    const outcomes: WorkflowSweepOutcome[] = []
+    for (const execution of (data || []) as unknown as Tables<'workflow_executions'>[]) {
+      outcomes.push(await this.timeOut(execution))
+    }
+
+    return outcomes
+  }
+
+  private scheduleNextSweep(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      if (!this.running) return
+
+      try {
+        this.currentSweep = this.sweepOnce()
+        await this.currentSweep
+      } catch (error) {
+        console.error('Workflow sweep failed:', error)
+      } finally {
+        this.currentSweep = null
+        this.scheduleNextSweep(this.intervalMs)
+      }
+    }, delayMs)
+  }
+
+  private async timeOut(execution: Tables<'workflow_executions'>): Promise<WorkflowSweepOutcome> {
+    const message = `No callback from n8n by ${execution.timeout_at}; the run was marked timed out`
+
+    try {
+      await n8nService.getInstance().transitionExecution({ id: execution.id }, 'timed_out', {
+        error_details: message
+      })
+    } catch (error) {
+      // A callback landed between the query and the update, so the run is not lost after all
+      if (error instanceof IllegalWorkflowTransitionError) {
+        return { executionId: execution.id, assetId: execution.asset_id, timedOut: false }
+      }
+      return {
+        executionId: execution.id,
+        assetId: execution.asset_id,
+        timedOut: false,
+        error: error instanceof Error ? error.message : 'Failed to time out workflow execution'
+      }
+    }
+
+    // Stop the run in n8n too, so it cannot publish after its asset was released
+    if (execution.n8n_execution_id && n8nApi.isConfigured()) {
+      await n8nApi.stopExecution(execution.n8n_execution_id)
+        .catch(error => console.error(`Failed to stop timed out n8n execution ${execution.n8n_execution_id}:`, error))
+    }
+
+    await n8nService.getInstance().releaseAsset(execution, message)
+    await this.logTimeout(execution, message)
+
+    return { executionId: execution.id, assetId: execution.asset_id, timedOut: true }
+  }
+
+  private async logTimeout(execution: Tables<'workflow_executions'>, message: string): Promise<void> {
+    await supabase
+      .from('events')
+      .insert({
+        entity_type: 'workflow',
+        entity_id: execution.id,
+        event_type: EventTypes.WORKFLOW_FAILED,
+        event_data: {
+          reason: 'timed_out',
+          error: message,
+          workflowType: execution.workflow_type,
+          assetId: execution.asset_id,
+          n8nExecutionId: execution.n8n_execution_id,
+          previousStatus: execution.status,
+          startedAt: execution.started_at,
+          timeoutAt: execution.timeout_at
+        },
+        security_level: 'error'
+      })
+  }
+}
+
+// Export singleton instance
+export const workflowSweeper = new WorkflowSweeper()
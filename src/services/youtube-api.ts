@@ -0,0 +1,382 @@
+// YouTube Data API Integration Service
+// Handles YouTube Shorts publishing through resumable uploads
+
+import { supabase } from '@/integrations/supabase/client'
+import { tokenVault } from './token-vault'
+import { captionsMatch } from '@/utils/idempotency'
+import { truncateText } from '@/utils/caption-layout'
+import { captionRenderer } from './caption-renderer'
+import type {
+  ConnectedAccount,
+  YouTubePrivacyStatus,
+  YouTubeUploadResponse
+} from '@/integrations/supabase/types-enhanced'
+
+interface YouTubeAccount {
+  id: string
+  access_token: string
+  account_handle: string
+  privacy_status: YouTubePrivacyStatus
+  category_id: string
+  made_for_kids: boolean
+}
+
+interface VideoSnippet {
+  title: string
+  description: string
+  tags: string[]
+  categoryId: string
+}
+
+// Resumable chunks must be multiples of 256KB
+const CHUNK_GRANULARITY = 256 * 1024
+const DEFAULT_CHUNK_SIZE = 32 * CHUNK_GRANULARITY // 8MB
+const MAX_TITLE_LENGTH = 100
+const MAX_DESCRIPTION_LENGTH = 5000
+const SHORTS_TAG = 'Shorts'
+// People & Blogs
+const DEFAULT_CATEGORY_ID = '22'
+
+export class YouTubeAPIService {
+  constructor(
+    private readonly baseUrl = 'https://www.googleapis.com',
+    private readonly tokenUrl = 'https://oauth2.googleapis.com/token',
+    private readonly chunkSize = DEFAULT_CHUNK_SIZE
+  ) {}
+
+  /**
+   * Build Shorts snippet (title, description, tags) from a rendered caption
+   */
+  buildSnippet(caption: string | undefined, categoryId = DEFAULT_CATEGORY_ID): VideoSnippet {
+    const text = (caption || '').trim()
+    const hashtags = captionRenderer.extractHashtags(text)
+
+    // First non-empty line becomes the title; YouTube rejects angle brackets
+    const firstLine = text.split('\n').find(line => line.trim()) || 'New Short'
+    const title = truncateText(firstLine.replace(/[<>]/g, '').trim(), MAX_TITLE_LENGTH)
+
+    let description = text.replace(/[<>]/g, '')
+    if (!/#shorts\b/i.test(description)) {
+      description = `${description}\n\n#${SHORTS_TAG}`.trim()
+    }
+    description = truncateText(description, MAX_DESCRIPTION_LENGTH)
+
+    const tags = [SHORTS_TAG, ...hashtags.filter(tag => tag.toLowerCase() !== 'shorts')]
+
+    return { title, description, tags, categoryId }
+  }
+
+  /**
+   * Start a resumable upload session and return the session URI
+   */
+  async startResumableSession(
+    account: YouTubeAccount,
+    snippet: VideoSnippet,
+    videoSize: number,
+    mimeType: string
+  ): Promise<string> {
+    const params = new URLSearchParams({
+      uploadType: 'resumable',
+      part: 'snippet,status'
+    })
+
+    const response = await fetch(`${this.baseUrl}/upload/youtube/v3/videos?${params}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${account.access_token}`,
+        'Content-Type': 'application/json; charset=UTF-8',
+        'X-Upload-Content-Length': String(videoSize),
+        'X-Upload-Content-Type': mimeType
+      },
+      body: JSON.stringify({
+        snippet,
+        status: {
+          privacyStatus: account.privacy_status,
+          selfDeclaredMadeForKids: account.made_for_kids
+        }
+      })
+    })
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      throw Object.assign(
+        new Error(data.error?.message || `Failed to start YouTube upload: ${response.statusText}`),
+        { status: response.status }
+      )
+    }
+
+    const sessionUri = response.headers.get('location')
+    if (!sessionUri) {
+      throw new Error('YouTube did not return an upload session URI')
+    }
+
+    return sessionUri
+  }
+
+  /**
+   * Upload video bytes to a resumable session, resuming from the last acknowledged byte
+   */
+  async uploadToSession(
+    account: YouTubeAccount,
+    sessionUri: string,
+    video: Blob,
+    maxRetries = 3
+  ): Promise<YouTubeUploadResponse> {
+    const totalSize = video.size
+    const mimeType = video.type || 'video/mp4'
+    let offset = 0
+    let retries = 0
+
+    while (offset < totalSize) {
+      const end = Math.min(offset + this.chunkSize, totalSize)
+
+      let response: Response
+      try {
+        response = await fetch(sessionUri, {
+          method: 'PUT',
+          headers: {
+            'Authorization': `Bearer ${account.access_token}`,
+            'Content-Type': mimeType,
+            'Content-Length': String(end - offset),
+            'Content-Range': `bytes ${offset}-${end - 1}/${totalSize}`
+          },
+          body: video.slice(offset, end)
+        })
+      } catch (error) {
+        // Network failure: ask the session how far it got and resume from there
+        if (retries++ >= maxRetries) throw error
+        offset = await this.queryUploadOffset(account, sessionUri, totalSize)
+        continue
+      }
+
+      // 308 Resume Incomplete: more bytes expected
+      if (response.status === 308) {
+        offset = this.parseRangeHeader(response.headers.get('range'))
+        retries = 0
+        continue
+      }
+
+      if (response.status === 200 || response.status === 201) {
+        return response.json()
+      }
+
+      if (response.status >= 500 && retries++ < maxRetries) {
+        offset = await this.queryUploadOffset(account, sessionUri, totalSize)
+        continue
+      }
+
+      const data = await response.json().catch(() => ({}))
+      throw Object.assign(
+        new Error(data.error?.message || `YouTube upload failed: ${response.status} ${response.statusText}`),
+        { status: response.status }
+      )
+    }
+
+    throw new Error('YouTube upload ended without a video resource')
+  }
+
+  /**
+   * Complete upload and publish flow for a Short
+   */
+  async uploadShort(
+    accountId: string,
+    mediaUrl: string,
+    caption?: string
+  ): Promise<YouTubeUploadResponse> {
+    const youtubeAccount = await this.getAccount(accountId)
+    const video = await this.downloadVideo(mediaUrl)
+    const snippet = this.buildSnippet(caption, youtubeAccount.category_id)
+
+    const sessionUri = await this.startResumableSession(
+      youtubeAccount,
+      snippet,
+      video.size,
+      video.type || 'video/mp4'
+    )
+
+    return this.uploadToSession(youtubeAccount, sessionUri, video)
+  }
+
+  /**
+   * Find a Short uploaded since the given time whose description matches the caption
+   */
+  async findRecentPost(accountId: string, caption: string | undefined, since: Date): Promise<string | null> {
+    const youtubeAccount = await this.getAccount(accountId)
+    const params = new URLSearchParams({
+      part: 'snippet',
+      forMine: 'true',
+      type: 'video',
+      order: 'date',
+      maxResults: '10'
+    })
+
+    const response = await fetch(`${this.baseUrl}/youtube/v3/search?${params}`, {
+      headers: {
+        'Authorization': `Bearer ${youtubeAccount.access_token}`
+      }
+    })
+
+    const data = await response.json()
+    if (!response.ok) {
+      throw Object.assign(
+        new Error(data.error?.message || `YouTube search failed: ${response.statusText}`),
+        { status: response.status }
+      )
+    }
+
+    const expected = this.buildSnippet(caption, youtubeAccount.category_id)
+    const match = ((data.items || []) as Array<{
+      id: { videoId: string }
+      snippet: { title: string; description: string; publishedAt: string }
+    }>).find(item =>
+      new Date(item.snippet.publishedAt).getTime() >= since.getTime() &&
+      captionsMatch(expected.title, item.snippet.title) &&
+      captionsMatch(expected.description, item.snippet.description)
+    )
+
+    return match?.id.videoId || null
+  }
+
+  /**
+   * Validate account connection (token valid and channel reachable)
+   */
+  async validateAccount(accountId: string): Promise<boolean> {
+    try {
+      const youtubeAccount = await this.getAccount(accountId)
+      const params = new URLSearchParams({ part: 'id', mine: 'true' })
+
+      const response = await fetch(`${this.baseUrl}/youtube/v3/channels?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${youtubeAccount.access_token}`
+        }
+      })
+
+      if (!response.ok) {
+        return false
+      }
+
+      const data = await response.json()
+      return Array.isArray(data.items) && data.items.length > 0
+
+    } catch (error) {
+      console.error('YouTube account validation failed:', error)
+      return false
+    }
+  }
+
+  /**
+   * Refresh access token using the stored refresh token
+   */
+  async refreshAccessToken(accountId: string): Promise<boolean> {
+    try {
+      const account = await tokenVault.getConnectedAccount(accountId)
+
+      if (!account || !account.refresh_token) {
+        return false
+      }
+
+      const params = new URLSearchParams({
+        client_id: process.env.YOUTUBE_CLIENT_ID!,
+        client_secret: process.env.YOUTUBE_CLIENT_SECRET!,
+        grant_type: 'refresh_token',
+        refresh_token: account.refresh_token
+      })
+
+      const response = await fetch(this.tokenUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: params
+      })
+
+      const data = await response.json()
+
+      if (response.ok && data.access_token) {
+        await tokenVault.storeTokens(accountId, {
+          accessToken: data.access_token,
+          expiresIn: data.expires_in
+        })
+
+        return true
+      }
+
+      return false
+
+    } catch (error) {
+      console.error('YouTube token refresh failed:', error)
+      return false
+    }
+  }
+
+  /**
+   * Ask the session how many bytes it has persisted
+   */
+  private async queryUploadOffset(
+    account: YouTubeAccount,
+    sessionUri: string,
+    totalSize: number
+  ): Promise<number> {
+    const response = await fetch(sessionUri, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Bearer ${account.access_token}`,
+        'Content-Length': '0',
+        'Content-Range': `bytes */${totalSize}`
+      }
+    })
+
+    if (response.status === 308) {
+      return this.parseRangeHeader(response.headers.get('range'))
+    }
+
+    if (response.status === 200 || response.status === 201) {
+      return totalSize
+    }
+
+    throw new Error(`YouTube upload session lost: ${response.status} ${response.statusText}`)
+  }
+
+  /**
+   * Range header looks like "bytes=0-524287"; next offset is the upper bound + 1
+   */
+  private parseRangeHeader(range: string | null): number {
+    if (!range) return 0
+    const match = range.match(/bytes=\d+-(\d+)/)
+    return match ? parseInt(match[1], 10) + 1 : 0
+  }
+
+  private async downloadVideo(mediaUrl: string): Promise<Blob> {
+    const response = await fetch(mediaUrl)
+    if (!response.ok) {
+      throw new Error(`Failed to download video: ${response.status} ${response.statusText}`)
+    }
+    return response.blob()
+  }
+
+  private async getAccount(accountId: string): Promise<YouTubeAccount> {
+    const account = await tokenVault.getConnectedAccount(accountId, 'youtube')
+
+    if (!account || !account.access_token) {
+      throw new Error('YouTube account not found or not connected')
+    }
+
+    return this.toYouTubeAccount(account)
+  }
+
+  private toYouTubeAccount(account: ConnectedAccount): YouTubeAccount {
+    const metadata = (account.account_metadata || {}) as Record<string, unknown>
+
+    return {
+      id: account.id,
+      access_token: account.access_token!,
+      account_handle: account.account_handle,
+      privacy_status: (metadata.privacy_status as YouTubePrivacyStatus) || 'public',
+      category_id: (metadata.category_id as string) || DEFAULT_CATEGORY_ID,
+      made_for_kids: !!metadata.made_for_kids
+    }
+  }
+}
+
+// Export singleton instance
+export const youtubeAPI = new YouTubeAPIService()
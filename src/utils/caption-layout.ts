@@ -0,0 +1,192 @@
+// Caption layout helpers
+// Grapheme-safe truncation and priority-based fitting of captions into platform limits
+
+interface GraphemeSegmenter {
+  segment(input: string): Iterable<{ segment: string }>
+}
+
+type SegmenterConstructor = new (locale?: string, options?: { granularity: 'grapheme' }) => GraphemeSegmenter
+
+export interface CaptionParts {
+  // First paragraph; its opening sentence is never dropped
+  hook: string
+  // Paragraphs between the hook and the call to action
+  body: string[]
+  // Last paragraph before the hashtag block, kept whole when possible
+  cta: string
+  // Trailing hashtag-only paragraphs, without the "#"
+  hashtags: string[]
+}
+
+export interface FitOptions {
+  limit: number
+  // Hashtags to append after the text; empty when they go elsewhere (e.g. first comment)
+  hashtags: string[]
+  ellipsis?: string
+}
+
+export interface FitResult {
+  text: string
+  truncated: boolean
+  droppedSentences: number
+  // Hashtags that still fit after everything else was shortened
+  hashtags: string[]
+}
+
+const ELLIPSIS = '…'
+const Segmenter = (Intl as unknown as { Segmenter?: SegmenterConstructor }).Segmenter
+
+// Fallback cluster pattern: a base code point plus combining marks, variation selectors,
+// skin tones and keycaps, joined by zero-width joiners; or a regional indicator pair (flags)
+const GRAPHEME_MODIFIER = '(?:\\p{M}|\\uFE0F|\\u20E3|\\u{1F3FB}|\\u{1F3FC}|\\u{1F3FD}|\\u{1F3FE}|\\u{1F3FF})'
+const GRAPHEME_BASE = `(?!${GRAPHEME_MODIFIER}|\\u200D)[\\s\\S]`
+const GRAPHEME_PATTERN = new RegExp(
+  `\\p{Regional_Indicator}{2}|${GRAPHEME_BASE}${GRAPHEME_MODIFIER}*(?:\\u200D${GRAPHEME_BASE}${GRAPHEME_MODIFIER}*)*|[\\s\\S]`,
+  'gu'
+)
+
+/**
+ * Split text into user-perceived characters so emoji, flags and accents are never cut apart
+ */
+export function splitGraphemes(text: string): string[] {
+  if (Segmenter) {
+    return Array.from(new Segmenter(undefined, { granularity: 'grapheme' }).segment(text), part => part.segment)
+  }
+  return text.match(GRAPHEME_PATTERN) || []
+}
+
+/**
+ * Shorten text to at most maxLength UTF-16 units (what platforms count), ending on a whole
+ * grapheme and preferably a word boundary, and never inside a hashtag or mention
+ */
+export function truncateText(text: string, maxLength: number, ellipsis = ELLIPSIS): string {
+  if (text.length <= maxLength) return text
+  if (maxLength <= ellipsis.length) return ''
+
+  const budget = maxLength - ellipsis.length
+  let cut = ''
+  for (const grapheme of splitGraphemes(text)) {
+    if (cut.length + grapheme.length > budget) break
+    cut += grapheme
+  }
+
+  // Back up to the last whitespace unless that would throw away most of the text
+  const boundary = cut.search(/\s\S*$/)
+  if (boundary > budget * 0.6) {
+    cut = cut.slice(0, boundary)
+  } else {
+    // A half hashtag or mention links somewhere else, so drop the fragment entirely
+    cut = cut.replace(/[#@][\p{L}\p{N}_]*$/u, '')
+  }
+
+  return cut.replace(/[\s.,;:!?\-–—]+$/u, '') + ellipsis
+}
+
+/**
+ * Split a rendered caption into hook, body, call to action and trailing hashtag block
+ */
+export function parseCaption(text: string): CaptionParts {
+  const paragraphs = text.trim().split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean)
+  const hashtags: string[] = []
+
+  while (paragraphs.length > 0 && isHashtagOnly(paragraphs[paragraphs.length - 1])) {
+    const tags = paragraphs.pop()!.split(/\s+/).map(tag => tag.replace(/^#/, ''))
+    hashtags.unshift(...tags)
+  }
+
+  const hook = paragraphs.shift() || ''
+  const cta = paragraphs.length > 0 ? paragraphs.pop()! : ''
+
+  return { hook, body: paragraphs, cta, hashtags }
+}
+
+/**
+ * Fit caption parts into a limit. Lower-priority sentences go first (body from the end,
+ * then the rest of the hook), then the hook is shortened, then hashtags, and only then the CTA.
+ */
+export function fitCaption(parts: CaptionParts, options: FitOptions): FitResult {
+  const ellipsis = options.ellipsis ?? ELLIPSIS
+  const hookSentences = splitSentences(parts.hook)
+  const bodySentences = parts.body.map(splitSentences)
+  let hashtags = [...options.hashtags]
+  let hook = parts.hook
+  let cta = parts.cta
+  let droppedSentences = 0
+
+  const build = () => joinCaption(
+    [hook, ...bodySentences.map(joinSentences), cta],
+    hashtags
+  )
+
+  // Drop body sentences from the last paragraph backwards
+  for (let p = bodySentences.length - 1; p >= 0 && build().length > options.limit; p--) {
+    while (bodySentences[p].length > 0 && build().length > options.limit) {
+      bodySentences[p].pop()
+      droppedSentences++
+    }
+  }
+
+  // Then trailing hook sentences, keeping the opening line
+  while (hookSentences.length > 1 && build().length > options.limit) {
+    hookSentences.pop()
+    hook = joinSentences(hookSentences)
+    droppedSentences++
+  }
+
+  // Then shorten what is left of the hook
+  if (build().length > options.limit) {
+    const rest = build().length - hook.length
+    hook = truncateText(hook, Math.max(0, options.limit - rest), ellipsis)
+  }
+
+  // Then give up hashtags from the end of the block
+  while (hashtags.length > 0 && build().length > options.limit) {
+    hashtags = hashtags.slice(0, -1)
+  }
+
+  // Finally the call to action itself
+  if (build().length > options.limit) {
+    const rest = build().length - cta.length
+    cta = truncateText(cta, Math.max(0, options.limit - rest), ellipsis)
+  }
+
+  let text = build()
+  if (text.length > options.limit) {
+    text = truncateText(text, options.limit, ellipsis)
+  }
+
+  const original = joinCaption([parts.hook, ...parts.body, parts.cta], options.hashtags)
+  return {
+    text,
+    truncated: text !== original,
+    droppedSentences,
+    hashtags
+  }
+}
+
+/**
+ * Join paragraphs and a hashtag block the way captions are laid out
+ */
+export function joinCaption(paragraphs: string[], hashtags: string[]): string {
+  const blocks = paragraphs.map(paragraph => paragraph.trim()).filter(Boolean)
+  if (hashtags.length > 0) {
+    blocks.push(hashtags.map(tag => `#${tag}`).join(' '))
+  }
+  return blocks.join('\n\n')
+}
+
+function isHashtagOnly(paragraph: string): boolean {
+  return paragraph.split(/\s+/).every(token => /^#[\p{L}\p{N}_]+$/u.test(token))
+}
+
+/**
+ * Sentences keep their trailing punctuation and whitespace (including line breaks)
+ * so joining them back gives the original paragraph
+ */
+function splitSentences(paragraph: string): string[] {
+  return paragraph.match(/[^.!?\n]+(?:[.!?]+|\n|$)\s*|[.!?\n]+\s*/g) || []
+}
+
+function joinSentences(sentences: string[]): string {
+  return sentences.join('').trim()
+}
@@ -0,0 +1,381 @@
+// Caption linter
+// Brand-voice and compliance rules run on rendered captions, each with a severity and fix suggestions
+
+import type {
+  Platform,
+  BrandVoice,
+  CaptionPolicy,
+  CaptionLintRule,
+  CaptionLintSeverity,
+  CaptionLintIssue,
+  CaptionLintEdit
+} from '@/integrations/supabase/types-enhanced'
+import { splitGraphemes } from './caption-layout'
+
+export interface CaptionLintOptions {
+  platform: Platform
+  policy?: CaptionPolicy
+  brandVoice?: BrandVoice
+}
+
+export interface CaptionLintResult {
+  // False when any error-level issue was found
+  passed: boolean
+  issues: CaptionLintIssue[]
+}
+
+interface PhraseRule {
+  pattern: RegExp
+  severity: CaptionLintSeverity
+  message: string
+  suggestions: string[]
+  // Safe drop-in wording, offered as an automatic fix
+  replacement?: string
+}
+
+// Wording that describes who should live somewhere rather than the property itself
+// (Fair Housing Act advertising guidance), and earnings claims regulators treat as deceptive
+const BANNED_PHRASES: PhraseRule[] = [
+  {
+    pattern: /\b(?:no (?:kids|children)|adults? only|child-?free (?:building|community))\b/gi,
+    severity: 'error',
+    message: 'Excluding families with children is familial-status discrimination under fair housing rules',
+    suggestions: ['Describe the property instead, e.g. "quiet building" or "2 bedrooms"']
+  },
+  {
+    pattern: /\b(?:perfect|ideal|great) for (?:(?:young |single |married )?(?:couples?|singles|professionals|families|retirees|empty nesters|bachelors?|students))\b/gi,
+    severity: 'error',
+    message: 'Saying who a home is "perfect for" signals a preferred buyer or tenant',
+    suggestions: ['Describe features, e.g. "close to transit" or "large backyard"']
+  },
+  {
+    pattern: /\b(?:christian|jewish|catholic|muslim|white|black|hispanic|asian) (?:neighborhood|community|area|family|families|buyers?|tenants?)\b/gi,
+    severity: 'error',
+    message: 'Religion, race or national origin must not describe a neighborhood or the people in it',
+    suggestions: ['Remove the description of the residents', 'Name nearby landmarks instead']
+  },
+  {
+    pattern: /\b(?:exclusive|restricted|integrated|traditional) (?:neighborhood|community|area)\b/gi,
+    severity: 'warning',
+    message: 'This wording has historically been used to steer buyers and can read as a preference',
+    suggestions: ['Use "private", "gated" or the neighborhood name if that is what you mean']
+  },
+  {
+    pattern: /\bno section ?8\b/gi,
+    severity: 'error',
+    message: 'Refusing housing vouchers is source-of-income discrimination in many states',
+    suggestions: ['Remove the restriction and state the screening criteria instead']
+  },
+  {
+    pattern: /\bwalking distance (?:to|from) (?:the )?(?:church|synagogue|mosque|temple)\b/gi,
+    severity: 'warning',
+    message: 'Pointing to a house of worship can read as a religious preference',
+    suggestions: ['Name it as a landmark alongside others, or describe distances to transit and shops']
+  },
+  {
+    pattern: /\bhandicapped\b/gi,
+    severity: 'warning',
+    message: '"Handicapped" is outdated wording for accessibility features',
+    suggestions: ['Describe the feature, e.g. "wheelchair-accessible entrance"'],
+    replacement: 'accessible'
+  },
+  {
+    pattern: /\bguaranteed (?:income|returns?|profits?|cash ?flow|results|deals?|money)\b/gi,
+    severity: 'error',
+    message: 'Guaranteed earnings claims are deceptive unless they are contractually true',
+    suggestions: ['Describe what happened in your deal instead of promising results']
+  },
+  {
+    pattern: /\b(?:risk[- ]free|no risk|can(?:'|’|no)t lose|get rich quick|passive income for life)\b/gi,
+    severity: 'error',
+    message: 'Investment content must not claim to be without risk',
+    suggestions: ['Mention the risks, or remove the claim']
+  },
+  {
+    pattern: /\b(?:make|earn|made|earned) \$\d[\d,.]*k?\+? (?:a|per|every|each) (?:day|week|month|year)\b/gi,
+    severity: 'warning',
+    message: 'Earnings figures need context so they are not read as typical results',
+    suggestions: ['Add "results not typical" with how the figure was achieved', 'Remove the figure']
+  },
+  {
+    pattern: /\bquit your (?:job|9[- ]to[- ]5|9-5)\b/gi,
+    severity: 'warning',
+    message: 'Implies income replacement that most viewers will not see',
+    suggestions: ['Talk about what you learned rather than what viewers will earn']
+  }
+]
+
+// Casual words that undercut a professional register, with suggested replacements
+const CASUAL_WORDS: Partial<Record<Platform, Record<string, string>>> = {
+  linkedin: {
+    lit: 'exciting',
+    fire: 'impressive',
+    sick: 'remarkable',
+    dope: 'excellent',
+    insane: 'remarkable',
+    crushing: 'succeeding'
+  }
+}
+
+// Maximum emoji per 100 characters of text
+const EMOJI_DENSITY: Record<Platform, number> = {
+  instagram: 6,
+  tiktok: 8,
+  facebook: 4,
+  linkedin: 1,
+  youtube: 3
+}
+
+// Other platforms a caption should not name
+const COMPETITOR_MENTIONS: Partial<Record<Platform, RegExp>> = {
+  instagram: /\btik ?tok\b/gi,
+  youtube: /\btik ?tok\b/gi
+}
+
+// Captions where links are plain text, so they belong in the bio or first comment
+const UNCLICKABLE_LINK_PLATFORMS: Platform[] = ['instagram', 'tiktok']
+
+const LINK_SHORTENERS = [
+  'bit.ly', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'buff.ly',
+  'rebrand.ly', 'cutt.ly', 'shorturl.at', 'tiny.cc', 'lnkd.in', 'rb.gy'
+]
+
+const URL_PATTERN = /(?<![@\w.])(?:https?:\/\/)?(?:www\.)?((?:[a-zA-Z0-9-]+\.)+[a-z]{2,})\b(?:\/\S*)?/g
+const EMOJI_PATTERN = /\p{Extended_Pictographic}|\p{Regional_Indicator}/u
+const TRAILING_HASHTAGS = /\n\s*\n(?:#[\p{L}\p{N}_]+\s*)+$/u
+
+/**
+ * Run every enabled rule against a caption as it will be posted on a platform
+ */
+export function lintCaption(text: string, options: CaptionLintOptions): CaptionLintResult {
+  const { platform, policy = {}, brandVoice = {} } = options
+  const disabled = new Set(policy.disabledRules || [])
+
+  const issues = [
+    ...checkBannedPhrases(text, policy),
+    ...checkDisclosure(text, policy),
+    ...checkEmojiDensity(text, platform, policy, brandVoice),
+    ...checkLinks(text, platform, policy),
+    ...checkPlatformMentions(text, platform),
+    ...checkTone(text, platform, brandVoice)
+  ].filter(issue => !disabled.has(issue.rule))
+
+  return {
+    passed: issues.every(issue => issue.severity !== 'error'),
+    issues
+  }
+}
+
+/**
+ * Apply the automatic fixes of the given issues; overlapping edits keep the first one
+ */
+export function applyLintFixes(text: string, issues: CaptionLintIssue[]): string {
+  const edits = issues
+    .flatMap(issue => issue.fix || [])
+    .sort((a, b) => a.start - b.start || a.end - b.end)
+
+  let result = ''
+  let cursor = 0
+  for (const edit of edits) {
+    if (edit.start < cursor) continue
+    result += text.slice(cursor, edit.start) + edit.replacement
+    cursor = edit.end
+  }
+  result += text.slice(cursor)
+
+  return result.replace(/[ \t]{2,}/g, ' ').replace(/ +\n/g, '\n').trim()
+}
+
+/**
+ * Short label for lists, e.g. "Error: ..." or "Warning: ..."
+ */
+export function formatLintIssue(issue: CaptionLintIssue): string {
+  const label = issue.severity === 'error' ? 'Error' : 'Warning'
+  return issue.match ? `${label}: ${issue.message} ("${issue.match}")` : `${label}: ${issue.message}`
+}
+
+function checkBannedPhrases(text: string, policy: CaptionPolicy): CaptionLintIssue[] {
+  const accountRules: PhraseRule[] = (policy.bannedPhrases || [])
+    .filter(phrase => phrase.trim())
+    .map(phrase => ({
+      pattern: new RegExp(`\\b${escapeRegExp(phrase.trim())}\\b`, 'gi'),
+      severity: 'error',
+      message: 'This phrase is banned for this account',
+      suggestions: ['Remove or reword the phrase']
+    }))
+
+  return [...BANNED_PHRASES, ...accountRules].flatMap(rule =>
+    findAll(text, rule.pattern).map(match => issue('banned_phrase', rule.severity, rule.message, rule.suggestions, match,
+      rule.replacement !== undefined ? [{ start: match.start, end: match.end, replacement: rule.replacement }] : undefined))
+  )
+}
+
+function checkDisclosure(text: string, policy: CaptionPolicy): CaptionLintIssue[] {
+  const disclosure = policy.disclosure?.trim()
+  if (!disclosure || normalizeSpace(text).includes(normalizeSpace(disclosure))) return []
+
+  // Insert above the trailing hashtag block so the tags stay last
+  const hashtagBlock = text.search(TRAILING_HASHTAGS)
+  const at = hashtagBlock >= 0 ? hashtagBlock : text.length
+
+  return [issue(
+    'required_disclosure',
+    'error',
+    'The account requires a disclosure line in every caption',
+    [`Add "${disclosure}"`, 'Check that the disclosure was not cut off when the caption was shortened'],
+    undefined,
+    [{ start: at, end: at, replacement: `\n\n${disclosure}` }]
+  )]
+}
+
+function checkEmojiDensity(
+  text: string,
+  platform: Platform,
+  policy: CaptionPolicy,
+  brandVoice: BrandVoice
+): CaptionLintIssue[] {
+  const density = brandVoice.emojiStyle === 'none' ? 0 : policy.maxEmojiDensity?.[platform] ?? EMOJI_DENSITY[platform]
+  const emoji: Array<{ start: number; end: number }> = []
+  let length = 0
+  let offset = 0
+
+  for (const grapheme of splitGraphemes(text)) {
+    if (EMOJI_PATTERN.test(grapheme)) {
+      emoji.push({ start: offset, end: offset + grapheme.length })
+    } else if (/\S/.test(grapheme)) {
+      length++
+    }
+    offset += grapheme.length
+  }
+
+  // Short captions still get one emoji when the platform allows any
+  const allowed = density === 0 ? 0 : Math.max(1, Math.floor(length * density / 100))
+  if (emoji.length <= allowed) return []
+
+  const excess = emoji.length - allowed
+  return [issue(
+    'emoji_density',
+    'warning',
+    density === 0
+      ? 'The brand voice uses no emoji'
+      : `${emoji.length} emoji is more than ${platform} readers expect for this length (${allowed} suggested)`,
+    [`Remove ${excess} emoji`, 'Keep emoji for the hook and call to action'],
+    undefined,
+    // Keep the earliest ones, which usually carry the hook
+    emoji.slice(allowed).map(({ start, end }) => ({ start, end, replacement: '' }))
+  )]
+}
+
+function checkLinks(text: string, platform: Platform, policy: CaptionPolicy): CaptionLintIssue[] {
+  const shortenerPolicy = policy.linkShorteners || 'warn'
+  const issues: CaptionLintIssue[] = []
+  let unclickableReported = false
+
+  for (const match of findAll(text, URL_PATTERN)) {
+    // "wholesalemastery.com" counts as a link; "e.g." or "3.5" do not match the pattern
+    const host = match.groups[0].toLowerCase()
+    if (shortenerPolicy !== 'allow' && LINK_SHORTENERS.includes(host)) {
+      issues.push(issue(
+        'link_shortener',
+        shortenerPolicy === 'block' ? 'error' : 'warning',
+        'Shortened links hide where they go and are often down-ranked or flagged as spam',
+        ['Use the full URL', 'Point to the link in bio instead'],
+        match
+      ))
+    }
+
+    if (!unclickableReported && UNCLICKABLE_LINK_PLATFORMS.includes(platform)) {
+      unclickableReported = true
+      issues.push(issue(
+        'unclickable_link',
+        'warning',
+        `Links are not clickable in ${platform} captions`,
+        ['Say "link in bio" and put the URL in the profile'],
+        match
+      ))
+    }
+  }
+
+  return issues
+}
+
+function checkPlatformMentions(text: string, platform: Platform): CaptionLintIssue[] {
+  const pattern = COMPETITOR_MENTIONS[platform]
+  if (!pattern) return []
+
+  return findAll(text, pattern).map(match => issue(
+    'platform_mention',
+    'warning',
+    `${platform} content should not reference other platforms`,
+    ['Remove the mention, or post a platform-specific version'],
+    match
+  ))
+}
+
+function checkTone(text: string, platform: Platform, brandVoice: BrandVoice): CaptionLintIssue[] {
+  const casual = Object.entries(CASUAL_WORDS[platform] || {}).flatMap(([word, replacement]) =>
+    findAll(text, new RegExp(`\\b${word}\\b`, 'gi')).map(match => issue(
+      'tone',
+      'warning',
+      `"${match.text}" reads as casual for ${platform}`,
+      [`Use "${replacement}"`],
+      match,
+      [{ start: match.start, end: match.end, replacement }]
+    ))
+  )
+
+  const avoided = (brandVoice.avoidWords || []).filter(word => word.trim()).flatMap(word =>
+    findAll(text, new RegExp(`\\b${escapeRegExp(word.trim())}\\b`, 'gi')).map(match => issue(
+      'avoid_word',
+      'warning',
+      'The brand voice avoids this word',
+      ['Reword without it'],
+      match
+    ))
+  )
+
+  return [...casual, ...avoided]
+}
+
+interface TextMatch {
+  text: string
+  start: number
+  end: number
+  groups: string[]
+}
+
+function findAll(text: string, pattern: RegExp): TextMatch[] {
+  const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g')
+  return Array.from(text.matchAll(global), match => ({
+    text: match[0],
+    start: match.index!,
+    end: match.index! + match[0].length,
+    groups: match.slice(1)
+  }))
+}
+
+function issue(
+  rule: CaptionLintRule,
+  severity: CaptionLintSeverity,
+  message: string,
+  suggestions: string[],
+  match?: TextMatch,
+  fix?: CaptionLintEdit[]
+): CaptionLintIssue {
+  return {
+    rule,
+    severity,
+    message,
+    suggestions,
+    ...(match && { match: match.text, start: match.start, end: match.end }),
+    ...(fix && { fix })
+  }
+}
+
+function normalizeSpace(value: string): string {
+  return value.replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
@@ -0,0 +1,111 @@
+// Experiment statistics
+// Two-proportion z-tests for picking a winning variant from per-view rates
+
+export interface ExperimentArm {
+  id: string
+  // e.g. engagements
+  successes: number
+  // e.g. views
+  trials: number
+}
+
+export interface WinnerOptions {
+  // e.g. 0.95
+  confidence: number
+  // Trials every arm needs before a winner can be called
+  minTrials: number
+}
+
+export interface WinnerResult {
+  winnerId: string | null
+  pValue: number | null
+  lift: number | null
+  reason: string
+}
+
+/**
+ * Standard normal CDF (Abramowitz and Stegun 7.1.26, error below 1.5e-7)
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2
+  const t = 1 / (1 + 0.3275911 * x)
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+  const erf = 1 - poly * Math.exp(-x * x)
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+/**
+ * Two-sided pooled z-test for the difference between two proportions
+ */
+export function twoProportionZTest(a: ExperimentArm, b: ExperimentArm): { z: number; pValue: number } {
+  if (a.trials === 0 || b.trials === 0) return { z: 0, pValue: 1 }
+
+  const pooled = (a.successes + b.successes) / (a.trials + b.trials)
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / a.trials + 1 / b.trials))
+  // Zero when neither arm varies; NaN when the counts are not a proportion (pooled rate above 1)
+  if (!(standardError > 0)) return { z: 0, pValue: 1 }
+
+  const z = (a.successes / a.trials - b.successes / b.trials) / standardError
+  return { z, pValue: 2 * (1 - normalCdf(Math.abs(z))) }
+}
+
+/**
+ * Call a winner when the best arm beats every other arm. The significance level is split
+ * across the comparisons (Bonferroni) so more variants do not mean more false winners.
+ */
+export function pickWinner(arms: ExperimentArm[], options: WinnerOptions): WinnerResult {
+  if (arms.length < 2) {
+    return { winnerId: null, pValue: null, lift: null, reason: 'An experiment needs at least two variants' }
+  }
+
+  const short = arms.filter(arm => arm.trials < options.minTrials)
+  if (short.length > 0) {
+    return {
+      winnerId: null,
+      pValue: null,
+      lift: null,
+      reason: `${short.length} variant(s) have fewer than ${options.minTrials} views`
+    }
+  }
+
+  // Engagements can outnumber views (one viewer likes, comments and shares), and then the
+  // per-view rate is not a proportion the z-test can compare
+  const invalid = arms.filter(arm => !(arm.successes >= 0 && arm.successes <= arm.trials))
+  if (invalid.length > 0) {
+    return {
+      winnerId: null,
+      pValue: null,
+      lift: null,
+      reason: `${invalid.length} variant(s) have more engagements than views; pick a per-view metric such as like rate`
+    }
+  }
+
+  const ranked = [...arms].sort((a, b) => b.successes / b.trials - a.successes / a.trials)
+  const [best, runnerUp] = ranked
+  const comparisons = ranked.length - 1
+
+  const worstP = Math.max(...ranked.slice(1).map(arm => twoProportionZTest(best, arm).pValue))
+  const pValue = Math.min(1, worstP * comparisons)
+  const runnerUpRate = runnerUp.successes / runnerUp.trials
+  const lift = runnerUpRate > 0 ? (best.successes / best.trials - runnerUpRate) / runnerUpRate : null
+
+  if (!Number.isFinite(pValue)) {
+    return { winnerId: null, pValue: null, lift, reason: 'No significant difference: the p-value could not be computed' }
+  }
+
+  if (pValue >= 1 - options.confidence) {
+    return {
+      winnerId: null,
+      pValue,
+      lift,
+      reason: `No significant difference yet (p = ${pValue.toFixed(3)})`
+    }
+  }
+
+  return {
+    winnerId: best.id,
+    pValue,
+    lift,
+    reason: `Leader beats every other variant at ${Math.round(options.confidence * 100)}% confidence`
+  }
+}
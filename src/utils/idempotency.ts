@@ -0,0 +1,57 @@
+// Idempotency helpers for publishing
+// Using Web Crypto API so keys match between the browser, scripts and workers
+
+interface PublishContent {
+  contentType: string
+  mediaUrls: string | string[]
+  caption?: string
+}
+
+/**
+ * Hash the content that would be posted (media, content type, caption)
+ */
+export async function hashPublishContent(content: PublishContent): Promise<string> {
+  const mediaUrls = Array.isArray(content.mediaUrls) ? content.mediaUrls : [content.mediaUrls]
+
+  // Media order matters for carousels, so it is kept as-is
+  const canonical = JSON.stringify({
+    contentType: content.contentType,
+    mediaUrls: mediaUrls.filter(Boolean),
+    caption: normalizeCaption(content.caption)
+  })
+
+  return sha256Hex(canonical)
+}
+
+/**
+ * Build the idempotency key for publishing content to a destination
+ */
+export async function buildIdempotencyKey(destinationId: string, content: PublishContent): Promise<string> {
+  const contentHash = await hashPublishContent(content)
+  return `${destinationId}:${contentHash.substring(0, 32)}`
+}
+
+/**
+ * Check whether a caption read back from a platform is the one we posted.
+ * Platforms trim whitespace, append tags or truncate, so compare a normalized prefix.
+ */
+export function captionsMatch(posted: string | undefined, found: string | undefined, prefixLength = 80): boolean {
+  const a = normalizeCaption(posted)
+  const b = normalizeCaption(found)
+
+  if (!a || !b) return a === b
+
+  const length = Math.min(prefixLength, a.length, b.length)
+  return a.substring(0, length) === b.substring(0, length)
+}
+
+function normalizeCaption(caption: string | undefined): string {
+  return (caption || '').replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
@@ -0,0 +1,94 @@
+// Locale helpers
+// Locale normalization, fallback chains for translated content and locale defaults
+
+export const DEFAULT_LOCALE = 'en-US'
+
+// Currency used for {{value | currency}} when the account does not set one
+const REGION_CURRENCIES: Record<string, string> = {
+  US: 'USD',
+  CA: 'CAD',
+  GB: 'GBP',
+  MX: 'MXN',
+  ES: 'EUR',
+  CO: 'COP',
+  AR: 'ARS',
+  CL: 'CLP',
+  PE: 'PEN',
+  PR: 'USD',
+  DO: 'DOP',
+  BR: 'BRL',
+  FR: 'EUR',
+  DE: 'EUR',
+  IT: 'EUR',
+  PT: 'EUR'
+}
+
+/**
+ * Canonical BCP 47 tag ("es-mx" -> "es-MX"), or the default for anything unparseable
+ */
+export function normalizeLocale(locale: string | null | undefined, fallback = DEFAULT_LOCALE): string {
+  if (!locale?.trim()) return fallback
+  try {
+    return Intl.getCanonicalLocales(locale.trim().replace(/_/g, '-'))[0] || fallback
+  } catch {
+    return fallback
+  }
+}
+
+/**
+ * Primary language subtag, e.g. "es" for "es-MX"
+ */
+export function localeLanguage(locale: string): string {
+  return locale.split('-')[0].toLowerCase()
+}
+
+/**
+ * Locales to try in order: the exact locale, its language, then the fallback and its language.
+ * "es-MX" with fallback "en-US" gives ["es-MX", "es", "en-US", "en"].
+ */
+export function localeFallbackChain(locale: string, fallback = DEFAULT_LOCALE): string[] {
+  const chain: string[] = []
+  for (const tag of [normalizeLocale(locale, fallback), normalizeLocale(fallback)]) {
+    for (const candidate of [tag, localeLanguage(tag)]) {
+      if (!chain.includes(candidate)) chain.push(candidate)
+    }
+  }
+  return chain
+}
+
+/**
+ * Pick the best entry for a locale from entries keyed by locale. Each step of the fallback chain
+ * tries an exact match, then any regional variant of the same language ("es" finds "es-ES").
+ */
+export function resolveLocalized<T>(
+  entries: Record<string, T>,
+  locale: string,
+  fallback = DEFAULT_LOCALE
+): { locale: string; value: T } | null {
+  const keys = Object.keys(entries)
+  const byCanonical = new Map(keys.map(key => [normalizeLocale(key, key), key]))
+
+  for (const candidate of localeFallbackChain(locale, fallback)) {
+    const exact = byCanonical.get(candidate)
+    if (exact !== undefined) {
+      return { locale: candidate, value: entries[exact] }
+    }
+
+    const sameLanguage = candidate.includes('-')
+      ? undefined
+      : Array.from(byCanonical.keys()).find(key => localeLanguage(key) === candidate)
+    if (sameLanguage) {
+      return { locale: sameLanguage, value: entries[byCanonical.get(sameLanguage)!] }
+    }
+  }
+
+  return null
+}
+
+/**
+ * ISO 4217 currency for a locale's region, USD when unknown
+ */
+export function defaultCurrency(locale: string): string {
+  const region = normalizeLocale(locale).split('-').find(part => /^[A-Z]{2}$/.test(part))
+  return (region && REGION_CURRENCIES[region]) || 'USD'
+}
@@ -0,0 +1,130 @@
+// Minimal PDF builder for image-only documents
+// Used to render carousels as multi-page PDFs (e.g. LinkedIn document posts)
+
+interface JpegInfo {
+  width: number
+  height: number
+  components: number
+}
+
+/**
+ * Read dimensions and color components from a JPEG's SOF marker
+ */
+export function readJpegInfo(bytes: Uint8Array): JpegInfo {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    throw new Error('Only JPEG images can be embedded in a PDF document')
+  }
+
+  let offset = 2
+  while (offset < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      offset++
+      continue
+    }
+
+    const marker = bytes[offset + 1]
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3]
+
+    // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+        width: (bytes[offset + 7] << 8) | bytes[offset + 8],
+        components: bytes[offset + 9]
+      }
+    }
+
+    offset += 2 + length
+  }
+
+  throw new Error('Could not read JPEG dimensions')
+}
+
+/**
+ * Build a PDF with one full-bleed page per JPEG image
+ */
+export function buildImagePdf(images: Uint8Array[], title?: string): Uint8Array {
+  if (images.length === 0) {
+    throw new Error('Cannot build a PDF without pages')
+  }
+
+  const encoder = new TextEncoder()
+  const chunks: Uint8Array[] = []
+  const offsets: number[] = []
+  let position = 0
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk
+    chunks.push(bytes)
+    position += bytes.length
+  }
+
+  const beginObject = (id: number) => {
+    offsets[id] = position
+    write(`${id} 0 obj\n`)
+  }
+
+  // Object layout: 1 catalog, 2 pages, 3 info, then (page, content, image) per image
+  const pageIds = images.map((_, index) => 4 + index * 3)
+  const totalObjects = 3 + images.length * 3
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n')
+
+  beginObject(1)
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n')
+
+  beginObject(2)
+  write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${images.length} >>\nendobj\n`)
+
+  beginObject(3)
+  write(`<< /Title (${escapePdfString(title || 'Carousel')}) /Producer (Zavala AI Content Engine) >>\nendobj\n`)
+
+  images.forEach((image, index) => {
+    const { width, height, components } = readJpegInfo(image)
+    const pageId = pageIds[index]
+    const contentId = pageId + 1
+    const imageId = pageId + 2
+    const colorSpace = components === 1 ? 'DeviceGray' : components === 4 ? 'DeviceCMYK' : 'DeviceRGB'
+    const content = `q ${width} 0 0 ${height} 0 0 cm /Im${index} Do Q`
+
+    beginObject(pageId)
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+      `/Resources << /XObject << /Im${index} ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`
+    )
+
+    beginObject(contentId)
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`)
+
+    beginObject(imageId)
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} ` +
+      `/ColorSpace /${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.length} >>\nstream\n`
+    )
+    write(image)
+    write('\nendstream\nendobj\n')
+  })
+
+  const xrefOffset = position
+  write(`xref\n0 ${totalObjects + 1}\n0000000000 65535 f \n`)
+  for (let id = 1; id <= totalObjects; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`)
+  }
+  write(`trailer\n<< /Size ${totalObjects + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+
+  const pdf = new Uint8Array(position)
+  let cursor = 0
+  for (const chunk of chunks) {
+    pdf.set(chunk, cursor)
+    cursor += chunk.length
+  }
+
+  return pdf
+}
+
+function escapePdfString(value: string): string {
+  // Keep the info dictionary ASCII-only and balanced
+  return value
+    .replace(/[^\x20-\x7e]/g, '')
+    .replace(/([\\()])/g, '\\$1')
+}
@@ -0,0 +1,856 @@
+// Caption template engine
+// {{path | filter:arg}} output, {{#if}}/{{#unless}}/{{#each}} blocks with {{else}}, {{> partial}} and {{! comments}}
+
+import type { TemplateDiagnostic } from '@/integrations/supabase/types-enhanced'
+
+interface Span {
+  offset: number
+  length: number
+}
+
+type Operand =
+  | { kind: 'path'; path: string[]; raw: string }
+  | { kind: 'literal'; value: string | number | boolean }
+
+interface FilterCall {
+  name: string
+  args: Operand[]
+}
+
+interface Expression {
+  operand: Operand
+  filters: FilterCall[]
+  span: Span
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expression: Expression }
+  | { type: 'if'; negate: boolean; condition: Expression; body: TemplateNode[]; alternate: TemplateNode[] }
+  | { type: 'each'; collection: Expression; body: TemplateNode[]; alternate: TemplateNode[] }
+  | { type: 'partial'; name: string; span: Span }
+
+interface ParsedTemplate {
+  nodes: TemplateNode[]
+  diagnostics: TemplateDiagnostic[]
+}
+
+interface TemplateOptions {
+  // Other templates by name, for {{> name}}
+  partials?: Record<string, string>
+  // BCP 47 locale for dates, numbers and currency (default en-US)
+  locale?: string
+  // ISO 4217 code for the currency filter (default USD)
+  currency?: string
+}
+
+interface RenderResult {
+  text: string
+  diagnostics: TemplateDiagnostic[]
+}
+
+interface FormatContext {
+  locale: string
+  currency: string
+}
+
+interface FilterDefinition {
+  minArgs: number
+  maxArgs: number
+  apply: (value: unknown, args: unknown[], format: FormatContext) => unknown
+}
+
+interface Frame {
+  value: unknown
+  // @index, @first, @last inside {{#each}}
+  data?: Record<string, unknown>
+}
+
+const MAX_PARTIAL_DEPTH = 10
+const PATH_PATTERN = /^(this|@?[A-Za-z_]\w*)(\.[A-Za-z_]\w*)*$/
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/
+const DEFAULT_FORMAT: FormatContext = { locale: 'en-US', currency: 'USD' }
+
+// {{value | date:"style"}} presets
+const DATE_STYLES: Record<string, Intl.DateTimeFormatOptions> = {
+  short: { dateStyle: 'short' },
+  medium: { dateStyle: 'medium' },
+  long: { dateStyle: 'long' },
+  full: { dateStyle: 'full' },
+  month: { month: 'long' },
+  weekday: { weekday: 'long' },
+  year: { year: 'numeric' },
+  day: { day: 'numeric', month: 'long' }
+}
+
+const FILTERS: Record<string, FilterDefinition> = {
+  upper: { minArgs: 0, maxArgs: 0, apply: value => toText(value).toUpperCase() },
+  lower: { minArgs: 0, maxArgs: 0, apply: value => toText(value).toLowerCase() },
+  capitalize: {
+    minArgs: 0,
+    maxArgs: 0,
+    apply: value => {
+      const text = toText(value)
+      return text.charAt(0).toUpperCase() + text.slice(1)
+    }
+  },
+  title: {
+    minArgs: 0,
+    maxArgs: 0,
+    apply: value => toText(value).replace(/\b\w/g, char => char.toUpperCase())
+  },
+  trim: { minArgs: 0, maxArgs: 0, apply: value => toText(value).trim() },
+  truncate: {
+    minArgs: 1,
+    maxArgs: 2,
+    apply: (value, [length, suffix = '…']) => {
+      // Count code points so emoji are not split in half
+      const chars = Array.from(toText(value))
+      const max = Number(length)
+      if (chars.length <= max) return chars.join('')
+      const tail = String(suffix)
+      return chars.slice(0, Math.max(0, max - Array.from(tail).length)).join('').trimEnd() + tail
+    }
+  },
+  default: { minArgs: 1, maxArgs: 1, apply: (value, [fallback]) => isEmpty(value) ? fallback : value },
+  join: {
+    minArgs: 0,
+    maxArgs: 1,
+    apply: (value, [separator = ', '], format) => Array.isArray(value)
+      ? value.map(item => toText(item, format.locale)).join(String(separator))
+      : toText(value, format.locale)
+  },
+  hashtag: { minArgs: 0, maxArgs: 0, apply: value => toHashtag(toText(value)) },
+  hashtags: {
+    minArgs: 0,
+    maxArgs: 0,
+    apply: value => (Array.isArray(value) ? value : toText(value).split(/[\s,]+/))
+      .map(tag => toHashtag(toText(tag)))
+      .filter(Boolean)
+      .join(' ')
+  },
+  length: {
+    minArgs: 0,
+    maxArgs: 0,
+    apply: value => Array.isArray(value) ? value.length : Array.from(toText(value)).length
+  },
+  first: { minArgs: 0, maxArgs: 0, apply: value => Array.isArray(value) ? value[0] : value },
+  last: { minArgs: 0, maxArgs: 0, apply: value => Array.isArray(value) ? value[value.length - 1] : value },
+  replace: {
+    minArgs: 2,
+    maxArgs: 2,
+    apply: (value, [search, replacement]) => toText(value).split(String(search)).join(String(replacement))
+  },
+  date: {
+    minArgs: 0,
+    maxArgs: 1,
+    apply: (value, [style = 'medium'], format) => {
+      const date = toDate(value)
+      if (!date) return toText(value, format.locale)
+      return new Intl.DateTimeFormat(format.locale, DATE_STYLES[String(style)] || DATE_STYLES.medium).format(date)
+    }
+  },
+  number: {
+    minArgs: 0,
+    maxArgs: 1,
+    apply: (value, [decimals], format) => {
+      const number = toNumber(value)
+      if (number === null) return toText(value)
+      const digits = decimals === undefined ? undefined : Number(decimals)
+      return new Intl.NumberFormat(format.locale, { minimumFractionDigits: digits, maximumFractionDigits: digits ?? 2 }).format(number)
+    }
+  },
+  currency: {
+    minArgs: 0,
+    maxArgs: 1,
+    apply: (value, [code], format) => {
+      const number = toNumber(value)
+      if (number === null) return toText(value)
+      const currency = code === undefined ? format.currency : String(code).toUpperCase()
+      try {
+        // Whole amounts read better in captions ("$250,000" rather than "$250,000.00")
+        return new Intl.NumberFormat(format.locale, {
+          style: 'currency',
+          currency,
+          maximumFractionDigits: Number.isInteger(number) ? 0 : 2
+        }).format(number)
+      } catch {
+        return `${number} ${currency}`
+      }
+    }
+  }
+}
+
+/**
+ * Names of the available filters, for editor help
+ */
+export const TEMPLATE_FILTERS = Object.keys(FILTERS)
+
+/**
+ * Parse a template, collecting syntax errors with their line and column
+ */
+export function parseTemplate(source: string): ParsedTemplate {
+  return new TemplateParser(source).parse()
+}
+
+/**
+ * Render a template against a scope. Templates with syntax errors render nothing;
+ * unknown variables render empty and are reported as warnings.
+ */
+export function renderTemplate(source: string, scope: Record<string, unknown>, options: TemplateOptions = {}): RenderResult {
+  const parsed = parseTemplate(source)
+  if (parsed.diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+    return { text: '', diagnostics: parsed.diagnostics }
+  }
+
+  const renderer = new TemplateRenderer(source, options.partials || {}, {
+    locale: options.locale || DEFAULT_FORMAT.locale,
+    currency: options.currency || DEFAULT_FORMAT.currency
+  })
+  const text = renderer.render(parsed.nodes, [{ value: scope }], [])
+
+  return { text, diagnostics: [...parsed.diagnostics, ...renderer.diagnostics] }
+}
+
+/**
+ * Check a template without rendering it: syntax errors, unknown filters and partials, and
+ * variables that do not exist in the sample scope (checked in every branch, not just the taken one)
+ */
+export function analyzeTemplate(
+  source: string,
+  sampleScope: Record<string, unknown>,
+  options: TemplateOptions = {}
+): TemplateDiagnostic[] {
+  const parsed = parseTemplate(source)
+  const analyzer = new TemplateAnalyzer(source, options.partials || {})
+  analyzer.walk(parsed.nodes, [{ value: sampleScope }], true, [])
+
+  return [...parsed.diagnostics, ...analyzer.diagnostics]
+    .sort((a, b) => a.line - b.line || a.column - b.column)
+}
+
+/**
+ * Root variable paths a template reads, and whether each is used as a list
+ */
+export function listTemplateVariables(source: string): Array<{ name: string; isList: boolean; hasDefault: boolean }> {
+  const variables = new Map<string, { name: string; isList: boolean; hasDefault: boolean }>()
+
+  const visit = (nodes: TemplateNode[], inLoop: boolean) => {
+    for (const node of nodes) {
+      const expression = node.type === 'output' ? node.expression
+        : node.type === 'if' ? node.condition
+        : node.type === 'each' ? node.collection
+        : null
+
+      // Paths inside a loop usually refer to the item, so only root-level reads are listed
+      if (expression && expression.operand.kind === 'path' && !inLoop && !expression.operand.path[0].startsWith('@') &&
+        expression.operand.path[0] !== 'this') {
+        const name = expression.operand.path.join('.')
+        const existing = variables.get(name)
+        variables.set(name, {
+          name,
+          isList: (existing?.isList ?? false) || node.type === 'each',
+          hasDefault: (existing?.hasDefault ?? true) && expression.filters.some(filter => filter.name === 'default')
+        })
+      }
+
+      if (node.type === 'if') {
+        visit(node.body, inLoop)
+        visit(node.alternate, inLoop)
+      } else if (node.type === 'each') {
+        visit(node.body, true)
+        visit(node.alternate, inLoop)
+      }
+    }
+  }
+
+  visit(parseTemplate(source).nodes, false)
+  return Array.from(variables.values())
+}
+
+/**
+ * Format a diagnostic as "line 3, column 5: message"
+ */
+export function formatDiagnostic(diagnostic: TemplateDiagnostic): string {
+  return `line ${diagnostic.line}, column ${diagnostic.column}: ${diagnostic.message}`
+}
+
+class TemplateParser {
+  private readonly diagnostics: TemplateDiagnostic[] = []
+  private readonly lineStarts: number[]
+
+  constructor(private readonly source: string) {
+    this.lineStarts = computeLineStarts(source)
+  }
+
+  parse(): ParsedTemplate {
+    const root: TemplateNode[] = []
+    // Open blocks; "target" is where nodes currently go (body, or alternate after {{else}})
+    const stack: Array<{ node: Extract<TemplateNode, { type: 'if' | 'each' }>; name: string; span: Span; target: TemplateNode[] }> = []
+    const current = () => stack.length > 0 ? stack[stack.length - 1].target : root
+
+    let position = 0
+    while (position < this.source.length) {
+      const open = this.source.indexOf('{{', position)
+      if (open === -1) {
+        this.pushText(current(), this.source.slice(position))
+        break
+      }
+
+      const isLongComment = this.source.startsWith('{{!--', open)
+      const close = isLongComment
+        ? this.source.indexOf('--}}', open + 5)
+        : this.source.indexOf('}}', open + 2)
+
+      if (close === -1) {
+        this.pushText(current(), this.source.slice(position, open))
+        this.error('Unclosed tag: missing "}}"', { offset: open, length: 2 })
+        break
+      }
+
+      const end = close + (isLongComment ? 4 : 2)
+      const span = { offset: open, length: end - open }
+      const content = isLongComment ? '!' : this.source.slice(open + 2, close).trim()
+      const kind = this.tagKind(content)
+
+      // Block tags alone on a line take the whole line with them
+      const standalone = kind !== 'output' && this.standaloneRange(open, end)
+      const textEnd = standalone ? standalone.start : open
+      this.pushText(current(), this.source.slice(position, textEnd))
+      position = standalone ? standalone.end : end
+
+      if (content.includes('{{')) {
+        this.error('Unexpected "{{" inside a tag', span)
+        continue
+      }
+
+      switch (kind) {
+        case 'comment':
+          break
+
+        case 'open': {
+          const match = content.match(/^#(\w+)\s*(.*)$/)
+          const name = match?.[1] || ''
+          const argument = match?.[2]?.trim() || ''
+
+          if (!['if', 'unless', 'each'].includes(name)) {
+            this.error(`Unknown block "#${name}" (use #if, #unless or #each)`, span)
+            break
+          }
+          if (!argument) {
+            this.error(`{{#${name}}} needs an expression`, span)
+            break
+          }
+
+          const expression = this.parseExpression(argument, span)
+          if (!expression) break
+
+          const node: Extract<TemplateNode, { type: 'if' | 'each' }> = name === 'each'
+            ? { type: 'each', collection: expression, body: [], alternate: [] }
+            : { type: 'if', negate: name === 'unless', condition: expression, body: [], alternate: [] }
+
+          current().push(node)
+          stack.push({ node, name, span, target: node.body })
+          break
+        }
+
+        case 'else': {
+          const block = stack[stack.length - 1]
+          if (!block) {
+            this.error('{{else}} outside of a block', span)
+          } else if (block.target === block.node.alternate) {
+            this.error(`Duplicate {{else}} in {{#${block.name}}}`, span)
+          } else {
+            block.target = block.node.alternate
+          }
+          break
+        }
+
+        case 'close': {
+          const name = content.slice(1).trim()
+          const block = stack[stack.length - 1]
+          if (!block) {
+            this.error(`{{/${name}}} has no matching opening block`, span)
+          } else if (block.name !== name) {
+            this.error(`Expected {{/${block.name}}} but found {{/${name}}}`, span)
+          } else {
+            stack.pop()
+          }
+          break
+        }
+
+        case 'partial': {
+          const name = unquote(content.slice(1).trim())
+          if (!name) {
+            this.error('Partial needs a template name', span)
+          } else {
+            current().push({ type: 'partial', name, span })
+          }
+          break
+        }
+
+        case 'output': {
+          if (!content) {
+            this.error('Empty tag', span)
+            break
+          }
+          const expression = this.parseExpression(content, span)
+          if (expression) {
+            current().push({ type: 'output', expression })
+          }
+          break
+        }
+      }
+    }
+
+    for (const block of stack) {
+      this.error(`{{#${block.name}}} is never closed`, block.span)
+    }
+
+    return { nodes: root, diagnostics: this.diagnostics }
+  }
+
+  private tagKind(content: string): 'comment' | 'open' | 'close' | 'else' | 'partial' | 'output' {
+    if (content.startsWith('!')) return 'comment'
+    if (content.startsWith('#')) return 'open'
+    if (content.startsWith('/')) return 'close'
+    if (content.startsWith('>')) return 'partial'
+    if (content === 'else') return 'else'
+    return 'output'
+  }
+
+  /**
+   * If the tag is the only thing on its line, the range to drop: its indentation through the newline
+   */
+  private standaloneRange(open: number, end: number): { start: number; end: number } | null {
+    const lineStart = this.source.lastIndexOf('\n', open - 1) + 1
+    const newline = this.source.indexOf('\n', end)
+    const lineEnd = newline === -1 ? this.source.length : newline
+
+    if (/\S/.test(this.source.slice(lineStart, open)) || /\S/.test(this.source.slice(end, lineEnd))) {
+      return null
+    }
+
+    return { start: lineStart, end: newline === -1 ? lineEnd : newline + 1 }
+  }
+
+  private parseExpression(text: string, span: Span): Expression | null {
+    const [head, ...filterParts] = splitOutsideQuotes(text, '|')
+    const operand = this.parseOperand(head.trim(), span)
+    if (!operand) return null
+
+    const filters: FilterCall[] = []
+    for (const part of filterParts) {
+      const colon = part.indexOf(':')
+      const name = (colon === -1 ? part : part.slice(0, colon)).trim()
+      const definition = FILTERS[name]
+
+      if (!definition) {
+        this.error(`Unknown filter "${name}" (available: ${TEMPLATE_FILTERS.join(', ')})`, span)
+        return null
+      }
+
+      const args: Operand[] = []
+      if (colon !== -1) {
+        for (const rawArg of splitOutsideQuotes(part.slice(colon + 1), ',')) {
+          const arg = this.parseOperand(rawArg.trim(), span)
+          if (!arg) return null
+          args.push(arg)
+        }
+      }
+
+      if (args.length < definition.minArgs || args.length > definition.maxArgs) {
+        const expected = definition.minArgs === definition.maxArgs
+          ? `${definition.minArgs}`
+          : `${definition.minArgs}-${definition.maxArgs}`
+        this.error(`Filter "${name}" takes ${expected} argument(s), got ${args.length}`, span)
+        return null
+      }
+
+      filters.push({ name, args })
+    }
+
+    return { operand, filters, span }
+  }
+
+  private parseOperand(text: string, span: Span): Operand | null {
+    if (/^"(?:[^"\\]|\\.)*"$|^'(?:[^'\\]|\\.)*'$/.test(text)) {
+      return { kind: 'literal', value: unquote(text) }
+    }
+    if (NUMBER_PATTERN.test(text)) {
+      return { kind: 'literal', value: Number(text) }
+    }
+    if (text === 'true' || text === 'false') {
+      return { kind: 'literal', value: text === 'true' }
+    }
+    if (PATH_PATTERN.test(text)) {
+      return { kind: 'path', path: text.split('.'), raw: text }
+    }
+
+    this.error(text ? `Invalid expression "${text}"` : 'Missing expression', span)
+    return null
+  }
+
+  private pushText(target: TemplateNode[], value: string): void {
+    if (value) {
+      target.push({ type: 'text', value })
+    }
+  }
+
+  private error(message: string, span: Span): void {
+    this.diagnostics.push(toDiagnostic('error', message, span, this.lineStarts))
+  }
+}
+
+class TemplateRenderer {
+  readonly diagnostics: TemplateDiagnostic[] = []
+  private readonly lineStarts: number[]
+  private readonly reported = new Set<number>()
+
+  constructor(
+    private readonly source: string,
+    private readonly partials: Record<string, string>,
+    private readonly format: FormatContext = DEFAULT_FORMAT
+  ) {
+    this.lineStarts = computeLineStarts(source)
+  }
+
+  render(nodes: TemplateNode[], frames: Frame[], partialStack: string[]): string {
+    let output = ''
+
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          output += node.value
+          break
+
+        case 'output':
+          output += toText(this.evaluate(node.expression, frames), this.format.locale)
+          break
+
+        case 'if': {
+          const truthy = isTruthy(this.evaluate(node.condition, frames))
+          output += this.render(truthy !== node.negate ? node.body : node.alternate, frames, partialStack)
+          break
+        }
+
+        case 'each': {
+          const collection = this.evaluate(node.collection, frames)
+          const items = Array.isArray(collection) ? collection : []
+
+          if (items.length === 0) {
+            output += this.render(node.alternate, frames, partialStack)
+            break
+          }
+
+          items.forEach((item, index) => {
+            output += this.render(node.body, [...frames, {
+              value: item,
+              data: { index, number: index + 1, first: index === 0, last: index === items.length - 1 }
+            }], partialStack)
+          })
+          break
+        }
+
+        case 'partial': {
+          const partial = this.partials[node.name]
+          if (partial === undefined || partialStack.includes(node.name) || partialStack.length >= MAX_PARTIAL_DEPTH) {
+            this.warn(`Partial "${node.name}" could not be rendered`, node.span)
+            break
+          }
+
+          const parsed = parseTemplate(partial)
+          if (parsed.diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+            this.warn(`Partial "${node.name}" has errors`, node.span)
+            break
+          }
+          output += this.render(parsed.nodes, frames, [...partialStack, node.name])
+          break
+        }
+      }
+    }
+
+    return output
+  }
+
+  private evaluate(expression: Expression, frames: Frame[]): unknown {
+    let value = this.evaluateOperand(expression.operand, frames, expression)
+
+    for (const filter of expression.filters) {
+      const args = filter.args.map(arg => this.evaluateOperand(arg, frames, expression))
+      value = FILTERS[filter.name].apply(value, args, this.format)
+    }
+
+    return value
+  }
+
+  private evaluateOperand(operand: Operand, frames: Frame[], expression: Expression): unknown {
+    if (operand.kind === 'literal') return operand.value
+
+    const resolved = resolvePath(operand.path, frames)
+    if (!resolved.found && !expression.filters.some(filter => filter.name === 'default')) {
+      this.warn(`Unknown variable "${operand.raw}"`, expression.span)
+    }
+    return resolved.value
+  }
+
+  private warn(message: string, span: Span): void {
+    // Loops would otherwise repeat the same warning per item
+    if (this.reported.has(span.offset)) return
+    this.reported.add(span.offset)
+    this.diagnostics.push(toDiagnostic('warning', message, span, this.lineStarts))
+  }
+}
+
+class TemplateAnalyzer {
+  readonly diagnostics: TemplateDiagnostic[] = []
+  private readonly lineStarts: number[]
+  private readonly reported = new Set<number>()
+
+  constructor(private readonly source: string, private readonly partials: Record<string, string>) {
+    this.lineStarts = computeLineStarts(source)
+  }
+
+  /**
+   * "known" is false inside loops over values whose item shape the sample scope cannot tell us
+   */
+  walk(nodes: TemplateNode[], frames: Frame[], known: boolean, partialStack: string[]): void {
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'output':
+          this.check(node.expression, frames, known)
+          break
+
+        case 'if':
+          this.check(node.condition, frames, known)
+          this.walk(node.body, frames, known, partialStack)
+          this.walk(node.alternate, frames, known, partialStack)
+          break
+
+        case 'each': {
+          const collection = this.check(node.collection, frames, known)
+          const sample = Array.isArray(collection) && collection.length > 0 ? collection[0] : undefined
+          const itemFrame: Frame = { value: sample, data: { index: 0, number: 1, first: true, last: true } }
+          this.walk(node.body, [...frames, itemFrame], known && sample !== undefined, partialStack)
+          this.walk(node.alternate, frames, known, partialStack)
+          break
+        }
+
+        case 'partial': {
+          if (partialStack.length === 0) {
+            this.checkPartial(node, partialStack)
+          }
+          break
+        }
+      }
+    }
+  }
+
+  private checkPartial(node: Extract<TemplateNode, { type: 'partial' }>, partialStack: string[]): void {
+    const partial = this.partials[node.name]
+    if (partial === undefined) {
+      this.report('error', `Unknown partial "${node.name}"`, node.span)
+      return
+    }
+
+    // Follow nested partials to catch cycles like A > B > A
+    const visit = (name: string, stack: string[]): string | null => {
+      if (stack.includes(name)) return [...stack, name].join(' > ')
+      if (stack.length >= MAX_PARTIAL_DEPTH) return `${stack.join(' > ')} (too deep)`
+
+      const source = this.partials[name]
+      if (source === undefined) return null
+
+      for (const nested of collectPartials(parseTemplate(source).nodes)) {
+        const cycle = visit(nested, [...stack, name])
+        if (cycle) return cycle
+      }
+      return null
+    }
+
+    const cycle = visit(node.name, partialStack)
+    if (cycle) {
+      this.report('error', `Partials include each other: ${cycle}`, node.span)
+      return
+    }
+
+    const errors = parseTemplate(partial).diagnostics.filter(diagnostic => diagnostic.severity === 'error')
+    if (errors.length > 0) {
+      this.report('error', `Partial "${node.name}" has errors: ${formatDiagnostic(errors[0])}`, node.span)
+    }
+  }
+
+  private check(expression: Expression, frames: Frame[], known: boolean): unknown {
+    const { operand } = expression
+    if (operand.kind === 'literal') return operand.value
+
+    const resolved = resolvePath(operand.path, frames)
+    const hasDefault = expression.filters.some(filter => filter.name === 'default')
+
+    if (!resolved.found && known && !hasDefault) {
+      this.report('warning', `Unknown variable "${operand.raw}"`, expression.span)
+    }
+
+    return resolved.value
+  }
+
+  private report(severity: TemplateDiagnostic['severity'], message: string, span: Span): void {
+    if (this.reported.has(span.offset)) return
+    this.reported.add(span.offset)
+    this.diagnostics.push(toDiagnostic(severity, message, span, this.lineStarts))
+  }
+}
+
+/**
+ * Look a path up from the innermost frame outwards; "this" and @data only read the innermost frame
+ */
+function resolvePath(path: string[], frames: Frame[]): { found: boolean; value: unknown } {
+  const [head, ...rest] = path
+  const innermost = frames[frames.length - 1]
+
+  if (head.startsWith('@')) {
+    const data = innermost.data || {}
+    const key = head.slice(1)
+    return hasOwn(data, key) ? walkPath(data[key], rest) : { found: false, value: undefined }
+  }
+
+  if (head === 'this') {
+    return walkPath(innermost.value, rest)
+  }
+
+  for (let i = frames.length - 1; i >= 0; i--) {
+    const value = frames[i].value
+    if (isRecord(value) && hasOwn(value, head)) {
+      return walkPath(value[head], rest)
+    }
+  }
+
+  return { found: false, value: undefined }
+}
+
+function walkPath(value: unknown, path: string[]): { found: boolean; value: unknown } {
+  let current = value
+  for (const key of path) {
+    if (!isRecord(current) || !hasOwn(current, key)) {
+      return { found: false, value: undefined }
+    }
+    current = current[key]
+  }
+  return { found: true, value: current }
+}
+
+function collectPartials(nodes: TemplateNode[]): string[] {
+  return nodes.flatMap(node => {
+    if (node.type === 'partial') return [node.name]
+    if (node.type === 'if' || node.type === 'each') {
+      return [...collectPartials(node.body), ...collectPartials(node.alternate)]
+    }
+    return []
+  })
+}
+
+function toDiagnostic(
+  severity: TemplateDiagnostic['severity'],
+  message: string,
+  span: Span,
+  lineStarts: number[]
+): TemplateDiagnostic {
+  // Last line start at or before the offset
+  let line = 0
+  while (line + 1 < lineStarts.length && lineStarts[line + 1] <= span.offset) {
+    line++
+  }
+
+  return {
+    severity,
+    message,
+    line: line + 1,
+    column: span.offset - lineStarts[line] + 1,
+    length: span.length
+  }
+}
+
+function computeLineStarts(source: string): number[] {
+  const starts = [0]
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') starts.push(i + 1)
+  }
+  return starts
+}
+
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = []
+  let quote: string | null = null
+  let current = ''
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quote) {
+      if (char === '\\') {
+        current += char + (text[i + 1] ?? '')
+        i++
+        continue
+      }
+      if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === separator) {
+      parts.push(current)
+      current = ''
+      continue
+    }
+    current += char
+  }
+
+  parts.push(current)
+  return parts
+}
+
+function unquote(text: string): string {
+  const match = text.match(/^(["'])(.*)\1$/s)
+  return match ? match[2].replace(/\\(.)/g, '$1') : text
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+// Own keys only, so names like "constructor" or "toString" never resolve to inherited members
+function hasOwn(record: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key)
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value
+}
+
+function toText(value: unknown, locale?: string): string {
+  if (value === undefined || value === null) return ''
+  if (Array.isArray(value)) return value.map(item => toText(item, locale)).join(' ')
+  if (value instanceof Date) return value.toLocaleDateString(locale)
+  if (typeof value === 'object') return ''
+  return String(value)
+}
+
+function toDate(value: unknown): Date | null {
+  const date = value instanceof Date ? value
+    : typeof value === 'string' || typeof value === 'number' ? new Date(value)
+    : null
+  return date && !isNaN(date.getTime()) ? date : null
+}
+
+function toNumber(value: unknown): number | null {
+  const number = typeof value === 'number' ? value
+    : typeof value === 'string' && value.trim() !== '' ? Number(value.replace(/[,\s$]/g, ''))
+    : NaN
+  return isFinite(number) ? number : null
+}
+
+function toHashtag(text: string): string {
+  const tag = text.replace(/^#/, '').replace(/[^\p{L}\p{N}_]/gu, '')
+  return tag ? `#${tag}` : ''
+}
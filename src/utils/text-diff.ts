@@ -0,0 +1,86 @@
+// Line diff for comparing template versions
+// Longest-common-subsequence over lines, paired up for a side-by-side view
+
+export type DiffRowType = 'unchanged' | 'added' | 'removed' | 'changed'
+
+export interface DiffCell {
+  lineNumber: number
+  text: string
+}
+
+export interface DiffRow {
+  type: DiffRowType
+  left: DiffCell | null
+  right: DiffCell | null
+}
+
+type DiffOp = { type: 'unchanged' | 'added' | 'removed'; text: string }
+
+/**
+ * Diff two texts line by line into rows for a side-by-side view.
+ * A run of removals followed by additions is paired into "changed" rows.
+ */
+export function diffLinesSideBySide(before: string, after: string): DiffRow[] {
+  const ops = diffLines(before.split('\n'), after.split('\n'))
+  const rows: DiffRow[] = []
+  let leftNumber = 1
+  let rightNumber = 1
+  let i = 0
+
+  while (i < ops.length) {
+    if (ops[i].type === 'unchanged') {
+      rows.push({
+        type: 'unchanged',
+        left: { lineNumber: leftNumber++, text: ops[i].text },
+        right: { lineNumber: rightNumber++, text: ops[i].text }
+      })
+      i++
+      continue
+    }
+
+    const removed: string[] = []
+    const added: string[] = []
+    while (i < ops.length && ops[i].type === 'removed') removed.push(ops[i++].text)
+    while (i < ops.length && ops[i].type === 'added') added.push(ops[i++].text)
+
+    for (let j = 0; j < Math.max(removed.length, added.length); j++) {
+      const left = j < removed.length ? { lineNumber: leftNumber++, text: removed[j] } : null
+      const right = j < added.length ? { lineNumber: rightNumber++, text: added[j] } : null
+      rows.push({ type: left && right ? 'changed' : left ? 'removed' : 'added', left, right })
+    }
+  }
+
+  return rows
+}
+
+function diffLines(before: string[], after: string[]): DiffOp[] {
+  // lcs[i][j] = length of the LCS of before[i..] and after[j..]
+  const lcs: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0))
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const ops: DiffOp[] = []
+  let i = 0
+  let j = 0
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      ops.push({ type: 'unchanged', text: before[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: 'removed', text: before[i++] })
+    } else {
+      ops.push({ type: 'added', text: after[j++] })
+    }
+  }
+  while (i < before.length) ops.push({ type: 'removed', text: before[i++] })
+  while (j < after.length) ops.push({ type: 'added', text: after[j++] })
+
+  return ops
+}
@@ -0,0 +1,93 @@
+// Workflow execution state machine
+// Legal status transitions and per-type deadlines for n8n workflow executions
+
+import type {
+  N8NExecutionStatus,
+  WorkflowType,
+  WorkflowExecutionStatus
+} from '@/integrations/supabase/types-enhanced'
+
+const MINUTE_MS = 60 * 1000
+
+// Terminal statuses have no way out; a late callback cannot reopen them
+export const WORKFLOW_TRANSITIONS: Record<WorkflowExecutionStatus, WorkflowExecutionStatus[]> = {
+  started: ['running', 'completed', 'failed', 'cancelled', 'timed_out'],
+  running: ['completed', 'failed', 'cancelled', 'timed_out'],
+  completed: [],
+  failed: [],
+  cancelled: [],
+  timed_out: []
+}
+
+export const ACTIVE_WORKFLOW_STATUSES: WorkflowExecutionStatus[] = ['started', 'running']
+
+// How long n8n may stay silent before a run is considered lost. The state machine
+// migration backfilled existing runs with the same values.
+export const WORKFLOW_TIMEOUTS_MS: Record<WorkflowType, number> = {
+  // Video containers can take several minutes to finish processing on the platform
+  publish_reel: 30 * MINUTE_MS,
+  publish_carousel: 20 * MINUTE_MS,
+  schedule_post: 15 * MINUTE_MS,
+  batch_publish: 120 * MINUTE_MS
+}
+
+// Our status for each status the n8n API reports; unknown tells us nothing
+const N8N_STATUSES: Record<N8NExecutionStatus, WorkflowExecutionStatus | null> = {
+  new: 'running',
+  running: 'running',
+  waiting: 'running',
+  success: 'completed',
+  error: 'failed',
+  crashed: 'failed',
+  canceled: 'cancelled',
+  unknown: null
+}
+
+export class IllegalWorkflowTransitionError extends Error {
+  constructor(
+    public readonly executionId: string,
+    public readonly from: WorkflowExecutionStatus,
+    public readonly to: WorkflowExecutionStatus
+  ) {
+    super(`Workflow execution ${executionId} cannot move from ${from} to ${to}`)
+    this.name = 'IllegalWorkflowTransitionError'
+  }
+}
+
+/**
+ * Whether an execution in one status may move to another
+ */
+export function canTransition(from: WorkflowExecutionStatus, to: WorkflowExecutionStatus): boolean {
+  return WORKFLOW_TRANSITIONS[from]?.includes(to) ?? false
+}
+
+/**
+ * Statuses an execution may be in to move to the given status
+ */
+export function transitionSources(to: WorkflowExecutionStatus): WorkflowExecutionStatus[] {
+  return (Object.keys(WORKFLOW_TRANSITIONS) as WorkflowExecutionStatus[]).filter(from => canTransition(from, to))
+}
+
+/**
+ * Whether the status ends the execution
+ */
+export function isTerminalWorkflowStatus(status: WorkflowExecutionStatus): boolean {
+  return WORKFLOW_TRANSITIONS[status]?.length === 0
+}
+
+/**
+ * When a run must have called back by. Scheduled runs wait in n8n until their slot, so the
+ * clock starts at the later of the trigger time and the scheduled time.
+ */
+export function workflowDeadline(workflowType: WorkflowType, startedAt: Date, scheduledTime?: string | null): Date {
+  const scheduled = scheduledTime ? new Date(scheduledTime).getTime() : NaN
+  const start = Number.isNaN(scheduled) ? startedAt.getTime() : Math.max(startedAt.getTime(), scheduled)
+  return new Date(start + (WORKFLOW_TIMEOUTS_MS[workflowType] ?? WORKFLOW_TIMEOUTS_MS.publish_reel))
+}
+
+/**
+ * Our execution status for what n8n reports, or null when n8n's status tells us nothing
+ */
+export function workflowStatusFromN8N(status: N8NExecutionStatus): WorkflowExecutionStatus | null {
+  return N8N_STATUSES[status] ?? null
+}
@@ -0,0 +1,101 @@
+-- Publish Queue Worker Migration
+-- Adds job claiming, retry scheduling and dead-letter support to publish_queue
+-- Created: 2025-08-17
+
+-- ============================================================================
+-- PUBLISH QUEUE ENHANCEMENTS
+-- ============================================================================
+
+-- Allow exhausted jobs to be parked in a dead-letter state
+ALTER TABLE public.publish_queue DROP CONSTRAINT IF EXISTS publish_queue_status_check;
+ALTER TABLE public.publish_queue ADD CONSTRAINT publish_queue_status_check
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'cancelled', 'dead_letter'));
+
+-- Worker lease and bookkeeping columns
+ALTER TABLE public.publish_queue
+ADD COLUMN IF NOT EXISTS locked_by TEXT,
+ADD COLUMN IF NOT EXISTS locked_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS last_attempt_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS dead_lettered_at TIMESTAMPTZ;
+
+-- Claim lookups scan due pending jobs by priority
+CREATE INDEX IF NOT EXISTS idx_publish_queue_due
+    ON public.publish_queue(priority DESC, scheduled_at)
+    WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_publish_queue_dead_letter
+    ON public.publish_queue(dead_lettered_at DESC)
+    WHERE status = 'dead_letter';
+
+-- ============================================================================
+-- WORKER FUNCTIONS
+-- ============================================================================
+
+-- Claim due jobs for a worker using row-level locks.
+-- SKIP LOCKED lets several workers drain the queue without double-claiming;
+-- jobs whose lease expired (worker crashed mid-publish) become claimable again.
+CREATE OR REPLACE FUNCTION claim_publish_jobs(
+    worker_id TEXT,
+    batch_size INTEGER DEFAULT 5,
+    lock_timeout_seconds INTEGER DEFAULT 600
+)
+RETURNS SETOF public.publish_queue
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF NOT (is_staff() OR auth.role() = 'service_role') THEN
+        RAISE EXCEPTION 'Not authorized to claim publish jobs';
+    END IF;
+
+    RETURN QUERY
+    UPDATE public.publish_queue AS q
+    SET status = 'processing',
+        locked_by = worker_id,
+        locked_at = NOW(),
+        last_attempt_at = NOW(),
+        attempts = COALESCE(q.attempts, 0) + 1
+    WHERE q.id IN (
+        SELECT c.id
+        FROM public.publish_queue AS c
+        WHERE (c.status = 'pending' AND c.scheduled_at <= NOW())
+           OR (c.status = 'processing' AND c.locked_at < NOW() - make_interval(secs => lock_timeout_seconds))
+        ORDER BY c.priority DESC, c.scheduled_at ASC
+        LIMIT batch_size
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING q.*;
+END;
+$$;
+
+-- Only the headless worker claims jobs; a signed-in user could otherwise lease every due row
+REVOKE EXECUTE ON FUNCTION claim_publish_jobs(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_publish_jobs(TEXT, INTEGER, INTEGER) TO service_role;
+
+COMMENT ON FUNCTION claim_publish_jobs IS 'Atomically claims due publish_queue rows for a worker with FOR UPDATE SKIP LOCKED';
+
+-- Log migration completion
+INSERT INTO public.events (
+    entity_type,
+    entity_id,
+    event_type,
+    event_data,
+    security_level
+) VALUES (
+    'migration',
+    '20250817000001',
+    'system.publish_queue_worker_deployed',
+    jsonb_build_object(
+        'migration_version', '20250817000001',
+        'completed_at', NOW(),
+        'features_added', ARRAY[
+            'claim_publish_jobs_function',
+            'worker_lease_columns',
+            'dead_letter_status'
+        ]
+    ),
+    'info'
+);
+
+SELECT 'Publish queue worker migration completed successfully' as status;
@@ -0,0 +1,123 @@
+-- Publish Attempt Ledger Migration
+-- One row per publish try; asset_destinations.publishing_attempts is derived from it
+-- Created: 2025-08-17
+
+-- ============================================================================
+-- PUBLISH ATTEMPTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.publish_attempts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    destination_id UUID NOT NULL REFERENCES public.asset_destinations(id) ON DELETE CASCADE,
+    -- Assigned by the publish_attempts_assign_number trigger; the default only keeps inserts from having to pass it
+    attempt_number INTEGER NOT NULL DEFAULT 0,
+    adapter TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'succeeded', 'failed')),
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    finished_at TIMESTAMPTZ,
+    duration_ms INTEGER,
+    http_status INTEGER,
+    error_class TEXT,
+    error_message TEXT,
+    platform_post_id TEXT,
+    raw_response JSONB,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(destination_id, attempt_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_publish_attempts_destination ON public.publish_attempts(destination_id, attempt_number DESC);
+CREATE INDEX IF NOT EXISTS idx_publish_attempts_status ON public.publish_attempts(status);
+CREATE INDEX IF NOT EXISTS idx_publish_attempts_started_at ON public.publish_attempts(started_at DESC);
+
+-- ============================================================================
+-- LEDGER FUNCTIONS
+-- ============================================================================
+
+-- Assign the attempt number under a row lock on the destination so concurrent
+-- publishers (worker, n8n callback, dashboard) never hand out the same number.
+CREATE OR REPLACE FUNCTION assign_publish_attempt_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    PERFORM 1 FROM public.asset_destinations WHERE id = NEW.destination_id FOR UPDATE;
+
+    SELECT COALESCE(MAX(attempt_number), 0) + 1
+    INTO NEW.attempt_number
+    FROM public.publish_attempts
+    WHERE destination_id = NEW.destination_id;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Keep asset_destinations.publishing_attempts equal to the ledger row count
+CREATE OR REPLACE FUNCTION sync_destination_publishing_attempts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    target_destination UUID := COALESCE(NEW.destination_id, OLD.destination_id);
+BEGIN
+    UPDATE public.asset_destinations
+    SET publishing_attempts = (
+        SELECT COUNT(*) FROM public.publish_attempts WHERE destination_id = target_destination
+    )
+    WHERE id = target_destination;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS publish_attempts_assign_number ON public.publish_attempts;
+CREATE TRIGGER publish_attempts_assign_number
+    BEFORE INSERT ON public.publish_attempts
+    FOR EACH ROW EXECUTE FUNCTION assign_publish_attempt_number();
+
+DROP TRIGGER IF EXISTS publish_attempts_sync_count ON public.publish_attempts;
+CREATE TRIGGER publish_attempts_sync_count
+    AFTER INSERT OR DELETE ON public.publish_attempts
+    FOR EACH ROW EXECUTE FUNCTION sync_destination_publishing_attempts();
+
+-- Backfill the derived counter for existing destinations
+UPDATE public.asset_destinations d
+SET publishing_attempts = (
+    SELECT COUNT(*) FROM public.publish_attempts a WHERE a.destination_id = d.id
+);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.publish_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view publish attempts" ON public.publish_attempts FOR SELECT USING (is_staff());
+CREATE POLICY "Staff can manage publish attempts" ON public.publish_attempts FOR ALL USING (is_staff());
+
+COMMENT ON TABLE public.publish_attempts IS 'Ledger of every publish try per destination; source of truth for publishing_attempts';
+
+-- Log migration completion
+INSERT INTO public.events (
+    entity_type,
+    entity_id,
+    event_type,
+    event_data,
+    security_level
+) VALUES (
+    'migration',
+    '20250817000002',
+    'system.publish_attempt_ledger_deployed',
+    jsonb_build_object(
+        'migration_version', '20250817000002',
+        'completed_at', NOW(),
+        'features_added', ARRAY[
+            'publish_attempts_table',
+            'attempt_number_assignment',
+            'derived_publishing_attempts'
+        ]
+    ),
+    'info'
+);
+
+SELECT 'Publish attempt ledger migration completed successfully' as status;
@@ -0,0 +1,114 @@
+-- Publish Idempotency Migration
+-- Per-destination idempotency keys and an atomic publish claim so retries never double-post
+-- Created: 2025-08-17
+
+-- ============================================================================
+-- DESTINATION IDEMPOTENCY COLUMNS
+-- ============================================================================
+
+ALTER TABLE public.asset_destinations ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+ALTER TABLE public.asset_destinations ADD COLUMN IF NOT EXISTS publish_claimed_at TIMESTAMPTZ;
+-- Set while a publish is in flight and kept after an ambiguous failure (timeout, 5xx),
+-- meaning the platform may already have the post and must be checked before retrying
+ALTER TABLE public.asset_destinations ADD COLUMN IF NOT EXISTS needs_reconcile BOOLEAN DEFAULT false;
+
+ALTER TABLE public.publish_attempts ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_asset_destinations_idempotency_key ON public.asset_destinations(idempotency_key);
+CREATE INDEX IF NOT EXISTS idx_asset_destinations_needs_reconcile ON public.asset_destinations(needs_reconcile) WHERE needs_reconcile = true;
+CREATE INDEX IF NOT EXISTS idx_publish_attempts_idempotency_key ON public.publish_attempts(idempotency_key);
+
+-- ============================================================================
+-- PUBLISH CLAIM FUNCTION
+-- ============================================================================
+
+-- Atomically move a destination to 'publishing'. Refuses destinations that are
+-- already published (or have a platform post ID) unless forced, and destinations
+-- another publisher claimed less than lease_seconds ago.
+CREATE OR REPLACE FUNCTION claim_destination_for_publish(
+    destination_id UUID,
+    idempotency_key TEXT,
+    force BOOLEAN DEFAULT false,
+    lease_seconds INTEGER DEFAULT 900
+)
+RETURNS TABLE (
+    claimed BOOLEAN,
+    reason TEXT,
+    previous_idempotency_key TEXT,
+    needs_reconcile BOOLEAN,
+    platform_post_id TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    dest public.asset_destinations%ROWTYPE;
+BEGIN
+    IF NOT (is_staff() OR auth.role() = 'service_role') THEN
+        RAISE EXCEPTION 'Not authorized to claim destinations for publishing';
+    END IF;
+
+    SELECT * INTO dest
+    FROM public.asset_destinations d
+    WHERE d.id = claim_destination_for_publish.destination_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, 'not_found'::TEXT, NULL::TEXT, false, NULL::TEXT;
+        RETURN;
+    END IF;
+
+    IF NOT force AND (dest.status = 'published' OR dest.platform_post_id IS NOT NULL) THEN
+        RETURN QUERY SELECT false, 'already_published'::TEXT, dest.idempotency_key, false, dest.platform_post_id;
+        RETURN;
+    END IF;
+
+    IF NOT force
+       AND dest.status = 'publishing'
+       AND dest.publish_claimed_at > NOW() - make_interval(secs => lease_seconds) THEN
+        RETURN QUERY SELECT false, 'in_progress'::TEXT, dest.idempotency_key, COALESCE(dest.needs_reconcile, false), dest.platform_post_id;
+        RETURN;
+    END IF;
+
+    UPDATE public.asset_destinations d
+    SET status = 'publishing',
+        idempotency_key = claim_destination_for_publish.idempotency_key,
+        publish_claimed_at = NOW(),
+        needs_reconcile = true
+    WHERE d.id = dest.id;
+
+    RETURN QUERY SELECT true, 'claimed'::TEXT, dest.idempotency_key, COALESCE(dest.needs_reconcile, false), dest.platform_post_id;
+END;
+$$;
+
+-- Staff publish from the dashboard and the worker publishes as service_role; nobody else may claim
+REVOKE EXECUTE ON FUNCTION claim_destination_for_publish(UUID, TEXT, BOOLEAN, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION claim_destination_for_publish(UUID, TEXT, BOOLEAN, INTEGER) TO authenticated, service_role;
+
+COMMENT ON COLUMN public.asset_destinations.idempotency_key IS 'Destination ID plus hash of the media, content type and caption last claimed for publishing';
+COMMENT ON COLUMN public.asset_destinations.needs_reconcile IS 'Platform must be checked for an existing post before the next publish';
+
+-- Log migration completion
+INSERT INTO public.events (
+    entity_type,
+    entity_id,
+    event_type,
+    event_data,
+    security_level
+) VALUES (
+    'migration',
+    '20250817000003',
+    'system.publish_idempotency_deployed',
+    jsonb_build_object(
+        'migration_version', '20250817000003',
+        'completed_at', NOW(),
+        'features_added', ARRAY[
+            'destination_idempotency_keys',
+            'atomic_publish_claim',
+            'ambiguous_publish_reconcile'
+        ]
+    ),
+    'info'
+);
+
+SELECT 'Publish idempotency migration completed successfully' as status;
@@ -0,0 +1,89 @@
+-- Account Rate Limits Migration
+-- Per-account platform usage and throttling so publishing defers instead of failing
+-- Created: 2025-08-17
+
+-- ============================================================================
+-- ACCOUNT RATE LIMIT STATE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.account_rate_limits (
+    account_id UUID PRIMARY KEY REFERENCES public.accounts(id) ON DELETE CASCADE,
+    platform TEXT NOT NULL CHECK (platform IN ('instagram', 'tiktok', 'linkedin', 'facebook', 'youtube')),
+    app_usage JSONB,              -- Last x-app-usage header
+    business_usage JSONB,         -- Last x-business-use-case-usage header
+    usage_percent NUMERIC(5,2) DEFAULT 0,
+    throttled_until TIMESTAMPTZ,
+    throttle_reason TEXT,
+    observed_at TIMESTAMPTZ DEFAULT NOW(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_rate_limits_throttled ON public.account_rate_limits(throttled_until) WHERE throttled_until IS NOT NULL;
+
+-- Rolling post counts read the attempt ledger by finish time
+CREATE INDEX IF NOT EXISTS idx_publish_attempts_succeeded_finished ON public.publish_attempts(finished_at DESC) WHERE status = 'succeeded';
+
+CREATE TRIGGER update_account_rate_limits_updated_at BEFORE UPDATE ON public.account_rate_limits
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- ROLLING POST WINDOW
+-- ============================================================================
+
+-- Successful publishes for an account inside the rolling window, and when the
+-- oldest of them leaves the window (which frees the next slot)
+CREATE OR REPLACE FUNCTION account_publish_window(
+    account_uuid UUID,
+    window_seconds INTEGER DEFAULT 86400
+)
+RETURNS TABLE (
+    post_count INTEGER,
+    oldest_post_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT COUNT(*)::INTEGER, MIN(a.finished_at)
+    FROM public.publish_attempts a
+    JOIN public.asset_destinations d ON d.id = a.destination_id
+    WHERE d.account_id = account_uuid
+      AND a.status = 'succeeded'
+      AND a.finished_at > NOW() - make_interval(secs => window_seconds);
+$$;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.account_rate_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view account rate limits" ON public.account_rate_limits FOR SELECT USING (is_staff());
+CREATE POLICY "Staff can manage account rate limits" ON public.account_rate_limits FOR ALL USING (is_staff());
+
+COMMENT ON TABLE public.account_rate_limits IS 'Latest platform usage headers and throttle windows per account';
+
+-- Log migration completion
+INSERT INTO public.events (
+    entity_type,
+    entity_id,
+    event_type,
+    event_data,
+    security_level
+) VALUES (
+    'migration',
+    '20250817000004',
+    'system.account_rate_limits_deployed',
+    jsonb_build_object(
+        'migration_version', '20250817000004',
+        'completed_at', NOW(),
+        'features_added', ARRAY[
+            'account_rate_limits_table',
+            'rolling_publish_window',
+            'quota_deferral'
+        ]
+    ),
+    'info'
+);
+
+SELECT 'Account rate limits migration completed successfully' as status;
@@ -0,0 +1,193 @@
+-- Account Token Vault Migration
+-- Encrypts platform tokens at rest and tracks token expiry for the background refresher
+-- Created: 2025-08-17
+--
+-- Requires a Supabase Vault secret named 'account_token_key' before running:
+--   SELECT vault.create_secret(encode(gen_random_bytes(32), 'base64'), 'account_token_key');
+
+-- ============================================================================
+-- ENCRYPTION KEY
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION account_token_key()
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+    token_key TEXT;
+BEGIN
+    SELECT decrypted_secret INTO token_key
+    FROM vault.decrypted_secrets
+    WHERE name = 'account_token_key';
+
+    IF token_key IS NULL THEN
+        RAISE EXCEPTION 'Vault secret account_token_key is not configured';
+    END IF;
+
+    RETURN token_key;
+END;
+$$;
+
+-- Only the vault functions below may read the key
+REVOKE EXECUTE ON FUNCTION account_token_key() FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- ACCOUNT TOKEN COLUMNS
+-- ============================================================================
+
+ALTER TABLE public.accounts
+ADD COLUMN IF NOT EXISTS access_token_encrypted BYTEA,
+ADD COLUMN IF NOT EXISTS refresh_token_encrypted BYTEA,
+ADD COLUMN IF NOT EXISTS token_scopes TEXT[],
+ADD COLUMN IF NOT EXISTS token_refreshed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS token_status TEXT DEFAULT 'valid'
+    CHECK (token_status IN ('valid', 'expiring', 'expired', 'refresh_failed', 'disconnected')),
+ADD COLUMN IF NOT EXISTS token_error TEXT,
+ADD COLUMN IF NOT EXISTS platform_account_id TEXT;
+
+-- Move existing plaintext tokens into the encrypted columns, then drop the plaintext
+UPDATE public.accounts
+SET access_token_encrypted = CASE WHEN access_token IS NOT NULL THEN pgp_sym_encrypt(access_token, account_token_key()) END,
+    refresh_token_encrypted = CASE WHEN refresh_token IS NOT NULL THEN pgp_sym_encrypt(refresh_token, account_token_key()) END,
+    token_refreshed_at = COALESCE(token_refreshed_at, updated_at)
+WHERE access_token IS NOT NULL OR refresh_token IS NOT NULL;
+
+ALTER TABLE public.accounts
+DROP COLUMN IF EXISTS access_token,
+DROP COLUMN IF EXISTS refresh_token;
+
+CREATE INDEX IF NOT EXISTS idx_accounts_token_expires ON public.accounts(token_expires_at) WHERE is_active = true AND token_expires_at IS NOT NULL;
+
+-- ============================================================================
+-- VAULT FUNCTIONS
+-- ============================================================================
+
+-- Encrypt and store tokens after an OAuth exchange or refresh.
+-- A NULL refresh token keeps the stored one (most platforms do not rotate it).
+CREATE OR REPLACE FUNCTION store_account_tokens(
+    account_uuid UUID,
+    new_access_token TEXT,
+    new_refresh_token TEXT DEFAULT NULL,
+    expires_at TIMESTAMPTZ DEFAULT NULL,
+    scopes TEXT[] DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF NOT (is_staff() OR auth.role() = 'service_role') THEN
+        RAISE EXCEPTION 'Not authorized to store account tokens';
+    END IF;
+
+    UPDATE public.accounts
+    SET access_token_encrypted = pgp_sym_encrypt(new_access_token, account_token_key()),
+        refresh_token_encrypted = CASE
+            WHEN new_refresh_token IS NOT NULL THEN pgp_sym_encrypt(new_refresh_token, account_token_key())
+            ELSE refresh_token_encrypted
+        END,
+        token_expires_at = expires_at,
+        token_scopes = COALESCE(scopes, token_scopes),
+        token_refreshed_at = NOW(),
+        token_status = 'valid',
+        token_error = NULL
+    WHERE id = account_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Account % not found', account_uuid;
+    END IF;
+END;
+$$;
+
+-- Decrypt tokens for a publishing adapter
+CREATE OR REPLACE FUNCTION get_account_tokens(account_uuid UUID)
+RETURNS TABLE (
+    access_token TEXT,
+    refresh_token TEXT,
+    token_expires_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF NOT (is_staff() OR auth.role() = 'service_role') THEN
+        RAISE EXCEPTION 'Not authorized to read account tokens';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        CASE WHEN a.access_token_encrypted IS NOT NULL THEN pgp_sym_decrypt(a.access_token_encrypted, account_token_key()) END,
+        CASE WHEN a.refresh_token_encrypted IS NOT NULL THEN pgp_sym_decrypt(a.refresh_token_encrypted, account_token_key()) END,
+        a.token_expires_at
+    FROM public.accounts a
+    WHERE a.id = account_uuid;
+END;
+$$;
+
+-- Expiring tokens with the next scheduled post for each account, so the refresher
+-- can flag accounts whose token will lapse before that post goes out
+CREATE OR REPLACE FUNCTION account_token_health()
+RETURNS TABLE (
+    account_id UUID,
+    platform TEXT,
+    account_handle TEXT,
+    token_expires_at TIMESTAMPTZ,
+    token_refreshed_at TIMESTAMPTZ,
+    token_status TEXT,
+    has_refresh_token BOOLEAN,
+    next_scheduled_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        a.id,
+        a.platform,
+        a.account_handle,
+        a.token_expires_at,
+        a.token_refreshed_at,
+        a.token_status,
+        a.refresh_token_encrypted IS NOT NULL,
+        next_post.scheduled_at
+    FROM public.accounts a
+    LEFT JOIN LATERAL (
+        SELECT MIN(q.scheduled_at) AS scheduled_at
+        FROM public.publish_queue q
+        JOIN public.asset_destinations d ON d.id = q.asset_destination_id
+        WHERE d.account_id = a.id
+          AND q.status IN ('pending', 'processing')
+    ) next_post ON true
+    WHERE a.is_active = true
+      AND a.token_expires_at IS NOT NULL
+    ORDER BY a.token_expires_at;
+$$;
+
+COMMENT ON COLUMN public.accounts.access_token_encrypted IS 'pgp_sym_encrypt ciphertext; read through get_account_tokens()';
+COMMENT ON COLUMN public.accounts.token_status IS 'Set by the token refresher; expiring/expired accounts need attention before scheduled posts fail';
+
+-- Log migration completion
+INSERT INTO public.events (
+    entity_type,
+    entity_id,
+    event_type,
+    event_data,
+    security_level
+) VALUES (
+    'migration',
+    '20250817000005',
+    'system.account_token_vault_deployed',
+    jsonb_build_object(
+        'migration_version', '20250817000005',
+        'completed_at', NOW(),
+        'features_added', ARRAY[
+            'encrypted_account_tokens',
+            'token_expiry_tracking',
+            'account_token_health'
+        ]
+    ),
+    'info'
+);
+
+SELECT 'Account token vault migration completed successfully' as status;
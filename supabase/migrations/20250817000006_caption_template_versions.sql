@@ -0,0 +1,271 @@
+-- Caption Template Versions Migration
+-- Immutable template versions so every rendered caption records the exact wording it used
+-- Created: 2025-08-17
+
+-- ============================================================================
+-- TEMPLATE VERSIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.caption_template_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    template_id UUID NOT NULL REFERENCES public.caption_templates(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    template TEXT NOT NULL,
+    variables JSONB DEFAULT '[]'::jsonb,
+    platform TEXT CHECK (platform IN ('instagram', 'tiktok', 'linkedin', 'facebook', 'youtube')),
+    content_type TEXT CHECK (content_type IN ('reel', 'carousel', 'single_image', 'story')),
+    change_note TEXT,
+    restored_from_version_id UUID REFERENCES public.caption_template_versions(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE (template_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_caption_template_versions_template ON public.caption_template_versions(template_id, version_number DESC);
+
+ALTER TABLE public.caption_templates
+    ADD COLUMN IF NOT EXISTS current_version_id UUID REFERENCES public.caption_template_versions(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS current_version_number INTEGER;
+
+ALTER TABLE public.rendered_captions
+    ADD COLUMN IF NOT EXISTS template_version_id UUID REFERENCES public.caption_template_versions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rendered_captions_template_version ON public.rendered_captions(template_version_id);
+
+-- Versions are history: they can be added but never rewritten
+CREATE OR REPLACE FUNCTION prevent_caption_template_version_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Caption template versions are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER caption_template_versions_immutable BEFORE UPDATE ON public.caption_template_versions
+    FOR EACH ROW EXECUTE FUNCTION prevent_caption_template_version_update();
+
+-- ============================================================================
+-- AUTOMATIC VERSIONING
+-- ============================================================================
+
+-- Snapshot a template whenever its wording or targeting changes. Rollbacks pass a
+-- note and source version through transaction-local settings.
+CREATE OR REPLACE FUNCTION snapshot_caption_template_version()
+RETURNS TRIGGER AS $$
+DECLARE
+    next_version INTEGER;
+    new_version_id UUID;
+BEGIN
+    SELECT COALESCE(MAX(version_number), 0) + 1 INTO next_version
+    FROM public.caption_template_versions
+    WHERE template_id = NEW.id;
+
+    INSERT INTO public.caption_template_versions (
+        template_id,
+        version_number,
+        name,
+        template,
+        variables,
+        platform,
+        content_type,
+        change_note,
+        restored_from_version_id,
+        created_by
+    ) VALUES (
+        NEW.id,
+        next_version,
+        NEW.name,
+        NEW.template,
+        NEW.variables,
+        NEW.platform,
+        NEW.content_type,
+        NULLIF(current_setting('caption_templates.change_note', true), ''),
+        NULLIF(current_setting('caption_templates.restored_from', true), '')::UUID,
+        auth.uid()
+    )
+    RETURNING id INTO new_version_id;
+
+    -- Only touches the pointer columns, so the update trigger below does not fire again
+    UPDATE public.caption_templates
+    SET current_version_id = new_version_id,
+        current_version_number = next_version
+    WHERE id = NEW.id;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER caption_templates_version_on_insert AFTER INSERT ON public.caption_templates
+    FOR EACH ROW EXECUTE FUNCTION snapshot_caption_template_version();
+
+CREATE TRIGGER caption_templates_version_on_update AFTER UPDATE ON public.caption_templates
+    FOR EACH ROW
+    WHEN (
+        OLD.name IS DISTINCT FROM NEW.name OR
+        OLD.template IS DISTINCT FROM NEW.template OR
+        OLD.variables IS DISTINCT FROM NEW.variables OR
+        OLD.platform IS DISTINCT FROM NEW.platform OR
+        OLD.content_type IS DISTINCT FROM NEW.content_type
+    )
+    EXECUTE FUNCTION snapshot_caption_template_version();
+
+-- Backfill version 1 from each template's current text
+INSERT INTO public.caption_template_versions (template_id, version_number, name, template, variables, platform, content_type, change_note, created_at)
+SELECT t.id, 1, t.name, t.template, t.variables, t.platform, t.content_type, 'Initial version', t.updated_at
+FROM public.caption_templates t
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.caption_template_versions v WHERE v.template_id = t.id
+);
+
+UPDATE public.caption_templates t
+SET current_version_id = v.id,
+    current_version_number = v.version_number
+FROM public.caption_template_versions v
+WHERE v.template_id = t.id
+  AND v.version_number = 1
+  AND t.current_version_id IS NULL;
+
+-- Earlier captions only know their template; the closest we can get is the backfilled version
+UPDATE public.rendered_captions r
+SET template_version_id = t.current_version_id
+FROM public.caption_templates t
+WHERE r.template_id = t.id
+  AND r.template_version_id IS NULL;
+
+-- ============================================================================
+-- ROLLBACK
+-- ============================================================================
+
+-- Restore an earlier version's content. The restore is itself recorded as a new
+-- version so history stays linear and nothing is lost.
+CREATE OR REPLACE FUNCTION rollback_caption_template(
+    template_uuid UUID,
+    version_uuid UUID
+)
+RETURNS public.caption_templates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target public.caption_template_versions;
+    result public.caption_templates;
+BEGIN
+    IF NOT is_staff() THEN
+        RAISE EXCEPTION 'Not authorized to roll back caption templates';
+    END IF;
+
+    SELECT * INTO target
+    FROM public.caption_template_versions
+    WHERE id = version_uuid AND template_id = template_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Version % does not belong to template %', version_uuid, template_uuid;
+    END IF;
+
+    PERFORM set_config('caption_templates.change_note', format('Rolled back to version %s', target.version_number), true);
+    PERFORM set_config('caption_templates.restored_from', target.id::TEXT, true);
+
+    UPDATE public.caption_templates
+    SET name = target.name,
+        template = target.template,
+        variables = target.variables,
+        platform = target.platform,
+        content_type = target.content_type
+    WHERE id = template_uuid;
+
+    PERFORM set_config('caption_templates.change_note', '', true);
+    PERFORM set_config('caption_templates.restored_from', '', true);
+
+    SELECT * INTO result FROM public.caption_templates WHERE id = template_uuid;
+
+    INSERT INTO public.events (entity_type, entity_id, event_type, event_data, created_by)
+    VALUES (
+        'caption_template',
+        template_uuid::TEXT,
+        'caption_template_rolled_back',
+        jsonb_build_object(
+            'restoredVersion', target.version_number,
+            'newVersion', result.current_version_number
+        ),
+        auth.uid()
+    );
+
+    RETURN result;
+END;
+$$;
+
+-- ============================================================================
+-- USAGE
+-- ============================================================================
+
+-- Captions rendered from each version of a template, joined to how their
+-- destinations ended up
+CREATE OR REPLACE FUNCTION caption_template_version_usage(template_uuid UUID)
+RETURNS TABLE (
+    version_id UUID,
+    version_number INTEGER,
+    rendered_count INTEGER,
+    published_count INTEGER,
+    failed_count INTEGER,
+    pending_count INTEGER,
+    last_used_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        v.id,
+        v.version_number,
+        COUNT(r.id)::INTEGER,
+        COUNT(r.id) FILTER (WHERE d.status = 'published')::INTEGER,
+        COUNT(r.id) FILTER (WHERE d.status = 'failed')::INTEGER,
+        COUNT(r.id) FILTER (WHERE d.status NOT IN ('published', 'failed', 'cancelled'))::INTEGER,
+        MAX(r.created_at)
+    FROM public.caption_template_versions v
+    LEFT JOIN public.rendered_captions r ON r.template_version_id = v.id
+    LEFT JOIN public.asset_destinations d ON d.id = r.destination_id
+    WHERE v.template_id = template_uuid
+    GROUP BY v.id, v.version_number
+    ORDER BY v.version_number DESC;
+$$;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.caption_template_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view caption template versions" ON public.caption_template_versions FOR SELECT USING (is_staff());
+CREATE POLICY "Staff can add caption template versions" ON public.caption_template_versions FOR INSERT WITH CHECK (is_staff());
+
+COMMENT ON TABLE public.caption_template_versions IS 'Immutable snapshots of caption templates, one per edit';
+COMMENT ON COLUMN public.rendered_captions.template_version_id IS 'Exact template version the caption was rendered from';
+COMMENT ON FUNCTION rollback_caption_template(UUID, UUID) IS 'Restores an earlier template version as a new version';
+
+-- Log migration completion
+INSERT INTO public.events (
+    entity_type,
+    entity_id,
+    event_type,
+    event_data,
+    security_level
+) VALUES (
+    'migration',
+    '20250817000006',
+    'system.caption_template_versions_deployed',
+    jsonb_build_object(
+        'migration_version', '20250817000006',
+        'completed_at', NOW(),
+        'features_added', ARRAY[
+            'caption_template_versions_table',
+            'automatic_template_versioning',
+            'template_rollback',
+            'version_usage_tracking'
+        ]
+    ),
+    'info'
+);
+
+SELECT 'Caption template versions migration completed successfully' as status;
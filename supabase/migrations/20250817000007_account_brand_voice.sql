@@ -0,0 +1,39 @@
+-- Account Brand Voice Migration
+-- Per-account tone, vocabulary and audience used when generating captions
+-- Created: 2025-08-17
+
+-- ============================================================================
+-- BRAND VOICE
+-- ============================================================================
+
+-- Shape: { tone, audience, keywords[], avoidWords[], emojiStyle, sampleCaptions[] }
+ALTER TABLE public.accounts
+    ADD COLUMN IF NOT EXISTS brand_voice JSONB DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.accounts
+    ADD CONSTRAINT accounts_brand_voice_is_object CHECK (jsonb_typeof(brand_voice) = 'object');
+
+COMMENT ON COLUMN public.accounts.brand_voice IS 'Brand voice for caption generation: tone, audience, keywords, words to avoid, emoji style';
+
+-- Log migration completion
+INSERT INTO public.events (
+    entity_type,
+    entity_id,
+    event_type,
+    event_data,
+    security_level
+) VALUES (
+    'migration',
+    '20250817000007',
+    'system.account_brand_voice_deployed',
+    jsonb_build_object(
+        'migration_version', '20250817000007',
+        'completed_at', NOW(),
+        'features_added', ARRAY[
+            'account_brand_voice'
+        ]
+    ),
+    'info'
+);
+
+SELECT 'Account brand voice migration completed successfully' as status;
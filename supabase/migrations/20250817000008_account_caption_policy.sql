@@ -0,0 +1,46 @@
+-- Account Caption Policy Migration
+-- Per-account compliance settings checked by the caption linter on render and in preflight
+-- Created: 2025-08-17
+
+-- ============================================================================
+-- CAPTION POLICY
+-- ============================================================================
+
+-- Shape: { disclosure, bannedPhrases[], maxEmojiDensity{platform: n}, linkShorteners, disabledRules[] }
+ALTER TABLE public.accounts
+    ADD COLUMN IF NOT EXISTS caption_policy JSONB DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.accounts
+    ADD CONSTRAINT accounts_caption_policy_is_object CHECK (jsonb_typeof(caption_policy) = 'object');
+
+ALTER TABLE public.accounts
+    ADD CONSTRAINT accounts_caption_policy_link_shorteners CHECK (
+        NOT caption_policy ? 'linkShorteners'
+        OR caption_policy->>'linkShorteners' IN ('allow', 'warn', 'block')
+    );
+
+COMMENT ON COLUMN public.accounts.caption_policy IS 'Caption compliance: required disclosure line, banned phrases, emoji density, link shortener policy, disabled rules';
+
+-- Log migration completion
+INSERT INTO public.events (
+    entity_type,
+    entity_id,
+    event_type,
+    event_data,
+    security_level
+) VALUES (
+    'migration',
+    '20250817000008',
+    'system.account_caption_policy_deployed',
+    jsonb_build_object(
+        'migration_version', '20250817000008',
+        'completed_at', NOW(),
+        'features_added', ARRAY[
+            'account_caption_policy',
+            'caption_compliance_lint'
+        ]
+    ),
+    'info'
+);
+
+SELECT 'Account caption policy migration completed successfully' as status;
@@ -0,0 +1,270 @@
+-- Hashtag Library Migration
+-- Niche hashtag sets, banned tags, per-asset tag usage and engagement metrics for recommendations
+-- Created: 2025-08-17
+
+-- ============================================================================
+-- ENGAGEMENT METRICS
+-- ============================================================================
+
+-- Snapshots of post engagement (the CSV import writes Views/Likes/Comments/Shares here)
+CREATE TABLE IF NOT EXISTS public.asset_analytics (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    asset_id UUID NOT NULL REFERENCES public.assets(id) ON DELETE CASCADE,
+    platform TEXT CHECK (platform IN ('instagram', 'tiktok', 'linkedin', 'facebook', 'youtube')),
+    views INTEGER NOT NULL DEFAULT 0 CHECK (views >= 0),
+    likes INTEGER NOT NULL DEFAULT 0 CHECK (likes >= 0),
+    comments INTEGER NOT NULL DEFAULT 0 CHECK (comments >= 0),
+    shares INTEGER NOT NULL DEFAULT 0 CHECK (shares >= 0),
+    recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_asset_analytics_asset ON public.asset_analytics(asset_id, recorded_at DESC);
+
+-- ============================================================================
+-- HASHTAG SETS AND BANNED TAGS
+-- ============================================================================
+
+-- Tags are stored lowercase without the leading "#"
+CREATE OR REPLACE FUNCTION normalize_hashtag(tag TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT lower(regexp_replace(trim(tag), '^#+', ''));
+$$;
+
+CREATE OR REPLACE FUNCTION extract_hashtags(body TEXT)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT COALESCE(array_agg(DISTINCT lower(m[1])), '{}')
+    FROM regexp_matches(COALESCE(body, ''), '#([[:alnum:]_]+)', 'g') AS m;
+$$;
+
+CREATE TABLE IF NOT EXISTS public.hashtag_sets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    niche TEXT NOT NULL,
+    -- NULL means the set suits every platform
+    platform TEXT CHECK (platform IN ('instagram', 'tiktok', 'linkedin', 'facebook', 'youtube')),
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    description TEXT,
+    is_active BOOLEAN DEFAULT true,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE (niche, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_hashtag_sets_niche ON public.hashtag_sets(niche) WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS public.banned_hashtags (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tag TEXT NOT NULL CHECK (tag = normalize_hashtag(tag) AND tag <> ''),
+    -- NULL bans the tag on every platform
+    platform TEXT CHECK (platform IN ('instagram', 'tiktok', 'linkedin', 'facebook', 'youtube')),
+    status TEXT NOT NULL DEFAULT 'banned' CHECK (status IN ('banned', 'shadowbanned')),
+    reason TEXT,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE NULLS NOT DISTINCT (tag, platform)
+);
+
+-- Normalize set tags on write so lookups and the performance join match
+CREATE OR REPLACE FUNCTION normalize_hashtag_set_tags()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.tags := ARRAY(
+        SELECT normalize_hashtag(tag)
+        FROM unnest(NEW.tags) WITH ORDINALITY AS t(tag, position)
+        WHERE normalize_hashtag(tag) <> ''
+        GROUP BY normalize_hashtag(tag)
+        ORDER BY MIN(position)
+    );
+    NEW.updated_at := NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER hashtag_sets_normalize BEFORE INSERT OR UPDATE ON public.hashtag_sets
+    FOR EACH ROW EXECUTE FUNCTION normalize_hashtag_set_tags();
+
+-- ============================================================================
+-- TAG USAGE
+-- ============================================================================
+
+-- One row per tag an asset was posted (or imported) with
+CREATE TABLE IF NOT EXISTS public.asset_hashtags (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    asset_id UUID NOT NULL REFERENCES public.assets(id) ON DELETE CASCADE,
+    tag TEXT NOT NULL CHECK (tag = normalize_hashtag(tag) AND tag <> ''),
+    platform TEXT CHECK (platform IN ('instagram', 'tiktok', 'linkedin', 'facebook', 'youtube')),
+    source TEXT NOT NULL DEFAULT 'rendered_caption' CHECK (source IN ('rendered_caption', 'import', 'metadata')),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    -- A NULL platform (tag applies everywhere) still counts once per asset
+    UNIQUE NULLS NOT DISTINCT (asset_id, tag, platform)
+);
+CREATE INDEX IF NOT EXISTS idx_asset_hashtags_tag ON public.asset_hashtags(tag);
+
+-- Record the tags of every rendered caption against its asset and platform
+CREATE OR REPLACE FUNCTION record_rendered_caption_hashtags()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.asset_hashtags (asset_id, tag, platform, source)
+    SELECT DISTINCT d.asset_id, normalize_hashtag(tag), a.platform, 'rendered_caption'
+    FROM public.asset_destinations d
+    JOIN public.accounts a ON a.id = d.account_id
+    CROSS JOIN unnest(
+        CASE WHEN COALESCE(array_length(NEW.hashtags, 1), 0) > 0 THEN NEW.hashtags
+             ELSE extract_hashtags(NEW.rendered_text)
+        END
+    ) AS tag
+    WHERE d.id = NEW.destination_id
+      AND normalize_hashtag(tag) <> ''
+    ON CONFLICT DO NOTHING;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER rendered_captions_record_hashtags AFTER INSERT ON public.rendered_captions
+    FOR EACH ROW EXECUTE FUNCTION record_rendered_caption_hashtags();
+
+-- Backfill from captions rendered so far
+INSERT INTO public.asset_hashtags (asset_id, tag, platform, source)
+SELECT DISTINCT d.asset_id, normalize_hashtag(tag), a.platform, 'rendered_caption'
+FROM public.rendered_captions r
+JOIN public.asset_destinations d ON d.id = r.destination_id
+JOIN public.accounts a ON a.id = d.account_id
+CROSS JOIN unnest(
+    CASE WHEN COALESCE(array_length(r.hashtags, 1), 0) > 0 THEN r.hashtags
+         ELSE extract_hashtags(r.rendered_text)
+    END
+) AS tag
+WHERE normalize_hashtag(tag) <> ''
+ON CONFLICT DO NOTHING;
+
+-- ...and from imported captions, which were never rendered
+INSERT INTO public.asset_hashtags (asset_id, tag, platform, source)
+SELECT DISTINCT assets.id, tag, captions.platform, 'import'
+FROM public.assets
+CROSS JOIN LATERAL (VALUES
+    ('instagram', assets.metadata->'captions'->>'instagram'),
+    ('tiktok', assets.metadata->'captions'->>'tiktok')
+) AS captions(platform, body)
+CROSS JOIN unnest(extract_hashtags(captions.body)) AS tag
+WHERE assets.metadata->>'source' = 'csv_import'
+ON CONFLICT DO NOTHING;
+
+-- ============================================================================
+-- PERFORMANCE
+-- ============================================================================
+
+-- Per-tag usage joined to the latest engagement snapshot of each asset that used it.
+-- Tags recorded without a platform count towards every platform.
+CREATE OR REPLACE FUNCTION hashtag_performance(platform_filter TEXT DEFAULT NULL)
+RETURNS TABLE (
+    tag TEXT,
+    usage_count INTEGER,
+    measured_count INTEGER,
+    total_views BIGINT,
+    total_likes BIGINT,
+    total_comments BIGINT,
+    total_shares BIGINT,
+    engagement_rate NUMERIC,
+    last_used_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH latest AS (
+        SELECT DISTINCT ON (asset_id, COALESCE(platform, '*'))
+            asset_id, platform, views, likes, comments, shares
+        FROM public.asset_analytics
+        WHERE platform_filter IS NULL OR platform IS NULL OR platform = platform_filter
+        ORDER BY asset_id, COALESCE(platform, '*'), recorded_at DESC
+    ),
+    per_asset AS (
+        SELECT asset_id,
+               SUM(views) AS views,
+               SUM(likes) AS likes,
+               SUM(comments) AS comments,
+               SUM(shares) AS shares
+        FROM latest
+        GROUP BY asset_id
+    ),
+    usage AS (
+        SELECT h.tag, h.asset_id, MAX(h.created_at) AS used_at
+        FROM public.asset_hashtags h
+        WHERE platform_filter IS NULL OR h.platform IS NULL OR h.platform = platform_filter
+        GROUP BY h.tag, h.asset_id
+    )
+    SELECT
+        u.tag,
+        COUNT(*)::INTEGER,
+        COUNT(m.asset_id)::INTEGER,
+        COALESCE(SUM(m.views), 0)::BIGINT,
+        COALESCE(SUM(m.likes), 0)::BIGINT,
+        COALESCE(SUM(m.comments), 0)::BIGINT,
+        COALESCE(SUM(m.shares), 0)::BIGINT,
+        CASE WHEN SUM(m.views) > 0
+             THEN ROUND(SUM(m.likes + m.comments + m.shares)::NUMERIC / SUM(m.views), 6)
+        END,
+        MAX(u.used_at)
+    FROM usage u
+    LEFT JOIN per_asset m ON m.asset_id = u.asset_id
+    GROUP BY u.tag
+    ORDER BY COUNT(*) DESC;
+$$;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.asset_analytics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.hashtag_sets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.banned_hashtags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.asset_hashtags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can manage asset analytics" ON public.asset_analytics FOR ALL USING (is_staff());
+CREATE POLICY "Staff can manage hashtag sets" ON public.hashtag_sets FOR ALL USING (is_staff());
+CREATE POLICY "Staff can manage banned hashtags" ON public.banned_hashtags FOR ALL USING (is_staff());
+CREATE POLICY "Staff can manage asset hashtags" ON public.asset_hashtags FOR ALL USING (is_staff());
+
+COMMENT ON TABLE public.asset_analytics IS 'Engagement snapshots (views, likes, comments, shares) per asset and optionally platform';
+COMMENT ON TABLE public.hashtag_sets IS 'Curated hashtag sets grouped by niche';
+COMMENT ON TABLE public.banned_hashtags IS 'Tags that are banned or shadowbanned, globally or on one platform';
+COMMENT ON TABLE public.asset_hashtags IS 'Hashtags each asset was posted or imported with';
+COMMENT ON FUNCTION hashtag_performance(TEXT) IS 'Per-tag usage counts and engagement, optionally for one platform';
+
+-- Log migration completion
+INSERT INTO public.events (
+    entity_type,
+    entity_id,
+    event_type,
+    event_data,
+    security_level
+) VALUES (
+    'migration',
+    '20250817000009',
+    'system.hashtag_library_deployed',
+    jsonb_build_object(
+        'migration_version', '20250817000009',
+        'completed_at', NOW(),
+        'features_added', ARRAY[
+            'asset_analytics_table',
+            'hashtag_sets',
+            'banned_hashtags',
+            'asset_hashtag_usage',
+            'hashtag_performance'
+        ]
+    ),
+    'info'
+);
+
+SELECT 'Hashtag library migration completed successfully' as status;
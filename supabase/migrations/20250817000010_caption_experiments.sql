@@ -0,0 +1,253 @@
+-- Caption Experiments Migration
+-- A/B caption variants for one asset, spread over destinations, with per-variant engagement
+-- and promotion of the winning variant into the template library
+-- Created: 2025-08-17
+
+-- ============================================================================
+-- EXPERIMENTS AND VARIANTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.caption_experiments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    asset_id UUID NOT NULL REFERENCES public.assets(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    hypothesis TEXT,
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'running', 'completed', 'cancelled')),
+    -- Rate compared between variants, per view
+    metric TEXT NOT NULL DEFAULT 'engagement_rate' CHECK (metric IN ('engagement_rate', 'like_rate', 'comment_rate', 'share_rate')),
+    min_views_per_variant INTEGER NOT NULL DEFAULT 500 CHECK (min_views_per_variant > 0),
+    confidence NUMERIC(4, 3) NOT NULL DEFAULT 0.95 CHECK (confidence >= 0.5 AND confidence < 1),
+    winner_variant_id UUID,
+    winner_p_value NUMERIC,
+    promoted_template_id UUID REFERENCES public.caption_templates(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES auth.users(id),
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_caption_experiments_asset ON public.caption_experiments(asset_id);
+CREATE INDEX IF NOT EXISTS idx_caption_experiments_running ON public.caption_experiments(status) WHERE status = 'running';
+
+-- Each variant is template source, rendered per destination like any template
+CREATE TABLE IF NOT EXISTS public.caption_variants (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    experiment_id UUID NOT NULL REFERENCES public.caption_experiments(id) ON DELETE CASCADE,
+    label TEXT NOT NULL,
+    template TEXT NOT NULL,
+    source_template_id UUID REFERENCES public.caption_templates(id) ON DELETE SET NULL,
+    source_template_version_id UUID REFERENCES public.caption_template_versions(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE (experiment_id, label)
+);
+
+ALTER TABLE public.caption_experiments
+    ADD CONSTRAINT caption_experiments_winner_fkey
+    FOREIGN KEY (winner_variant_id) REFERENCES public.caption_variants(id) ON DELETE SET NULL;
+
+-- The variant a destination's caption was rendered from
+ALTER TABLE public.rendered_captions
+    ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.caption_variants(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rendered_captions_variant ON public.rendered_captions(variant_id) WHERE variant_id IS NOT NULL;
+
+-- Engagement per destination, so variants posted for the same asset can be told apart
+ALTER TABLE public.asset_analytics
+    ADD COLUMN IF NOT EXISTS destination_id UUID REFERENCES public.asset_destinations(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_asset_analytics_destination ON public.asset_analytics(destination_id, recorded_at DESC)
+    WHERE destination_id IS NOT NULL;
+
+CREATE TRIGGER update_caption_experiments_updated_at BEFORE UPDATE ON public.caption_experiments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- RESULTS
+-- ============================================================================
+
+-- Totals per variant. A destination belongs to the variant of its latest rendered
+-- caption and contributes its latest engagement snapshot.
+CREATE OR REPLACE FUNCTION caption_experiment_results(experiment_uuid UUID)
+RETURNS TABLE (
+    variant_id UUID,
+    label TEXT,
+    destination_count INTEGER,
+    published_count INTEGER,
+    measured_count INTEGER,
+    views BIGINT,
+    likes BIGINT,
+    comments BIGINT,
+    shares BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH experiment_destinations AS (
+        SELECT DISTINCT r.destination_id
+        FROM public.rendered_captions r
+        JOIN public.caption_variants v ON v.id = r.variant_id
+        WHERE v.experiment_id = experiment_uuid
+    ),
+    latest_caption AS (
+        SELECT DISTINCT ON (r.destination_id) r.destination_id, r.variant_id
+        FROM public.rendered_captions r
+        WHERE r.destination_id IN (SELECT destination_id FROM experiment_destinations)
+        ORDER BY r.destination_id, r.created_at DESC
+    ),
+    latest_metrics AS (
+        SELECT DISTINCT ON (a.destination_id) a.destination_id, a.views, a.likes, a.comments, a.shares
+        FROM public.asset_analytics a
+        WHERE a.destination_id IN (SELECT destination_id FROM experiment_destinations)
+        ORDER BY a.destination_id, a.recorded_at DESC
+    )
+    SELECT
+        v.id,
+        v.label,
+        COUNT(lc.destination_id)::INTEGER,
+        COUNT(d.id) FILTER (WHERE d.status = 'published')::INTEGER,
+        COUNT(m.destination_id)::INTEGER,
+        COALESCE(SUM(m.views), 0)::BIGINT,
+        COALESCE(SUM(m.likes), 0)::BIGINT,
+        COALESCE(SUM(m.comments), 0)::BIGINT,
+        COALESCE(SUM(m.shares), 0)::BIGINT
+    FROM public.caption_variants v
+    LEFT JOIN latest_caption lc ON lc.variant_id = v.id
+    LEFT JOIN public.asset_destinations d ON d.id = lc.destination_id
+    LEFT JOIN latest_metrics m ON m.destination_id = lc.destination_id
+    WHERE v.experiment_id = experiment_uuid
+    GROUP BY v.id, v.label
+    ORDER BY v.label;
+$$;
+
+-- ============================================================================
+-- PROMOTION
+-- ============================================================================
+
+-- Record the winner, complete the experiment and add the winning variant to the
+-- template library as a new template (versioned like any other).
+CREATE OR REPLACE FUNCTION promote_caption_variant(
+    experiment_uuid UUID,
+    variant_uuid UUID,
+    p_value NUMERIC DEFAULT NULL
+)
+RETURNS public.caption_experiments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    experiment public.caption_experiments;
+    winner public.caption_variants;
+    source public.caption_templates;
+    new_template_id UUID;
+    result public.caption_experiments;
+BEGIN
+    IF NOT (is_staff() OR auth.role() = 'service_role') THEN
+        RAISE EXCEPTION 'Not authorized to promote caption variants';
+    END IF;
+
+    SELECT * INTO experiment FROM public.caption_experiments WHERE id = experiment_uuid FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Experiment % not found', experiment_uuid;
+    END IF;
+    IF experiment.status NOT IN ('running', 'draft') THEN
+        RAISE EXCEPTION 'Experiment % is already %', experiment_uuid, experiment.status;
+    END IF;
+
+    SELECT * INTO winner FROM public.caption_variants WHERE id = variant_uuid AND experiment_id = experiment_uuid;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Variant % does not belong to experiment %', variant_uuid, experiment_uuid;
+    END IF;
+
+    SELECT * INTO source FROM public.caption_templates WHERE id = winner.source_template_id;
+
+    PERFORM set_config('caption_templates.change_note', format('Promoted from experiment "%s", variant %s', experiment.name, winner.label), true);
+
+    INSERT INTO public.caption_templates (name, template, variables, platform, content_type, is_active)
+    VALUES (
+        format('%s (winner %s)', experiment.name, winner.label),
+        winner.template,
+        COALESCE(source.variables, '[]'::jsonb),
+        source.platform,
+        source.content_type,
+        true
+    )
+    RETURNING id INTO new_template_id;
+
+    PERFORM set_config('caption_templates.change_note', '', true);
+
+    UPDATE public.caption_experiments
+    SET status = 'completed',
+        winner_variant_id = winner.id,
+        winner_p_value = p_value,
+        promoted_template_id = new_template_id,
+        completed_at = NOW()
+    WHERE id = experiment_uuid
+    RETURNING * INTO result;
+
+    INSERT INTO public.events (entity_type, entity_id, event_type, event_data, created_by)
+    VALUES (
+        'caption_experiment',
+        experiment_uuid::TEXT,
+        'caption_variant_promoted',
+        jsonb_build_object(
+            'assetId', experiment.asset_id,
+            'variantId', winner.id,
+            'label', winner.label,
+            'pValue', p_value,
+            'templateId', new_template_id
+        ),
+        auth.uid()
+    );
+
+    RETURN result;
+END;
+$$;
+
+-- Staff promote from the app and worker:experiments promotes as service_role
+REVOKE EXECUTE ON FUNCTION promote_caption_variant(UUID, UUID, NUMERIC) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION promote_caption_variant(UUID, UUID, NUMERIC) TO authenticated, service_role;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.caption_experiments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.caption_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can manage caption experiments" ON public.caption_experiments FOR ALL USING (is_staff());
+CREATE POLICY "Staff can manage caption variants" ON public.caption_variants FOR ALL USING (is_staff());
+
+COMMENT ON TABLE public.caption_experiments IS 'A/B tests of caption variants for one asset';
+COMMENT ON TABLE public.caption_variants IS 'Template source for each arm of a caption experiment';
+COMMENT ON COLUMN public.rendered_captions.variant_id IS 'Experiment variant the caption was rendered from';
+COMMENT ON COLUMN public.asset_analytics.destination_id IS 'Destination the snapshot was measured on, when known';
+COMMENT ON FUNCTION promote_caption_variant(UUID, UUID, NUMERIC) IS 'Completes an experiment and adds the winning variant to the template library';
+
+-- Log migration completion
+INSERT INTO public.events (
+    entity_type,
+    entity_id,
+    event_type,
+    event_data,
+    security_level
+) VALUES (
+    'migration',
+    '20250817000010',
+    'system.caption_experiments_deployed',
+    jsonb_build_object(
+        'migration_version', '20250817000010',
+        'completed_at', NOW(),
+        'features_added', ARRAY[
+            'caption_experiments',
+            'caption_variants',
+            'per_destination_analytics',
+            'variant_promotion'
+        ]
+    ),
+    'info'
+);
+
+SELECT 'Caption experiments migration completed successfully' as status;
@@ -0,0 +1,91 @@
+-- Caption Locales Migration
+-- Per-account locale and business details, translated caption templates and the locale
+-- each caption was rendered in
+-- Created: 2025-08-17
+
+-- ============================================================================
+-- ACCOUNT LOCALE
+-- ============================================================================
+
+-- BCP 47 tag such as 'en-US' or 'es-MX'; drives template language and date/number formats
+ALTER TABLE public.accounts
+    ADD COLUMN IF NOT EXISTS locale TEXT NOT NULL DEFAULT 'en-US'
+    CHECK (locale ~ '^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$');
+
+-- Business details templates read as {{business.*}}: name, website, phone, currency
+ALTER TABLE public.accounts
+    ADD COLUMN IF NOT EXISTS business_profile JSONB NOT NULL DEFAULT '{}'::jsonb
+    CHECK (jsonb_typeof(business_profile) = 'object');
+
+-- ============================================================================
+-- TEMPLATE TRANSLATIONS
+-- ============================================================================
+
+-- Language the template itself is written in
+ALTER TABLE public.caption_templates
+    ADD COLUMN IF NOT EXISTS locale TEXT NOT NULL DEFAULT 'en-US'
+    CHECK (locale ~ '^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$');
+
+-- One translated source per template and locale. A language-only locale ('es') serves
+-- every region of that language that has no translation of its own.
+CREATE TABLE IF NOT EXISTS public.caption_template_translations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    template_id UUID NOT NULL REFERENCES public.caption_templates(id) ON DELETE CASCADE,
+    locale TEXT NOT NULL CHECK (locale ~ '^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$'),
+    template TEXT NOT NULL,
+    variables JSONB DEFAULT '[]'::jsonb,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE (template_id, locale)
+);
+
+CREATE INDEX IF NOT EXISTS idx_caption_template_translations_template ON public.caption_template_translations(template_id);
+
+CREATE TRIGGER update_caption_template_translations_updated_at BEFORE UPDATE ON public.caption_template_translations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Locale the caption was actually rendered in, after falling back
+ALTER TABLE public.rendered_captions
+    ADD COLUMN IF NOT EXISTS locale TEXT;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.caption_template_translations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can manage caption template translations" ON public.caption_template_translations FOR ALL USING (is_staff());
+
+COMMENT ON COLUMN public.accounts.locale IS 'Locale captions for this account are rendered in';
+COMMENT ON COLUMN public.accounts.business_profile IS 'Business name, website, phone and currency exposed to caption templates';
+COMMENT ON COLUMN public.caption_templates.locale IS 'Language the template source is written in';
+COMMENT ON TABLE public.caption_template_translations IS 'Translated caption template source per locale';
+COMMENT ON COLUMN public.rendered_captions.locale IS 'Locale the caption was rendered in';
+
+-- Log migration completion
+INSERT INTO public.events (
+    entity_type,
+    entity_id,
+    event_type,
+    event_data,
+    security_level
+) VALUES (
+    'migration',
+    '20250817000011',
+    'system.caption_locales_deployed',
+    jsonb_build_object(
+        'migration_version', '20250817000011',
+        'completed_at', NOW(),
+        'features_added', ARRAY[
+            'account_locale',
+            'account_business_profile',
+            'caption_template_translations',
+            'rendered_caption_locale'
+        ]
+    ),
+    'info'
+);
+
+SELECT 'Caption locales migration completed successfully' as status;
@@ -0,0 +1,77 @@
+-- Published Captions Migration
+-- Persist the exact caption of every publish, link it to the publish attempt and let
+-- editors lock a hand-edited caption per destination
+-- Created: 2025-08-17
+
+-- ============================================================================
+-- RENDERED CAPTION ORIGIN AND LOCKING
+-- ============================================================================
+
+-- Where the text came from: a template, an experiment variant, an editor, or the
+-- caption passed in with the publish request
+ALTER TABLE public.rendered_captions
+    ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'template'
+    CHECK (source IN ('template', 'experiment', 'manual', 'request', 'fallback'));
+
+-- A locked caption is published as-is and never replaced by regeneration
+ALTER TABLE public.rendered_captions
+    ADD COLUMN IF NOT EXISTS is_locked BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS locked_by UUID REFERENCES auth.users(id),
+    ADD COLUMN IF NOT EXISTS locked_at TIMESTAMPTZ;
+
+-- At most one locked caption per destination
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rendered_captions_locked
+    ON public.rendered_captions(destination_id) WHERE is_locked;
+
+CREATE INDEX IF NOT EXISTS idx_rendered_captions_destination_created
+    ON public.rendered_captions(destination_id, created_at DESC);
+
+UPDATE public.rendered_captions SET source = 'experiment' WHERE variant_id IS NOT NULL;
+
+-- ============================================================================
+-- PUBLISH ATTEMPT LINK
+-- ============================================================================
+
+-- The caption an attempt sent to the platform
+ALTER TABLE public.publish_attempts
+    ADD COLUMN IF NOT EXISTS rendered_caption_id UUID REFERENCES public.rendered_captions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_publish_attempts_rendered_caption ON public.publish_attempts(rendered_caption_id)
+    WHERE rendered_caption_id IS NOT NULL;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+-- RLS was enabled on rendered_captions without a policy, so nothing could be read or written
+CREATE POLICY "Staff can manage rendered captions" ON public.rendered_captions FOR ALL USING (is_staff());
+
+COMMENT ON COLUMN public.rendered_captions.source IS 'Origin of the text: template, experiment, manual, request or fallback';
+COMMENT ON COLUMN public.rendered_captions.is_locked IS 'Publish this caption as-is instead of rendering a new one';
+COMMENT ON COLUMN public.publish_attempts.rendered_caption_id IS 'Caption sent to the platform on this attempt';
+
+-- Log migration completion
+INSERT INTO public.events (
+    entity_type,
+    entity_id,
+    event_type,
+    event_data,
+    security_level
+) VALUES (
+    'migration',
+    '20250817000012',
+    'system.published_captions_deployed',
+    jsonb_build_object(
+        'migration_version', '20250817000012',
+        'completed_at', NOW(),
+        'features_added', ARRAY[
+            'rendered_caption_source',
+            'locked_captions',
+            'publish_attempt_caption',
+            'rendered_captions_rls_policy'
+        ]
+    ),
+    'info'
+);
+
+SELECT 'Published captions migration completed successfully' as status;
@@ -0,0 +1,56 @@
+-- Destination Publish Options Migration
+-- First comment, collaborators, user tags, location and alt text per destination
+-- Created: 2025-08-17
+
+-- ============================================================================
+-- PUBLISH OPTIONS
+-- ============================================================================
+
+-- DestinationPublishOptions: firstComment, collaborators, userTags [{username, x, y, mediaIndex}],
+-- locationId and altText. Platforms ignore the options they do not support.
+ALTER TABLE public.asset_destinations
+    ADD COLUMN IF NOT EXISTS publish_options JSONB NOT NULL DEFAULT '{}'::jsonb
+    CHECK (jsonb_typeof(publish_options) = 'object');
+
+ALTER TABLE public.asset_destinations
+    ADD CONSTRAINT asset_destinations_publish_options_collaborators_check
+    CHECK (
+        NOT publish_options ? 'collaborators'
+        OR (
+            jsonb_typeof(publish_options->'collaborators') = 'array'
+            AND jsonb_array_length(publish_options->'collaborators') <= 3
+        )
+    );
+
+ALTER TABLE public.asset_destinations
+    ADD CONSTRAINT asset_destinations_publish_options_user_tags_check
+    CHECK (NOT publish_options ? 'userTags' OR jsonb_typeof(publish_options->'userTags') = 'array');
+
+COMMENT ON COLUMN public.asset_destinations.publish_options IS 'First comment, collaborators, user tags, location and alt text applied when publishing';
+
+-- Log migration completion
+INSERT INTO public.events (
+    entity_type,
+    entity_id,
+    event_type,
+    event_data,
+    security_level
+) VALUES (
+    'migration',
+    '20250817000013',
+    'system.destination_publish_options_deployed',
+    jsonb_build_object(
+        'migration_version', '20250817000013',
+        'completed_at', NOW(),
+        'features_added', ARRAY[
+            'first_comment',
+            'collaborators',
+            'user_tags',
+            'location',
+            'alt_text'
+        ]
+    ),
+    'info'
+);
+
+SELECT 'Destination publish options migration completed successfully' as status;
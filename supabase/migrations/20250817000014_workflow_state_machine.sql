@@ -0,0 +1,101 @@
+-- Workflow State Machine Migration
+-- Legal status transitions for workflow executions, per-type deadlines and a timed_out state
+-- for runs n8n never called back about
+-- Created: 2025-08-17
+
+-- ============================================================================
+-- STATUSES AND DEADLINES
+-- ============================================================================
+
+ALTER TABLE public.workflow_executions DROP CONSTRAINT IF EXISTS workflow_executions_status_check;
+ALTER TABLE public.workflow_executions
+    ADD CONSTRAINT workflow_executions_status_check
+    CHECK (status IN ('started', 'running', 'completed', 'failed', 'cancelled', 'timed_out'));
+
+ALTER TABLE public.workflow_executions
+    ADD COLUMN IF NOT EXISTS timeout_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+-- Give runs that predate deadlines the same per-type timeouts as WORKFLOW_TIMEOUTS_MS
+UPDATE public.workflow_executions
+SET timeout_at = COALESCE(started_at, NOW()) + CASE workflow_type
+        WHEN 'publish_reel' THEN INTERVAL '30 minutes'
+        WHEN 'publish_carousel' THEN INTERVAL '20 minutes'
+        WHEN 'schedule_post' THEN INTERVAL '15 minutes'
+        WHEN 'batch_publish' THEN INTERVAL '120 minutes'
+        ELSE INTERVAL '30 minutes'
+    END
+WHERE timeout_at IS NULL AND status IN ('started', 'running');
+
+-- The sweeper only ever looks at active runs past their deadline
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_deadline ON public.workflow_executions(timeout_at)
+    WHERE status IN ('started', 'running');
+
+-- ============================================================================
+-- TRANSITIONS
+-- ============================================================================
+
+-- Mirrors WORKFLOW_TRANSITIONS, so writers that bypass the service cannot reopen a
+-- finished run either. Terminal moves stamp completion time and duration.
+CREATE OR REPLACE FUNCTION enforce_workflow_execution_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT (
+        (OLD.status = 'started' AND NEW.status IN ('running', 'completed', 'failed', 'cancelled', 'timed_out'))
+        OR (OLD.status = 'running' AND NEW.status IN ('completed', 'failed', 'cancelled', 'timed_out'))
+    ) THEN
+        RAISE EXCEPTION 'Workflow execution % cannot move from % to %', OLD.id, OLD.status, NEW.status
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    NEW.status_changed_at := NOW();
+
+    IF NEW.status IN ('completed', 'failed', 'cancelled', 'timed_out') THEN
+        NEW.completed_at := COALESCE(NEW.completed_at, NOW());
+        IF OLD.started_at IS NOT NULL THEN
+            NEW.duration_ms := COALESCE(NEW.duration_ms, (EXTRACT(EPOCH FROM (NEW.completed_at - OLD.started_at)) * 1000)::INTEGER);
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_workflow_execution_transition ON public.workflow_executions;
+CREATE TRIGGER enforce_workflow_execution_transition BEFORE UPDATE OF status ON public.workflow_executions
+    FOR EACH ROW EXECUTE FUNCTION enforce_workflow_execution_transition();
+
+COMMENT ON COLUMN public.workflow_executions.timeout_at IS 'Deadline for n8n to call back before the run is marked timed_out';
+COMMENT ON COLUMN public.workflow_executions.status_changed_at IS 'When the execution last changed status';
+COMMENT ON FUNCTION enforce_workflow_execution_transition() IS 'Rejects illegal workflow execution status transitions';
+
+-- Log migration completion
+INSERT INTO public.events (
+    entity_type,
+    entity_id,
+    event_type,
+    event_data,
+    security_level
+) VALUES (
+    'migration',
+    '20250817000014',
+    'system.workflow_state_machine_deployed',
+    jsonb_build_object(
+        'migration_version', '20250817000014',
+        'completed_at', NOW(),
+        'features_added', ARRAY[
+            'workflow_status_transitions',
+            'workflow_timeouts',
+            'timed_out_status'
+        ]
+    ),
+    'info'
+);
+
+SELECT 'Workflow state machine migration completed successfully' as status;
@@ -0,0 +1,49 @@
+-- N8N Execution Sync Migration
+-- n8n's own view of each workflow execution, pulled from the n8n REST API: status,
+-- per-node run timeline and when it was last synced
+-- Created: 2025-08-17
+
+-- ============================================================================
+-- EXECUTION SNAPSHOTS
+-- ============================================================================
+
+ALTER TABLE public.workflow_executions
+    ADD COLUMN IF NOT EXISTS n8n_status TEXT CHECK (n8n_status IN ('new', 'running', 'waiting', 'success', 'error', 'canceled', 'crashed', 'unknown')),
+    ADD COLUMN IF NOT EXISTS n8n_node_runs JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(n8n_node_runs) = 'array'),
+    ADD COLUMN IF NOT EXISTS n8n_synced_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_n8n_execution ON public.workflow_executions(n8n_execution_id)
+    WHERE n8n_execution_id IS NOT NULL;
+
+-- Reconciliation walks active runs in order of their last status change
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_active ON public.workflow_executions(status_changed_at)
+    WHERE status IN ('started', 'running');
+
+COMMENT ON COLUMN public.workflow_executions.n8n_status IS 'Execution status last reported by the n8n API';
+COMMENT ON COLUMN public.workflow_executions.n8n_node_runs IS 'Per-node runs (node, run, status, startedAt, durationMs, itemCount, error) from the n8n API';
+COMMENT ON COLUMN public.workflow_executions.n8n_synced_at IS 'When the execution was last synced from the n8n API';
+
+-- Log migration completion
+INSERT INTO public.events (
+    entity_type,
+    entity_id,
+    event_type,
+    event_data,
+    security_level
+) VALUES (
+    'migration',
+    '20250817000015',
+    'system.n8n_execution_sync_deployed',
+    jsonb_build_object(
+        'migration_version', '20250817000015',
+        'completed_at', NOW(),
+        'features_added', ARRAY[
+            'n8n_execution_status',
+            'n8n_node_timeline',
+            'workflow_reconciliation'
+        ]
+    ),
+    'info'
+);
+
+SELECT 'N8N execution sync migration completed successfully' as status;
@@ -0,0 +1,405 @@
+-- Webhook Secret Rotation Migration
+-- Encrypted webhook secrets with rotation: a new secret is issued, the previous one stays valid
+-- for a grace window and is then retired. Every issue, rotation and retirement is audited in
+-- webhook_request_logs.
+-- Created: 2025-08-17
+--
+-- Requires a Supabase Vault secret named 'webhook_secret_key' before running:
+--   SELECT vault.create_secret(encode(gen_random_bytes(32), 'base64'), 'webhook_secret_key');
+
+-- ============================================================================
+-- ENCRYPTION KEY
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION webhook_secret_key()
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+    secret_key TEXT;
+BEGIN
+    SELECT decrypted_secret INTO secret_key
+    FROM vault.decrypted_secrets
+    WHERE name = 'webhook_secret_key';
+
+    IF secret_key IS NULL THEN
+        RAISE EXCEPTION 'Vault secret webhook_secret_key is not configured';
+    END IF;
+
+    RETURN secret_key;
+END;
+$$;
+
+-- Only the functions below may read the key
+REVOKE EXECUTE ON FUNCTION webhook_secret_key() FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- WEBHOOK SECRET COLUMNS
+-- ============================================================================
+
+-- The first webhook_configs migration created the table without the columns the
+-- security service reads; the later CREATE TABLE IF NOT EXISTS never added them
+ALTER TABLE public.webhook_configs
+ADD COLUMN IF NOT EXISTS workflow_type TEXT,
+ADD COLUMN IF NOT EXISTS active BOOLEAN DEFAULT true,
+ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS secret_encrypted BYTEA,
+ADD COLUMN IF NOT EXISTS previous_secret_encrypted BYTEA,
+ADD COLUMN IF NOT EXISTS previous_secret_expires_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS secret_version INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS secret_rotated_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS allowed_origins TEXT[] DEFAULT '{"*"}',
+ADD COLUMN IF NOT EXISTS rate_limit_requests INTEGER DEFAULT 100,
+ADD COLUMN IF NOT EXISTS rate_limit_window_minutes INTEGER DEFAULT 15;
+
+-- Required columns of either earlier definition that the security service no longer writes
+DO $$
+DECLARE
+    legacy_column TEXT;
+BEGIN
+    FOREACH legacy_column IN ARRAY ARRAY['name', 'endpoint_url', 'secret_key', 'event_types', 'secret_hash', 'secret_salt'] LOOP
+        IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'webhook_configs' AND column_name = legacy_column) THEN
+            EXECUTE format('ALTER TABLE public.webhook_configs ALTER COLUMN %I DROP NOT NULL', legacy_column);
+        END IF;
+    END LOOP;
+END $$;
+
+ALTER TABLE public.webhook_configs
+DROP CONSTRAINT IF EXISTS webhook_configs_previous_secret_check;
+
+ALTER TABLE public.webhook_configs
+ADD CONSTRAINT webhook_configs_previous_secret_check
+    CHECK ((previous_secret_encrypted IS NULL) = (previous_secret_expires_at IS NULL));
+
+-- Encrypt plaintext secrets where the table still has them; hashed secrets cannot be
+-- recovered and need a rotation before HMAC validation works
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'webhook_configs' AND column_name = 'secret_key') THEN
+        EXECUTE 'UPDATE public.webhook_configs
+                 SET secret_encrypted = pgp_sym_encrypt(secret_key, webhook_secret_key())
+                 WHERE secret_encrypted IS NULL AND secret_key IS NOT NULL';
+        -- The ciphertext replaces the plaintext copy
+        EXECUTE 'UPDATE public.webhook_configs SET secret_key = NULL WHERE secret_encrypted IS NOT NULL';
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_configs_grace ON public.webhook_configs(previous_secret_expires_at)
+    WHERE previous_secret_expires_at IS NOT NULL;
+
+COMMENT ON COLUMN public.webhook_configs.secret_encrypted IS 'pgp_sym_encrypt ciphertext of the current secret; read through get_webhook_secrets()';
+COMMENT ON COLUMN public.webhook_configs.previous_secret_encrypted IS 'Secret replaced by the last rotation, accepted until previous_secret_expires_at';
+COMMENT ON COLUMN public.webhook_configs.secret_version IS 'Incremented by every rotation';
+
+-- ============================================================================
+-- ROTATION AUDIT
+-- ============================================================================
+
+ALTER TABLE public.webhook_request_logs
+ADD COLUMN IF NOT EXISTS event_type TEXT NOT NULL DEFAULT 'request'
+    CHECK (event_type IN ('request', 'secret_issued', 'secret_rotated', 'secret_retired')),
+ADD COLUMN IF NOT EXISTS performed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS details JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_logs_secret_events ON public.webhook_request_logs(webhook_config_id, created_at DESC)
+    WHERE event_type <> 'request';
+
+DROP POLICY IF EXISTS "Staff can view webhook request logs" ON public.webhook_request_logs;
+CREATE POLICY "Staff can view webhook request logs" ON public.webhook_request_logs
+    FOR SELECT USING (is_staff());
+
+COMMENT ON COLUMN public.webhook_request_logs.event_type IS 'request for incoming webhooks; secret_* rows audit the secret lifecycle';
+COMMENT ON COLUMN public.webhook_request_logs.details IS 'Secret version and grace window of secret_* events';
+
+-- ============================================================================
+-- ROTATION FUNCTIONS
+-- ============================================================================
+
+-- Issue a new secret. The current one stays valid for grace_minutes so in-flight callbacks
+-- signed with it still pass; 0 retires it immediately, e.g. after a leak. The plaintext is
+-- returned once and never stored unencrypted.
+CREATE OR REPLACE FUNCTION rotate_webhook_secret(
+    config_uuid UUID,
+    grace_minutes INTEGER DEFAULT 60,
+    new_secret TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    secret TEXT,
+    version INTEGER,
+    grace_ends_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    current_config public.webhook_configs%ROWTYPE;
+    issued TEXT := COALESCE(new_secret, encode(gen_random_bytes(32), 'hex'));
+    grace_end TIMESTAMPTZ;
+    next_version INTEGER;
+BEGIN
+    IF NOT (is_admin() OR auth.role() = 'service_role') THEN
+        RAISE EXCEPTION 'Not authorized to rotate webhook secrets';
+    END IF;
+
+    IF grace_minutes < 0 THEN
+        RAISE EXCEPTION 'Grace period cannot be negative';
+    END IF;
+
+    IF length(issued) < 32 THEN
+        RAISE EXCEPTION 'Webhook secrets must be at least 32 characters';
+    END IF;
+
+    SELECT * INTO current_config FROM public.webhook_configs WHERE id = config_uuid FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Webhook config % not found', config_uuid;
+    END IF;
+
+    -- Only two secrets are ever accepted, so one still in its grace window is retired now
+    IF current_config.previous_secret_expires_at > NOW() THEN
+        INSERT INTO public.webhook_request_logs (webhook_config_id, event_type, performed_by, details)
+        VALUES (config_uuid, 'secret_retired', auth.uid(), jsonb_build_object(
+            'secret_version', current_config.secret_version - 1,
+            'grace_ended_at', NOW(),
+            'reason', 'rotated_again'
+        ));
+    END IF;
+
+    grace_end := CASE
+        WHEN current_config.secret_encrypted IS NOT NULL AND grace_minutes > 0 THEN NOW() + make_interval(mins => grace_minutes)
+    END;
+    next_version := CASE WHEN current_config.secret_encrypted IS NULL THEN current_config.secret_version ELSE current_config.secret_version + 1 END;
+
+    UPDATE public.webhook_configs
+    SET previous_secret_encrypted = CASE WHEN grace_end IS NOT NULL THEN current_config.secret_encrypted END,
+        previous_secret_expires_at = grace_end,
+        secret_encrypted = pgp_sym_encrypt(issued, webhook_secret_key()),
+        secret_version = next_version,
+        secret_rotated_at = NOW()
+    WHERE id = config_uuid;
+
+    INSERT INTO public.webhook_request_logs (webhook_config_id, event_type, performed_by, details)
+    VALUES (
+        config_uuid,
+        CASE WHEN current_config.secret_encrypted IS NULL THEN 'secret_issued' ELSE 'secret_rotated' END,
+        auth.uid(),
+        jsonb_build_object(
+            'secret_version', next_version,
+            'grace_minutes', grace_minutes,
+            'previous_secret_expires_at', grace_end
+        )
+    );
+
+    RETURN QUERY SELECT issued, next_version, grace_end;
+END;
+$$;
+
+-- Decrypted secrets the security service validates against; a previous secret past its
+-- grace window is never returned, even before retire_expired_webhook_secrets() runs
+CREATE OR REPLACE FUNCTION get_webhook_secrets(config_uuid UUID DEFAULT NULL)
+RETURNS TABLE (
+    config_id UUID,
+    current_secret TEXT,
+    previous_secret TEXT,
+    previous_expires_at TIMESTAMPTZ,
+    version INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF NOT (is_staff() OR auth.role() = 'service_role') THEN
+        RAISE EXCEPTION 'Not authorized to read webhook secrets';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        c.id,
+        pgp_sym_decrypt(c.secret_encrypted, webhook_secret_key()),
+        CASE WHEN c.previous_secret_expires_at > NOW() THEN pgp_sym_decrypt(c.previous_secret_encrypted, webhook_secret_key()) END,
+        CASE WHEN c.previous_secret_expires_at > NOW() THEN c.previous_secret_expires_at END,
+        c.secret_version
+    FROM public.webhook_configs c
+    WHERE c.secret_encrypted IS NOT NULL
+      AND COALESCE(c.active, true)
+      AND (config_uuid IS NULL OR c.id = config_uuid);
+END;
+$$;
+
+-- Drop previous secrets whose grace window has ended and audit each retirement
+CREATE OR REPLACE FUNCTION retire_expired_webhook_secrets()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    retired_count INTEGER;
+BEGIN
+    IF NOT (is_staff() OR auth.role() = 'service_role') THEN
+        RAISE EXCEPTION 'Not authorized to retire webhook secrets';
+    END IF;
+
+    WITH expired AS (
+        SELECT id, secret_version, previous_secret_expires_at
+        FROM public.webhook_configs
+        WHERE previous_secret_expires_at <= NOW()
+        FOR UPDATE
+    ), retired AS (
+        UPDATE public.webhook_configs c
+        SET previous_secret_encrypted = NULL,
+            previous_secret_expires_at = NULL
+        FROM expired e
+        WHERE c.id = e.id
+        RETURNING c.id
+    )
+    INSERT INTO public.webhook_request_logs (webhook_config_id, event_type, details)
+    SELECT e.id, 'secret_retired', jsonb_build_object(
+        'secret_version', e.secret_version - 1,
+        'grace_ended_at', e.previous_secret_expires_at,
+        'reason', 'grace_period_ended'
+    )
+    FROM expired e
+    JOIN retired r ON r.id = e.id;
+
+    GET DIAGNOSTICS retired_count = ROW_COUNT;
+    RETURN retired_count;
+END;
+$$;
+
+-- ============================================================================
+-- REQUEST STATISTICS
+-- ============================================================================
+
+-- Keep the audit trail when old request logs are cleaned up
+CREATE OR REPLACE FUNCTION cleanup_webhook_logs()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    DELETE FROM public.webhook_request_logs
+    WHERE created_at < NOW() - INTERVAL '30 days'
+      AND event_type = 'request';
+
+    -- Log cleanup event
+    INSERT INTO public.events (
+        entity_type,
+        entity_id,
+        event_type,
+        event_data
+    ) VALUES (
+        'system',
+        'webhook_cleanup',
+        'logs_cleaned',
+        jsonb_build_object(
+            'cleaned_at', NOW(),
+            'retention_days', 30
+        )
+    );
+END;
+$$;
+
+-- Audit rows are not requests
+CREATE OR REPLACE FUNCTION get_webhook_security_stats(
+    config_id UUID DEFAULT NULL,
+    hours_back INTEGER DEFAULT 24
+)
+RETURNS TABLE (
+    total_requests BIGINT,
+    successful_requests BIGINT,
+    failed_requests BIGINT,
+    rate_limited_requests BIGINT,
+    unique_ips BIGINT,
+    avg_response_time NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        COUNT(*) as total_requests,
+        COUNT(*) FILTER (WHERE validation_result = 'success') as successful_requests,
+        COUNT(*) FILTER (WHERE validation_result != 'success') as failed_requests,
+        COUNT(*) FILTER (WHERE validation_result = 'rate_limited') as rate_limited_requests,
+        COUNT(DISTINCT request_ip) as unique_ips,
+        ROUND(AVG(response_time_ms), 2) as avg_response_time
+    FROM public.webhook_request_logs
+    WHERE
+        event_type = 'request'
+        AND (config_id IS NULL OR webhook_config_id = config_id)
+        AND created_at >= NOW() - (hours_back || ' hours')::INTERVAL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION detect_suspicious_webhook_activity(
+    hours_back INTEGER DEFAULT 1
+)
+RETURNS TABLE (
+    suspicious_ip INET,
+    request_count BIGINT,
+    failed_count BIGINT,
+    failure_rate NUMERIC,
+    risk_level TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH ip_stats AS (
+        SELECT
+            request_ip,
+            COUNT(*) as total_requests,
+            COUNT(*) FILTER (WHERE validation_result != 'success') as failed_requests
+        FROM public.webhook_request_logs
+        WHERE event_type = 'request'
+          AND created_at >= NOW() - (hours_back || ' hours')::INTERVAL
+        GROUP BY request_ip
+        HAVING COUNT(*) > 10 -- Only consider IPs with significant activity
+    )
+    SELECT
+        ip_stats.request_ip,
+        ip_stats.total_requests,
+        ip_stats.failed_requests,
+        ROUND((ip_stats.failed_requests::NUMERIC / ip_stats.total_requests::NUMERIC) * 100, 2) as failure_rate,
+        CASE
+            WHEN (ip_stats.failed_requests::NUMERIC / ip_stats.total_requests::NUMERIC) > 0.8 THEN 'HIGH'
+            WHEN (ip_stats.failed_requests::NUMERIC / ip_stats.total_requests::NUMERIC) > 0.5 THEN 'MEDIUM'
+            WHEN ip_stats.total_requests > 100 THEN 'WATCH'
+            ELSE 'LOW'
+        END as risk_level
+    FROM ip_stats
+    ORDER BY failure_rate DESC, total_requests DESC;
+END;
+$$;
+
+-- Schedule secret retirement (every 5 minutes); the security service also runs it hourly
+-- SELECT cron.schedule('webhook-secret-retirement', '*/5 * * * *', 'SELECT retire_expired_webhook_secrets();');
+
+-- Log migration completion
+INSERT INTO public.events (
+    entity_type,
+    entity_id,
+    event_type,
+    event_data,
+    security_level
+) VALUES (
+    'migration',
+    '20250817000016',
+    'system.webhook_secret_rotation_deployed',
+    jsonb_build_object(
+        'migration_version', '20250817000016',
+        'completed_at', NOW(),
+        'features_added', ARRAY[
+            'encrypted_webhook_secrets',
+            'webhook_secret_rotation',
+            'webhook_secret_grace_period',
+            'webhook_secret_audit'
+        ]
+    ),
+    'info'
+);
+
+SELECT 'Webhook secret rotation migration completed successfully' as status;